@@ -0,0 +1,289 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import PlaybookBadge from "../../components/PlaybookBadge";
+import Sidebar from "../../components/Sidebar";
+import type { PortfolioAnalytics, ScoreGroup } from "../../lib/analytics";
+import { readJsonResponse } from "../../lib/clientApi";
+import type { RiskLevel, UserAccount } from "../../lib/types";
+
+const RISK_LEVELS: RiskLevel[] = ["High", "Medium", "Low"];
+
+const BAR_COLOURS: Record<RiskLevel, string> = {
+  High: "bg-red-500",
+  Medium: "bg-amber-500",
+  Low: "bg-emerald-500",
+};
+
+const cardClass = "border rounded-xl p-4 shadow-sm bg-white";
+
+function formatDays(days: number | null): string {
+  if (days === null) return "—";
+  return days < 1 ? `${Math.round(days * 24)} h` : `${days.toFixed(1)} d`;
+}
+
+function formatMonth(month: string): string {
+  const [year, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, m - 1, 1)).toLocaleDateString(undefined, {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// One bar per group, scaled to the highest average.
+function ScoreBars({ title, groups }: { title: string; groups: ScoreGroup[] }) {
+  const max = Math.max(1, ...groups.map((g) => g.averageScore));
+  return (
+    <div className={cardClass}>
+      <p className="text-xs font-semibold text-gray-600 mb-1">{title}</p>
+      <div className="mt-3 space-y-3">
+        {groups.length === 0 && <p className="text-xs text-gray-400">No projects yet.</p>}
+        {groups.map((g) => (
+          <div key={g.key} className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-600">
+              <span className="truncate mr-2">
+                {g.key}
+                <span className="ml-1 text-gray-400">
+                  ({g.projects} project{g.projects === 1 ? "" : "s"})
+                </span>
+              </span>
+              <span>{g.averageScore.toFixed(2)}</span>
+            </div>
+            <div className="w-full h-2.5 rounded-full bg-gray-100 overflow-hidden">
+              <div
+                className="h-full bg-emerald-600"
+                style={{ width: `${(g.averageScore / max) * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function AnalyticsPage() {
+  const router = useRouter();
+  const [session, setSession] = useState<UserAccount | null>(null);
+  const [data, setData] = useState<PortfolioAnalytics | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const meRes = await fetch("/api/auth/me", { cache: "no-store" });
+        if (meRes.status === 401) {
+          router.replace("/login");
+          return;
+        }
+        setSession(await readJsonResponse<UserAccount>(meRes, "Loading your account"));
+        const res = await fetch("/api/analytics", { cache: "no-store" });
+        setData(await readJsonResponse<PortfolioAnalytics>(res, "Loading analytics"));
+      } catch (err) {
+        console.warn("Loading analytics failed", err);
+        setLoadError(err instanceof Error ? err.message : "Analytics could not be loaded.");
+      }
+    };
+    load();
+  }, [router]);
+
+  const monthMax = Math.max(
+    1,
+    ...(data?.riskOverTime ?? []).map((m) => RISK_LEVELS.reduce((n, r) => n + m.counts[r], 0))
+  );
+  const resolution = data?.resolution;
+
+  return (
+    <div className="flex min-h-screen bg-gray-50">
+      {/* SIDEBAR */}
+      <Sidebar session={session} />
+
+      {/* MAIN CONTENT */}
+      <main className="flex-1 p-6 space-y-4">
+        <div>
+          <h1 className="text-lg font-semibold text-gray-800">Analytics</h1>
+          {data && (
+            <p className="text-xs text-gray-500">
+              Across {data.projectCount} project{data.projectCount === 1 ? "" : "s"}
+              {session?.role === "submitter" ? " you submitted" : ""} · generated{" "}
+              {new Date(data.generatedAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+
+        {loadError && <p className="text-xs text-red-700">{loadError}</p>}
+        {!data && !loadError && <p className="text-xs text-gray-400">Loading analytics…</p>}
+
+        {data && resolution && (
+          <>
+            {/* Risk level distribution over time */}
+            <div className={cardClass}>
+              <p className="text-xs font-semibold text-gray-600 mb-1">
+                Risk Level Distribution Over Time
+              </p>
+              <p className="text-[11px] text-gray-400">
+                Projects by the risk level of their latest run at the end of each month.
+              </p>
+              <div className="mt-3 space-y-2">
+                {data.riskOverTime.length === 0 && (
+                  <p className="text-xs text-gray-400">No projects yet.</p>
+                )}
+                {data.riskOverTime.map((m) => (
+                  <div key={m.month} className="flex items-center gap-3 text-xs text-gray-600">
+                    <span className="w-20 shrink-0">{formatMonth(m.month)}</span>
+                    <div className="flex-1 h-3 rounded-full bg-gray-100 overflow-hidden flex">
+                      {RISK_LEVELS.map((r) => (
+                        <div
+                          key={r}
+                          className={`h-full ${BAR_COLOURS[r]}`}
+                          style={{ width: `${(m.counts[r] / monthMax) * 100}%` }}
+                          title={`${r}: ${m.counts[r]}`}
+                        />
+                      ))}
+                    </div>
+                    <span className="w-28 shrink-0 text-right text-[11px] text-gray-500">
+                      {RISK_LEVELS.map((r) => m.counts[r]).join(" / ")}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-3 flex gap-3 text-[10px] text-gray-500">
+                {RISK_LEVELS.map((r) => (
+                  <div key={r} className="flex items-center gap-1">
+                    <span className={`inline-block h-2 w-2 rounded-full ${BAR_COLOURS[r]}`} />
+                    {r} Risk
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Average score by supplier / user */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <ScoreBars title="Average Weighted Score by Supplier" groups={data.scoreBySupplier} />
+              <ScoreBars title="Average Weighted Score by User" groups={data.scoreByUser} />
+            </div>
+
+            {/* Most frequent deviations */}
+            <div className="bg-white rounded-xl border shadow-sm overflow-auto">
+              <p className="px-4 pt-4 text-xs font-semibold text-gray-600">
+                Most Frequently Deviating Clauses
+              </p>
+              <p className="px-4 pb-3 text-[11px] text-gray-400">
+                From each project&apos;s latest run, with the playbook positions suppliers moved to.
+              </p>
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-100 text-gray-600 text-[11px] uppercase">
+                  <tr>
+                    <th className="p-3 border-b text-left">Clause</th>
+                    <th className="p-3 border-b text-left">Category</th>
+                    <th className="p-3 border-b text-left">Projects</th>
+                    <th className="p-3 border-b text-left">Average Score</th>
+                    <th className="p-3 border-b text-left">Playbook Positions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.clauseFrequency.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="p-3 text-gray-400">
+                        No deviations recorded.
+                      </td>
+                    </tr>
+                  )}
+                  {data.clauseFrequency.map((c) => (
+                    <tr key={c.clause} className="border-b last:border-b-0">
+                      <td className="p-3 font-medium">{c.clause}</td>
+                      <td className="p-3 text-gray-500">{c.category ?? "—"}</td>
+                      <td className="p-3 whitespace-nowrap">
+                        {c.projects}{" "}
+                        <span className="text-gray-400">({Math.round(c.share * 100)}%)</span>
+                      </td>
+                      <td className="p-3">{c.averageScore.toFixed(2)}</td>
+                      <td className="p-3">
+                        <div className="flex flex-wrap gap-1">
+                          {c.positions.length === 0 && <span className="text-gray-400">—</span>}
+                          {c.positions.map((p) => (
+                            <span
+                              key={p.match.positionId}
+                              className="inline-flex items-center gap-1"
+                            >
+                              <PlaybookBadge match={p.match} />
+                              <span className="text-[10px] text-gray-500">×{p.count}</span>
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Time to resolution */}
+            <div className="bg-white rounded-xl border shadow-sm overflow-auto">
+              <p className="px-4 pt-4 text-xs font-semibold text-gray-600">
+                Time to Resolution
+              </p>
+              <p className="px-4 text-[11px] text-gray-400">
+                From the first iteration until a run has every deviation accepted, or none left.
+              </p>
+              <div className="px-4 py-3 grid grid-cols-2 md:grid-cols-5 gap-4">
+                {[
+                  ["Resolved", String(resolution.resolved)],
+                  ["Open", String(resolution.open)],
+                  ["Average", formatDays(resolution.averageDays)],
+                  ["Median", formatDays(resolution.medianDays)],
+                  [
+                    "Average Iterations",
+                    resolution.averageIterations === null
+                      ? "—"
+                      : resolution.averageIterations.toFixed(1),
+                  ],
+                ].map(([label, value]) => (
+                  <div key={label}>
+                    <div className="text-2xl font-bold text-gray-900">{value}</div>
+                    <div className="text-xs text-gray-500 mt-1">{label}</div>
+                  </div>
+                ))}
+              </div>
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-100 text-gray-600 text-[11px] uppercase">
+                  <tr>
+                    <th className="p-3 border-b text-left">Project</th>
+                    <th className="p-3 border-b text-left">First Iteration</th>
+                    <th className="p-3 border-b text-left">Resolved</th>
+                    <th className="p-3 border-b text-left">Iterations</th>
+                    <th className="p-3 border-b text-left">Duration</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {resolution.rows.map((r) => (
+                    <tr key={r.projectId} className="border-b last:border-b-0">
+                      <td className="p-3 font-medium max-w-xs truncate">{r.projectName}</td>
+                      <td className="p-3 whitespace-nowrap">
+                        {new Date(r.startedAt).toLocaleString()}
+                      </td>
+                      <td className="p-3 whitespace-nowrap">
+                        {r.resolvedAt ? (
+                          new Date(r.resolvedAt).toLocaleString()
+                        ) : (
+                          <span className="text-amber-700 font-semibold">Open</span>
+                        )}
+                      </td>
+                      <td className="p-3">{r.iterations}</td>
+                      <td className="p-3 whitespace-nowrap">
+                        {formatDays(r.days)}
+                        {!r.resolvedAt && <span className="ml-1 text-gray-400">so far</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { visibleProjects } from "../../../lib/access";
+import { portfolioAnalytics } from "../../../lib/analytics";
+import { requireUser } from "../../../lib/auth";
+import { errorResponse } from "../../../lib/http";
+import { listSuppliers } from "../../../lib/supplierStore";
+
+// Portfolio analytics over the projects the caller can see.
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req);
+    const projects = await visibleProjects(user);
+    return NextResponse.json(portfolioAnalytics(projects, await listSuppliers()));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
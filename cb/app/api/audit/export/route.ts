@@ -0,0 +1,46 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireUser } from "../../../../lib/auth";
+import {
+  AUDIT_EXPORT_FORMATS,
+  exportAudit,
+  parseAuditQuery,
+  recordAudit,
+  renderAuditCsv,
+  renderAuditJsonLines,
+  type AuditExportFormat,
+} from "../../../../lib/auditStore";
+import { ValidationError } from "../../../../lib/errors";
+import { contentDisposition, errorResponse } from "../../../../lib/http";
+
+// The filtered log as ?format=csv|jsonl (default csv), oldest first. Paging
+// parameters are ignored; an export always holds every matching entry.
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req, ["admin"]);
+    const params = new URL(req.url).searchParams;
+    const format = params.get("format") ?? "csv";
+    if (!AUDIT_EXPORT_FORMATS.includes(format as AuditExportFormat)) {
+      throw new ValidationError(`"format" must be one of ${AUDIT_EXPORT_FORMATS.join(", ")}`);
+    }
+
+    const entries = await exportAudit(parseAuditQuery(params));
+    await recordAudit(user, "audit.export", { detail: `${format}, ${entries.length} entries` });
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    const body = format === "csv" ? renderAuditCsv(entries) : renderAuditJsonLines(entries);
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type":
+          format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8",
+        "Content-Disposition": contentDisposition(`audit-log-${stamp}.${format}`, "attachment"),
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,19 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireUser } from "../../../lib/auth";
+import { parseAuditQuery, queryAudit } from "../../../lib/auditStore";
+import { errorResponse } from "../../../lib/http";
+
+// Audit entries, newest first:
+// ?action=&username=&projectId=&from=&to=&offset=&limit= -> { entries, total }.
+export async function GET(req: Request) {
+  try {
+    await requireUser(req, ["admin"]);
+    const query = parseAuditQuery(new URL(req.url).searchParams);
+    return NextResponse.json(await queryAudit(query));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,26 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { sessionCookie } from "../../../../lib/auth";
+import { UnauthorizedError, ValidationError } from "../../../../lib/errors";
+import { errorResponse, readJsonObject } from "../../../../lib/http";
+import { authenticate } from "../../../../lib/userStore";
+
+// { username, password } -> the account, with a session cookie.
+export async function POST(req: Request) {
+  try {
+    const { username, password } = await readJsonObject(req);
+    if (typeof username !== "string" || typeof password !== "string") {
+      throw new ValidationError(`"username" and "password" are required`);
+    }
+    const user = await authenticate(username.trim(), password);
+    if (!user) throw new UnauthorizedError("Incorrect username or password");
+
+    return NextResponse.json(user, {
+      headers: { "Set-Cookie": await sessionCookie(user.username) },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,12 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { clearedSessionCookie } from "../../../../lib/auth";
+
+export async function POST() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: { "Set-Cookie": clearedSessionCookie() },
+  });
+}
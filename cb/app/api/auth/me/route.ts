@@ -0,0 +1,15 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireUser } from "../../../../lib/auth";
+import { errorResponse } from "../../../../lib/http";
+
+// The signed-in account; 401 when there is no valid session.
+export async function GET(req: Request) {
+  try {
+    return NextResponse.json(await requireUser(req));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,18 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireUser } from "../../../../lib/auth";
+import { getBaselineTemplate } from "../../../../lib/baselineStore";
+import { errorResponse } from "../../../../lib/http";
+
+type Params = { params: { id: string } };
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    await requireUser(req);
+    return NextResponse.json(await getBaselineTemplate(params.id));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
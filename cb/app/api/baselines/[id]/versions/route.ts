@@ -0,0 +1,24 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireDocument } from "../../../../../lib/access";
+import { requireUser } from "../../../../../lib/auth";
+import { addBaselineVersion, parseVersionInput } from "../../../../../lib/baselineStore";
+import { errorResponse, readJsonObject } from "../../../../../lib/http";
+import { REVIEWER_ROLES } from "../../../../../lib/roles";
+
+type Params = { params: { id: string } };
+
+// Publishes a new version: { version, effectiveDate, changeLog, documentId }.
+// Returns the updated template.
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req, REVIEWER_ROLES);
+    const input = parseVersionInput(await readJsonObject(req));
+    await requireDocument(user, input.documentId);
+    return NextResponse.json(await addBaselineVersion(params.id, input), { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
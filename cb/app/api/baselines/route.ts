@@ -0,0 +1,35 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireDocument } from "../../../lib/access";
+import { requireUser } from "../../../lib/auth";
+import {
+  createBaselineTemplate,
+  listBaselineTemplates,
+  parseTemplateInput,
+} from "../../../lib/baselineStore";
+import { errorResponse, readJsonObject } from "../../../lib/http";
+import { REVIEWER_ROLES } from "../../../lib/roles";
+
+export async function GET(req: Request) {
+  try {
+    await requireUser(req);
+    return NextResponse.json(await listBaselineTemplates());
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// Creates a template with its first version:
+// { name, contractType, description?, version, effectiveDate, changeLog, documentId }
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req, REVIEWER_ROLES);
+    const input = parseTemplateInput(await readJsonObject(req));
+    await requireDocument(user, input.firstVersion.documentId);
+    return NextResponse.json(await createBaselineTemplate(input), { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
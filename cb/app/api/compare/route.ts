@@ -0,0 +1,30 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireDocument } from "../../../lib/access";
+import { analyzeDocuments } from "../../../lib/analysis";
+import { requireUser } from "../../../lib/auth";
+import { recordDocumentViews } from "../../../lib/auditStore";
+import { ValidationError } from "../../../lib/errors";
+import { errorResponse, readJsonObject } from "../../../lib/http";
+
+// Compares two stored documents without touching any project:
+// { baselineDocumentId, supplierDocumentId } -> { pairs, deviations }
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req);
+    const body = await readJsonObject(req);
+    const { baselineDocumentId, supplierDocumentId } = body;
+    if (typeof baselineDocumentId !== "string" || typeof supplierDocumentId !== "string") {
+      throw new ValidationError(`"baselineDocumentId" and "supplierDocumentId" are required`);
+    }
+    await requireDocument(user, baselineDocumentId);
+    await requireDocument(user, supplierDocumentId);
+    // The clause pairs carry the text of both documents.
+    await recordDocumentViews(user, [supplierDocumentId, baselineDocumentId]);
+    return NextResponse.json(await analyzeDocuments(baselineDocumentId, supplierDocumentId));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
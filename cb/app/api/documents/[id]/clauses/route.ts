@@ -0,0 +1,29 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireDocument } from "../../../../../lib/access";
+import { requireUser } from "../../../../../lib/auth";
+import { recordAudit } from "../../../../../lib/auditStore";
+import { readDocumentBytes } from "../../../../../lib/documentStore";
+import { extractDocumentClauses } from "../../../../../lib/documentText";
+import { errorResponse } from "../../../../../lib/http";
+
+type Params = { params: { id: string } };
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req);
+    const doc = await requireDocument(user, params.id);
+    await recordAudit(user, "document.view", { documentId: doc.id, detail: doc.title });
+    const clauses = await extractDocumentClauses(await readDocumentBytes(doc), doc.contentType);
+    return NextResponse.json({
+      documentId: doc.id,
+      title: doc.title,
+      contentType: doc.contentType,
+      clauses,
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,75 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import fs from "node:fs";
+import { Readable } from "node:stream";
+import { requireDocument } from "../../../../lib/access";
+import { requireUser } from "../../../../lib/auth";
+import { recordAudit } from "../../../../lib/auditStore";
+import { documentFilePath, type DocumentRecord } from "../../../../lib/documentStore";
+import { NotFoundError } from "../../../../lib/errors";
+import { contentDisposition, errorResponse } from "../../../../lib/http";
+
+type Params = { params: { id: string } };
+
+async function resolve(req: Request, id: string) {
+  const user = await requireUser(req);
+  const doc = await requireDocument(user, id);
+  const filePath = documentFilePath(doc);
+
+  let stat: fs.Stats;
+  try {
+    stat = await fs.promises.stat(filePath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new NotFoundError(`File for document ${id} is missing`);
+    }
+    throw err;
+  }
+
+  // Size + mtime is enough to change whenever the stored file is replaced.
+  const etag = `"${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`;
+  return { user, doc, filePath, stat, etag };
+}
+
+function headersFor(doc: DocumentRecord, size: number, etag: string): HeadersInit {
+  return {
+    "Content-Type": doc.contentType,
+    "Content-Length": String(size),
+    "Content-Disposition": contentDisposition(doc.title),
+    ETag: etag,
+    "Cache-Control": "private, no-cache",
+  };
+}
+
+// Every fetch of the file is audited, including revalidations answered from
+// the browser cache.
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { user, doc, filePath, stat, etag } = await resolve(req, params.id);
+    await recordAudit(user, "document.view", { documentId: doc.id, detail: doc.title });
+
+    if (req.headers.get("if-none-match") === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
+
+    const stream = Readable.toWeb(fs.createReadStream(filePath)) as ReadableStream<Uint8Array>;
+    return new NextResponse(stream, {
+      status: 200,
+      headers: headersFor(doc, stat.size, etag),
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function HEAD(req: Request, { params }: Params) {
+  try {
+    const { doc, stat, etag } = await resolve(req, params.id);
+    return new NextResponse(null, { status: 200, headers: headersFor(doc, stat.size, etag) });
+  } catch (err) {
+    // HEAD responses carry no body, so only the error's status is kept.
+    return new NextResponse(null, { status: errorResponse(err).status });
+  }
+}
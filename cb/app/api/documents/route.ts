@@ -0,0 +1,46 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireUser } from "../../../lib/auth";
+import { documentContentTypes } from "../../../lib/documentFormats";
+import { createDocument, documentUrl } from "../../../lib/documentStore";
+import { checkUploadedDocument } from "../../../lib/documentText";
+import { ValidationError } from "../../../lib/errors";
+import { errorResponse } from "../../../lib/http";
+import { checkUploadFile } from "../../../lib/uploads";
+
+// Accepts a multipart upload with a single `file` field holding a DOCX, PDF or
+// DOC. The format is detected from the file's bytes and stored as its type.
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req);
+    let form: FormData;
+    try {
+      form = await req.formData();
+    } catch {
+      throw new ValidationError("Request body must be multipart/form-data");
+    }
+
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      throw new ValidationError(`"file" must be an uploaded file`);
+    }
+
+    const problem = checkUploadFile(file);
+    if (problem) throw new ValidationError(problem);
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const format = await checkUploadedDocument(bytes);
+
+    const doc = await createDocument({
+      title: file.name,
+      contentType: documentContentTypes[format],
+      bytes,
+      uploadedBy: user.username,
+    });
+    return NextResponse.json({ ...doc, url: documentUrl(doc.id) }, { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,20 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireJob } from "../../../../../lib/access";
+import { requireUser } from "../../../../../lib/auth";
+import { errorResponse } from "../../../../../lib/http";
+import { cancelJob } from "../../../../../lib/jobStore";
+
+type Params = { params: { id: string } };
+
+// Cancels a queued job, or asks a running one to stop; returns the job.
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const job = await requireJob(await requireUser(req), params.id);
+    return NextResponse.json(await cancelJob(job.id));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,67 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireJob } from "../../../../../lib/access";
+import { requireUser } from "../../../../../lib/auth";
+import { errorResponse } from "../../../../../lib/http";
+import { startJobRunner } from "../../../../../lib/jobRunner";
+import { isJobActive } from "../../../../../lib/jobs";
+import { getJob } from "../../../../../lib/jobStore";
+
+type Params = { params: { id: string } };
+
+// How often the stored job is checked for changes.
+const POLL_MS = 500;
+
+// Server-sent events: a `job` event with the whole job each time it changes,
+// starting with its current state. The stream ends once the job has finished.
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const first = await requireJob(await requireUser(req), params.id);
+    startJobRunner();
+
+    const encoder = new TextEncoder();
+    let closed = false; // the client went away
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          const frame = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+          if (!closed) controller.enqueue(encoder.encode(frame));
+        };
+        let job = first;
+        let sent = "";
+        try {
+          while (!closed && !req.signal.aborted) {
+            const json = JSON.stringify(job);
+            if (json !== sent) {
+              send("job", job);
+              sent = json;
+            }
+            if (!isJobActive(job)) break;
+            await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+            job = await getJob(job.id);
+          }
+        } catch (err) {
+          console.warn(`Streaming job ${first.id} failed`, err);
+          send("error", { error: "The job could not be read" });
+        }
+        if (!closed) controller.close();
+      },
+      cancel() {
+        closed = true;
+      },
+    });
+
+    return new NextResponse(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,23 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireJob } from "../../../../../lib/access";
+import { requireUser } from "../../../../../lib/auth";
+import { errorResponse } from "../../../../../lib/http";
+import { startJobRunner } from "../../../../../lib/jobRunner";
+import { retryJob } from "../../../../../lib/jobStore";
+
+type Params = { params: { id: string } };
+
+// Queues a failed or cancelled job again from its first stage.
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const job = await requireJob(await requireUser(req), params.id);
+    const queued = await retryJob(job.id);
+    startJobRunner();
+    return NextResponse.json(queued, { status: 202 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
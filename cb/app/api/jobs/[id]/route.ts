@@ -0,0 +1,17 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireJob } from "../../../../lib/access";
+import { requireUser } from "../../../../lib/auth";
+import { errorResponse } from "../../../../lib/http";
+
+type Params = { params: { id: string } };
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    return NextResponse.json(await requireJob(await requireUser(req), params.id));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,36 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireUser } from "../../../lib/auth";
+import { errorResponse, readJsonObject } from "../../../lib/http";
+import { enqueueAnalysis, startJobRunner } from "../../../lib/jobRunner";
+import { canViewJob } from "../../../lib/jobs";
+import { listJobs, matchesJobQuery, parseJobQuery } from "../../../lib/jobStore";
+
+// The caller's analysis jobs (reviewers see everyone's), newest first.
+// Filter with repeated ?status= and ?id= parameters; poll this to follow
+// progress, or use /api/jobs/:id/events.
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req);
+    const query = parseJobQuery(new URL(req.url).searchParams);
+    startJobRunner();
+    const jobs = await listJobs();
+    return NextResponse.json(jobs.filter((j) => canViewJob(user, j) && matchesJobQuery(j, query)));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// Queues an analysis; see lib/jobRunner for the body. Answers 202 with the
+// queued job.
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req);
+    const job = await enqueueAnalysis(user, await readJsonObject(req));
+    return NextResponse.json(job, { status: 202 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,17 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireUser } from "../../../lib/auth";
+import { errorResponse } from "../../../lib/http";
+import { playbook } from "../../../lib/playbook";
+
+// The clause playbook deviations are matched against (config/playbook.json).
+export async function GET(req: Request) {
+  try {
+    await requireUser(req);
+    return NextResponse.json(playbook);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,32 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireProject } from "../../../../../lib/access";
+import { analyzeProject } from "../../../../../lib/analysis";
+import { requireUser } from "../../../../../lib/auth";
+import { deviationChanges, projectRiskChanges, recordAudit } from "../../../../../lib/auditStore";
+import { errorResponse } from "../../../../../lib/http";
+import { REVIEWER_ROLES } from "../../../../../lib/roles";
+
+type Params = { params: { id: string } };
+
+// Regenerates the project's deviations from its supplier and baseline documents.
+// Reviewers only, since it rewrites the rows they review.
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req, REVIEWER_ROLES);
+    const before = await requireProject(user, params.id);
+    const project = await analyzeProject(params.id);
+    await recordAudit(user, "project.analyze", {
+      projectId: project.id,
+      changes: projectRiskChanges(before, project),
+    });
+    for (const change of deviationChanges(before, project)) {
+      await recordAudit(user, "deviation.update", change);
+    }
+    return NextResponse.json(project);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
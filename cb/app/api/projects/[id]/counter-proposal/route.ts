@@ -0,0 +1,42 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireProject } from "../../../../../lib/access";
+import { requireUser } from "../../../../../lib/auth";
+import { recordAudit } from "../../../../../lib/auditStore";
+import { buildCounterProposal } from "../../../../../lib/counterProposal";
+import { DOCX_CONTENT_TYPE } from "../../../../../lib/documentStore";
+import { contentDisposition, errorResponse } from "../../../../../lib/http";
+import { REVIEWER_ROLES } from "../../../../../lib/roles";
+
+type Params = { params: { id: string } };
+
+// Supplier DOCX with every rejected deviation reverted to the baseline as a
+// tracked change, authored by the signed-in reviewer.
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req, REVIEWER_ROLES);
+    await requireProject(user, params.id);
+    const proposal = await buildCounterProposal(params.id, user.displayName);
+    await recordAudit(user, "counter-proposal.export", {
+      projectId: params.id,
+      detail: `${proposal.revised} revised`,
+    });
+    return new NextResponse(proposal.bytes, {
+      status: 200,
+      headers: {
+        "Content-Type": DOCX_CONTENT_TYPE,
+        "Content-Length": String(proposal.bytes.byteLength),
+        "Content-Disposition": contentDisposition(proposal.fileName, "attachment"),
+        "Cache-Control": "no-store",
+        // Clauses left for manual edits, so the UI can warn about them.
+        "X-Redline-Revised": String(proposal.revised),
+        "X-Redline-Commented": encodeURIComponent(proposal.commented.join(", ")),
+        "X-Redline-Skipped": encodeURIComponent(proposal.skipped.join(", ")),
+      },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,23 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireProject } from "../../../../../../../lib/access";
+import { requireUser } from "../../../../../../../lib/auth";
+import { errorResponse, readJsonObject } from "../../../../../../../lib/http";
+import { addDeviationComment, parseCommentInput } from "../../../../../../../lib/projectStore";
+
+type Params = { params: { id: string; deviationId: string } };
+
+// Adds a comment by the signed-in user to a deviation's thread: { body, parentId? }.
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req);
+    await requireProject(user, params.id);
+    const input = { ...parseCommentInput(await readJsonObject(req)), author: user.displayName };
+    const project = await addDeviationComment(params.id, params.deviationId, input);
+    return NextResponse.json(project, { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,26 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireProject } from "../../../../../../../lib/access";
+import { requireUser } from "../../../../../../../lib/auth";
+import { recordAudit, reviewChanges } from "../../../../../../../lib/auditStore";
+import { errorResponse, readJsonObject } from "../../../../../../../lib/http";
+import { parseReviewPatch, updateDeviationReview } from "../../../../../../../lib/projectStore";
+import { REVIEWER_ROLES } from "../../../../../../../lib/roles";
+
+type Params = { params: { id: string; deviationId: string } };
+
+// Records a decision on one deviation of the latest run: { status?, assignee? }.
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req, REVIEWER_ROLES);
+    const before = await requireProject(user, params.id);
+    const patch = parseReviewPatch(await readJsonObject(req));
+    const project = await updateDeviationReview(params.id, params.deviationId, patch);
+    await recordAudit(user, "review.decision", reviewChanges(before, project, params.deviationId));
+    return NextResponse.json(project);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,32 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireProject } from "../../../../../../lib/access";
+import { requireUser } from "../../../../../../lib/auth";
+import { NotFoundError } from "../../../../../../lib/errors";
+import { errorResponse } from "../../../../../../lib/http";
+import { compareIterations, projectIterations } from "../../../../../../lib/iterations";
+
+type Params = { params: { id: string } };
+
+// ?from=<iteration id>&to=<iteration id>; defaults to the previous and latest runs.
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const runs = projectIterations(await requireProject(await requireUser(req), params.id));
+    const query = new URL(req.url).searchParams;
+
+    const find = (id: string | null, fallback: number) => {
+      if (!id) return runs[Math.max(0, fallback)];
+      const run = runs.find((r) => r.id === id);
+      if (!run) throw new NotFoundError(`Iteration ${id} not found`);
+      return run;
+    };
+    const to = find(query.get("to"), runs.length - 1);
+    const from = find(query.get("from"), runs.indexOf(to) - 1);
+
+    return NextResponse.json(compareIterations(from, to));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
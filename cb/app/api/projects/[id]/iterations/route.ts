@@ -0,0 +1,45 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireDocument, requireProject } from "../../../../../lib/access";
+import { parseIterationDocuments, runIteration } from "../../../../../lib/analysis";
+import { requireUser } from "../../../../../lib/auth";
+import { projectRiskChanges, recordAudit } from "../../../../../lib/auditStore";
+import { errorResponse, readJsonObject } from "../../../../../lib/http";
+import { projectIterations } from "../../../../../lib/iterations";
+
+type Params = { params: { id: string } };
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const project = await requireProject(await requireUser(req), params.id);
+    return NextResponse.json(projectIterations(project));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// Starts a new iteration: { supplierDocumentId, baselineDocumentId? } or
+// { supplierDocumentId, baselineTemplateId, baselineVersionId? }. The baseline
+// defaults to the one the latest iteration used.
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req);
+    const before = await requireProject(user, params.id);
+    const documents = parseIterationDocuments(await readJsonObject(req));
+    await requireDocument(user, documents.supplierDocumentId);
+    if (documents.baselineDocumentId !== undefined) {
+      await requireDocument(user, documents.baselineDocumentId);
+    }
+    const project = await runIteration(params.id, documents);
+    await recordAudit(user, "iteration.create", {
+      projectId: project.id,
+      detail: `Iteration ${projectIterations(project).length}`,
+      changes: projectRiskChanges(before, project),
+    });
+    return NextResponse.json(project, { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
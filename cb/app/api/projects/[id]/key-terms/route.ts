@@ -0,0 +1,27 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireProject } from "../../../../../lib/access";
+import { iterationDocumentIds, iterationKeyTerms } from "../../../../../lib/analysis";
+import { requireUser } from "../../../../../lib/auth";
+import { recordDocumentViews } from "../../../../../lib/auditStore";
+import { errorResponse } from "../../../../../lib/http";
+
+type Params = { params: { id: string } };
+
+// Key terms of the supplier contract and its baseline, compared term by term;
+// ?iteration=<id> picks an older run.
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req);
+    await requireProject(user, params.id);
+    const iterationId = new URL(req.url).searchParams.get("iteration");
+    const run = await iterationDocumentIds(params.id, iterationId);
+    // The response carries the text of both documents.
+    await recordDocumentViews(user, [run.supplierDocumentId, run.baselineDocumentId], params.id);
+    return NextResponse.json(await iterationKeyTerms(params.id, run.iterationId));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
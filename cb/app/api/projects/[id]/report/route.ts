@@ -0,0 +1,38 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireProject } from "../../../../../lib/access";
+import { requireUser } from "../../../../../lib/auth";
+import { recordAudit } from "../../../../../lib/auditStore";
+import { ValidationError } from "../../../../../lib/errors";
+import { contentDisposition, errorResponse } from "../../../../../lib/http";
+import { REPORT_FORMATS, type ReportFormat } from "../../../../../lib/report/reportData";
+import { renderReport } from "../../../../../lib/report/renderReport";
+
+type Params = { params: { id: string } };
+
+// Risk summary report for the latest run: ?format=pdf|docx|csv|xlsx (default pdf).
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req);
+    const project = await requireProject(user, params.id);
+    const format = new URL(req.url).searchParams.get("format") ?? "pdf";
+    if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+      throw new ValidationError(`"format" must be one of ${REPORT_FORMATS.join(", ")}`);
+    }
+
+    const report = await renderReport(project, format as ReportFormat);
+    await recordAudit(user, "report.export", { projectId: project.id, detail: format });
+    return new NextResponse(report.body, {
+      status: 200,
+      headers: {
+        "Content-Type": report.contentType,
+        "Content-Disposition": contentDisposition(report.fileName, "attachment"),
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,22 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireProject } from "../../../../../lib/access";
+import { requireUser } from "../../../../../lib/auth";
+import { recordAudit } from "../../../../../lib/auditStore";
+import { errorResponse } from "../../../../../lib/http";
+
+type Params = { params: { id: string } };
+
+// The project as the Risk Summary modal shows it; each call is an audited view.
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req);
+    const project = await requireProject(user, params.id);
+    await recordAudit(user, "risk-summary.view", { projectId: project.id });
+    return NextResponse.json(project);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
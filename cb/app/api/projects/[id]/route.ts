@@ -0,0 +1,60 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireProject } from "../../../../lib/access";
+import { requireUser } from "../../../../lib/auth";
+import { deviationChanges, recordAudit } from "../../../../lib/auditStore";
+import { ForbiddenError } from "../../../../lib/errors";
+import { errorResponse, readJsonObject } from "../../../../lib/http";
+import { deleteProject, parseProjectPatch, updateProject } from "../../../../lib/projectStore";
+import { REVIEWER_ROLES } from "../../../../lib/roles";
+import { parseSupplierRef, resolveSupplier } from "../../../../lib/supplierStore";
+
+type Params = { params: { id: string } };
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    return NextResponse.json(await requireProject(await requireUser(req), params.id));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// Editing deviations, documents and the linked supplier is for reviewers;
+// handing a project to another user is for admins.
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req, REVIEWER_ROLES);
+    const before = await requireProject(user, params.id);
+    const body = await readJsonObject(req);
+    const patch = parseProjectPatch(body);
+    if (patch.username !== undefined && user.role !== "admin") {
+      throw new ForbiddenError("Only an admin can change a project's owner");
+    }
+    const ref = parseSupplierRef(body);
+    if (ref) patch.supplierId = (await resolveSupplier(ref, user.username)).id;
+    const project = await updateProject(params.id, patch);
+    for (const change of deviationChanges(before, project)) {
+      await recordAudit(user, "deviation.update", change);
+    }
+    return NextResponse.json(project);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req, ["admin"]);
+    const project = await requireProject(user, params.id);
+    await deleteProject(project.id);
+    await recordAudit(user, "project.delete", {
+      projectId: project.id,
+      detail: project.projectName,
+    });
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,64 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireDocumentUrls, visibleProjects } from "../../../lib/access";
+import { requireUser } from "../../../lib/auth";
+import { recordAudit } from "../../../lib/auditStore";
+import { parseBaselineSelection, pinnedBaseline } from "../../../lib/baselineStore";
+import { errorResponse, readJsonObject } from "../../../lib/http";
+import { applyProjectQuery, parseProjectQuery, type ProjectPage } from "../../../lib/projectQuery";
+import { createProject, parseProjectInput } from "../../../lib/projectStore";
+import { projectsMatchingText } from "../../../lib/searchIndex";
+import { parseSupplierRef, resolveSupplier } from "../../../lib/supplierStore";
+
+// One page of the caller's projects (submitters only see their own); see
+// lib/projectQuery for the filter, sort and paging parameters. The search
+// also matches supplier contract and deviation text.
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req);
+    const query = parseProjectQuery(new URL(req.url).searchParams);
+    const projects = await visibleProjects(user);
+    const textMatches = query.search
+      ? await projectsMatchingText(query.search)
+      : new Set<string>();
+    const page: ProjectPage = {
+      ...applyProjectQuery(projects, query, textMatches),
+      users: Array.from(new Set(projects.map((p) => p.username))).sort(),
+    };
+    return NextResponse.json(page);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req);
+    // The signed-in user owns the new project.
+    const body = { ...(await readJsonObject(req)), username: user.username };
+    // A library baseline replaces any baseline document fields in the body.
+    const selection = parseBaselineSelection(body);
+    const library = selection
+      ? await pinnedBaseline(selection.templateId, selection.versionId)
+      : null;
+    const input = parseProjectInput(library ? { ...body, ...library } : body);
+    await requireDocumentUrls(user, [input.supplierDocUrl, input.baselineDocUrl]);
+    // The supplier is named by id or by name; a new name creates the supplier.
+    const ref = parseSupplierRef(body);
+    const supplier = ref ? await resolveSupplier(ref, user.username) : null;
+    const project = await createProject({
+      ...input,
+      ...(library ? { baseline: library.baseline } : {}),
+      ...(supplier ? { supplierId: supplier.id } : {}),
+    });
+    await recordAudit(user, "project.create", {
+      projectId: project.id,
+      detail: project.projectName,
+    });
+    return NextResponse.json(project, { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
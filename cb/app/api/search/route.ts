@@ -0,0 +1,27 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireUser } from "../../../lib/auth";
+import { ValidationError } from "../../../lib/errors";
+import { errorResponse } from "../../../lib/http";
+import { DEFAULT_SEARCH_LIMIT, searchContracts } from "../../../lib/searchIndex";
+
+const MAX_LIMIT = 100;
+
+// Full-text search over the caller's projects: ?q=<words>&limit=<n>. Returns
+// { query, terms, total, hits } with a highlighted snippet per hit.
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req);
+    const params = new URL(req.url).searchParams;
+    const raw = params.get("limit");
+    const limit = raw === null ? DEFAULT_SEARCH_LIMIT : Number(raw);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new ValidationError(`"limit" must be a whole number between 1 and ${MAX_LIMIT}`);
+    }
+    return NextResponse.json(await searchContracts(user, params.get("q") ?? "", limit));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,35 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { visibleProjects } from "../../../../lib/access";
+import { requireUser } from "../../../../lib/auth";
+import { errorResponse, readJsonObject } from "../../../../lib/http";
+import { REVIEWER_ROLES } from "../../../../lib/roles";
+import { getSupplier, parseSupplierName, renameSupplier } from "../../../../lib/supplierStore";
+import { supplierProfile } from "../../../../lib/suppliers";
+
+type Params = { params: { id: string } };
+
+// The supplier's contracts, risk history and repeated deviations, limited to
+// the projects the caller can see.
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req);
+    const supplier = await getSupplier(params.id);
+    return NextResponse.json(supplierProfile(supplier, await visibleProjects(user)));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// { name } -> the renamed supplier.
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    await requireUser(req, REVIEWER_ROLES);
+    const name = parseSupplierName(await readJsonObject(req));
+    return NextResponse.json(await renameSupplier(params.id, name));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
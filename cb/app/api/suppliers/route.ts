@@ -0,0 +1,31 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { visibleProjects } from "../../../lib/access";
+import { requireUser } from "../../../lib/auth";
+import { errorResponse, readJsonObject } from "../../../lib/http";
+import { createSupplier, listSuppliers, parseSupplierName } from "../../../lib/supplierStore";
+import { supplierSummary } from "../../../lib/suppliers";
+
+// Every supplier, with counts over the contracts the caller can see.
+export async function GET(req: Request) {
+  try {
+    const projects = await visibleProjects(await requireUser(req));
+    const suppliers = (await listSuppliers()).map((s) => supplierSummary(s, projects));
+    return NextResponse.json(suppliers.sort((a, b) => a.name.localeCompare(b.name)));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// { name } -> the new supplier.
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req);
+    const name = parseSupplierName(await readJsonObject(req));
+    return NextResponse.json(await createSupplier(name, user.username), { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
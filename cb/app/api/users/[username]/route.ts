@@ -0,0 +1,20 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireUser } from "../../../../lib/auth";
+import { errorResponse, readJsonObject } from "../../../../lib/http";
+import { parseUserPatch, updateUser } from "../../../../lib/userStore";
+
+type Params = { params: { username: string } };
+
+// { displayName?, role?, password? }
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    await requireUser(req, ["admin"]);
+    const patch = parseUserPatch(await readJsonObject(req));
+    return NextResponse.json(await updateUser(params.username, patch));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,27 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireUser } from "../../../lib/auth";
+import { errorResponse, readJsonObject } from "../../../lib/http";
+import { createUser, listUsers, parseUserInput } from "../../../lib/userStore";
+
+export async function GET(req: Request) {
+  try {
+    await requireUser(req, ["admin"]);
+    return NextResponse.json(await listUsers());
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// { username, displayName?, role, password }
+export async function POST(req: Request) {
+  try {
+    await requireUser(req, ["admin"]);
+    const user = await createUser(parseUserInput(await readJsonObject(req)));
+    return NextResponse.json(user, { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { LogIn } from "lucide-react";
+import { readJsonResponse } from "../../lib/clientApi";
+import type { UserAccount } from "../../lib/types";
+
+// TD brand colour
+const TD_GREEN = "#007c41";
+
+const fieldClass =
+  "w-full px-3 py-1.5 text-xs border rounded-full bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: username.trim(), password }),
+      });
+      await readJsonResponse<UserAccount>(res, "Signing in");
+      router.replace("/");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Signing in failed.");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl border shadow-sm w-full max-w-sm overflow-hidden"
+      >
+        <div
+          className="flex items-center gap-3 px-4 py-4 text-white"
+          style={{ backgroundColor: TD_GREEN }}
+        >
+          <div className="bg-white rounded-md h-9 w-9 flex items-center justify-center shadow">
+            <span className="text-[18px] font-extrabold" style={{ color: TD_GREEN }}>
+              TD
+            </span>
+          </div>
+          <div className="flex flex-col leading-tight">
+            <span className="text-xs opacity-80">ContractBuddy</span>
+            <span className="text-sm font-semibold">Sign in</span>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <label className="block space-y-1">
+            <span className="text-xs font-semibold text-gray-600">Username</span>
+            <input
+              type="text"
+              required
+              autoFocus
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className={fieldClass}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-xs font-semibold text-gray-600">Password</span>
+            <input
+              type="password"
+              required
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={fieldClass}
+            />
+          </label>
+          {error && <p className="text-xs text-red-700">{error}</p>}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full inline-flex items-center justify-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-40"
+          >
+            <LogIn size={14} />
+            <span>{submitting ? "Signing in…" : "Sign in"}</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
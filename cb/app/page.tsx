@@ -1,41 +1,63 @@
 "use client";
 
 
-import React, { useState, useEffect, useRef } from "react";
-import * as docxPreview from "docx-preview";
-import { FileText, Eye, X, File, BarChart3 } from "lucide-react";
-
-// TD brand colour
-const TD_GREEN = "#007c41";
-
-/* -------------------------------------------------------------------------- */
-/*                          INTERFACES / DATA MODELS                          */
-/* -------------------------------------------------------------------------- */
-
-interface DeviationRow {
-  clause: string;
-  baseline: string;
-  supplier: string;
-  deviation: string;
-  riskLevel: "Low" | "Medium" | "High";
-  recommendation: string;
-  score: number; // clause-level risk score used for distribution bars
-}
-
-interface ProjectRow {
-  id: string;
-  username: string;
-  projectName: string;
-  createdAt: string; // display string
-  updatedAt: string; // display string
-  riskLevel: "Low" | "Medium" | "High";
-  totalWeightedScore: number;
-  supplierDocTitle: string;
-  baselineDocTitle: string;
-  supplierDocUrl: string; // backend API endpoint returning DOCX bytes
-  baselineDocUrl: string; // backend API endpoint returning DOCX bytes
-  deviations: DeviationRow[];
-}
+import React, { useCallback, useState, useEffect } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  FileText,
+  Eye,
+  X,
+  File,
+  BarChart3,
+  Upload,
+  History,
+  Columns2,
+  Crosshair,
+  Download,
+  Library,
+} from "lucide-react";
+import BaselineLibraryModal from "../components/BaselineLibraryModal";
+import ClauseSourceViewer, { type ClauseFocus } from "../components/ClauseSourceViewer";
+import { CommentThread, ReviewControls } from "../components/DeviationReview";
+import DocumentPane from "../components/DocumentPane";
+import IterationHistoryModal from "../components/IterationHistoryModal";
+import JobRow from "../components/JobRow";
+import KeyTermsPanel from "../components/KeyTermsPanel";
+import NewIterationModal from "../components/NewIterationModal";
+import PlaybookBadge from "../components/PlaybookBadge";
+import RedlineViewer from "../components/RedlineViewer";
+import RiskBadge from "../components/RiskBadge";
+import SearchResultsPanel from "../components/SearchResultsPanel";
+import Sidebar from "../components/Sidebar";
+import { pinLabel } from "../lib/baselines";
+import { downloadFile, readJsonResponse } from "../lib/clientApi";
+import { projectIterations } from "../lib/iterations";
+import { isJobActive } from "../lib/jobs";
+import {
+  DEFAULT_PROJECT_QUERY,
+  PAGE_SIZES,
+  parseProjectQuery,
+  projectQueryParams,
+  type DateField,
+  type ProjectPage,
+  type ProjectQuery,
+  type ProjectSort,
+  type ProjectSortKey,
+} from "../lib/projectQuery";
+import { provenanceLabel } from "../lib/providers/provider";
+import { REPORT_FORMATS, type ReportFormat } from "../lib/report/reportData";
+import { deviationId, projectStatus, reviewOf, type ProjectStatus } from "../lib/review";
+import { canReview } from "../lib/roles";
+import { parseSearchLink, type SearchFocus } from "../lib/search";
+import { bandFor, bandLabels } from "../lib/scoring";
+import type {
+  AnalysisJob,
+  DeviationRow,
+  ProjectRow,
+  Supplier,
+  UserAccount,
+} from "../lib/types";
 
 /* -------------------------------------------------------------------------- */
 /*                        SMALL PURE UTILS + DEV TESTS                        */
@@ -58,105 +80,6 @@ if (process.env.NODE_ENV === "development") {
   );
 }
 
-/* -------------------------------------------------------------------------- */
-/*                             MOCK SAMPLE PROJECTS                           */
-/* -------------------------------------------------------------------------- */
-
-// NOTE: Replace this with data from your backend API.
-// For demo: map uploaded DOCX files as if they were served from these endpoints.
-//  - /api/documents/supplier-nda -> medium_post_20250406(2).docx
-//  - /api/documents/td-baseline-nda -> medium_post_20250403(3).docx
-
-const mockProjects: ProjectRow[] = [
-  {
-    id: "1",
-    username: "TAE7758",
-    projectName: "TD NDA – High & Low Changes",
-    createdAt: "2025-11-16T23:00:00Z",
-    updatedAt: "2025-11-16T23:40:00Z",
-    riskLevel: "Medium",
-    totalWeightedScore: 2.5,
-    supplierDocTitle: "Supplier NDA.docx",
-    baselineDocTitle: "TD Baseline NDA.docx",
-    supplierDocUrl: "/api/documents/supplier-nda",
-    baselineDocUrl: "/api/documents/td-baseline-nda",
-    deviations: [
-      {
-        clause: "Security",
-        baseline:
-          "If there is any unauthorized handling or loss of, or inability to account for any Confidential Information ...",
-        supplier:
-          "For as long as any Confidential Information is in the Receiving Party's possession or control, the Receiving Party will protect and maintain the confidentiality and security ...",
-        deviation:
-          "Security obligations are less prescriptive than TD baseline and do not include explicit incident remediation steps.",
-        riskLevel: "High",
-        recommendation: "Align security obligations with TD baseline incident handling language.",
-        score: 6,
-      },
-      {
-        clause: "Confidentiality",
-        baseline:
-          "Confidential Information does not include information that is or becomes public, independently developed, or obtained from a third party without breach ...",
-        supplier:
-          '"Confidential Information" means any non‑public proprietary information ...',
-        deviation:
-          "Confidentiality carve-outs narrowed; survival period reduced compared to TD baseline.",
-        riskLevel: "Medium",
-        recommendation: "Restore full TD carve‑outs and minimum survival period.",
-        score: 3,
-      },
-      {
-        clause: "General provisions",
-        baseline: "Agreement governed by the laws of Ontario, Canada ...",
-        supplier: "Agreement governed by the laws of Delaware, USA ...",
-        deviation: "Governing law moved away from TD's standard jurisdiction.",
-        riskLevel: "Medium",
-        recommendation: "Keep Ontario governing law unless approved as an exception.",
-        score: 3,
-      },
-      {
-        clause: "Duration & termination",
-        baseline: "Either party may terminate for convenience upon 30 days' written notice ...",
-        supplier:
-          "Supplier may terminate for convenience; TD may terminate only for cause ...",
-        deviation: "TD termination for convenience removed.",
-        riskLevel: "Low",
-        recommendation: "Re‑introduce TD termination for convenience right.",
-        score: 1,
-      },
-    ],
-  },
-  // Extra mock rows so you can see pagination / sorting behaviour.
-  {
-    id: "2",
-    username: "WYATT12",
-    projectName: "OC Demo – Supplier ABC",
-    createdAt: "2025-11-14T18:20:00Z",
-    updatedAt: "2025-11-14T18:45:00Z",
-    riskLevel: "High",
-    totalWeightedScore: 3.9,
-    supplierDocTitle: "Supplier OC.docx",
-    baselineDocTitle: "TD Baseline OC.docx",
-    supplierDocUrl: "/api/documents/supplier-oc",
-    baselineDocUrl: "/api/documents/td-baseline-oc",
-    deviations: [],
-  },
-  {
-    id: "3",
-    username: "TAF7337",
-    projectName: "New Model Output Test",
-    createdAt: "2025-11-13T17:50:00Z",
-    updatedAt: "2025-11-13T18:00:00Z",
-    riskLevel: "Low",
-    totalWeightedScore: 0.7,
-    supplierDocTitle: "Supplier Model.docx",
-    baselineDocTitle: "TD Baseline Model.docx",
-    supplierDocUrl: "/api/documents/supplier-model",
-    baselineDocUrl: "/api/documents/td-baseline-model",
-    deviations: [],
-  },
-];
-
 /* -------------------------------------------------------------------------- */
 /*                             DOCUMENT VIEWER MODAL                          */
 /* -------------------------------------------------------------------------- */
@@ -169,30 +92,6 @@ type DocumentViewerProps = {
 };
 
 function DocumentViewer({ open, onClose, title, url }: DocumentViewerProps) {
-  const containerRef = useRef<HTMLDivElement | null>(null);
-
-  useEffect(() => {
-    if (!open || !url || !containerRef.current) return;
-
-    const el = containerRef.current;
-
-    (async () => {
-      try {
-        const res = await fetch(url);
-        if (!res.ok) {
-          throw new Error(`Failed to fetch DOCX: ${res.status}`);
-        }
-        const buffer = await res.arrayBuffer();
-        el.innerHTML = "";
-        await docxPreview.renderAsync(buffer, el);
-      } catch (err) {
-        console.warn("DOCX preview failed", err);
-        el.innerHTML =
-          "<p style='color:#b91c1c;font-size:12px'>Document preview is unavailable. Please download and open locally.</p>";
-      }
-    })();
-  }, [open, url]);
-
   if (!open) return null;
 
   return (
@@ -211,7 +110,7 @@ function DocumentViewer({ open, onClose, title, url }: DocumentViewerProps) {
           <span>{title}</span>
         </div>
 
-        <div ref={containerRef} className="p-4" />
+        <DocumentPane url={url} className="p-4" />
       </div>
     </div>
   );
@@ -224,24 +123,196 @@ function DocumentViewer({ open, onClose, title, url }: DocumentViewerProps) {
 type DeviationModalProps = {
   open: boolean;
   onClose: () => void;
+  projectId: string;
   deviations: DeviationRow[];
   riskLevel: ProjectRow["riskLevel"];
   totalWeightedScore: number;
+  rulesVersion?: string;
+  canReview: boolean; // decisions and counter-proposals are for legal reviewers
+  onSelectDeviation: (dev: DeviationRow) => void;
+  onProjectUpdated: (project: ProjectRow) => void;
+};
+
+const statusTones: Record<ProjectStatus["tone"], string> = {
+  red: "text-red-700",
+  amber: "text-amber-700",
+  emerald: "text-emerald-700",
 };
 
+function ReviewStatusText({ deviations }: { deviations: DeviationRow[] }) {
+  const status = projectStatus(deviations);
+  return (
+    <p className={`mt-1 text-[10px] font-medium ${statusTones[status.tone]}`} title={status.detail}>
+      {status.label}
+    </p>
+  );
+}
+
+// Links to the supplier's profile; reviewers can link an unassigned project.
+function SupplierCell({ supplier, onLink }: { supplier: Supplier | null; onLink?: () => void }) {
+  if (supplier) {
+    return (
+      <Link
+        href={`/suppliers/${encodeURIComponent(supplier.id)}`}
+        onClick={(e) => e.stopPropagation()}
+        className="text-emerald-700 underline decoration-emerald-400 text-[11px]"
+      >
+        {supplier.name}
+      </Link>
+    );
+  }
+  if (!onLink) return <span className="text-gray-400">—</span>;
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        onLink();
+      }}
+      className="text-[11px] text-gray-500 underline decoration-dotted hover:text-emerald-700"
+    >
+      Link supplier
+    </button>
+  );
+}
+
+type DeviationSortKey = "score" | "clause" | "riskLevel";
+
+const RISK_RANK: Record<DeviationRow["riskLevel"], number> = { Low: 0, Medium: 1, High: 2 };
+
+// Case-insensitive match against the clause texts a reviewer reads.
+function deviationMatches(dev: DeviationRow, term: string): boolean {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return true;
+  return [dev.clause, dev.baseline, dev.supplier, dev.deviation, dev.recommendation].some((text) =>
+    text.toLowerCase().includes(needle)
+  );
+}
+
+function compareDeviations(a: DeviationRow, b: DeviationRow, key: DeviationSortKey): number {
+  switch (key) {
+    case "score":
+      return a.score - b.score;
+    case "clause":
+      return a.clause.localeCompare(b.clause, undefined, { numeric: true });
+    case "riskLevel":
+      // Ties fall back to score so the riskiest rows stay on top.
+      return RISK_RANK[a.riskLevel] - RISK_RANK[b.riskLevel] || a.score - b.score;
+  }
+}
+
 function DeviationModal({
   open,
   onClose,
   deviations,
   riskLevel,
   totalWeightedScore,
+  projectId,
+  rulesVersion,
+  canReview,
+  onSelectDeviation,
+  onProjectUpdated,
 }: DeviationModalProps) {
+  const [riskFilter, setRiskFilter] = useState<RiskFilter>("All");
+  const [searchTerm, setSearchTerm] = useState("");
+  // No sort key keeps the document order of the clauses.
+  const [sortKey, setSortKey] = useState<DeviationSortKey | null>(null);
+  const [sortDir, setSortDir] = useState<SortDirection>("desc");
+  const [commentsFor, setCommentsFor] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [exportNote, setExportNote] = useState<string | null>(null);
+  const [reportExporting, setReportExporting] = useState<ReportFormat | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  // Opening the summary is an audited view; the response also brings in
+  // decisions other reviewers made since the dashboard loaded.
+  useEffect(() => {
+    if (!open) return;
+    fetch(`/api/projects/${projectId}/risk-summary`, { cache: "no-store" })
+      .then((res) => readJsonResponse<ProjectRow>(res, "Loading the risk summary"))
+      .then(onProjectUpdated)
+      .catch((err) => console.warn("Refreshing the risk summary failed", err));
+  }, [open, projectId, onProjectUpdated]);
+
   if (!open) return null;
 
+  const status = projectStatus(deviations);
+  const rejectedCount = deviations.filter((d) => reviewOf(d).status === "rejected").length;
+
+  const exportReport = async (format: ReportFormat) => {
+    setReportExporting(format);
+    setReportError(null);
+    try {
+      await downloadFile(
+        `/api/projects/${projectId}/report?format=${format}`,
+        "Exporting the report"
+      );
+    } catch (err) {
+      setReportError(err instanceof Error ? err.message : "Exporting the report failed.");
+    } finally {
+      setReportExporting(null);
+    }
+  };
+
+  // Downloads the supplier DOCX with rejected deviations reverted as tracked changes.
+  const exportCounterProposal = async () => {
+    setExporting(true);
+    setExportNote(null);
+    try {
+      const headers = await downloadFile(
+        `/api/projects/${projectId}/counter-proposal`,
+        "Exporting the counter-proposal"
+      );
+      const manual = decodeURIComponent(headers.get("X-Redline-Commented") ?? "");
+      const skipped = decodeURIComponent(headers.get("X-Redline-Skipped") ?? "");
+      const notes = [
+        manual && `Comment only, edit by hand: ${manual}.`,
+        skipped && `Not found in the supplier document: ${skipped}.`,
+      ].filter(Boolean);
+      setExportNote(notes.length > 0 ? notes.join(" ") : null);
+    } catch (err) {
+      setExportNote(err instanceof Error ? err.message : "Exporting the counter-proposal failed.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const totalScore = deviations.reduce((sum, d) => sum + d.score, 0) || 1;
+  const riskCounts = { All: deviations.length, High: 0, Medium: 0, Low: 0 };
+  deviations.forEach((d) => riskCounts[d.riskLevel]++);
+
+  const filteredDeviations = deviations.filter(
+    (d) => (riskFilter === "All" || d.riskLevel === riskFilter) && deviationMatches(d, searchTerm)
+  );
+  const visibleDeviations = sortKey
+    ? [...filteredDeviations].sort((a, b) => {
+        const diff = compareDeviations(a, b, sortKey);
+        return sortDir === "asc" ? diff : -diff;
+      })
+    : filteredDeviations;
+
+  const handleSort = (key: DeviationSortKey) => {
+    if (sortKey === key) {
+      setSortDir((prev) => (prev === "asc" ? "desc" : "asc"));
+    } else {
+      setSortKey(key);
+      setSortDir(key === "clause" ? "asc" : "desc");
+    }
+  };
+
+  const sortHeader = (key: DeviationSortKey, label: string) => (
+    <button
+      type="button"
+      onClick={() => handleSort(key)}
+      className="inline-flex items-center gap-1 uppercase hover:text-gray-800"
+    >
+      <span>{label}</span>
+      {sortKey === key && <span>{sortDir === "asc" ? "▲" : "▼"}</span>}
+    </button>
+  );
   const riskLabel = `${riskLevel} Risk`;
-  const bandText =
-    totalWeightedScore < 1 ? "Low: 0–1" : totalWeightedScore < 3 ? "Medium: 1–3" : "High: 3+";
+  const bands = bandLabels();
+  const bandText = bands[bandFor(totalWeightedScore)];
 
   return (
     <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
@@ -257,16 +328,35 @@ function DeviationModal({
         <div className="p-4 border-b flex items-center gap-2 text-sm font-semibold">
           <BarChart3 size={18} className="text-emerald-700" />
           <span>Risk Summary & Deviation Details</span>
+          <span className="ml-auto mr-8 flex items-center gap-1 text-[11px] font-normal text-gray-500">
+            <Download size={14} />
+            <span className="mr-1">Export report</span>
+            {REPORT_FORMATS.map((format) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => exportReport(format)}
+                disabled={reportExporting !== null}
+                className="px-2 py-0.5 rounded-full border border-emerald-600 text-emerald-700 uppercase hover:bg-emerald-50 disabled:opacity-40"
+              >
+                {reportExporting === format ? "…" : format}
+              </button>
+            ))}
+          </span>
         </div>
+        {reportError && <p className="px-4 pt-2 text-[11px] text-red-700">{reportError}</p>}
 
         <div className="p-4 space-y-4">
           {/* Risk summary cards */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {/* Summary card */}
             <div className="border rounded-xl p-4 shadow-sm bg-white">
               <p className="text-xs font-semibold text-gray-600 mb-1">Risk Summary</p>
               <div className="mt-2 text-2xl font-semibold text-amber-700">{riskLabel}</div>
-              <p className="text-xs text-gray-500 mt-1">Legal Review Required</p>
+              <p className={`text-xs font-semibold mt-1 ${statusTones[status.tone]}`}>
+                {status.label}
+                <span className="ml-2 font-normal text-gray-500">{status.detail}</span>
+              </p>
 
               <div className="mt-4 flex items-end gap-4">
                 <div>
@@ -278,32 +368,45 @@ function DeviationModal({
                 <div className="ml-auto text-xs text-gray-500 space-y-1">
                   <div className="flex items-center gap-1">
                     <span className="inline-block h-2 w-2 rounded-full bg-emerald-500" />
-                    Low: 0–1
+                    {bands.Low}
                   </div>
                   <div className="flex items-center gap-1">
                     <span className="inline-block h-2 w-2 rounded-full bg-amber-500" />
-                    Medium: 1–3
+                    {bands.Medium}
                   </div>
                   <div className="flex items-center gap-1">
                     <span className="inline-block h-2 w-2 rounded-full bg-red-500" />
-                    High: 3+
+                    {bands.High}
                   </div>
                 </div>
               </div>
-              <div className="mt-3 text-xs text-gray-400">Current band: {bandText}</div>
+              <div className="mt-3 text-xs text-gray-400">
+                Current band: {bandText}
+                {rulesVersion && <span className="ml-2">· Scoring rules v{rulesVersion}</span>}
+              </div>
             </div>
 
+            {/* Key terms card */}
+            <KeyTermsPanel projectId={projectId} />
+
             {/* Distribution card */}
             <div className="border rounded-xl p-4 shadow-sm bg-white">
               <p className="text-xs font-semibold text-gray-600 mb-1">Risk Distribution</p>
               <div className="mt-3 space-y-3">
-                {deviations.map((dev) => {
+                {visibleDeviations.length === 0 && (
+                  <p className="text-xs text-gray-400">No deviations match the current filter.</p>
+                )}
+                {visibleDeviations.map((dev, i) => {
                   const pct = (dev.score / totalScore) * 100;
                   const barColour =
-                    dev.score >= 6 ? "bg-red-500" : dev.score >= 3 ? "bg-amber-500" : "bg-emerald-500";
+                    dev.riskLevel === "High"
+                      ? "bg-red-500"
+                      : dev.riskLevel === "Medium"
+                        ? "bg-amber-500"
+                        : "bg-emerald-500";
 
                   return (
-                    <div key={dev.clause} className="space-y-1">
+                    <div key={`${dev.clause}-${i}`} className="space-y-1">
                       <div className="flex justify-between text-xs text-gray-600">
                         <span className="truncate mr-2">{dev.clause}</span>
                         <span>{dev.score.toFixed(1)}</span>
@@ -330,61 +433,143 @@ function DeviationModal({
             </div>
           </div>
 
-          {/* Filter chips (visual only for now) */}
-          <div className="inline-flex rounded-full border bg-gray-50 overflow-hidden text-[11px]">
-            {(["All", "High", "Medium", "Low"] as const).map((label, idx) => (
+          {/* Filter chips + search */}
+          <div className="flex items-center gap-3 flex-wrap">
+            <div className="inline-flex rounded-full border bg-gray-50 overflow-hidden text-[11px]">
+              {(["All", "High", "Medium", "Low"] as const).map((label) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => setRiskFilter(label)}
+                  aria-pressed={riskFilter === label}
+                  className={`px-4 py-1.5 border-r last:border-r-0 ${
+                    riskFilter === label
+                      ? "bg-emerald-600 text-white"
+                      : "bg-gray-50 text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  {label} ({riskCounts[label]})
+                </button>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search clause, baseline, supplier or recommendation text"
+              className="flex-1 min-w-[16rem] px-3 py-1.5 text-xs border rounded-full bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500"
+            />
+            <span className="text-[11px] text-gray-500">
+              Showing {visibleDeviations.length} of {deviations.length}
+            </span>
+            {canReview && (
               <button
-                key={label}
                 type="button"
-                className={`px-4 py-1.5 border-r last:border-r-0 ${
-                  idx === 0
-                    ? "bg-emerald-600 text-white"
-                    : "bg-gray-50 text-gray-600 hover:bg-gray-100"
-                }`}
+                onClick={exportCounterProposal}
+                disabled={rejectedCount === 0 || exporting}
+                title={
+                  rejectedCount === 0
+                    ? "Reject a deviation to revert it to the baseline in the export"
+                    : undefined
+                }
+                className="ml-auto inline-flex items-center gap-1 px-3 py-1 rounded-full text-[11px] font-medium bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-40"
               >
-                {label}
+                <Download size={14} />
+                <span>
+                  {exporting ? "Exporting…" : `Counter-proposal DOCX (${rejectedCount} rejected)`}
+                </span>
               </button>
-            ))}
+            )}
           </div>
+          {exportNote && <p className="text-[11px] text-amber-700">{exportNote}</p>}
 
           {/* Deviation table (clause-level) */}
           <div className="border rounded-xl overflow-auto">
             <table className="min-w-full text-xs text-left">
               <thead className="bg-gray-100 text-gray-600 uppercase text-[11px]">
                 <tr>
-                  <th className="p-3 border">Clause</th>
+                  <th className="p-3 border">{sortHeader("clause", "Clause")}</th>
                   <th className="p-3 border">TD Baseline Standard</th>
                   <th className="p-3 border">Supplier Contract</th>
                   <th className="p-3 border">Deviation Summary</th>
-                  <th className="p-3 border">Risk Level</th>
+                  <th className="p-3 border">{sortHeader("riskLevel", "Risk Level")}</th>
+                  <th className="p-3 border">{sortHeader("score", "Score")}</th>
                   <th className="p-3 border">Recommendation</th>
+                  <th className="p-3 border">Review</th>
                 </tr>
               </thead>
               <tbody>
-                {deviations.map((d, i) => (
-                  <tr key={i} className="border-b last:border-b-0 align-top">
-                    <td className="p-3 border font-semibold w-32">{d.clause}</td>
-                    <td className="p-3 border text-gray-700 whitespace-pre-wrap w-64">{d.baseline}</td>
-                    <td className="p-3 border text-gray-700 whitespace-pre-wrap w-64">{d.supplier}</td>
-                    <td className="p-3 border text-gray-700 whitespace-pre-wrap w-64">{d.deviation}</td>
-                    <td className="p-3 border font-semibold w-24">
-                      {d.riskLevel === "High" ? (
-                        <span className="px-2 py-1 rounded-full bg-red-100 text-red-700 text-[11px]">
-                          High
-                        </span>
-                      ) : d.riskLevel === "Medium" ? (
-                        <span className="px-2 py-1 rounded-full bg-amber-100 text-amber-700 text-[11px]">
-                          Medium
-                        </span>
-                      ) : (
-                        <span className="px-2 py-1 rounded-full bg-green-100 text-green-700 text-[11px]">
-                          Low
-                        </span>
-                      )}
+                {visibleDeviations.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="p-4 text-center text-gray-400">
+                      No deviations match the current filter.
                     </td>
-                    <td className="p-3 border text-gray-700 whitespace-pre-wrap w-64">{d.recommendation}</td>
                   </tr>
-                ))}
+                )}
+                {visibleDeviations.map((d) => {
+                  const linked = Boolean(d.baselineAnchor || d.supplierAnchor);
+                  const devId = deviationId(d, deviations.indexOf(d));
+                  const target = { projectId, devId, onUpdated: onProjectUpdated };
+                  return (
+                    <React.Fragment key={devId}>
+                      <tr
+                        className={`border-b last:border-b-0 align-top ${
+                          linked ? "cursor-pointer hover:bg-emerald-50/60" : ""
+                        }`}
+                        onClick={linked ? () => onSelectDeviation(d) : undefined}
+                        title={linked ? "Show this clause in both documents" : undefined}
+                      >
+                        <td className="p-3 border font-semibold w-32">
+                          {d.clause}
+                          {linked && <Crosshair size={12} className="inline ml-1 text-emerald-600" />}
+                        </td>
+                        <td className="p-3 border text-gray-700 whitespace-pre-wrap w-64">{d.baseline}</td>
+                        <td className="p-3 border text-gray-700 whitespace-pre-wrap w-64">{d.supplier}</td>
+                        <td className="p-3 border text-gray-700 whitespace-pre-wrap w-64">
+                          {d.deviation}
+                          {d.provider && (
+                            <span className="block mt-1 text-[10px] text-gray-400">
+                              {provenanceLabel(d.provider)}
+                            </span>
+                          )}
+                        </td>
+                        <td className="p-3 border font-semibold w-24">
+                          <RiskBadge level={d.riskLevel} />
+                        </td>
+                        <td className="p-3 border font-semibold w-16">{d.score.toFixed(1)}</td>
+                        <td className="p-3 border text-gray-700 whitespace-pre-wrap w-64">
+                          {d.playbook && (
+                            <div className="mb-1">
+                              <PlaybookBadge match={d.playbook} />
+                            </div>
+                          )}
+                          {d.recommendation}
+                        </td>
+                        <td
+                          className="p-3 border w-44 cursor-default"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <ReviewControls
+                            {...target}
+                            deviation={d}
+                            canReview={canReview}
+                            commentsOpen={commentsFor === devId}
+                            onToggleComments={() =>
+                              setCommentsFor((prev) => (prev === devId ? null : devId))
+                            }
+                          />
+                        </td>
+                      </tr>
+                      {commentsFor === devId && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={8} className="p-3 border">
+                            <CommentThread {...target} deviation={d} />
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
               </tbody>
             </table>
           </div>
@@ -400,92 +585,334 @@ function DeviationModal({
 
 type RiskFilter = "All" | "High" | "Medium" | "Low";
 
-type SortKey = "createdAt" | "updatedAt" | "totalWeightedScore";
-
 type SortDirection = "asc" | "desc";
 
+const filterClass =
+  "px-3 py-1.5 text-xs border rounded-full bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
+// How often queued and running analyses are checked.
+const JOB_POLL_MS = 1500;
+
+// The query in the address bar, or the defaults when it is missing or invalid.
+function queryFromLocation(): ProjectQuery {
+  try {
+    return parseProjectQuery(new URLSearchParams(window.location.search));
+  } catch {
+    return DEFAULT_PROJECT_QUERY;
+  }
+}
+
 export default function IterationTrackerDashboard() {
-  const [selectedProject, setSelectedProject] = useState<ProjectRow | null>(
-    mockProjects[0] ?? null
-  );
+  const router = useRouter();
+  const [session, setSession] = useState<UserAccount | null>(null);
+  const [projects, setProjects] = useState<ProjectRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [owners, setOwners] = useState<string[]>([]);
+  // Null until read from the URL on mount.
+  const [query, setQuery] = useState<ProjectQuery | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [selectedProject, setSelectedProject] = useState<ProjectRow | null>(null);
   const [openSupplierDoc, setOpenSupplierDoc] = useState(false);
   const [openBaselineDoc, setOpenBaselineDoc] = useState(false);
   const [openDeviationModal, setOpenDeviationModal] = useState(false);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [riskFilter, setRiskFilter] = useState<RiskFilter>("All");
-  const [userFilter, setUserFilter] = useState<string>("All");
-  const [sortKey, setSortKey] = useState<SortKey>("updatedAt");
-  const [sortDir, setSortDir] = useState<SortDirection>("desc");
-  const [pageSize, setPageSize] = useState<number>(10);
-  const [currentPage, setCurrentPage] = useState<number>(0);
-
-  const current = selectedProject ?? mockProjects[0];
-
-  // Unique usernames for filter dropdown
-  const uniqueUsers = Array.from(new Set(mockProjects.map((p) => p.username)));
-
-  // Filtered list
-  const filteredProjects = mockProjects.filter((p) => {
-    const matchesSearch =
-      !searchTerm.trim() ||
-      p.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      p.projectName.toLowerCase().includes(searchTerm.toLowerCase());
-
-    const matchesRisk = riskFilter === "All" || p.riskLevel === riskFilter;
-    const matchesUser = userFilter === "All" || p.username === userFilter;
-
-    return matchesSearch && matchesRisk && matchesUser;
-  });
-
-  // Sorting helper
-  const sortedProjects = [...filteredProjects].sort((a, b) => {
-    let aVal: number;
-    let bVal: number;
-
-    switch (sortKey) {
-      case "createdAt":
-        aVal = new Date(a.createdAt).getTime();
-        bVal = new Date(b.createdAt).getTime();
-        break;
-      case "updatedAt":
-        aVal = new Date(a.updatedAt).getTime();
-        bVal = new Date(b.updatedAt).getTime();
-        break;
-      case "totalWeightedScore":
-        aVal = a.totalWeightedScore;
-        bVal = b.totalWeightedScore;
-        break;
-      default:
-        aVal = 0;
-        bVal = 0;
-    }
+  const [openNewIteration, setOpenNewIteration] = useState(false);
+  const [openHistory, setOpenHistory] = useState(false);
+  const [openRedline, setOpenRedline] = useState(false);
+  const [openBaselines, setOpenBaselines] = useState(false);
+  const [focusedDeviation, setFocusedDeviation] = useState<ClauseFocus | null>(null);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [suppliersKey, setSuppliersKey] = useState(0);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  // Analyses shown as in-progress rows until their project is ready.
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  const [jobError, setJobError] = useState<string | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  // Without a session the user is sent to the login page.
+  useEffect(() => {
+    fetch("/api/auth/me", { cache: "no-store" })
+      .then((res) => {
+        if (res.status === 401) router.replace("/login");
+        return readJsonResponse<UserAccount>(res, "Loading your account");
+      })
+      .then(setSession)
+      .catch((err) => console.warn("Loading the session failed", err));
+  }, [router]);
+
+  // Supplier names for the table; bump `suppliersKey` after one is created.
+  useEffect(() => {
+    fetch("/api/suppliers", { cache: "no-store" })
+      .then((res) => readJsonResponse<Supplier[]>(res, "Loading suppliers"))
+      .then(setSuppliers)
+      .catch((err) => console.warn("Loading suppliers failed", err));
+  }, [suppliersKey]);
 
-    if (Number.isNaN(aVal) || Number.isNaN(bVal)) return 0;
-    const diff = aVal - bVal;
-    return sortDir === "asc" ? diff : -diff;
-  });
+  // Analyses still queued or running from an earlier visit get their rows back.
+  useEffect(() => {
+    fetch("/api/jobs?status=queued&status=running", { cache: "no-store" })
+      .then((res) => readJsonResponse<AnalysisJob[]>(res, "Loading analyses"))
+      .then((active) =>
+        setJobs((prev) => [...prev, ...active.filter((j) => !prev.some((p) => p.id === j.id))])
+      )
+      .catch((err) => console.warn("Loading analyses failed", err));
+  }, []);
+
+  // Poll the unfinished analyses until they succeed, fail or are cancelled.
+  const activeJobIds = jobs
+    .filter(isJobActive)
+    .map((j) => j.id)
+    .join(",");
+  useEffect(() => {
+    if (!activeJobIds) return;
+    const timer = setInterval(async () => {
+      try {
+        const params = new URLSearchParams(activeJobIds.split(",").map((id) => ["id", id]));
+        const res = await fetch(`/api/jobs?${params}`, { cache: "no-store" });
+        const latest = await readJsonResponse<AnalysisJob[]>(res, "Checking analyses");
+        setJobs((prev) => prev.map((j) => latest.find((l) => l.id === j.id) ?? j));
+      } catch (err) {
+        console.warn("Checking analyses failed", err);
+      }
+    }, JOB_POLL_MS);
+    return () => clearInterval(timer);
+  }, [activeJobIds]);
 
-  const totalPages = Math.max(1, Math.ceil(sortedProjects.length / pageSize));
-  const safePage = Math.min(currentPage, totalPages - 1);
-  const startIndex = safePage * pageSize;
-  const paginatedProjects = sortedProjects.slice(startIndex, startIndex + pageSize);
+  // A finished analysis swaps its row for the project, which is selected.
+  useEffect(() => {
+    const finished = jobs.filter((j) => j.status === "succeeded");
+    if (finished.length === 0) return;
+    setJobs((prev) => prev.filter((j) => j.status !== "succeeded"));
+    setReloadKey((k) => k + 1);
+    setSuppliersKey((k) => k + 1);
+    const { projectId } = finished[finished.length - 1];
+    if (!projectId) return;
+    fetch(`/api/projects/${projectId}`, { cache: "no-store" })
+      .then((res) => readJsonResponse<ProjectRow>(res, "Loading the project"))
+      .then(setSelectedProject)
+      .catch((err) => console.warn("Loading the analysed project failed", err));
+  }, [jobs]);
+
+  // A search result link (?project=...) opens its project at the clause. Read
+  // before the query below rewrites the URL.
+  useEffect(() => {
+    const link = parseSearchLink(new URLSearchParams(window.location.search));
+    if (link) openSearchLink(link.projectId, link.focus);
+  }, []);
 
-  // Ensure page index is valid when page count shrinks
+  // Filters, sorting and paging live in the URL so a view can be bookmarked.
   useEffect(() => {
-    if (currentPage > totalPages - 1) {
-      setCurrentPage(totalPages - 1);
+    const sync = () => setQuery(queryFromLocation());
+    sync();
+    window.addEventListener("popstate", sync);
+    return () => window.removeEventListener("popstate", sync);
+  }, []);
+
+  // Load the current page from the backend whenever the query changes (typing
+  // is debounced); bump `reloadKey` to retry after an error.
+  useEffect(() => {
+    if (!query) return;
+    const search = projectQueryParams(query).toString();
+    const url = `${window.location.pathname}${search ? `?${search}` : ""}`;
+    if (url !== `${window.location.pathname}${window.location.search}`) {
+      window.history.replaceState(null, "", url);
     }
-  }, [currentPage, totalPages]);
 
-  const handleSort = (key: SortKey) => {
-    if (sortKey === key) {
-      setSortDir((prev) => (prev === "asc" ? "desc" : "asc"));
+    let cancelled = false;
+    setLoading(true);
+    setLoadError(null);
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/projects?${search}`, { cache: "no-store" });
+        if (res.status === 401) {
+          router.replace("/login");
+          return;
+        }
+        const data = await readJsonResponse<ProjectPage>(res, "Loading projects");
+        if (cancelled) return;
+        // The page can run past the end when rows disappear; go to the last one.
+        if (data.items.length === 0 && data.offset > 0 && data.total > 0) {
+          const lastPage = Math.floor((data.total - 1) / data.limit);
+          setQuery((prev) => prev && { ...prev, offset: lastPage * data.limit });
+          return;
+        }
+        setProjects(data.items);
+        setTotal(data.total);
+        setOwners(data.users);
+      } catch (err) {
+        console.warn("Loading projects failed", err);
+        if (!cancelled) {
+          setLoadError(
+            err instanceof Error ? err.message : "Projects could not be loaded. Please try again."
+          );
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, reloadKey, router]);
+
+  const reviewer = session ? canReview(session) : false;
+
+  const current = selectedProject ?? projects[0] ?? null;
+
+  // Swaps in a project returned by the API after it changed server-side.
+  // Stable, so the risk summary's refresh effect does not re-run on every render.
+  const replaceProject = useCallback((updated: ProjectRow) => {
+    setProjects((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+    setSelectedProject(updated);
+  }, []);
+
+  // Links a project to a supplier by name; a new name creates the supplier.
+  const linkSupplier = async (project: ProjectRow) => {
+    const name = window.prompt(`Supplier for "${project.projectName}"`);
+    if (!name?.trim()) return;
+    setLinkError(null);
+    try {
+      const res = await fetch(`/api/projects/${project.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ supplierName: name.trim() }),
+      });
+      replaceProject(await readJsonResponse<ProjectRow>(res, "Linking the supplier"));
+      setSuppliersKey((k) => k + 1);
+    } catch (err) {
+      setLinkError(err instanceof Error ? err.message : "Linking the supplier failed.");
+    }
+  };
+
+  // Selects a project found by a search and opens the deviation or clause hit.
+  const openSearchLink = async (
+    projectId: string,
+    focus: SearchFocus | null,
+    clause = "Search match"
+  ) => {
+    setSearchError(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}`, { cache: "no-store" });
+      const project = await readJsonResponse<ProjectRow>(res, "Opening the search result");
+      setSelectedProject(project);
+      if (!focus) return;
+      // Rows and text only an earlier run has open in that run's documents.
+      const run = focus.iterationId
+        ? projectIterations(project).find((r) => r.id === focus.iterationId)
+        : undefined;
+      if (focus.iterationId && !run) {
+        setSearchError("That iteration is no longer in the project.");
+        return;
+      }
+      const label = (text: string) => (run ? `${text} (iteration ${run.number})` : text);
+      const runDocuments = run && {
+        supplier: { title: run.supplierDocTitle, url: run.supplierDocUrl },
+        baseline: { title: run.baselineDocTitle, url: run.baselineDocUrl },
+      };
+      if ("deviationId" in focus) {
+        const rows = run ? run.deviations : project.deviations;
+        const row = rows.find((d, i) => deviationId(d, i) === focus.deviationId);
+        if (!row) {
+          setSearchError(
+            run
+              ? "That deviation is no longer in the iteration."
+              : "That deviation is no longer in the project's latest run."
+          );
+          return;
+        }
+        setFocusedDeviation(
+          runDocuments ? { ...row, clause: label(row.clause), documents: runDocuments } : row
+        );
+        return;
+      }
+      const anchor = focus.side === "supplier" ? "supplierAnchor" : "baselineAnchor";
+      setFocusedDeviation({
+        clause: label(clause),
+        deviation: "No deviation recorded for this clause",
+        [anchor]: focus.anchor,
+        only: focus.side,
+        ...(runDocuments ? { documents: { [focus.side]: runDocuments[focus.side] } } : {}),
+      });
+    } catch (err) {
+      setSearchError(err instanceof Error ? err.message : "Opening the search result failed.");
+    }
+  };
+
+  const updateJob = async (job: AnalysisJob, action: "cancel" | "retry") => {
+    setJobError(null);
+    try {
+      const res = await fetch(`/api/jobs/${job.id}/${action}`, { method: "POST" });
+      const updated = await readJsonResponse<AnalysisJob>(
+        res,
+        action === "cancel" ? "Cancelling the analysis" : "Retrying the analysis"
+      );
+      setJobs((prev) => prev.map((j) => (j.id === updated.id ? updated : j)));
+    } catch (err) {
+      setJobError(err instanceof Error ? err.message : "The analysis could not be updated.");
+    }
+  };
+
+  const q = query ?? DEFAULT_PROJECT_QUERY;
+
+  // Any filter change starts again from the first page.
+  const updateQuery = (patch: Partial<ProjectQuery>) =>
+    setQuery((prev) => ({ ...(prev ?? DEFAULT_PROJECT_QUERY), ...patch, offset: 0 }));
+
+  const setOffset = (offset: number) =>
+    setQuery((prev) => ({ ...(prev ?? DEFAULT_PROJECT_QUERY), offset }));
+
+  const { sort, offset, limit } = DEFAULT_PROJECT_QUERY;
+  const filtersActive = projectQueryParams({ ...q, sort, offset, limit }).toString() !== "";
+
+  const totalPages = Math.max(1, Math.ceil(total / q.limit));
+  const currentPage = Math.floor(q.offset / q.limit);
+
+  // A click sorts by that column alone; shift-click adds it as a further key.
+  // Clicking a key that is already in the order flips its direction.
+  const handleSort = (key: ProjectSortKey, additive: boolean) => {
+    const existing = q.sort.find((s) => s.key === key);
+    const flip = (dir: SortDirection): SortDirection => (dir === "asc" ? "desc" : "asc");
+    const firstDir: SortDirection = key === "projectName" || key === "username" ? "asc" : "desc";
+
+    let sort: ProjectSort[];
+    if (additive) {
+      sort = existing
+        ? q.sort.map((s) => (s.key === key ? { ...s, dir: flip(s.dir) } : s))
+        : [...q.sort, { key, dir: firstDir }];
     } else {
-      setSortKey(key);
-      setSortDir("desc");
+      const primary = q.sort[0]?.key === key;
+      sort = [{ key, dir: primary && existing ? flip(existing.dir) : firstDir }];
     }
+    updateQuery({ sort });
   };
 
+  const sortHeader = (key: ProjectSortKey, label: string) => {
+    const position = q.sort.findIndex((s) => s.key === key);
+    const entry = q.sort[position];
+    return (
+      <button
+        type="button"
+        onClick={(e) => handleSort(key, e.shiftKey)}
+        title="Click to sort; shift-click to add a secondary sort"
+        className="inline-flex items-center gap-1 hover:text-gray-800"
+      >
+        <span>{label}</span>
+        {entry && (
+          <span>
+            {entry.dir === "asc" ? "▲" : "▼"}
+            {q.sort.length > 1 && <sup>{position + 1}</sup>}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  const scoreValue = (value: string) => (value === "" ? null : Number(value));
+
   const formatDisplayDate = (iso: string) => {
     const d = new Date(iso);
     if (Number.isNaN(d.getTime())) return iso;
@@ -495,22 +922,7 @@ export default function IterationTrackerDashboard() {
   return (
     <div className="flex min-h-screen bg-gray-50">
       {/* SIDEBAR */}
-      <aside
-        className="w-56 text-white flex flex-col"
-        style={{ backgroundColor: TD_GREEN }}
-      >
-        <div className="flex items-center gap-3 px-4 py-4 border-b border-white/20">
-          <div className="bg-white rounded-md h-9 w-9 flex items-center justify-center shadow">
-            <span className="text-[18px] font-extrabold" style={{ color: TD_GREEN }}>
-              TD
-            </span>
-          </div>
-          <div className="flex flex-col leading-tight">
-            <span className="text-xs opacity-80">ContractBuddy</span>
-            <span className="text-sm font-semibold">Iteration Tracker</span>
-          </div>
-        </div>
-      </aside>
+      <Sidebar session={session} />
 
       {/* MAIN CONTENT */}
       <main className="flex-1 p-6 space-y-4">
@@ -519,7 +931,8 @@ export default function IterationTrackerDashboard() {
             <h1 className="text-lg font-semibold text-gray-800">Iterations</h1>
             {current && (
               <p className="text-xs text-gray-500">
-                Showing latest run for <span className="font-medium">{current.projectName}</span>
+                Showing latest run (iteration {projectIterations(current).length}) for{" "}
+                <span className="font-medium">{current.projectName}</span>
               </p>
             )}
           </div>
@@ -528,92 +941,176 @@ export default function IterationTrackerDashboard() {
           <div className="flex items-center gap-2 flex-wrap">
             <input
               type="text"
-              value={searchTerm}
-              onChange={(e) => {
-                setSearchTerm(e.target.value);
-                setCurrentPage(0);
-              }}
-              placeholder="Search by user or project"
-              className="px-3 py-1.5 text-xs border rounded-full bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500"
+              value={q.search}
+              onChange={(e) => updateQuery({ search: e.target.value })}
+              placeholder="Search projects, contract text and deviations"
+              className={filterClass}
             />
             <select
-              value={riskFilter}
+              value={q.risk ?? "All"}
               onChange={(e) => {
-                setRiskFilter(e.target.value as RiskFilter);
-                setCurrentPage(0);
+                const risk = e.target.value as RiskFilter;
+                updateQuery({ risk: risk === "All" ? null : risk });
               }}
-              className="px-3 py-1.5 text-xs border rounded-full bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500"
+              className={filterClass}
             >
               <option value="All">All risks</option>
               <option value="High">High</option>
               <option value="Medium">Medium</option>
               <option value="Low">Low</option>
             </select>
-            <select
-              value={userFilter}
-              onChange={(e) => {
-                setUserFilter(e.target.value);
-                setCurrentPage(0);
-              }}
-              className="px-3 py-1.5 text-xs border rounded-full bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500"
+            {/* Submitters only ever see their own projects. */}
+            {reviewer && (
+              <select
+                value={q.user ?? "All"}
+                onChange={(e) =>
+                  updateQuery({ user: e.target.value === "All" ? null : e.target.value })
+                }
+                className={filterClass}
+              >
+                <option value="All">All users</option>
+                {owners.map((u) => (
+                  <option key={u} value={u}>
+                    {u}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              type="button"
+              onClick={() => setOpenBaselines(true)}
+              className="inline-flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium border border-emerald-600 text-emerald-700 bg-white hover:bg-emerald-50"
             >
-              <option value="All">All users</option>
-              {uniqueUsers.map((u) => (
-                <option key={u} value={u}>
-                  {u}
-                </option>
-              ))}
-            </select>
+              <Library size={14} />
+              <span>Baselines</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setOpenNewIteration(true)}
+              className="inline-flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium bg-emerald-600 text-white hover:bg-emerald-700"
+            >
+              <Upload size={14} />
+              <span>New Iteration</span>
+            </button>
           </div>
         </div>
 
+        {/* Document, date and score filters */}
+        <div className="flex items-center gap-2 flex-wrap text-[11px] text-gray-600">
+          <input
+            type="text"
+            value={q.document}
+            onChange={(e) => updateQuery({ document: e.target.value })}
+            placeholder="Document title"
+            className={filterClass}
+          />
+          <select
+            value={q.dateField}
+            onChange={(e) => updateQuery({ dateField: e.target.value as DateField })}
+            className={filterClass}
+          >
+            <option value="updatedAt">Last modified</option>
+            <option value="createdAt">Created</option>
+          </select>
+          <input
+            type="date"
+            value={q.from ?? ""}
+            max={q.to ?? undefined}
+            onChange={(e) => updateQuery({ from: e.target.value || null })}
+            aria-label="From date"
+            className={filterClass}
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={q.to ?? ""}
+            min={q.from ?? undefined}
+            onChange={(e) => updateQuery({ to: e.target.value || null })}
+            aria-label="To date"
+            className={filterClass}
+          />
+          <span className="ml-2">Score</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={q.minScore ?? ""}
+            onChange={(e) => updateQuery({ minScore: scoreValue(e.target.value) })}
+            placeholder="min"
+            aria-label="Minimum score"
+            className={`${filterClass} w-20`}
+          />
+          <span>to</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={q.maxScore ?? ""}
+            onChange={(e) => updateQuery({ maxScore: scoreValue(e.target.value) })}
+            placeholder="max"
+            aria-label="Maximum score"
+            className={`${filterClass} w-20`}
+          />
+          {filtersActive && (
+            <button
+              type="button"
+              onClick={() =>
+                updateQuery({ ...DEFAULT_PROJECT_QUERY, sort: q.sort, limit: q.limit })
+              }
+              className="text-emerald-700 hover:underline"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        {linkError && <p className="text-xs text-red-700">{linkError}</p>}
+        {jobError && <p className="text-xs text-red-700">{jobError}</p>}
+        {searchError && <p className="text-xs text-red-700">{searchError}</p>}
+
+        <SearchResultsPanel
+          query={q.search}
+          onOpen={(hit) => openSearchLink(hit.projectId, hit.focus, hit.clause)}
+        />
+
         {/* PROJECT TABLE */}
         <div className="bg-white rounded-xl border shadow-sm overflow-auto">
           <table className="min-w-full text-xs">
             <thead className="bg-gray-100 text-gray-600 text-[11px] uppercase">
               <tr>
-                <th className="p-3 border-b text-left">User</th>
-                <th className="p-3 border-b text-left">Project Name</th>
+                <th className="p-3 border-b text-left">{sortHeader("username", "User")}</th>
                 <th className="p-3 border-b text-left">
-                  <button
-                    type="button"
-                    onClick={() => handleSort("createdAt")}
-                    className="inline-flex items-center gap-1 hover:text-gray-800"
-                  >
-                    <span>Created</span>
-                    {sortKey === "createdAt" && <span>{sortDir === "asc" ? "▲" : "▼"}</span>}
-                  </button>
+                  {sortHeader("projectName", "Project Name")}
                 </th>
+                <th className="p-3 border-b text-left">{sortHeader("createdAt", "Created")}</th>
                 <th className="p-3 border-b text-left">
-                  <button
-                    type="button"
-                    onClick={() => handleSort("updatedAt")}
-                    className="inline-flex items-center gap-1 hover:text-gray-800"
-                  >
-                    <span>Last Modified</span>
-                    {sortKey === "updatedAt" && <span>{sortDir === "asc" ? "▲" : "▼"}</span>}
-                  </button>
+                  {sortHeader("updatedAt", "Last Modified")}
                 </th>
+                <th className="p-3 border-b text-left">Supplier</th>
                 <th className="p-3 border-b text-left">Supplier Document</th>
                 <th className="p-3 border-b text-left">Baseline Document</th>
                 <th className="p-3 border-b text-left">
-                  <button
-                    type="button"
-                    onClick={() => handleSort("totalWeightedScore")}
-                    className="inline-flex items-center gap-1 hover:text-gray-800"
-                  >
-                    <span>Total Weighted Score</span>
-                    {sortKey === "totalWeightedScore" && (
-                      <span>{sortDir === "asc" ? "▲" : "▼"}</span>
-                    )}
-                  </button>
+                  {sortHeader("totalWeightedScore", "Total Weighted Score")}
                 </th>
-                <th className="p-3 border-b text-left">Risk Level</th>
+                <th className="p-3 border-b text-left">{sortHeader("riskLevel", "Risk Level")}</th>
+                <th className="p-3 border-b text-left">Iterations</th>
                 <th className="p-3 border-b text-left">Risk Summary</th>
               </tr>
             </thead>
             <tbody>
-              {paginatedProjects.map((p) => (
+              {jobs.map((job) => (
+                <JobRow
+                  key={job.id}
+                  job={job}
+                  columns={11}
+                  onCancel={() => updateJob(job, "cancel")}
+                  onRetry={() => updateJob(job, "retry")}
+                  onDismiss={() => setJobs((prev) => prev.filter((j) => j.id !== job.id))}
+                />
+              ))}
+
+              {/* Rows stay visible while a new page or filter loads. */}
+              {!loadError && projects.map((p) => (
                 <tr
                   key={p.id}
                   className={`border-b last:border-b-0 cursor-pointer hover:bg-emerald-50/60 ${
@@ -626,6 +1123,14 @@ export default function IterationTrackerDashboard() {
                   <td className="p-3 whitespace-nowrap">{formatDisplayDate(p.createdAt)}</td>
                   <td className="p-3 whitespace-nowrap">{formatDisplayDate(p.updatedAt)}</td>
 
+                  {/* Supplier */}
+                  <td className="p-3 whitespace-nowrap">
+                    <SupplierCell
+                      supplier={suppliers.find((x) => x.id === p.supplierId) ?? null}
+                      onLink={reviewer ? () => linkSupplier(p) : undefined}
+                    />
+                  </td>
+
                   {/* Supplier Doc */}
                   <td className="p-3">
                     <button
@@ -654,6 +1159,11 @@ export default function IterationTrackerDashboard() {
                     >
                       <FileText size={14} /> {p.baselineDocTitle}
                     </button>
+                    {p.baseline && (
+                      <span className="block text-[10px] text-gray-500 whitespace-nowrap">
+                        {pinLabel(p.baseline)} · effective {p.baseline.effectiveDate}
+                      </span>
+                    )}
                   </td>
 
                   {/* Total weighted score */}
@@ -663,19 +1173,22 @@ export default function IterationTrackerDashboard() {
 
                   {/* Risk level */}
                   <td className="p-3 whitespace-nowrap font-semibold">
-                    {p.riskLevel === "High" ? (
-                      <span className="px-2 py-1 rounded-full bg-red-100 text-red-700 text-[11px]">
-                        High
-                      </span>
-                    ) : p.riskLevel === "Medium" ? (
-                      <span className="px-2 py-1 rounded-full bg-amber-100 text-amber-700 text-[11px]">
-                        Medium
-                      </span>
-                    ) : (
-                      <span className="px-2 py-1 rounded-full bg-green-100 text-green-700 text-[11px]">
-                        Low
-                      </span>
-                    )}
+                    <RiskBadge level={p.riskLevel} />
+                  </td>
+
+                  {/* Iteration history */}
+                  <td className="p-3">
+                    <button
+                      type="button"
+                      className="inline-flex items-center gap-1 text-emerald-700 underline decoration-emerald-400 text-[11px] whitespace-nowrap"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setSelectedProject(p);
+                        setOpenHistory(true);
+                      }}
+                    >
+                      <History size={14} /> #{projectIterations(p).length}
+                    </button>
                   </td>
 
                   {/* Risk summary action */}
@@ -692,13 +1205,49 @@ export default function IterationTrackerDashboard() {
                       <Eye size={14} />
                       <span>View Risk Summary</span>
                     </button>
+                    <button
+                      type="button"
+                      className="mt-1 inline-flex items-center gap-1 px-3 py-1 rounded-full text-[11px] font-medium border border-emerald-600 text-emerald-700 hover:bg-emerald-50"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setSelectedProject(p);
+                        setOpenRedline(true);
+                      }}
+                    >
+                      <Columns2 size={14} />
+                      <span>Side-by-side</span>
+                    </button>
+                    <ReviewStatusText deviations={p.deviations} />
                   </td>
                 </tr>
               ))}
 
-              {paginatedProjects.length === 0 && (
+              {loading && projects.length === 0 && (
+                <tr>
+                  <td className="p-4 text-center text-xs text-gray-500" colSpan={11}>
+                    Loading projects…
+                  </td>
+                </tr>
+              )}
+
+              {!loading && loadError && (
+                <tr>
+                  <td className="p-4 text-center text-xs text-red-700" colSpan={11}>
+                    {loadError}{" "}
+                    <button
+                      type="button"
+                      className="underline hover:text-red-900"
+                      onClick={() => setReloadKey((k) => k + 1)}
+                    >
+                      Retry
+                    </button>
+                  </td>
+                </tr>
+              )}
+
+              {!loading && !loadError && projects.length === 0 && jobs.length === 0 && (
                 <tr>
-                  <td className="p-4 text-center text-xs text-gray-500" colSpan={9}>
+                  <td className="p-4 text-center text-xs text-gray-500" colSpan={11}>
                     No projects match your filters.
                   </td>
                 </tr>
@@ -711,38 +1260,38 @@ export default function IterationTrackerDashboard() {
             <div className="flex items-center gap-2">
               <button
                 type="button"
-                disabled={safePage === 0}
-                onClick={() => setCurrentPage((p) => Math.max(0, p - 1))}
+                disabled={currentPage === 0}
+                onClick={() => setOffset(Math.max(0, q.offset - q.limit))}
                 className="px-2 py-1 border rounded disabled:opacity-40 disabled:cursor-not-allowed hover:bg-gray-50"
               >
                 Prev
               </button>
               <button
                 type="button"
-                disabled={safePage >= totalPages - 1}
-                onClick={() =>
-                  setCurrentPage((p) => Math.min(totalPages - 1, p + 1))
-                }
+                disabled={currentPage >= totalPages - 1}
+                onClick={() => setOffset((currentPage + 1) * q.limit)}
                 className="px-2 py-1 border rounded disabled:opacity-40 disabled:cursor-not-allowed hover:bg-gray-50"
               >
                 Next
               </button>
               <span className="ml-2">
-                Page {totalPages === 0 ? 0 : safePage + 1} of {totalPages}
+                Page {currentPage + 1} of {totalPages}
+              </span>
+              <span className="ml-2 text-gray-500">
+                {total === 0
+                  ? "0 projects"
+                  : `${q.offset + 1}–${q.offset + projects.length} of ${total} projects`}
               </span>
             </div>
 
             <div className="flex items-center gap-2">
               <span>Rows per page</span>
               <select
-                value={pageSize}
-                onChange={(e) => {
-                  setPageSize(Number(e.target.value));
-                  setCurrentPage(0);
-                }}
+                value={q.limit}
+                onChange={(e) => updateQuery({ limit: Number(e.target.value) })}
                 className="border rounded px-2 py-1 bg-white"
               >
-                {[5, 10, 20, 50, 100].map((size) => (
+                {PAGE_SIZES.map((size) => (
                   <option key={size} value={size}>
                     {size}
                   </option>
@@ -754,6 +1303,21 @@ export default function IterationTrackerDashboard() {
       </main>
 
       {/* MODALS */}
+      <NewIterationModal
+        open={openNewIteration}
+        onClose={() => setOpenNewIteration(false)}
+        onQueued={(job) => {
+          setJobs((prev) => [job, ...prev]);
+          setOpenNewIteration(false);
+        }}
+      />
+
+      <BaselineLibraryModal
+        open={openBaselines}
+        onClose={() => setOpenBaselines(false)}
+        canPublish={reviewer}
+      />
+
       {current && (
         <>
           <DocumentViewer
@@ -770,12 +1334,41 @@ export default function IterationTrackerDashboard() {
             url={current.baselineDocUrl}
           />
 
+          <RedlineViewer
+            open={openRedline}
+            onClose={() => setOpenRedline(false)}
+            projectId={current.id}
+            supplierTitle={current.supplierDocTitle}
+            baselineTitle={current.baselineDocTitle}
+          />
+
+          <IterationHistoryModal
+            open={openHistory}
+            onClose={() => setOpenHistory(false)}
+            project={current}
+            onUpdated={replaceProject}
+          />
+
           <DeviationModal
+            key={current.id} // filters and sorting start fresh for each project
             open={openDeviationModal}
             onClose={() => setOpenDeviationModal(false)}
+            projectId={current.id}
             deviations={current.deviations}
             riskLevel={current.riskLevel}
             totalWeightedScore={current.totalWeightedScore}
+            rulesVersion={current.rulesVersion}
+            canReview={reviewer}
+            onSelectDeviation={setFocusedDeviation}
+            onProjectUpdated={replaceProject}
+          />
+
+          <ClauseSourceViewer
+            open={focusedDeviation !== null}
+            onClose={() => setFocusedDeviation(null)}
+            deviation={focusedDeviation}
+            supplier={{ title: current.supplierDocTitle, url: current.supplierDocUrl }}
+            baseline={{ title: current.baselineDocTitle, url: current.baselineDocUrl }}
           />
         </>
       )}
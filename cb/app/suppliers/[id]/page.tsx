@@ -0,0 +1,291 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, Building2, Pencil } from "lucide-react";
+import PlaybookBadge from "../../../components/PlaybookBadge";
+import RiskBadge from "../../../components/RiskBadge";
+import Sidebar from "../../../components/Sidebar";
+import { readJsonResponse } from "../../../lib/clientApi";
+import type { ProjectStatus } from "../../../lib/review";
+import { canReview } from "../../../lib/roles";
+import type { SupplierProfile } from "../../../lib/suppliers";
+import type { RiskLevel, Supplier, UserAccount } from "../../../lib/types";
+
+const BAR_COLOURS: Record<RiskLevel, string> = {
+  High: "bg-red-500",
+  Medium: "bg-amber-500",
+  Low: "bg-emerald-500",
+};
+
+const statusTones: Record<ProjectStatus["tone"], string> = {
+  red: "text-red-700",
+  amber: "text-amber-700",
+  emerald: "text-emerald-700",
+};
+
+const cardClass = "border rounded-xl p-4 shadow-sm bg-white";
+
+export default function SupplierProfilePage({ params }: { params: { id: string } }) {
+  const router = useRouter();
+  const [session, setSession] = useState<UserAccount | null>(null);
+  const [profile, setProfile] = useState<SupplierProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const meRes = await fetch("/api/auth/me", { cache: "no-store" });
+        if (meRes.status === 401) {
+          router.replace("/login");
+          return;
+        }
+        setSession(await readJsonResponse<UserAccount>(meRes, "Loading your account"));
+        const res = await fetch(`/api/suppliers/${encodeURIComponent(params.id)}`, {
+          cache: "no-store",
+        });
+        setProfile(await readJsonResponse<SupplierProfile>(res, "Loading the supplier"));
+      } catch (err) {
+        console.warn("Loading supplier failed", err);
+        setError(err instanceof Error ? err.message : "The supplier could not be loaded.");
+      }
+    };
+    load();
+  }, [params.id, router]);
+
+  const rename = async () => {
+    if (!profile) return;
+    const name = window.prompt("Supplier name", profile.supplier.name);
+    if (!name?.trim() || name.trim() === profile.supplier.name) return;
+    try {
+      const res = await fetch(`/api/suppliers/${encodeURIComponent(params.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim() }),
+      });
+      const supplier = await readJsonResponse<Supplier>(res, "Renaming the supplier");
+      setProfile((prev) => prev && { ...prev, supplier });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Renaming the supplier failed.");
+    }
+  };
+
+  const contractCount = profile?.contracts.length ?? 0;
+  // Clauses changed in every one of several contracts, with any playbook
+  // position the supplier took each time.
+  const habits = (profile?.repeatedDeviations ?? [])
+    .filter((d) => d.always)
+    .map((d) => ({
+      ...d,
+      positions: d.positions.filter(
+        (p) => p.contracts === contractCount && p.match.kind !== "preferred"
+      ),
+    }));
+  const scoreMax = Math.max(1, ...(profile?.riskHistory ?? []).map((r) => r.totalWeightedScore));
+
+  return (
+    <div className="flex min-h-screen bg-gray-50">
+      {/* SIDEBAR */}
+      <Sidebar session={session} />
+
+      {/* MAIN CONTENT */}
+      <main className="flex-1 p-6 space-y-4">
+        <div>
+          <Link href="/suppliers" className="text-[11px] text-emerald-700 hover:underline">
+            ← All suppliers
+          </Link>
+          <div className="flex items-center gap-2 mt-1">
+            <Building2 size={18} className="text-emerald-700" />
+            <h1 className="text-lg font-semibold text-gray-800">
+              {profile?.supplier.name ?? "Supplier"}
+            </h1>
+            {profile && session && canReview(session) && (
+              <button
+                type="button"
+                onClick={rename}
+                className="text-gray-500 hover:text-emerald-700"
+                aria-label="Rename supplier"
+              >
+                <Pencil size={14} />
+              </button>
+            )}
+          </div>
+          {profile && (
+            <p className="text-xs text-gray-500">
+              {contractCount} contract{contractCount === 1 ? "" : "s"} ·{" "}
+              {profile.riskHistory.length} analysis run
+              {profile.riskHistory.length === 1 ? "" : "s"} · added{" "}
+              {new Date(profile.supplier.createdAt).toLocaleDateString()}
+            </p>
+          )}
+        </div>
+
+        {error && <p className="text-xs text-red-700">{error}</p>}
+        {!profile && !error && <p className="text-xs text-gray-400">Loading supplier…</p>}
+
+        {profile && (
+          <>
+            {/* Clauses changed in every contract */}
+            {contractCount > 1 && habits.length > 0 && (
+              <div className="border border-amber-300 bg-amber-50 rounded-xl p-4 space-y-2">
+                <p className="flex items-center gap-2 text-xs font-semibold text-amber-800">
+                  <AlertTriangle size={14} />
+                  Changed in all {contractCount} contracts
+                </p>
+                <ul className="space-y-1">
+                  {habits.map((d) => (
+                    <li key={d.clause} className="flex items-center gap-2 text-xs text-gray-700">
+                      <span className="font-medium">{d.clause}</span>
+                      {d.positions.map((p) => (
+                        <PlaybookBadge key={p.match.positionId} match={p.match} />
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Repeated deviations */}
+            <div className={cardClass}>
+              <p className="text-xs font-semibold text-gray-600 mb-1">Repeated Deviations</p>
+              <p className="text-[11px] text-gray-400">
+                Clauses this supplier changed in more than one contract, in any iteration.
+              </p>
+              <div className="mt-3 space-y-3">
+                {profile.repeatedDeviations.length === 0 && (
+                  <p className="text-xs text-gray-400">
+                    {contractCount > 1
+                      ? "No clause deviates in more than one contract."
+                      : "Repeated deviations show once the supplier has two or more contracts."}
+                  </p>
+                )}
+                {profile.repeatedDeviations.map((d) => (
+                  <div key={d.clause} className="border rounded-lg p-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2 text-xs">
+                      <span className="font-semibold text-gray-800">
+                        {d.clause}
+                        {d.category && (
+                          <span className="ml-2 font-normal text-gray-400">{d.category}</span>
+                        )}
+                      </span>
+                      <span className={d.always ? "text-red-700 font-semibold" : "text-gray-600"}>
+                        {d.always ? "All" : `${d.contracts} of ${contractCount}`} contracts
+                      </span>
+                    </div>
+                    {d.latestSupplierText && (
+                      <p className="text-[11px] text-gray-600 line-clamp-2">
+                        Latest wording: {d.latestSupplierText}
+                      </p>
+                    )}
+                    {d.positions.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {d.positions.map((p) => (
+                          <span
+                            key={p.match.positionId}
+                            className="inline-flex items-center gap-1"
+                          >
+                            <PlaybookBadge match={p.match} />
+                            <span className="text-[10px] text-gray-500">×{p.contracts}</span>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Risk history */}
+            <div className={cardClass}>
+              <p className="text-xs font-semibold text-gray-600 mb-1">Risk History</p>
+              <p className="text-[11px] text-gray-400">
+                Every analysis run of this supplier&apos;s contracts, oldest first.
+              </p>
+              <div className="mt-3 space-y-2">
+                {profile.riskHistory.length === 0 && (
+                  <p className="text-xs text-gray-400">No contracts linked yet.</p>
+                )}
+                {profile.riskHistory.map((r) => (
+                  <div
+                    key={`${r.projectId}-${r.iteration}`}
+                    className="flex items-center gap-3 text-xs text-gray-600"
+                  >
+                    <span className="w-24 shrink-0">
+                      {new Date(r.createdAt).toLocaleDateString()}
+                    </span>
+                    <span className="w-56 shrink-0 truncate" title={r.projectName}>
+                      {r.projectName} · #{r.iteration}
+                    </span>
+                    <div className="flex-1 h-2.5 rounded-full bg-gray-100 overflow-hidden">
+                      <div
+                        className={`h-full ${BAR_COLOURS[r.riskLevel]}`}
+                        style={{ width: `${(r.totalWeightedScore / scoreMax) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-10 shrink-0 text-right">
+                      {r.totalWeightedScore.toFixed(2)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Contracts */}
+            <div className="bg-white rounded-xl border shadow-sm overflow-auto">
+              <p className="px-4 py-3 text-xs font-semibold text-gray-600">Contracts</p>
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-100 text-gray-600 text-[11px] uppercase">
+                  <tr>
+                    <th className="p-3 border-b text-left">Project Name</th>
+                    <th className="p-3 border-b text-left">User</th>
+                    <th className="p-3 border-b text-left">Last Modified</th>
+                    <th className="p-3 border-b text-left">Iterations</th>
+                    <th className="p-3 border-b text-left">Total Weighted Score</th>
+                    <th className="p-3 border-b text-left">Risk Level</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {profile.contracts.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="p-3 text-gray-400">
+                        No contracts you can see are linked to this supplier.
+                      </td>
+                    </tr>
+                  )}
+                  {profile.contracts.map((c) => (
+                    <tr key={c.projectId} className="border-b last:border-b-0">
+                      <td className="p-3 font-medium max-w-xs">
+                        <Link
+                          href={`/?q=${encodeURIComponent(c.projectName)}`}
+                          className="text-emerald-700 underline decoration-emerald-400"
+                        >
+                          {c.projectName}
+                        </Link>
+                        <p
+                          className={`mt-1 text-[10px] font-medium ${statusTones[c.status.tone]}`}
+                          title={c.status.detail}
+                        >
+                          {c.status.label}
+                        </p>
+                      </td>
+                      <td className="p-3 whitespace-nowrap">{c.username}</td>
+                      <td className="p-3 whitespace-nowrap">
+                        {new Date(c.updatedAt).toLocaleString()}
+                      </td>
+                      <td className="p-3">{c.iterations}</td>
+                      <td className="p-3 font-semibold">{c.totalWeightedScore.toFixed(2)}</td>
+                      <td className="p-3">
+                        <RiskBadge level={c.riskLevel} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
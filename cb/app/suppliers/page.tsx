@@ -0,0 +1,164 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Plus } from "lucide-react";
+import RiskBadge from "../../components/RiskBadge";
+import Sidebar from "../../components/Sidebar";
+import { readJsonResponse } from "../../lib/clientApi";
+import type { SupplierSummary } from "../../lib/suppliers";
+import type { Supplier, UserAccount } from "../../lib/types";
+
+const fieldClass =
+  "px-3 py-1.5 text-xs border rounded-full bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
+export default function SuppliersPage() {
+  const router = useRouter();
+  const [session, setSession] = useState<UserAccount | null>(null);
+  const [suppliers, setSuppliers] = useState<SupplierSummary[] | null>(null);
+  const [search, setSearch] = useState("");
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const meRes = await fetch("/api/auth/me", { cache: "no-store" });
+        if (meRes.status === 401) {
+          router.replace("/login");
+          return;
+        }
+        setSession(await readJsonResponse<UserAccount>(meRes, "Loading your account"));
+        const res = await fetch("/api/suppliers", { cache: "no-store" });
+        setSuppliers(await readJsonResponse<SupplierSummary[]>(res, "Loading suppliers"));
+      } catch (err) {
+        console.warn("Loading suppliers failed", err);
+        setError(err instanceof Error ? err.message : "Suppliers could not be loaded.");
+      }
+    };
+    load();
+  }, [router]);
+
+  const addSupplier = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/suppliers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim() }),
+      });
+      const created = await readJsonResponse<Supplier>(res, "Adding the supplier");
+      router.push(`/suppliers/${encodeURIComponent(created.id)}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Adding the supplier failed.");
+      setBusy(false);
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const shown = (suppliers ?? []).filter((s) => s.name.toLowerCase().includes(term));
+
+  return (
+    <div className="flex min-h-screen bg-gray-50">
+      {/* SIDEBAR */}
+      <Sidebar session={session} />
+
+      {/* MAIN CONTENT */}
+      <main className="flex-1 p-6 space-y-4">
+        <div className="flex items-center justify-between flex-wrap gap-3">
+          <div>
+            <h1 className="text-lg font-semibold text-gray-800">Suppliers</h1>
+            <p className="text-xs text-gray-500">
+              Every supplier with the contracts you can see. Open one for its history.
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-wrap">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search suppliers"
+              className={fieldClass}
+            />
+            <form onSubmit={addSupplier} className="flex items-center gap-2">
+              <input
+                type="text"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="New supplier name"
+                className={fieldClass}
+              />
+              <button
+                type="submit"
+                disabled={busy}
+                className="inline-flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-40"
+              >
+                <Plus size={14} />
+                <span>Add Supplier</span>
+              </button>
+            </form>
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-red-700">{error}</p>}
+
+        <div className="bg-white rounded-xl border shadow-sm overflow-auto">
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-100 text-gray-600 text-[11px] uppercase">
+              <tr>
+                <th className="p-3 border-b text-left">Supplier</th>
+                <th className="p-3 border-b text-left">Contracts</th>
+                <th className="p-3 border-b text-left">Average Weighted Score</th>
+                <th className="p-3 border-b text-left">Latest Risk Level</th>
+                <th className="p-3 border-b text-left">Added</th>
+              </tr>
+            </thead>
+            <tbody>
+              {!suppliers && !error && (
+                <tr>
+                  <td colSpan={5} className="p-3 text-gray-400">
+                    Loading suppliers…
+                  </td>
+                </tr>
+              )}
+              {suppliers && shown.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="p-3 text-gray-400">
+                    No suppliers match.
+                  </td>
+                </tr>
+              )}
+              {shown.map((s) => (
+                <tr key={s.id} className="border-b last:border-b-0 hover:bg-emerald-50/60">
+                  <td className="p-3 font-medium">
+                    <Link
+                      href={`/suppliers/${encodeURIComponent(s.id)}`}
+                      className="text-emerald-700 underline decoration-emerald-400"
+                    >
+                      {s.name}
+                    </Link>
+                  </td>
+                  <td className="p-3">{s.contracts}</td>
+                  <td className="p-3 font-semibold">
+                    {s.averageScore === null ? "—" : s.averageScore.toFixed(2)}
+                  </td>
+                  <td className="p-3">
+                    {s.latestRiskLevel ? <RiskBadge level={s.latestRiskLevel} /> : "—"}
+                  </td>
+                  <td className="p-3 whitespace-nowrap">
+                    {new Date(s.createdAt).toLocaleDateString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
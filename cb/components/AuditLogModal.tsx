@@ -0,0 +1,243 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Download, ScrollText, X } from "lucide-react";
+import { AUDIT_ACTIONS, auditActionLabels, formatChanges } from "../lib/audit";
+import { downloadFile, readJsonResponse } from "../lib/clientApi";
+import type { AuditAction, AuditEntry } from "../lib/types";
+
+/* -------------------------------------------------------------------------- */
+/*                              AUDIT LOG (ADMIN)                             */
+/* -------------------------------------------------------------------------- */
+
+type AuditLogModalProps = {
+  open: boolean;
+  onClose: () => void;
+};
+
+type Filters = { action: AuditAction | ""; username: string; from: string; to: string };
+
+const PAGE_SIZE = 50;
+
+const fieldClass =
+  "px-3 py-1.5 text-xs border rounded-full bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
+function queryString(filters: Filters, extra: Record<string, string> = {}): string {
+  const params = new URLSearchParams(extra);
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim());
+  }
+  return params.toString();
+}
+
+function formatDate(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString();
+}
+
+export default function AuditLogModal({ open, onClose }: AuditLogModalProps) {
+  const [filters, setFilters] = useState<Filters>({ action: "", username: "", from: "", to: "" });
+  const [page, setPage] = useState(0);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    const query = queryString(filters, {
+      offset: String(page * PAGE_SIZE),
+      limit: String(PAGE_SIZE),
+    });
+    fetch(`/api/audit?${query}`, { cache: "no-store" })
+      .then((res) =>
+        readJsonResponse<{ entries: AuditEntry[]; total: number }>(res, "Loading the audit log")
+      )
+      .then((data) => {
+        if (cancelled) return;
+        setEntries(data.entries);
+        setTotal(data.total);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Loading failed.");
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, filters, page]);
+
+  if (!open) return null;
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(0);
+  };
+
+  const exportLog = async (format: "csv" | "jsonl") => {
+    setExporting(true);
+    setError(null);
+    try {
+      await downloadFile(
+        `/api/audit/export?${queryString(filters, { format })}`,
+        "Exporting the audit log"
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Exporting the audit log failed.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-6xl max-h-[90vh] overflow-auto relative">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-700 hover:text-black"
+          aria-label="Close audit log"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="p-4 border-b flex items-center gap-2 text-sm font-semibold">
+          <ScrollText size={18} className="text-emerald-700" />
+          <span>Audit Log</span>
+          <span className="ml-auto mr-8 flex items-center gap-1 text-[11px] font-normal text-gray-500">
+            <Download size={14} />
+            <span className="mr-1">Export</span>
+            {(["csv", "jsonl"] as const).map((format) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => exportLog(format)}
+                disabled={exporting}
+                className="px-2 py-0.5 rounded-full border border-emerald-600 text-emerald-700 uppercase hover:bg-emerald-50 disabled:opacity-40"
+              >
+                {format}
+              </button>
+            ))}
+          </span>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="flex items-center gap-2 flex-wrap text-[11px] text-gray-600">
+            <select
+              value={filters.action}
+              onChange={(e) => setFilter("action", e.target.value as Filters["action"])}
+              className={fieldClass}
+            >
+              <option value="">All actions</option>
+              {AUDIT_ACTIONS.map((a) => (
+                <option key={a} value={a}>
+                  {auditActionLabels[a]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={filters.username}
+              onChange={(e) => setFilter("username", e.target.value)}
+              placeholder="Username"
+              className={fieldClass}
+            />
+            <label className="flex items-center gap-1">
+              From
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilter("from", e.target.value)}
+                className={fieldClass}
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              To
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilter("to", e.target.value)}
+                className={fieldClass}
+              />
+            </label>
+            <span className="ml-auto">{total} entries</span>
+          </div>
+          {error && <p className="text-xs text-red-700">{error}</p>}
+
+          <div className="border rounded-xl overflow-auto">
+            <table className="min-w-full text-xs text-left">
+              <thead className="bg-gray-100 text-gray-600 uppercase text-[11px]">
+                <tr>
+                  <th className="p-3 border-b">When</th>
+                  <th className="p-3 border-b">User</th>
+                  <th className="p-3 border-b">Action</th>
+                  <th className="p-3 border-b">Target</th>
+                  <th className="p-3 border-b">Before → After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {!loading && entries.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="p-4 text-center text-gray-400">
+                      No audit entries match the filters.
+                    </td>
+                  </tr>
+                )}
+                {entries.map((e) => (
+                  <tr key={e.id} className="border-b last:border-b-0 align-top">
+                    <td className="p-3 whitespace-nowrap">{formatDate(e.at)}</td>
+                    <td className="p-3 whitespace-nowrap">
+                      {e.displayName}
+                      <span className="block text-[10px] text-gray-500">{e.username}</span>
+                    </td>
+                    <td className="p-3 whitespace-nowrap">{auditActionLabels[e.action]}</td>
+                    <td className="p-3 text-gray-700">
+                      {[
+                        e.projectId && `Project ${e.projectId}`,
+                        e.clause,
+                        e.documentId && !e.detail && `Document ${e.documentId}`,
+                        e.detail,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </td>
+                    <td className="p-3 text-gray-700 whitespace-pre-wrap">{formatChanges(e)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center gap-2 text-[11px] text-gray-600">
+            <button
+              type="button"
+              disabled={page === 0}
+              onClick={() => setPage((p) => Math.max(0, p - 1))}
+              className="px-2 py-1 border rounded disabled:opacity-40 disabled:cursor-not-allowed hover:bg-gray-50"
+            >
+              Prev
+            </button>
+            <button
+              type="button"
+              disabled={page >= totalPages - 1}
+              onClick={() => setPage((p) => Math.min(totalPages - 1, p + 1))}
+              className="px-2 py-1 border rounded disabled:opacity-40 disabled:cursor-not-allowed hover:bg-gray-50"
+            >
+              Next
+            </button>
+            <span className="ml-2">
+              Page {page + 1} of {totalPages}
+            </span>
+            {loading && <span className="ml-auto text-gray-400">Loading…</span>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
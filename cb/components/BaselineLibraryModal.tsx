@@ -0,0 +1,411 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Library, Plus, X } from "lucide-react";
+import {
+  CONTRACT_TYPES,
+  contractTypeLabels,
+  today,
+  versionsByEffectiveDate,
+  versionState,
+  type VersionState,
+} from "../lib/baselines";
+import { readJsonResponse, uploadDocument } from "../lib/clientApi";
+import type { BaselineTemplate, ContractType } from "../lib/types";
+import { checkUploadFile, UPLOAD_ACCEPT } from "../lib/uploads";
+
+/* -------------------------------------------------------------------------- */
+/*                        BASELINE TEMPLATE LIBRARY MODAL                     */
+/* -------------------------------------------------------------------------- */
+
+type BaselineLibraryModalProps = {
+  open: boolean;
+  onClose: () => void;
+  canPublish: boolean; // legal reviewers and admins maintain the library
+};
+
+const stateStyles: Record<VersionState, string> = {
+  current: "bg-emerald-100 text-emerald-800",
+  scheduled: "bg-amber-100 text-amber-800",
+  superseded: "bg-gray-100 text-gray-500",
+};
+
+const fieldClass =
+  "w-full px-3 py-1.5 text-xs border rounded-full bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
+// Version fields shared by "new template" and "publish version".
+type VersionDraft = {
+  file: File | null;
+  version: string;
+  effectiveDate: string;
+  changeLog: string;
+};
+
+const emptyDraft = (version = ""): VersionDraft => ({
+  file: null,
+  version,
+  effectiveDate: today(),
+  changeLog: "",
+});
+
+function VersionFields({
+  draft,
+  onChange,
+}: {
+  draft: VersionDraft;
+  onChange: (draft: VersionDraft) => void;
+}) {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block space-y-1">
+          <span className="text-xs font-semibold text-gray-600">Version</span>
+          <input
+            type="text"
+            required
+            value={draft.version}
+            onChange={(e) => onChange({ ...draft, version: e.target.value })}
+            placeholder="e.g. 2.0"
+            className={fieldClass}
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-xs font-semibold text-gray-600">Effective date</span>
+          <input
+            type="date"
+            required
+            value={draft.effectiveDate}
+            onChange={(e) => onChange({ ...draft, effectiveDate: e.target.value })}
+            className={fieldClass}
+          />
+        </label>
+      </div>
+      <label className="block space-y-1">
+        <span className="text-xs font-semibold text-gray-600">Change log</span>
+        <textarea
+          required
+          rows={3}
+          value={draft.changeLog}
+          onChange={(e) => onChange({ ...draft, changeLog: e.target.value })}
+          placeholder="What changed compared with the previous version"
+          className="w-full px-3 py-2 text-xs border rounded-lg bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500"
+        />
+      </label>
+      <label className="block space-y-1">
+        <span className="text-xs font-semibold text-gray-600">
+          Baseline document (.docx, .pdf, .doc)
+        </span>
+        <input
+          type="file"
+          accept={UPLOAD_ACCEPT}
+          onChange={(e) => onChange({ ...draft, file: e.target.files?.[0] ?? null })}
+          className="block w-full text-xs text-gray-700 file:mr-3 file:px-3 file:py-1.5 file:rounded-full file:border-0 file:bg-emerald-50 file:text-emerald-700"
+        />
+      </label>
+    </>
+  );
+}
+
+// Uploads the draft's file and returns the version fields the API expects.
+async function versionPayload(draft: VersionDraft) {
+  if (!draft.file) throw new Error("Please choose the baseline document.");
+  const problem = checkUploadFile(draft.file);
+  if (problem) throw new Error(problem);
+  const doc = await uploadDocument(draft.file);
+  return {
+    version: draft.version.trim(),
+    effectiveDate: draft.effectiveDate,
+    changeLog: draft.changeLog.trim(),
+    documentId: doc.id,
+  };
+}
+
+export default function BaselineLibraryModal({
+  open,
+  onClose,
+  canPublish,
+}: BaselineLibraryModalProps) {
+  const [templates, setTemplates] = useState<BaselineTemplate[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<"view" | "newTemplate" | "newVersion">("view");
+  const [draft, setDraft] = useState<VersionDraft>(emptyDraft());
+  const [name, setName] = useState("");
+  const [contractType, setContractType] = useState<ContractType>("nda");
+  const [description, setDescription] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoadError(null);
+    fetch("/api/baselines", { cache: "no-store" })
+      .then((res) => readJsonResponse<BaselineTemplate[]>(res, "Loading baselines"))
+      .then((data) => {
+        if (cancelled) return;
+        setTemplates(data);
+        setSelectedId((id) => id ?? data[0]?.id ?? null);
+      })
+      .catch((err) => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : "Loading failed.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  if (!open) return null;
+
+  const selected = templates.find((t) => t.id === selectedId) ?? null;
+
+  const startForm = (next: "newTemplate" | "newVersion") => {
+    setMode(next);
+    setDraft(emptyDraft(next === "newTemplate" ? "1.0" : ""));
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const version = await versionPayload(draft);
+      const res =
+        mode === "newTemplate"
+          ? await fetch("/api/baselines", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ name: name.trim(), contractType, description, ...version }),
+            })
+          : await fetch(`/api/baselines/${selected!.id}/versions`, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify(version),
+            });
+      const template = await readJsonResponse<BaselineTemplate>(res, "Saving the baseline");
+      setTemplates((prev) =>
+        prev.some((t) => t.id === template.id)
+          ? prev.map((t) => (t.id === template.id ? template : t))
+          : [...prev, template]
+      );
+      setSelectedId(template.id);
+      setMode("view");
+      setName("");
+      setDescription("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Saving the baseline failed.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formButtons = (label: string) => (
+    <div className="flex justify-end gap-2">
+      <button
+        type="button"
+        onClick={() => setMode("view")}
+        disabled={submitting}
+        className="px-3 py-1 rounded-full text-[11px] border hover:bg-gray-50 disabled:opacity-40"
+      >
+        Cancel
+      </button>
+      <button
+        type="submit"
+        disabled={submitting}
+        className="px-3 py-1 rounded-full text-[11px] font-medium bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-40"
+      >
+        {submitting ? "Saving…" : label}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl max-h-[90vh] overflow-auto relative">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-700 hover:text-black"
+          aria-label="Close baseline library"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="p-4 border-b flex items-center gap-2 text-sm font-semibold">
+          <Library size={18} className="text-emerald-700" />
+          <span>Baseline Library</span>
+        </div>
+
+        <div className="p-4 grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-4">
+          {/* Templates by contract type */}
+          <div className="space-y-3">
+            {canPublish && (
+              <button
+                type="button"
+                onClick={() => startForm("newTemplate")}
+                className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-[11px] font-medium bg-emerald-600 text-white hover:bg-emerald-700"
+              >
+                <Plus size={14} />
+                <span>New Template</span>
+              </button>
+            )}
+            {loadError && <p className="text-xs text-red-700">{loadError}</p>}
+            {CONTRACT_TYPES.filter((type) => templates.some((t) => t.contractType === type)).map(
+              (type) => (
+                <div key={type}>
+                  <p className="text-[11px] uppercase text-gray-500 font-semibold mb-1">
+                    {contractTypeLabels[type]}
+                  </p>
+                  <ul className="space-y-1">
+                    {templates
+                      .filter((t) => t.contractType === type)
+                      .map((t) => (
+                        <li key={t.id}>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setSelectedId(t.id);
+                              setMode("view");
+                            }}
+                            className={`w-full text-left px-3 py-1.5 rounded-lg text-xs ${
+                              t.id === selectedId && mode !== "newTemplate"
+                                ? "bg-emerald-50 text-emerald-800 font-medium"
+                                : "hover:bg-gray-50"
+                            }`}
+                          >
+                            {t.name}
+                            <span className="ml-1 text-gray-400">({t.versions.length})</span>
+                          </button>
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              )
+            )}
+          </div>
+
+          {/* New template */}
+          {mode === "newTemplate" && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <p className="text-sm font-semibold text-gray-800">New baseline template</p>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block space-y-1">
+                  <span className="text-xs font-semibold text-gray-600">Name</span>
+                  <input
+                    type="text"
+                    required
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. TD Baseline DPA"
+                    className={fieldClass}
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-xs font-semibold text-gray-600">Contract type</span>
+                  <select
+                    value={contractType}
+                    onChange={(e) => setContractType(e.target.value as ContractType)}
+                    className={fieldClass}
+                  >
+                    {CONTRACT_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {contractTypeLabels[type]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <label className="block space-y-1">
+                <span className="text-xs font-semibold text-gray-600">Description</span>
+                <input
+                  type="text"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+              <VersionFields draft={draft} onChange={setDraft} />
+              {error && <p className="text-xs text-red-700">{error}</p>}
+              {formButtons("Create Template")}
+            </form>
+          )}
+
+          {/* Selected template + versions */}
+          {mode !== "newTemplate" && selected && (
+            <div className="space-y-4">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="text-sm font-semibold text-gray-800">{selected.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {contractTypeLabels[selected.contractType]}
+                    {selected.description && ` · ${selected.description}`}
+                  </p>
+                </div>
+                {canPublish && mode === "view" && (
+                  <button
+                    type="button"
+                    onClick={() => startForm("newVersion")}
+                    className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-[11px] font-medium border border-emerald-600 text-emerald-700 hover:bg-emerald-50 whitespace-nowrap"
+                  >
+                    <Plus size={14} />
+                    <span>Publish Version</span>
+                  </button>
+                )}
+              </div>
+
+              {mode === "newVersion" && (
+                <form onSubmit={handleSubmit} className="border rounded-xl p-4 space-y-4 bg-gray-50">
+                  <VersionFields draft={draft} onChange={setDraft} />
+                  {error && <p className="text-xs text-red-700">{error}</p>}
+                  {formButtons("Publish")}
+                </form>
+              )}
+
+              <div className="border rounded-xl overflow-auto">
+                <table className="min-w-full text-xs text-left">
+                  <thead className="bg-gray-100 text-gray-600 uppercase text-[11px]">
+                    <tr>
+                      <th className="p-3 border-b">Version</th>
+                      <th className="p-3 border-b">Effective</th>
+                      <th className="p-3 border-b">Change Log</th>
+                      <th className="p-3 border-b">Document</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...versionsByEffectiveDate(selected)].reverse().map((v) => {
+                      const state = versionState(selected, v);
+                      return (
+                        <tr key={v.id} className="border-b last:border-b-0 align-top">
+                          <td className="p-3 whitespace-nowrap">
+                            <span className="font-semibold">v{v.version}</span>
+                            <span
+                              className={`ml-2 px-2 py-0.5 rounded-full text-[10px] ${stateStyles[state]}`}
+                            >
+                              {state}
+                            </span>
+                          </td>
+                          <td className="p-3 whitespace-nowrap">{v.effectiveDate}</td>
+                          <td className="p-3 whitespace-pre-line text-gray-700">{v.changeLog}</td>
+                          <td className="p-3">
+                            <a
+                              href={`/api/documents/${encodeURIComponent(v.documentId)}`}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="text-emerald-700 underline decoration-emerald-400 text-[11px]"
+                            >
+                              {v.documentTitle}
+                            </a>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Crosshair, X } from "lucide-react";
+import DocumentPane, { type PassageHighlight } from "./DocumentPane";
+import { readJsonResponse } from "../lib/clientApi";
+import type { Clause, DeviationRow, DocumentAnchor } from "../lib/types";
+
+/* -------------------------------------------------------------------------- */
+/*                 DEVIATION -> HIGHLIGHTED CLAUSE IN BOTH DOCUMENTS          */
+/* -------------------------------------------------------------------------- */
+
+type SourceDocument = { title: string; url: string };
+
+// A deviation row, or a clause found some other way (e.g. by a search). With
+// `only` set, just that document is shown. `documents` replaces the current
+// run's documents for a row or clause from an earlier run.
+export type ClauseFocus = Pick<
+  DeviationRow,
+  "clause" | "deviation" | "baselineAnchor" | "supplierAnchor"
+> & {
+  only?: "supplier" | "baseline";
+  documents?: Partial<Record<"supplier" | "baseline", SourceDocument>>;
+};
+
+type ClauseSourceViewerProps = {
+  open: boolean;
+  onClose: () => void;
+  deviation: ClauseFocus | null;
+  supplier: SourceDocument;
+  baseline: SourceDocument;
+};
+
+// Resolves an anchor to the text of every paragraph in its clause.
+async function loadHighlight(
+  url: string,
+  anchor: DocumentAnchor | undefined
+): Promise<PassageHighlight | null> {
+  if (!anchor) return null;
+  const res = await fetch(`${url}/clauses`, { cache: "no-store" });
+  const { clauses } = await readJsonResponse<{ clauses: Clause[] }>(res, "Loading clauses");
+  const clause = clauses.find((c) => c.id === anchor.clauseId);
+  return {
+    paragraphIndex: anchor.paragraphIndex,
+    page: clause?.paragraphs[0]?.page,
+    texts: clause ? clause.paragraphs.map((p) => p.text) : [],
+  };
+}
+
+export default function ClauseSourceViewer({
+  open,
+  onClose,
+  deviation,
+  supplier: currentSupplier,
+  baseline: currentBaseline,
+}: ClauseSourceViewerProps) {
+  const supplier = deviation?.documents?.supplier ?? currentSupplier;
+  const baseline = deviation?.documents?.baseline ?? currentBaseline;
+
+  const [highlights, setHighlights] = useState<{
+    baseline: PassageHighlight | null;
+    supplier: PassageHighlight | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!open || !deviation) return;
+    let cancelled = false;
+    setHighlights(null);
+
+    (async () => {
+      const [b, s] = await Promise.all([
+        loadHighlight(baseline.url, deviation.baselineAnchor).catch(() => null),
+        loadHighlight(supplier.url, deviation.supplierAnchor).catch(() => null),
+      ]);
+      if (!cancelled) setHighlights({ baseline: b, supplier: s });
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, deviation, baseline.url, supplier.url]);
+
+  if (!open || !deviation) return null;
+
+  const pane = (label: string, doc: SourceDocument, highlight: PassageHighlight | null) => (
+    <div className="flex flex-col min-h-0">
+      <div className="px-4 py-2 border-b bg-gray-50 text-[11px] font-semibold uppercase text-gray-600">
+        {label} · {doc.title}
+        {!highlight && <span className="ml-2 normal-case font-normal">(clause not present)</span>}
+      </div>
+      <div className="flex-1 overflow-auto">
+        {highlights && <DocumentPane url={doc.url} highlight={highlight} className="p-2" />}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-7xl h-[90vh] flex flex-col relative">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-700 hover:text-black"
+          aria-label="Close clause source viewer"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="p-4 border-b flex items-center gap-2 text-sm font-semibold">
+          <Crosshair size={18} className="text-emerald-700" />
+          <span>{deviation.clause}</span>
+          <span className="ml-2 text-xs font-normal text-gray-500 truncate">
+            {deviation.deviation}
+          </span>
+        </div>
+
+        {!highlights && <p className="p-4 text-xs text-gray-500">Locating clause…</p>}
+
+        {highlights && (
+          <div
+            className={`grid ${deviation.only ? "grid-cols-1" : "grid-cols-2"} divide-x flex-1 min-h-0`}
+          >
+            {deviation.only !== "supplier" &&
+              pane("TD Baseline Standard", baseline, highlights.baseline)}
+            {deviation.only !== "baseline" &&
+              pane("Supplier Contract", supplier, highlights.supplier)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
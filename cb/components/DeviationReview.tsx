@@ -0,0 +1,228 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { MessageSquare } from "lucide-react";
+import { readJsonResponse } from "../lib/clientApi";
+import {
+  commentThreads,
+  REVIEW_STATUSES,
+  reviewOf,
+  reviewStatusLabels,
+  type CommentNode,
+} from "../lib/review";
+import type { DeviationRow, ProjectRow, ReviewStatus } from "../lib/types";
+
+/* -------------------------------------------------------------------------- */
+/*                    PER-DEVIATION REVIEW CONTROLS + COMMENTS                */
+/* -------------------------------------------------------------------------- */
+
+const statusStyles: Record<ReviewStatus, string> = {
+  open: "bg-gray-50 text-gray-700 border-gray-300",
+  accepted: "bg-emerald-50 text-emerald-800 border-emerald-300",
+  rejected: "bg-red-50 text-red-800 border-red-300",
+  countered: "bg-amber-50 text-amber-800 border-amber-300",
+};
+
+type ReviewTarget = {
+  projectId: string;
+  devId: string;
+  onUpdated: (project: ProjectRow) => void;
+};
+
+async function sendReview(
+  { projectId, devId }: ReviewTarget,
+  path: "review" | "comments",
+  method: "PATCH" | "POST",
+  body: Record<string, unknown>
+): Promise<ProjectRow> {
+  const res = await fetch(
+    `/api/projects/${projectId}/deviations/${encodeURIComponent(devId)}/${path}`,
+    {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }
+  );
+  return readJsonResponse<ProjectRow>(res, "Saving the review");
+}
+
+type ReviewControlsProps = ReviewTarget & {
+  deviation: DeviationRow;
+  canReview: boolean; // submitters see decisions but cannot change them
+  commentsOpen: boolean;
+  onToggleComments: () => void;
+};
+
+// Status, assignee and the comment toggle for one table row. Clicks are kept
+// from reaching the row, which opens the clause viewer.
+export function ReviewControls({
+  deviation,
+  canReview,
+  commentsOpen,
+  onToggleComments,
+  ...target
+}: ReviewControlsProps) {
+  const review = reviewOf(deviation);
+  const [assignee, setAssignee] = useState(review.assignee ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setAssignee(review.assignee ?? ""), [review.assignee]);
+
+  const save = async (patch: Record<string, unknown>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      target.onUpdated(await sendReview(target, "review", "PATCH", patch));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Saving the review failed.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveAssignee = () => {
+    if (assignee.trim() === (review.assignee ?? "")) return;
+    save({ assignee: assignee.trim() || null });
+  };
+
+  return (
+    <div className="space-y-1.5" onClick={(e) => e.stopPropagation()}>
+      <select
+        value={review.status}
+        disabled={!canReview || saving}
+        onChange={(e) => save({ status: e.target.value })}
+        className={`w-full border rounded px-2 py-1 text-[11px] ${statusStyles[review.status]}`}
+      >
+        {REVIEW_STATUSES.map((s) => (
+          <option key={s} value={s}>
+            {reviewStatusLabels[s]}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={assignee}
+        disabled={!canReview || saving}
+        onChange={(e) => setAssignee(e.target.value)}
+        onBlur={saveAssignee}
+        onKeyDown={(e) => e.key === "Enter" && saveAssignee()}
+        placeholder="Assignee"
+        className="w-full border rounded px-2 py-1 text-[11px] bg-white"
+      />
+      <button
+        type="button"
+        onClick={onToggleComments}
+        className={`inline-flex items-center gap-1 text-[11px] ${
+          commentsOpen ? "text-emerald-800 font-semibold" : "text-emerald-700"
+        } hover:underline`}
+      >
+        <MessageSquare size={12} /> {review.comments.length} comment
+        {review.comments.length === 1 ? "" : "s"}
+      </button>
+      {error && <p className="text-[11px] text-red-700">{error}</p>}
+    </div>
+  );
+}
+
+function formatCommentDate(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString();
+}
+
+type CommentThreadProps = ReviewTarget & {
+  deviation: DeviationRow;
+};
+
+// New comments are posted as the signed-in user.
+export function CommentThread({ deviation, ...target }: CommentThreadProps) {
+  const threads = commentThreads(reviewOf(deviation).comments);
+  const [draft, setDraft] = useState("");
+  const [replyTo, setReplyTo] = useState<CommentNode | null>(null);
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const post = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    setPosting(true);
+    setError(null);
+    try {
+      const project = await sendReview(target, "comments", "POST", {
+        body: draft,
+        parentId: replyTo?.id ?? null,
+      });
+      target.onUpdated(project);
+      setDraft("");
+      setReplyTo(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Posting the comment failed.");
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const renderNode = (node: CommentNode, depth: number): React.ReactNode => (
+    <li key={node.id} className={depth > 0 ? "ml-5 border-l pl-3" : ""}>
+      <div className="text-[11px] text-gray-500">
+        <span className="font-semibold text-gray-700">{node.author}</span> ·{" "}
+        {formatCommentDate(node.createdAt)}
+        <button
+          type="button"
+          onClick={() => setReplyTo(node)}
+          className="ml-2 text-emerald-700 hover:underline"
+        >
+          Reply
+        </button>
+      </div>
+      <p className="text-xs text-gray-800 whitespace-pre-wrap">{node.body}</p>
+      {node.replies.length > 0 && (
+        <ul className="mt-2 space-y-2">{node.replies.map((r) => renderNode(r, depth + 1))}</ul>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+      {threads.length === 0 ? (
+        <p className="text-[11px] text-gray-400">No comments yet.</p>
+      ) : (
+        <ul className="space-y-2">{threads.map((t) => renderNode(t, 0))}</ul>
+      )}
+
+      <form onSubmit={post} className="space-y-1">
+        {replyTo && (
+          <p className="text-[11px] text-gray-500">
+            Replying to <span className="font-semibold">{replyTo.author}</span>{" "}
+            <button
+              type="button"
+              onClick={() => setReplyTo(null)}
+              className="text-emerald-700 hover:underline"
+            >
+              cancel
+            </button>
+          </p>
+        )}
+        <div className="flex items-start gap-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={2}
+            disabled={posting}
+            placeholder="Add a comment"
+            className="flex-1 border rounded px-2 py-1 text-xs bg-white"
+          />
+          <button
+            type="submit"
+            disabled={!draft.trim() || posting}
+            className="px-3 py-1 rounded-full text-[11px] font-medium bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-40"
+          >
+            {posting ? "Posting…" : "Post"}
+          </button>
+        </div>
+        {error && <p className="text-[11px] text-red-700">{error}</p>}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import * as docxPreview from "docx-preview";
+import { readJsonResponse } from "../lib/clientApi";
+import { detectDocumentFormat, formatOfContentType } from "../lib/documentFormats";
+import type { Clause } from "../lib/types";
+
+/* -------------------------------------------------------------------------- */
+/*                 DOCX / PDF / DOC RENDERING WITH PASSAGE HIGHLIGHTS         */
+/* -------------------------------------------------------------------------- */
+
+export type PassageHighlight = {
+  paragraphIndex: number; // ClauseParagraph.paragraphIndex, used to find the rendered paragraph
+  page?: number; // PDFs only: page the passage starts on
+  texts: string[]; // passage text to mark, one entry per extracted paragraph
+};
+
+const MARK_CLASS = "bg-yellow-200 rounded-sm";
+
+// Wraps the whitespace-insensitive match of `text` inside `el` in <mark>s.
+// Extracted text and rendered text differ in line breaks and spacing, so the
+// match is done on strings with all whitespace removed.
+function markText(el: HTMLElement, text: string): HTMLElement | null {
+  const needle = text.replace(/\s+/g, "");
+  if (!needle) return null;
+
+  const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+  const positions: { node: Text; offset: number }[] = [];
+  let haystack = "";
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    const value = node.nodeValue ?? "";
+    for (let i = 0; i < value.length; i++) {
+      if (/\s/.test(value[i])) continue;
+      haystack += value[i];
+      positions.push({ node, offset: i });
+    }
+  }
+
+  const start = haystack.indexOf(needle);
+  if (start === -1) return null;
+  const end = start + needle.length - 1;
+
+  // Group the matched characters by text node, then wrap each node's slice.
+  const slices = new Map<Text, { from: number; to: number }>();
+  for (let i = start; i <= end; i++) {
+    const { node, offset } = positions[i];
+    const slice = slices.get(node);
+    if (slice) slice.to = offset + 1;
+    else slices.set(node, { from: offset, to: offset + 1 });
+  }
+
+  let first: HTMLElement | null = null;
+  slices.forEach(({ from, to }, node) => {
+    const range = document.createRange();
+    range.setStart(node, from);
+    range.setEnd(node, to);
+    const mark = document.createElement("mark");
+    mark.className = MARK_CLASS;
+    range.surroundContents(mark);
+    first ??= mark;
+  });
+  return first;
+}
+
+// Highlights the passage and returns the element to scroll to. The rendered
+// paragraph at `paragraphIndex` is tried first; page splits and tables can
+// shift the numbering, so every body paragraph is searched as a fallback.
+function highlightPassage(root: HTMLElement, highlight: PassageHighlight): HTMLElement | null {
+  const paragraphs = Array.from(root.querySelectorAll<HTMLElement>("article p"));
+  const preferred = paragraphs.slice(highlight.paragraphIndex);
+
+  let first: HTMLElement | null = null;
+  for (const text of highlight.texts) {
+    let mark: HTMLElement | null = null;
+    for (const p of [...preferred, ...paragraphs]) {
+      mark = markText(p, text);
+      if (mark) break;
+    }
+    first ??= mark;
+  }
+
+  if (!first) {
+    // Fall back to outlining the paragraph the anchor points at.
+    const target = paragraphs[highlight.paragraphIndex];
+    target?.classList.add("bg-yellow-100");
+    return target ?? null;
+  }
+  return first;
+}
+
+// Browsers cannot render Word 97-2003 files, so a DOC is shown as the text
+// the server extracted from it: one <p> per paragraph, in paragraphIndex
+// order, which is what highlightPassage expects.
+async function renderExtractedText(url: string, el: HTMLElement) {
+  const res = await fetch(`${url}/clauses`, { cache: "no-store" });
+  const { clauses } = await readJsonResponse<{ clauses: Clause[] }>(res, "Loading document text");
+  const article = document.createElement("article");
+  article.className = "max-w-3xl mx-auto space-y-2 text-sm leading-relaxed text-gray-800";
+  for (const clause of clauses) {
+    for (const paragraph of clause.paragraphs) {
+      const p = document.createElement("p");
+      p.textContent = paragraph.text;
+      article.appendChild(p);
+    }
+  }
+  el.appendChild(article);
+}
+
+// PDFs go to the browser's own viewer, opened at the passage's page. The
+// viewer cannot mark text, so the passage is quoted above it instead.
+function renderPdf(buffer: ArrayBuffer, el: HTMLElement, highlight?: PassageHighlight | null) {
+  const src = URL.createObjectURL(new Blob([buffer], { type: "application/pdf" }));
+  if (highlight && highlight.texts.length > 0) {
+    const note = document.createElement("div");
+    note.className = "mb-2 p-2 rounded border bg-yellow-50 text-xs text-gray-700";
+    const where = document.createElement("p");
+    where.className = "font-semibold";
+    where.textContent = highlight.page ? `Passage on page ${highlight.page}` : "Passage";
+    const quote = document.createElement("mark");
+    quote.className = MARK_CLASS;
+    quote.textContent = highlight.texts.join(" ");
+    note.append(where, quote);
+    el.appendChild(note);
+  }
+  const frame = document.createElement("iframe");
+  frame.src = highlight?.page ? `${src}#page=${highlight.page}` : src;
+  frame.title = "PDF document";
+  frame.className = "w-full h-[70vh] border rounded";
+  el.appendChild(frame);
+  return () => URL.revokeObjectURL(src);
+}
+
+type DocumentPaneProps = {
+  url: string;
+  highlight?: PassageHighlight | null;
+  className?: string;
+};
+
+// Renders a stored document by the type it was uploaded as (the response's
+// Content-Type, or its leading bytes when that is missing).
+export default function DocumentPane({ url, highlight, className }: DocumentPaneProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!url || !containerRef.current) return;
+    const el = containerRef.current;
+    let cancelled = false;
+    let release: (() => void) | undefined;
+
+    (async () => {
+      try {
+        const res = await fetch(url);
+        if (!res.ok) {
+          throw new Error(`Failed to fetch document: ${res.status}`);
+        }
+        const buffer = await res.arrayBuffer();
+        if (cancelled) return;
+        const format =
+          formatOfContentType(res.headers.get("Content-Type")) ??
+          detectDocumentFormat(new Uint8Array(buffer));
+        el.innerHTML = "";
+
+        if (format === "pdf") {
+          release = renderPdf(buffer, el, highlight);
+          return;
+        }
+        if (format === "doc") await renderExtractedText(url, el);
+        else await docxPreview.renderAsync(buffer, el);
+        if (cancelled || !highlight) return;
+
+        const target = highlightPassage(el, highlight);
+        target?.scrollIntoView({ block: "center" });
+      } catch (err) {
+        console.warn("Document preview failed", err);
+        el.innerHTML =
+          "<p style='color:#b91c1c;font-size:12px'>Document preview is unavailable. Please download and open locally.</p>";
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      release?.();
+    };
+  }, [url, highlight]);
+
+  return <div ref={containerRef} className={className} />;
+}
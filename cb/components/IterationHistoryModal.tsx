@@ -0,0 +1,302 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { History, X } from "lucide-react";
+import RiskBadge from "./RiskBadge";
+import { currentVersion, pinLabel } from "../lib/baselines";
+import { readJsonResponse, uploadDocument } from "../lib/clientApi";
+import { compareIterations, projectIterations } from "../lib/iterations";
+import type { BaselineVersion, DeviationRow, IterationRun, ProjectRow } from "../lib/types";
+import { checkUploadFile, UPLOAD_ACCEPT } from "../lib/uploads";
+
+/* -------------------------------------------------------------------------- */
+/*                   ITERATION HISTORY + RUN-TO-RUN COMPARISON                */
+/* -------------------------------------------------------------------------- */
+
+type IterationHistoryModalProps = {
+  open: boolean;
+  onClose: () => void;
+  project: ProjectRow;
+  onUpdated: (project: ProjectRow) => void;
+};
+
+function formatDisplayDate(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString();
+}
+
+function DeviationList({
+  title,
+  rows,
+  tone,
+}: {
+  title: string;
+  rows: { key: string; clause: string; detail: React.ReactNode }[];
+  tone: string;
+}) {
+  return (
+    <div className="border rounded-xl p-3 bg-white">
+      <p className={`text-xs font-semibold mb-2 ${tone}`}>
+        {title} ({rows.length})
+      </p>
+      {rows.length === 0 ? (
+        <p className="text-[11px] text-gray-400">None</p>
+      ) : (
+        <ul className="space-y-1 text-[11px] text-gray-700">
+          {rows.map((r) => (
+            <li key={r.key} className="flex justify-between gap-2">
+              <span className="truncate">{r.clause}</span>
+              <span className="whitespace-nowrap text-gray-500">{r.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+const baselineLabel = (run: IterationRun) =>
+  run.baseline ? pinLabel(run.baseline) : run.baselineDocTitle;
+
+const scoreRow = (d: DeviationRow, i: number) => ({
+  key: `${d.clause}-${i}`,
+  clause: d.clause,
+  detail: <RiskBadge level={d.riskLevel} />,
+});
+
+export default function IterationHistoryModal({
+  open,
+  onClose,
+  project,
+  onUpdated,
+}: IterationHistoryModalProps) {
+  const runs = projectIterations(project);
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [supplierFile, setSupplierFile] = useState<File | null>(null);
+  // Library version in force today, when it is newer than the project's pin.
+  const [newerBaseline, setNewerBaseline] = useState<BaselineVersion | null>(null);
+  const [useNewerBaseline, setUseNewerBaseline] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to comparing the previous run with the latest one.
+  const latestId = runs[runs.length - 1].id;
+  const previousId = runs[Math.max(0, runs.length - 2)].id;
+  useEffect(() => {
+    setToId(latestId);
+    setFromId(previousId);
+  }, [project.id, latestId, previousId]);
+
+  // Checked again only when the pinned version changes, not whenever a reload
+  // replaces the project object.
+  const pin = project.baseline;
+  const pinnedTemplateId = pin?.templateId;
+  const pinnedVersionId = pin?.versionId;
+  useEffect(() => {
+    setNewerBaseline(null);
+    setUseNewerBaseline(false);
+    if (!open || !pinnedTemplateId) return;
+    let cancelled = false;
+    fetch(`/api/baselines/${encodeURIComponent(pinnedTemplateId)}`, { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((template) => {
+        const inForce = template ? currentVersion(template) : null;
+        if (!cancelled && inForce && inForce.id !== pinnedVersionId) setNewerBaseline(inForce);
+      })
+      .catch((err) => console.warn("Loading baseline template failed", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, pinnedTemplateId, pinnedVersionId]);
+
+  if (!open) return null;
+
+  const from = runs.find((r) => r.id === fromId) ?? runs[0];
+  const to = runs.find((r) => r.id === toId) ?? runs[runs.length - 1];
+  const comparison = compareIterations(from, to);
+
+  const handleAddIteration = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!supplierFile) {
+      setError("Please choose the new supplier version.");
+      return;
+    }
+    const problem = checkUploadFile(supplierFile);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const supplier = await uploadDocument(supplierFile);
+      const res = await fetch(`/api/projects/${project.id}/iterations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          supplierDocumentId: supplier.id,
+          // Without a baseline the run stays on the project's pinned version.
+          ...(useNewerBaseline && pin && newerBaseline
+            ? { baselineTemplateId: pin.templateId, baselineVersionId: newerBaseline.id }
+            : {}),
+        }),
+      });
+      onUpdated(await readJsonResponse<ProjectRow>(res, "Running the new iteration"));
+      setSupplierFile(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Adding the iteration failed.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const delta = comparison.scoreDelta;
+  const deltaText =
+    delta === 0 ? "no change" : `${delta < 0 ? "▼" : "▲"} ${Math.abs(delta).toFixed(2)}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl max-h-[90vh] overflow-auto relative">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-700 hover:text-black"
+          aria-label="Close iteration history"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="p-4 border-b flex items-center gap-2 text-sm font-semibold">
+          <History size={18} className="text-emerald-700" />
+          <span>Iteration History – {project.projectName}</span>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Runs */}
+          <div className="border rounded-xl overflow-auto">
+            <table className="min-w-full text-xs text-left">
+              <thead className="bg-gray-100 text-gray-600 uppercase text-[11px]">
+                <tr>
+                  <th className="p-3 border-b">Iteration</th>
+                  <th className="p-3 border-b">Run</th>
+                  <th className="p-3 border-b">Supplier Document</th>
+                  <th className="p-3 border-b">Baseline</th>
+                  <th className="p-3 border-b">Deviations</th>
+                  <th className="p-3 border-b">Total Weighted Score</th>
+                  <th className="p-3 border-b">Risk Level</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...runs].reverse().map((run) => (
+                  <tr key={run.id} className="border-b last:border-b-0">
+                    <td className="p-3 font-semibold">#{run.number}</td>
+                    <td className="p-3 whitespace-nowrap">{formatDisplayDate(run.createdAt)}</td>
+                    <td className="p-3">{run.supplierDocTitle}</td>
+                    <td className="p-3">{baselineLabel(run)}</td>
+                    <td className="p-3">{run.deviations.length}</td>
+                    <td className="p-3 font-semibold">{run.totalWeightedScore.toFixed(2)}</td>
+                    <td className="p-3">
+                      <RiskBadge level={run.riskLevel} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Add a run */}
+          <form onSubmit={handleAddIteration} className="flex items-center gap-2 flex-wrap">
+            <span className="text-xs font-semibold text-gray-600">New supplier version</span>
+            <input
+              type="file"
+              accept={UPLOAD_ACCEPT}
+              onChange={(e) => setSupplierFile(e.target.files?.[0] ?? null)}
+              className="text-xs text-gray-700 file:mr-3 file:px-3 file:py-1.5 file:rounded-full file:border-0 file:bg-emerald-50 file:text-emerald-700"
+            />
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-3 py-1 rounded-full text-[11px] font-medium bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-40"
+            >
+              {submitting ? "Analysing…" : "Add Iteration"}
+            </button>
+            {pin && newerBaseline && (
+              <label className="inline-flex items-center gap-1 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={useNewerBaseline}
+                  onChange={(e) => setUseNewerBaseline(e.target.checked)}
+                />
+                Compare against current v{newerBaseline.version} (pinned: v{pin.version})
+              </label>
+            )}
+            {error && <span className="text-xs text-red-700">{error}</span>}
+          </form>
+
+          {/* Compare two runs */}
+          <div className="border rounded-xl p-4 space-y-3 bg-gray-50">
+            <div className="flex items-center gap-2 text-xs text-gray-600 flex-wrap">
+              <span className="font-semibold">Compare</span>
+              <select
+                value={from.id}
+                onChange={(e) => setFromId(e.target.value)}
+                className="border rounded px-2 py-1 bg-white"
+              >
+                {runs.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    #{r.number}
+                  </option>
+                ))}
+              </select>
+              <span>with</span>
+              <select
+                value={to.id}
+                onChange={(e) => setToId(e.target.value)}
+                className="border rounded px-2 py-1 bg-white"
+              >
+                {runs.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    #{r.number}
+                  </option>
+                ))}
+              </select>
+              <span className="ml-auto">
+                Total weighted score {from.totalWeightedScore.toFixed(2)} →{" "}
+                <span className="font-semibold text-gray-900">
+                  {to.totalWeightedScore.toFixed(2)}
+                </span>{" "}
+                <span className={delta > 0 ? "text-red-700" : delta < 0 ? "text-emerald-700" : ""}>
+                  ({deltaText})
+                </span>
+              </span>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <DeviationList
+                title="Resolved"
+                tone="text-emerald-700"
+                rows={comparison.resolved.map(scoreRow)}
+              />
+              <DeviationList
+                title="New"
+                tone="text-red-700"
+                rows={comparison.introduced.map(scoreRow)}
+              />
+              <DeviationList
+                title="Unchanged"
+                tone="text-gray-600"
+                rows={comparison.unchanged.map((c, i) => ({
+                  key: `${c.clause}-${i}`,
+                  clause: c.clause,
+                  detail: `${c.from.score.toFixed(1)} → ${c.to.score.toFixed(1)}`,
+                }))}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
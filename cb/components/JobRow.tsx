@@ -0,0 +1,115 @@
+"use client";
+
+import React from "react";
+import { RotateCcw, X } from "lucide-react";
+import {
+  canRetryJob,
+  currentJobStage,
+  isJobActive,
+  jobKindLabels,
+  jobProgress,
+  jobStageLabels,
+  jobStatusLabels,
+} from "../lib/jobs";
+import type { AnalysisJob } from "../lib/types";
+
+/* -------------------------------------------------------------------------- */
+/*                     IN-PROGRESS ROW FOR THE ITERATIONS TABLE               */
+/* -------------------------------------------------------------------------- */
+
+type JobRowProps = {
+  job: AnalysisJob;
+  columns: number; // of the table the row sits in
+  onCancel: () => void;
+  onRetry: () => void;
+  onDismiss: () => void;
+};
+
+const statusTones: Record<AnalysisJob["status"], string> = {
+  queued: "text-gray-600",
+  running: "text-emerald-700",
+  succeeded: "text-emerald-700",
+  failed: "text-red-700",
+  cancelled: "text-gray-500",
+};
+
+// Stands in for a project while its analysis is queued or running, and stays
+// after a failure or cancel so the user can retry or dismiss it.
+export default function JobRow({ job, columns, onCancel, onRetry, onDismiss }: JobRowProps) {
+  const active = isJobActive(job);
+  const stage = currentJobStage(job);
+  const percent = Math.round(jobProgress(job) * 100);
+
+  return (
+    <tr className="border-b last:border-b-0 bg-gray-50/80">
+      <td className="p-3 whitespace-nowrap text-gray-500">{job.submittedBy}</td>
+      <td className="p-3 font-medium max-w-xs truncate text-gray-700">
+        {job.projectName}
+        <span className="block text-[10px] font-normal text-gray-400">
+          {jobKindLabels[job.request.kind]}
+          {job.attempts > 1 && ` · attempt ${job.attempts}`}
+        </span>
+      </td>
+      <td className="p-3 whitespace-nowrap text-gray-500">
+        {new Date(job.createdAt).toLocaleString()}
+      </td>
+      <td className="p-3 whitespace-nowrap text-gray-500">
+        {new Date(job.updatedAt).toLocaleString()}
+      </td>
+      <td className="p-3" colSpan={columns - 4}>
+        <div className="flex items-center gap-3">
+          <div className="w-48 h-2 rounded-full bg-gray-200 overflow-hidden shrink-0">
+            <div
+              className={`h-full ${job.status === "failed" ? "bg-red-400" : "bg-emerald-500"}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <span className={`text-[11px] font-medium ${statusTones[job.status]}`}>
+            {jobStatusLabels[job.status]}
+            {active && ` · ${percent}%`}
+          </span>
+          {stage && (
+            <span className="text-[11px] text-gray-500">
+              {jobStageLabels[stage.name]}
+              {stage.name === "analyze" && stage.total > 0 && ` (${stage.done}/${stage.total})`}
+            </span>
+          )}
+          {job.cancelRequested && <span className="text-[11px] text-gray-500">Stopping…</span>}
+
+          <div className="ml-auto flex items-center gap-2">
+            {active && !job.cancelRequested && (
+              <button
+                type="button"
+                onClick={onCancel}
+                className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-[11px] border hover:bg-gray-100"
+              >
+                <X size={12} />
+                <span>Cancel</span>
+              </button>
+            )}
+            {canRetryJob(job) && (
+              <>
+                <button
+                  type="button"
+                  onClick={onRetry}
+                  className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-[11px] font-medium bg-emerald-600 text-white hover:bg-emerald-700"
+                >
+                  <RotateCcw size={12} />
+                  <span>Retry</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={onDismiss}
+                  className="px-3 py-1 rounded-full text-[11px] border hover:bg-gray-100"
+                >
+                  Dismiss
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+        {job.error && <p className="mt-1 text-[11px] text-red-700">{job.error}</p>}
+      </td>
+    </tr>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { readJsonResponse } from "../lib/clientApi";
+import { keyTermLabels, type KeyTermRow, type TermSource } from "../lib/keyTerms";
+
+/* -------------------------------------------------------------------------- */
+/*                    KEY CONTRACT TERMS, SUPPLIER VS BASELINE                */
+/* -------------------------------------------------------------------------- */
+
+type KeyTermsPanelProps = {
+  projectId: string;
+};
+
+// Where a value was read from; hovering shows the sentence itself.
+function SourceNote({ sources }: { sources: TermSource[] }) {
+  if (sources.length === 0) return null;
+  const clauses = Array.from(new Set(sources.map((s) => s.clause)));
+  return (
+    <span
+      className="block text-[10px] text-gray-400 truncate"
+      title={sources.map((s) => `${s.clause}: ${s.excerpt}`).join("\n")}
+    >
+      {clauses.join(", ")}
+    </span>
+  );
+}
+
+// The latest iteration's governing law, term, termination, notice, liability
+// and data-handling terms, flagging those that differ from the baseline.
+export default function KeyTermsPanel({ projectId }: KeyTermsPanelProps) {
+  const [rows, setRows] = useState<KeyTermRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRows(null);
+    setError(null);
+    fetch(`/api/projects/${projectId}/key-terms`, { cache: "no-store" })
+      .then((res) => readJsonResponse<{ rows: KeyTermRow[] }>(res, "Loading the key terms"))
+      .then((data) => !cancelled && setRows(data.rows))
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Loading the key terms failed.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const differing = rows?.filter((r) => r.differs).length ?? 0;
+
+  return (
+    <div className="border rounded-xl p-4 shadow-sm bg-white">
+      <p className="text-xs font-semibold text-gray-600 mb-1">
+        Key Terms
+        {differing > 0 && (
+          <span className="ml-2 font-normal text-amber-700">{differing} differ from baseline</span>
+        )}
+      </p>
+      {error && <p className="mt-2 text-[11px] text-red-700">{error}</p>}
+      {!rows && !error && <p className="mt-2 text-xs text-gray-400">Reading the contract…</p>}
+      {rows && (
+        <dl className="mt-2 space-y-2">
+          {rows.map((row) => (
+            <div
+              key={row.field}
+              className={`rounded-md px-2 py-1 ${row.differs ? "bg-amber-50 border border-amber-200" : ""}`}
+            >
+              <dt className="flex items-center gap-1 text-[10px] uppercase text-gray-500">
+                {row.differs && <AlertTriangle size={11} className="text-amber-600" />}
+                {keyTermLabels[row.field]}
+              </dt>
+              <dd className="text-xs text-gray-800">
+                {row.supplier ?? <span className="text-gray-400">Not found</span>}
+                <SourceNote sources={row.supplierSources} />
+                {row.differs && (
+                  <span className="block text-[11px] text-amber-800">
+                    Baseline: {row.baseline ?? "not found"}
+                  </span>
+                )}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
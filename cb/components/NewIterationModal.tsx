@@ -0,0 +1,286 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Upload, X } from "lucide-react";
+import {
+  CONTRACT_TYPES,
+  contractTypeLabels,
+  currentVersion,
+  versionsByEffectiveDate,
+} from "../lib/baselines";
+import { readJsonResponse, uploadDocument } from "../lib/clientApi";
+import type { AnalysisJob, BaselineTemplate, Supplier } from "../lib/types";
+import { checkUploadFile, UPLOAD_ACCEPT } from "../lib/uploads";
+
+/* -------------------------------------------------------------------------- */
+/*                       NEW ITERATION (UPLOAD) MODAL                         */
+/* -------------------------------------------------------------------------- */
+
+type NewIterationModalProps = {
+  open: boolean;
+  onClose: () => void;
+  onQueued: (job: AnalysisJob) => void;
+};
+
+export default function NewIterationModal({ open, onClose, onQueued }: NewIterationModalProps) {
+  const [projectName, setProjectName] = useState("");
+  const [supplierName, setSupplierName] = useState("");
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierFile, setSupplierFile] = useState<File | null>(null);
+  const [baselineFile, setBaselineFile] = useState<File | null>(null);
+  const [baselineSource, setBaselineSource] = useState<"library" | "upload">("library");
+  const [templates, setTemplates] = useState<BaselineTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [versionId, setVersionId] = useState(""); // "" = version in force today
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    fetch("/api/baselines", { cache: "no-store" })
+      .then((res) => readJsonResponse<BaselineTemplate[]>(res, "Loading baselines"))
+      .then((data) => {
+        if (cancelled) return;
+        setTemplates(data);
+        setTemplateId((id) => id || data[0]?.id || "");
+        if (data.length === 0) setBaselineSource("upload");
+      })
+      .catch((err) => console.warn("Loading baseline library failed", err));
+    fetch("/api/suppliers", { cache: "no-store" })
+      .then((res) => readJsonResponse<Supplier[]>(res, "Loading suppliers"))
+      .then((data) => {
+        if (!cancelled) setSuppliers(data);
+      })
+      .catch((err) => console.warn("Loading suppliers failed", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  if (!open) return null;
+
+  const template = templates.find((t) => t.id === templateId) ?? null;
+  const inForce = template ? currentVersion(template) : null;
+
+  const reset = () => {
+    setProjectName("");
+    setSupplierName("");
+    setSupplierFile(null);
+    setBaselineFile(null);
+    setVersionId("");
+    setError(null);
+  };
+
+  const handleClose = () => {
+    if (submitting) return;
+    reset();
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const fromLibrary = baselineSource === "library";
+    if (!supplierFile || (fromLibrary ? !template : !baselineFile)) {
+      setError("Please choose both a supplier contract and a baseline.");
+      return;
+    }
+    const problem =
+      checkUploadFile(supplierFile) ?? (fromLibrary ? null : checkUploadFile(baselineFile!));
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const [supplier, baseline] = await Promise.all([
+        uploadDocument(supplierFile),
+        fromLibrary ? null : uploadDocument(baselineFile!),
+      ]);
+
+      // Library baselines are pinned server-side to the chosen (or current) version.
+      const baselineFields = baseline
+        ? { baselineDocTitle: baseline.title, baselineDocUrl: baseline.url }
+        : { baselineTemplateId: template!.id, baselineVersionId: versionId || undefined };
+
+      // The project is created once its analysis finishes in the background;
+      // the dashboard shows its progress until then.
+      const res = await fetch("/api/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          kind: "project",
+          projectName: projectName.trim(),
+          // An unknown name creates the supplier.
+          supplierName: supplierName.trim(),
+          supplierDocTitle: supplier.title,
+          supplierDocUrl: supplier.url,
+          ...baselineFields,
+        }),
+      });
+      const job = await readJsonResponse<AnalysisJob>(res, "Queueing the analysis");
+
+      reset();
+      onQueued(job);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const fileInput = (
+    label: string,
+    file: File | null,
+    onChange: (file: File | null) => void
+  ) => (
+    <label className="block space-y-1">
+      <span className="text-xs font-semibold text-gray-600">{label}</span>
+      <input
+        type="file"
+        accept={UPLOAD_ACCEPT}
+        onChange={(e) => onChange(e.target.files?.[0] ?? null)}
+        className="block w-full text-xs text-gray-700 file:mr-3 file:px-3 file:py-1.5 file:rounded-full file:border-0 file:bg-emerald-50 file:text-emerald-700"
+      />
+      {file && <span className="text-[11px] text-gray-500">{file.name}</span>}
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl w-full max-w-lg max-h-[80vh] overflow-auto shadow-xl relative">
+        <button
+          className="absolute top-3 right-3 text-gray-700 hover:text-black"
+          onClick={handleClose}
+          aria-label="Close new iteration"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="p-4 border-b flex items-center gap-2 text-sm font-semibold">
+          <Upload size={18} className="text-emerald-700" />
+          <span>New Iteration</span>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          {/* The project belongs to the signed-in user. */}
+          <label className="block space-y-1">
+            <span className="text-xs font-semibold text-gray-600">Project Name</span>
+            <input
+              type="text"
+              required
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              className="w-full px-3 py-1.5 text-xs border rounded-full bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500"
+            />
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-xs font-semibold text-gray-600">Supplier</span>
+            <input
+              type="text"
+              required
+              list="new-iteration-suppliers"
+              value={supplierName}
+              onChange={(e) => setSupplierName(e.target.value)}
+              placeholder="Pick an existing supplier or type a new name"
+              className="w-full px-3 py-1.5 text-xs border rounded-full bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500"
+            />
+            <datalist id="new-iteration-suppliers">
+              {suppliers.map((s) => (
+                <option key={s.id} value={s.name} />
+              ))}
+            </datalist>
+          </label>
+
+          {fileInput("Supplier Contract (.docx, .pdf, .doc)", supplierFile, setSupplierFile)}
+          <div className="space-y-2">
+            <div className="flex items-center gap-3 text-xs">
+              <span className="font-semibold text-gray-600">Baseline</span>
+              {(["library", "upload"] as const).map((source) => (
+                <label key={source} className="inline-flex items-center gap-1 text-gray-700">
+                  <input
+                    type="radio"
+                    name="baselineSource"
+                    checked={baselineSource === source}
+                    disabled={source === "library" && templates.length === 0}
+                    onChange={() => setBaselineSource(source)}
+                  />
+                  {source === "library" ? "From library" : "Upload file"}
+                </label>
+              ))}
+            </div>
+
+            {baselineSource === "library" ? (
+              <div className="grid grid-cols-2 gap-3">
+                <select
+                  value={templateId}
+                  onChange={(e) => {
+                    setTemplateId(e.target.value);
+                    setVersionId("");
+                  }}
+                  className="w-full px-3 py-1.5 text-xs border rounded-full bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                >
+                  {CONTRACT_TYPES.map((type) => {
+                    const ofType = templates.filter((t) => t.contractType === type);
+                    if (ofType.length === 0) return null;
+                    return (
+                      <optgroup key={type} label={contractTypeLabels[type]}>
+                        {ofType.map((t) => (
+                          <option key={t.id} value={t.id}>
+                            {t.name}
+                          </option>
+                        ))}
+                      </optgroup>
+                    );
+                  })}
+                </select>
+                <select
+                  value={versionId}
+                  onChange={(e) => setVersionId(e.target.value)}
+                  className="w-full px-3 py-1.5 text-xs border rounded-full bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                >
+                  <option value="">
+                    {inForce
+                      ? `Current (v${inForce.version}, effective ${inForce.effectiveDate})`
+                      : "Current"}
+                  </option>
+                  {template &&
+                    [...versionsByEffectiveDate(template)].reverse().map((v) => (
+                      <option key={v.id} value={v.id}>
+                        v{v.version} – effective {v.effectiveDate}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            ) : (
+              fileInput("Baseline (.docx, .pdf, .doc)", baselineFile, setBaselineFile)
+            )}
+          </div>
+
+          {error && <p className="text-xs text-red-700">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={submitting}
+              className="px-3 py-1 rounded-full text-[11px] border hover:bg-gray-50 disabled:opacity-40"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-3 py-1 rounded-full text-[11px] font-medium bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-40"
+            >
+              {submitting ? "Uploading…" : "Create Iteration"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import React from "react";
+import { playbook, positionKindLabels } from "../lib/playbook";
+import type { PlaybookMatch, PlaybookPositionKind } from "../lib/types";
+
+const BADGE_CLASSES: Record<PlaybookPositionKind, string> = {
+  preferred: "bg-green-100 text-green-700",
+  fallback: "bg-sky-100 text-sky-700",
+  unacceptable: "bg-red-100 text-red-700",
+};
+
+// Names the playbook position a clause matched; hovering shows its model language.
+export default function PlaybookBadge({ match }: { match: PlaybookMatch }) {
+  const position = playbook.clauses
+    .flatMap((c) => [c.preferred, ...c.fallbacks, ...c.unacceptable])
+    .find((p) => p.id === match.positionId);
+  return (
+    <span
+      className={`inline-block px-2 py-0.5 rounded-full text-[10px] font-medium ${BADGE_CLASSES[match.kind]}`}
+      title={position ? `Playbook v${match.playbookVersion}: ${position.text}` : undefined}
+    >
+      {positionKindLabels[match.kind]}: {match.label}
+    </span>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Columns2, X } from "lucide-react";
+import { readJsonResponse } from "../lib/clientApi";
+import type { ClausePair } from "../lib/compare";
+import type { Clause } from "../lib/types";
+import { diffWords, type DiffPart } from "../lib/wordDiff";
+
+/* -------------------------------------------------------------------------- */
+/*                   SIDE-BY-SIDE REDLINE (SUPPLIER VS BASELINE)              */
+/* -------------------------------------------------------------------------- */
+
+type Side = "baseline" | "supplier";
+
+type RedlineViewerProps = {
+  open: boolean;
+  onClose: () => void;
+  projectId: string;
+  supplierTitle: string;
+  baselineTitle: string;
+};
+
+// Baseline pane shows what the supplier removed; supplier pane shows what it added.
+function DiffText({ parts, side }: { parts: DiffPart[]; side: Side }) {
+  return (
+    <>
+      {parts.map((part, i) => {
+        if (part.op === "equal") return <span key={i}>{part.text}</span>;
+        if (side === "baseline" && part.op === "delete") {
+          return (
+            <del key={i} className="bg-red-100 text-red-800 decoration-red-500">
+              {part.text}
+            </del>
+          );
+        }
+        if (side === "supplier" && part.op === "insert") {
+          return (
+            <ins key={i} className="bg-emerald-100 text-emerald-900 no-underline">
+              {part.text}
+            </ins>
+          );
+        }
+        return null;
+      })}
+    </>
+  );
+}
+
+function ClauseBlock({
+  clause,
+  counterpart,
+  side,
+  diff,
+}: {
+  clause: Clause | null;
+  counterpart: Clause | null;
+  side: Side;
+  diff: DiffPart[] | null;
+}) {
+  if (!clause) {
+    return (
+      <div className="rounded-lg border border-dashed p-3 text-[11px] text-gray-400 italic">
+        {side === "supplier"
+          ? `“${counterpart?.heading}” is missing from the supplier contract.`
+          : `“${counterpart?.heading}” has no counterpart in the baseline.`}
+      </div>
+    );
+  }
+
+  const accent = !counterpart
+    ? side === "supplier"
+      ? "border-emerald-300 bg-emerald-50/50"
+      : "border-red-300 bg-red-50/50"
+    : "border-gray-200";
+
+  return (
+    <div className={`rounded-lg border p-3 ${accent}`}>
+      <p className="text-xs font-semibold text-gray-800 mb-1">
+        {clause.numbering && <span className="mr-1">{clause.numbering}.</span>}
+        {clause.heading}
+      </p>
+      <p className="text-xs text-gray-700 whitespace-pre-wrap leading-relaxed">
+        {diff ? <DiffText parts={diff} side={side} /> : clause.body}
+      </p>
+    </div>
+  );
+}
+
+// Keeps `target` scrolled to the same aligned clause (and the same relative
+// position inside it) as `source`.
+function syncScroll(source: HTMLElement, target: HTMLElement) {
+  const sourceItems = Array.from(source.querySelectorAll<HTMLElement>("[data-pair]"));
+  const targetItems = Array.from(target.querySelectorAll<HTMLElement>("[data-pair]"));
+  if (sourceItems.length === 0 || sourceItems.length !== targetItems.length) return;
+
+  const top = source.scrollTop;
+  let idx = sourceItems.findIndex((el) => el.offsetTop + el.offsetHeight > top);
+  if (idx === -1) idx = sourceItems.length - 1;
+
+  const item = sourceItems[idx];
+  const fraction = Math.min(1, Math.max(0, (top - item.offsetTop) / (item.offsetHeight || 1)));
+  const match = targetItems[idx];
+  target.scrollTop = match.offsetTop + fraction * match.offsetHeight;
+}
+
+export default function RedlineViewer({
+  open,
+  onClose,
+  projectId,
+  supplierTitle,
+  baselineTitle,
+}: RedlineViewerProps) {
+  const [pairs, setPairs] = useState<ClausePair[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const baselineRef = useRef<HTMLDivElement | null>(null);
+  const supplierRef = useRef<HTMLDivElement | null>(null);
+  // The pane whose scroll we are mirroring; the other pane's own scroll
+  // events are ignored until the user scrolls it directly.
+  const leader = useRef<Side | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setPairs(null);
+    setError(null);
+
+    (async () => {
+      try {
+        const res = await fetch(`/api/projects/${projectId}/alignment`, { cache: "no-store" });
+        const body = await readJsonResponse<{ pairs: ClausePair[] }>(
+          res,
+          "Loading the comparison"
+        );
+        if (!cancelled) setPairs(body.pairs);
+      } catch (err) {
+        console.warn("Redline comparison failed", err);
+        if (!cancelled) {
+          setError("The comparison is unavailable. Please open the documents individually.");
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, projectId]);
+
+  // Word diffs are only computed for clauses whose wording changed.
+  const diffs = useMemo(
+    () =>
+      (pairs ?? []).map((pair) =>
+        pair.baseline && pair.supplier && pair.changes.includes("modified")
+          ? diffWords(pair.baseline.body, pair.supplier.body)
+          : null
+      ),
+    [pairs]
+  );
+
+  if (!open) return null;
+
+  const handleScroll = (side: Side) => {
+    if (leader.current !== side) return;
+    const source = side === "baseline" ? baselineRef.current : supplierRef.current;
+    const target = side === "baseline" ? supplierRef.current : baselineRef.current;
+    if (source && target) syncScroll(source, target);
+  };
+
+  const pane = (side: Side, title: string, ref: React.RefObject<HTMLDivElement>) => (
+    <div className="flex flex-col min-h-0">
+      <div className="px-4 py-2 border-b bg-gray-50 text-[11px] font-semibold uppercase text-gray-600">
+        {side === "baseline" ? "TD Baseline Standard" : "Supplier Contract"} · {title}
+      </div>
+      <div
+        ref={ref}
+        onScroll={() => handleScroll(side)}
+        onWheel={() => (leader.current = side)}
+        onMouseDown={() => (leader.current = side)}
+        onTouchStart={() => (leader.current = side)}
+        className="relative flex-1 overflow-auto p-4 space-y-3"
+      >
+        {pairs?.map((pair, i) => {
+          const clause = pair[side];
+          const counterpart = side === "baseline" ? pair.supplier : pair.baseline;
+          return (
+            <div key={i} data-pair={i}>
+              <ClauseBlock clause={clause} counterpart={counterpart} side={side} diff={diffs[i]} />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-7xl h-[90vh] flex flex-col relative">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-700 hover:text-black"
+          aria-label="Close side-by-side comparison"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="p-4 border-b flex items-center gap-2 text-sm font-semibold">
+          <Columns2 size={18} className="text-emerald-700" />
+          <span>Side-by-side Comparison</span>
+          <span className="ml-4 flex items-center gap-3 text-[11px] font-normal text-gray-500">
+            <span>
+              <del className="bg-red-100 text-red-800">Removed</del> from baseline
+            </span>
+            <span>
+              <ins className="bg-emerald-100 text-emerald-900 no-underline">Added</ins> by supplier
+            </span>
+          </span>
+        </div>
+
+        {error && <p className="p-4 text-xs text-red-700">{error}</p>}
+        {!error && !pairs && <p className="p-4 text-xs text-gray-500">Loading comparison…</p>}
+
+        {pairs && (
+          <div className="grid grid-cols-2 divide-x flex-1 min-h-0">
+            {pane("baseline", baselineTitle, baselineRef)}
+            {pane("supplier", supplierTitle, supplierRef)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import React from "react";
+import type { RiskLevel } from "../lib/types";
+
+const BADGE_CLASSES: Record<RiskLevel, string> = {
+  High: "bg-red-100 text-red-700",
+  Medium: "bg-amber-100 text-amber-700",
+  Low: "bg-green-100 text-green-700",
+};
+
+export default function RiskBadge({ level }: { level: RiskLevel }) {
+  return (
+    <span className={`px-2 py-1 rounded-full text-[11px] ${BADGE_CLASSES[level]}`}>{level}</span>
+  );
+}
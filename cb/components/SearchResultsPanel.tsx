@@ -0,0 +1,129 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { FileText } from "lucide-react";
+import { readJsonResponse } from "../lib/clientApi";
+import {
+  searchHitHref,
+  searchHitKindLabels,
+  searchTerms,
+  type SearchHit,
+  type SearchResults,
+} from "../lib/search";
+
+/* -------------------------------------------------------------------------- */
+/*                  FULL-TEXT MATCHES IN CONTRACTS + DEVIATIONS               */
+/* -------------------------------------------------------------------------- */
+
+type SearchResultsPanelProps = {
+  query: string;
+  onOpen: (hit: SearchHit) => void;
+};
+
+const kindTones: Record<SearchHit["kind"], string> = {
+  clause: "bg-gray-100 text-gray-700",
+  deviation: "bg-amber-100 text-amber-800",
+  recommendation: "bg-emerald-100 text-emerald-800",
+};
+
+// Shown under the search box while it holds a word to look for. A plain click
+// opens the hit in place; the link itself can be opened in a new tab.
+export default function SearchResultsPanel({ query, onOpen }: SearchResultsPanelProps) {
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const searchable = searchTerms(query).length > 0;
+
+  useEffect(() => {
+    setError(null);
+    if (!searchable) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(query)}`, {
+          cache: "no-store",
+        });
+        const data = await readJsonResponse<SearchResults>(res, "Searching contracts");
+        if (!cancelled) setResults(data);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Searching contracts failed.");
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, searchable]);
+
+  if (!searchable) return null;
+
+  return (
+    <div className="bg-white border rounded-xl shadow-sm p-4">
+      <p className="text-xs font-semibold text-gray-600">
+        Matches in contracts and deviations
+        {results && (
+          <span className="ml-2 font-normal text-gray-500">
+            {results.total === 0
+              ? "none"
+              : results.hits.length < results.total
+                ? `showing ${results.hits.length} of ${results.total}`
+                : results.total}
+          </span>
+        )}
+      </p>
+      {error && <p className="mt-2 text-[11px] text-red-700">{error}</p>}
+      {results && results.hits.length > 0 && (
+        <ul className="mt-2 divide-y max-h-80 overflow-auto">
+          {results.hits.map((hit, i) => (
+            <li key={`${hit.projectId}-${hit.kind}-${i}`}>
+              <a
+                href={searchHitHref(hit)}
+                onClick={(e) => {
+                  if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+                  e.preventDefault();
+                  onOpen(hit);
+                }}
+                className="block py-2 px-1 hover:bg-gray-50"
+              >
+                <div className="flex items-center gap-2 text-[11px]">
+                  <span className={`px-2 py-0.5 rounded-full font-medium ${kindTones[hit.kind]}`}>
+                    {searchHitKindLabels[hit.kind]}
+                  </span>
+                  <span className="font-medium text-gray-800">{hit.projectName}</span>
+                  <span className="text-gray-500">· {hit.supplierName}</span>
+                  <span className="text-gray-500 truncate">· {hit.clause}</span>
+                  {hit.documentTitle && (
+                    <span className="ml-auto inline-flex items-center gap-1 text-gray-400 whitespace-nowrap">
+                      <FileText size={11} />
+                      {hit.documentTitle}
+                    </span>
+                  )}
+                </div>
+                <p className="mt-1 text-xs text-gray-700">
+                  {hit.snippet.map((part, j) =>
+                    part.match ? (
+                      <mark key={j} className="bg-yellow-200 rounded-sm px-0.5">
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <React.Fragment key={j}>{part.text}</React.Fragment>
+                    )
+                  )}
+                </p>
+                {hit.otherProjects > 0 && (
+                  <p className="mt-0.5 text-[10px] text-gray-400">
+                    Same baseline text in {hit.otherProjects} other project
+                    {hit.otherProjects === 1 ? "" : "s"}
+                  </p>
+                )}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { BarChart3, Building2, ClipboardList, LogOut, ScrollText, Users } from "lucide-react";
+import { roleLabels } from "../lib/roles";
+import type { UserAccount } from "../lib/types";
+import AuditLogModal from "./AuditLogModal";
+import UsersModal from "./UsersModal";
+
+// TD brand colour
+const TD_GREEN = "#007c41";
+
+const NAV_ITEMS = [
+  { href: "/", label: "Iterations", icon: ClipboardList },
+  { href: "/suppliers", label: "Suppliers", icon: Building2 },
+  { href: "/analytics", label: "Analytics", icon: BarChart3 },
+];
+
+// Sub-pages such as a supplier profile keep their section highlighted.
+const isActive = (pathname: string, href: string) =>
+  href === "/" ? pathname === "/" : pathname === href || pathname.startsWith(`${href}/`);
+
+// App navigation plus the signed-in user's account actions.
+export default function Sidebar({ session }: { session: UserAccount | null }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [openUsers, setOpenUsers] = useState(false);
+  const [openAudit, setOpenAudit] = useState(false);
+
+  const signOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    router.replace("/login");
+  };
+
+  return (
+    <aside className="w-56 text-white flex flex-col" style={{ backgroundColor: TD_GREEN }}>
+      <div className="flex items-center gap-3 px-4 py-4 border-b border-white/20">
+        <div className="bg-white rounded-md h-9 w-9 flex items-center justify-center shadow">
+          <span className="text-[18px] font-extrabold" style={{ color: TD_GREEN }}>
+            TD
+          </span>
+        </div>
+        <div className="flex flex-col leading-tight">
+          <span className="text-xs opacity-80">ContractBuddy</span>
+          <span className="text-sm font-semibold">Iteration Tracker</span>
+        </div>
+      </div>
+
+      <nav className="px-2 py-3 space-y-1 text-sm">
+        {NAV_ITEMS.map(({ href, label, icon: Icon }) => (
+          <Link
+            key={href}
+            href={href}
+            className={`flex items-center gap-2 rounded-md px-3 py-2 ${
+              isActive(pathname, href)
+                ? "bg-white/20 font-semibold"
+                : "opacity-90 hover:bg-white/10"
+            }`}
+          >
+            <Icon size={16} />
+            <span>{label}</span>
+          </Link>
+        ))}
+      </nav>
+
+      {session && (
+        <div className="mt-auto px-4 py-4 border-t border-white/20 space-y-2 text-xs">
+          <div className="leading-tight">
+            <p className="font-semibold truncate">{session.displayName}</p>
+            <p className="opacity-80">{roleLabels[session.role]}</p>
+          </div>
+          {session.role === "admin" && (
+            <>
+              <button
+                type="button"
+                onClick={() => setOpenUsers(true)}
+                className="flex items-center gap-1 opacity-90 hover:opacity-100 hover:underline"
+              >
+                <Users size={14} />
+                <span>Users</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => setOpenAudit(true)}
+                className="flex items-center gap-1 opacity-90 hover:opacity-100 hover:underline"
+              >
+                <ScrollText size={14} />
+                <span>Audit log</span>
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={signOut}
+            className="flex items-center gap-1 opacity-90 hover:opacity-100 hover:underline"
+          >
+            <LogOut size={14} />
+            <span>Sign out</span>
+          </button>
+        </div>
+      )}
+
+      <UsersModal open={openUsers} onClose={() => setOpenUsers(false)} />
+      <AuditLogModal open={openAudit} onClose={() => setOpenAudit(false)} />
+    </aside>
+  );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Plus, Users, X } from "lucide-react";
+import { readJsonResponse } from "../lib/clientApi";
+import { ROLES, roleLabels } from "../lib/roles";
+import type { Role, UserAccount } from "../lib/types";
+
+/* -------------------------------------------------------------------------- */
+/*                           USER ADMINISTRATION MODAL                        */
+/* -------------------------------------------------------------------------- */
+
+type UsersModalProps = {
+  open: boolean;
+  onClose: () => void;
+};
+
+const fieldClass =
+  "w-full px-3 py-1.5 text-xs border rounded-full bg-white shadow-sm focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
+async function sendUser(url: string, method: "POST" | "PATCH", body: Record<string, unknown>) {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return readJsonResponse<UserAccount>(res, "Saving the user");
+}
+
+export default function UsersModal({ open, onClose }: UsersModalProps) {
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [username, setUsername] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [role, setRole] = useState<Role>("submitter");
+  const [password, setPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setError(null);
+    fetch("/api/users", { cache: "no-store" })
+      .then((res) => readJsonResponse<UserAccount[]>(res, "Loading users"))
+      .then((data) => !cancelled && setUsers(data))
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Loading users failed.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  if (!open) return null;
+
+  const replaceUser = (updated: UserAccount) =>
+    setUsers((prev) => prev.map((u) => (u.username === updated.username ? updated : u)));
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Saving the user failed.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changeRole = (user: UserAccount, next: Role) =>
+    run(async () => {
+      const url = `/api/users/${encodeURIComponent(user.username)}`;
+      replaceUser(await sendUser(url, "PATCH", { role: next }));
+    });
+
+  const resetPassword = (user: UserAccount) => {
+    const next = window.prompt(`New password for ${user.username} (at least 8 characters)`);
+    if (!next) return;
+    run(async () => {
+      const url = `/api/users/${encodeURIComponent(user.username)}`;
+      replaceUser(await sendUser(url, "PATCH", { password: next }));
+    });
+  };
+
+  const addUser = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const created = await sendUser("/api/users", "POST", {
+        username: username.trim(),
+        displayName: displayName.trim(),
+        role,
+        password,
+      });
+      setUsers((prev) => [...prev, created]);
+      setAdding(false);
+      setUsername("");
+      setDisplayName("");
+      setPassword("");
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-auto relative">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-700 hover:text-black"
+          aria-label="Close users"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="p-4 border-b flex items-center gap-2 text-sm font-semibold">
+          <Users size={18} className="text-emerald-700" />
+          <span>Users</span>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {error && <p className="text-xs text-red-700">{error}</p>}
+
+          <div className="border rounded-xl overflow-auto">
+            <table className="min-w-full text-xs text-left">
+              <thead className="bg-gray-100 text-gray-600 uppercase text-[11px]">
+                <tr>
+                  <th className="p-3 border-b">Username</th>
+                  <th className="p-3 border-b">Name</th>
+                  <th className="p-3 border-b">Role</th>
+                  <th className="p-3 border-b">Password</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((u) => (
+                  <tr key={u.username} className="border-b last:border-b-0">
+                    <td className="p-3 font-medium">{u.username}</td>
+                    <td className="p-3">{u.displayName}</td>
+                    <td className="p-3">
+                      <select
+                        value={u.role}
+                        disabled={saving}
+                        onChange={(e) => changeRole(u, e.target.value as Role)}
+                        className="border rounded px-2 py-1 text-[11px] bg-white"
+                      >
+                        {ROLES.map((r) => (
+                          <option key={r} value={r}>
+                            {roleLabels[r]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-3">
+                      <button
+                        type="button"
+                        disabled={saving}
+                        onClick={() => resetPassword(u)}
+                        className="text-[11px] text-emerald-700 hover:underline disabled:opacity-40"
+                      >
+                        Reset
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {adding ? (
+            <form onSubmit={addUser} className="border rounded-xl p-4 space-y-3 bg-gray-50">
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block space-y-1">
+                  <span className="text-xs font-semibold text-gray-600">Username</span>
+                  <input
+                    type="text"
+                    required
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    className={fieldClass}
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-xs font-semibold text-gray-600">Name</span>
+                  <input
+                    type="text"
+                    value={displayName}
+                    onChange={(e) => setDisplayName(e.target.value)}
+                    placeholder="Defaults to the username"
+                    className={fieldClass}
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-xs font-semibold text-gray-600">Role</span>
+                  <select
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as Role)}
+                    className={fieldClass}
+                  >
+                    {ROLES.map((r) => (
+                      <option key={r} value={r}>
+                        {roleLabels[r]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-xs font-semibold text-gray-600">Initial password</span>
+                  <input
+                    type="password"
+                    required
+                    minLength={8}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={fieldClass}
+                  />
+                </label>
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setAdding(false)}
+                  disabled={saving}
+                  className="px-3 py-1 rounded-full text-[11px] border hover:bg-gray-50 disabled:opacity-40"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-3 py-1 rounded-full text-[11px] font-medium bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-40"
+                >
+                  {saving ? "Saving…" : "Add User"}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setAdding(true)}
+              className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-[11px] font-medium bg-emerald-600 text-white hover:bg-emerald-700"
+            >
+              <Plus size={14} />
+              <span>Add User</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { listBaselineTemplates } from "./baselineStore";
+import {
+  documentIdFromUrl,
+  documentUrl,
+  getDocument,
+  type DocumentRecord,
+} from "./documentStore";
+import { NotFoundError } from "./errors";
+import { projectIterations } from "./iterations";
+import { canViewJob } from "./jobs";
+import { getJob } from "./jobStore";
+import { getProject, listProjects } from "./projectStore";
+import { canViewProject, sameUsername } from "./roles";
+import type { AnalysisJob, ProjectRow, UserAccount } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                        PER-USER PROJECT + DOCUMENT ACCESS                  */
+/* -------------------------------------------------------------------------- */
+
+// Things a user may not see are reported as missing rather than forbidden, so
+// ids of other people's projects and contracts cannot be probed.
+
+export async function visibleProjects(user: UserAccount): Promise<ProjectRow[]> {
+  return (await listProjects()).filter((p) => canViewProject(user, p));
+}
+
+export async function requireProject(user: UserAccount, projectId: string): Promise<ProjectRow> {
+  const project = await getProject(projectId);
+  if (!canViewProject(user, project)) throw new NotFoundError(`Project ${projectId} not found`);
+  return project;
+}
+
+export async function requireJob(user: UserAccount, jobId: string): Promise<AnalysisJob> {
+  const job = await getJob(jobId);
+  if (!canViewJob(user, job)) throw new NotFoundError(`Job ${jobId} not found`);
+  return job;
+}
+
+// Reviewers see every document. Submitters see what they uploaded, documents
+// used by any run of their own projects, and published baseline versions.
+export async function requireDocument(
+  user: UserAccount,
+  documentId: string
+): Promise<DocumentRecord> {
+  const doc = await getDocument(documentId);
+  const own = doc.uploadedBy !== undefined && sameUsername(doc.uploadedBy, user.username);
+  if (user.role !== "submitter" || own) return doc;
+
+  const url = documentUrl(doc.id);
+  const inOwnProject = (await visibleProjects(user)).some((p) =>
+    projectIterations(p).some((run) => run.supplierDocUrl === url || run.baselineDocUrl === url)
+  );
+  if (inOwnProject) return doc;
+
+  const inLibrary = (await listBaselineTemplates()).some((t) =>
+    t.versions.some((v) => v.documentId === doc.id)
+  );
+  if (inLibrary) return doc;
+
+  throw new NotFoundError(`Document ${documentId} not found`);
+}
+
+// Document URLs a user puts on a project must point at documents they can see;
+// external URLs are left alone.
+export async function requireDocumentUrls(user: UserAccount, urls: string[]): Promise<void> {
+  for (const url of urls) {
+    const id = documentIdFromUrl(url);
+    if (id) await requireDocument(user, id);
+  }
+}
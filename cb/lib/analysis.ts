@@ -0,0 +1,211 @@
+import { parseBaselineSelection, pinnedBaseline } from "./baselineStore";
+import { alignClauses, type ClausePair } from "./compare";
+import { documentIdFromUrl, documentUrl, getDocument, readDocumentBytes } from "./documentStore";
+import { extractDocumentClauses } from "./documentText";
+import { NotFoundError, ValidationError } from "./errors";
+import { projectIterations } from "./iterations";
+import { compareKeyTerms, extractKeyTerms, type KeyTermRow, type KeyTerms } from "./keyTerms";
+import { addIteration, createProject, getProject, updateProject } from "./projectStore";
+import { analysisProvider, generateDeviations } from "./providers";
+import type {
+  Clause,
+  DeviationRow,
+  IterationDocuments,
+  IterationInput,
+  JobStageName,
+  ProjectInput,
+  ProjectRow,
+} from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                     DOCUMENT ANALYSIS (EXTRACT + COMPARE)                  */
+/* -------------------------------------------------------------------------- */
+
+// Told each time a stage of an analysis advances. The job runner persists it
+// and throws from here to stop a cancelled analysis before its next step.
+export type AnalysisProgress = (stage: JobStageName, done: number, total: number) => Promise<void>;
+
+const noProgress: AnalysisProgress = async () => {};
+
+export async function loadClauses(documentId: string): Promise<Clause[]> {
+  const doc = await getDocument(documentId);
+  return extractDocumentClauses(await readDocumentBytes(doc), doc.contentType);
+}
+
+export async function alignDocuments(
+  baselineDocumentId: string,
+  supplierDocumentId: string
+): Promise<ClausePair[]> {
+  const [baseline, supplier] = await Promise.all([
+    loadClauses(baselineDocumentId),
+    loadClauses(supplierDocumentId),
+  ]);
+  return alignClauses(baseline, supplier);
+}
+
+// Aligns the documents and has the configured analysis provider explain
+// every clause that differs.
+export async function analyzeDocuments(
+  baselineDocumentId: string,
+  supplierDocumentId: string,
+  progress = noProgress
+): Promise<{ pairs: ClausePair[]; deviations: DeviationRow[] }> {
+  await progress("extract", 0, 2);
+  const baseline = await loadClauses(baselineDocumentId);
+  await progress("extract", 1, 2);
+  const supplier = await loadClauses(supplierDocumentId);
+  await progress("extract", 2, 2);
+
+  await progress("align", 0, 1);
+  const pairs = alignClauses(baseline, supplier);
+  await progress("align", 1, 1);
+
+  const deviations = await generateDeviations(pairs, analysisProvider(), (done, total) =>
+    progress("analyze", done, total)
+  );
+  return { pairs, deviations };
+}
+
+export function requireDocumentId(url: string, label: string): string {
+  const id = documentIdFromUrl(url);
+  if (!id) throw new ValidationError(`${label} document ${url} is not a stored document`);
+  return id;
+}
+
+// The stored documents of one run of a project, the latest unless an
+// iteration id is given.
+export async function iterationDocumentIds(projectId: string, iterationId?: string | null) {
+  const runs = projectIterations(await getProject(projectId));
+  const run = iterationId ? runs.find((r) => r.id === iterationId) : runs[runs.length - 1];
+  if (!run) throw new NotFoundError(`Iteration ${iterationId} not found`);
+  return {
+    iterationId: run.id,
+    baselineDocumentId: requireDocumentId(run.baselineDocUrl, "Baseline"),
+    supplierDocumentId: requireDocumentId(run.supplierDocUrl, "Supplier"),
+  };
+}
+
+// Clause alignment behind an iteration (the latest by default), for viewers
+// that show both documents side by side.
+export async function alignIteration(
+  projectId: string,
+  iterationId?: string | null
+): Promise<{ iterationId: string; pairs: ClausePair[] }> {
+  const run = await iterationDocumentIds(projectId, iterationId);
+  const pairs = await alignDocuments(run.baselineDocumentId, run.supplierDocumentId);
+  return { iterationId: run.iterationId, pairs };
+}
+
+// The key commercial terms of an iteration's supplier contract and of its
+// baseline, with a row per term saying whether the two differ.
+export async function iterationKeyTerms(
+  projectId: string,
+  iterationId?: string | null
+): Promise<{ iterationId: string; supplier: KeyTerms; baseline: KeyTerms; rows: KeyTermRow[] }> {
+  const run = await iterationDocumentIds(projectId, iterationId);
+  const [baselineClauses, supplierClauses] = await Promise.all([
+    loadClauses(run.baselineDocumentId),
+    loadClauses(run.supplierDocumentId),
+  ]);
+  const supplier = extractKeyTerms(supplierClauses);
+  const baseline = extractKeyTerms(baselineClauses);
+  return {
+    iterationId: run.iterationId,
+    supplier,
+    baseline,
+    rows: compareKeyTerms(supplier, baseline),
+  };
+}
+
+// Re-runs the comparison for the latest iteration's documents and stores the
+// result on that iteration.
+export async function analyzeProject(
+  projectId: string,
+  progress = noProgress
+): Promise<ProjectRow> {
+  const project = await getProject(projectId);
+  const { deviations } = await analyzeDocuments(
+    requireDocumentId(project.baselineDocUrl, "Baseline"),
+    requireDocumentId(project.supplierDocUrl, "Supplier"),
+    progress
+  );
+  await progress("save", 0, 1);
+  return updateProject(projectId, { deviations });
+}
+
+// Analyses the documents of a project that does not exist yet, then creates
+// it with the deviations found. Nothing is stored if the analysis fails.
+export async function analyzeNewProject(
+  input: ProjectInput,
+  progress = noProgress
+): Promise<ProjectRow> {
+  const { deviations } = await analyzeDocuments(
+    requireDocumentId(input.baselineDocUrl, "Baseline"),
+    requireDocumentId(input.supplierDocUrl, "Supplier"),
+    progress
+  );
+  await progress("save", 0, 1);
+  return createProject({ ...input, deviations });
+}
+
+// Validates { supplierDocumentId, baselineDocumentId? } or
+// { supplierDocumentId, baselineTemplateId, baselineVersionId? }.
+export function parseIterationDocuments(body: Record<string, unknown>): IterationDocuments {
+  const { supplierDocumentId, baselineDocumentId } = body;
+  if (typeof supplierDocumentId !== "string") {
+    throw new ValidationError(`"supplierDocumentId" is required`);
+  }
+  if (baselineDocumentId !== undefined && typeof baselineDocumentId !== "string") {
+    throw new ValidationError(`"baselineDocumentId" must be a string`);
+  }
+  const library = parseBaselineSelection(body);
+  if (library && baselineDocumentId !== undefined) {
+    throw new ValidationError(`Send either "baselineDocumentId" or "baselineTemplateId"`);
+  }
+  return {
+    supplierDocumentId,
+    baselineDocumentId,
+    baselineTemplateId: library?.templateId,
+    baselineVersionId: library?.versionId,
+  };
+}
+
+// Compares a new supplier version and records it as the project's next
+// iteration. The baseline is, in order: a library template version, a stored
+// document, or whatever the latest iteration used (keeping its pin).
+export async function runIteration(
+  projectId: string,
+  documents: IterationDocuments,
+  progress = noProgress
+): Promise<ProjectRow> {
+  const project = await getProject(projectId);
+
+  let baseline: Pick<IterationInput, "baselineDocTitle" | "baselineDocUrl" | "baseline">;
+  if (documents.baselineTemplateId) {
+    baseline = await pinnedBaseline(documents.baselineTemplateId, documents.baselineVersionId);
+  } else if (documents.baselineDocumentId) {
+    const doc = await getDocument(documents.baselineDocumentId);
+    baseline = { baselineDocTitle: doc.title, baselineDocUrl: documentUrl(doc.id) };
+  } else {
+    baseline = {
+      baselineDocTitle: project.baselineDocTitle,
+      baselineDocUrl: project.baselineDocUrl,
+      baseline: project.baseline,
+    };
+  }
+
+  const supplierDoc = await getDocument(documents.supplierDocumentId);
+  const { deviations } = await analyzeDocuments(
+    requireDocumentId(baseline.baselineDocUrl, "Baseline"),
+    supplierDoc.id,
+    progress
+  );
+
+  await progress("save", 0, 1);
+  return addIteration(projectId, {
+    ...baseline,
+    supplierDocTitle: supplierDoc.title,
+    supplierDocUrl: documentUrl(supplierDoc.id),
+    deviations,
+  });
+}
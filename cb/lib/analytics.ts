@@ -0,0 +1,223 @@
+import { projectIterations } from "./iterations";
+import { projectStatus, reviewOf } from "./review";
+import { supplierLabel } from "./suppliers";
+import { normalizeText } from "./text";
+import type { IterationRun, PlaybookMatch, ProjectRow, RiskLevel, Supplier } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                      PORTFOLIO ANALYTICS ACROSS PROJECTS                   */
+/* -------------------------------------------------------------------------- */
+
+// Everything the analytics page shows, computed on the server from the
+// projects the caller may see.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RiskMonth {
+  month: string; // YYYY-MM (UTC)
+  counts: Record<RiskLevel, number>; // projects by the risk of their latest run that month
+}
+
+export interface ScoreGroup {
+  key: string;
+  projects: number;
+  averageScore: number;
+}
+
+export interface ClausePositionCount {
+  match: PlaybookMatch; // as first seen on a deviation
+  count: number;
+}
+
+export interface ClauseFrequency {
+  clause: string; // heading as first seen
+  category: string | null; // risk category from the scoring rules
+  projects: number; // projects whose latest run deviates on this clause
+  share: number; // 0-1 of all projects
+  averageScore: number;
+  positions: ClausePositionCount[]; // playbook positions matched, most frequent first
+}
+
+export interface ResolutionRow {
+  projectId: string;
+  projectName: string;
+  startedAt: string; // first iteration
+  resolvedAt: string | null; // null while still open
+  iterations: number; // runs up to resolution, or so far
+  days: number; // to resolution, or age so far
+}
+
+export interface ResolutionSummary {
+  resolved: number;
+  open: number;
+  averageDays: number | null;
+  medianDays: number | null;
+  averageIterations: number | null;
+  rows: ResolutionRow[];
+}
+
+export interface PortfolioAnalytics {
+  generatedAt: string;
+  projectCount: number;
+  riskOverTime: RiskMonth[];
+  scoreBySupplier: ScoreGroup[];
+  scoreByUser: ScoreGroup[];
+  clauseFrequency: ClauseFrequency[];
+  resolution: ResolutionSummary;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function monthOf(time: string | number): string {
+  return new Date(time).toISOString().slice(0, 7);
+}
+
+function nextMonth(month: string): string {
+  const [year, m] = month.split("-").map(Number);
+  return m === 12 ? `${year + 1}-01` : `${year}-${String(m + 1).padStart(2, "0")}`;
+}
+
+// For each month from the first run to `now`: every project that existed by
+// the end of the month, counted by the risk level of its latest run then.
+function riskOverTime(projects: ProjectRow[], now: Date): RiskMonth[] {
+  const runs = projects.map(projectIterations).filter((r) => r.length > 0);
+  if (runs.length === 0) return [];
+
+  const first = Math.min(...runs.map((r) => Date.parse(r[0].createdAt)));
+  const last = monthOf(now.getTime());
+  const months: RiskMonth[] = [];
+  for (let month = monthOf(first); month <= last; month = nextMonth(month)) {
+    const end = `${nextMonth(month)}-01T00:00:00.000Z`;
+    const counts: Record<RiskLevel, number> = { Low: 0, Medium: 0, High: 0 };
+    for (const projectRuns of runs) {
+      const latest = projectRuns.filter((r) => new Date(r.createdAt).toISOString() < end).pop();
+      if (latest) counts[latest.riskLevel]++;
+    }
+    months.push({ month, counts });
+  }
+  return months;
+}
+
+function averageBy(projects: ProjectRow[], key: (p: ProjectRow) => string): ScoreGroup[] {
+  const groups = new Map<string, number[]>();
+  for (const p of projects) {
+    const k = key(p);
+    groups.set(k, [...(groups.get(k) ?? []), p.totalWeightedScore]);
+  }
+  return Array.from(groups, ([k, scores]) => ({
+    key: k,
+    projects: scores.length,
+    averageScore: round(scores.reduce((sum, s) => sum + s, 0) / scores.length),
+  })).sort((a, b) => b.averageScore - a.averageScore || a.key.localeCompare(b.key));
+}
+
+// Counts each clause once per project, from the latest run. Clauses are
+// matched by heading, as iterations are, so "Governing Law" is not lumped in
+// with the rest of its risk category.
+function clauseFrequency(projects: ProjectRow[]): ClauseFrequency[] {
+  const byClause = new Map<
+    string,
+    {
+      clause: string;
+      category: string | null;
+      projects: Set<string>;
+      scores: number[];
+      positions: Map<string, ClausePositionCount>;
+    }
+  >();
+  for (const p of projects) {
+    for (const d of p.deviations) {
+      const key = normalizeText(d.clause);
+      const entry = byClause.get(key) ?? {
+        clause: d.clause,
+        category: d.category ?? null,
+        projects: new Set<string>(),
+        scores: [],
+        positions: new Map<string, ClausePositionCount>(),
+      };
+      entry.projects.add(p.id);
+      entry.scores.push(d.score);
+      if (d.playbook) {
+        const { positionId } = d.playbook;
+        const position = entry.positions.get(positionId) ?? { match: d.playbook, count: 0 };
+        position.count++;
+        entry.positions.set(positionId, position);
+      }
+      byClause.set(key, entry);
+    }
+  }
+  return Array.from(byClause.values(), (e) => ({
+    clause: e.clause,
+    category: e.category,
+    projects: e.projects.size,
+    share: projects.length > 0 ? e.projects.size / projects.length : 0,
+    averageScore: round(e.scores.reduce((sum, s) => sum + s, 0) / e.scores.length),
+    positions: Array.from(e.positions.values()).sort((a, b) => b.count - a.count),
+  })).sort((a, b) => b.projects - a.projects || b.averageScore - a.averageScore);
+}
+
+// A run is resolved once every deviation is accepted (or there are none).
+// It was resolved when the last of those decisions was recorded.
+function resolvedAt(run: IterationRun): string | null {
+  if (projectStatus(run.deviations).tone !== "emerald") return null;
+  const decided = run.deviations.map((d) => reviewOf(d).updatedAt).filter(Boolean);
+  return [run.createdAt, ...decided].reduce((a, b) => (Date.parse(b) > Date.parse(a) ? b : a));
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function resolution(projects: ProjectRow[], now: Date): ResolutionSummary {
+  const rows: ResolutionRow[] = [];
+  for (const p of projects) {
+    const runs = projectIterations(p);
+    if (runs.length === 0) continue;
+    const startedAt = runs[0].createdAt;
+    const index = runs.findIndex((r) => resolvedAt(r) !== null);
+    const end = index === -1 ? null : resolvedAt(runs[index]);
+    const until = end ? new Date(end) : now;
+    rows.push({
+      projectId: p.id,
+      projectName: p.projectName,
+      startedAt,
+      resolvedAt: end,
+      iterations: index === -1 ? runs.length : index + 1,
+      days: round(Math.max(0, until.getTime() - new Date(startedAt).getTime()) / DAY_MS),
+    });
+  }
+
+  const resolved = rows.filter((r) => r.resolvedAt !== null);
+  const mean = (values: number[]) =>
+    values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+  return {
+    resolved: resolved.length,
+    open: rows.length - resolved.length,
+    averageDays: mean(resolved.map((r) => r.days)),
+    medianDays: median(resolved.map((r) => r.days)),
+    averageIterations: mean(resolved.map((r) => r.iterations)),
+    // Open projects first, longest-running on top.
+    rows: rows.sort(
+      (a, b) => Number(a.resolvedAt !== null) - Number(b.resolvedAt !== null) || b.days - a.days
+    ),
+  };
+}
+
+export function portfolioAnalytics(
+  projects: ProjectRow[],
+  suppliers: Supplier[],
+  now = new Date()
+): PortfolioAnalytics {
+  return {
+    generatedAt: now.toISOString(),
+    projectCount: projects.length,
+    riskOverTime: riskOverTime(projects, now),
+    scoreBySupplier: averageBy(projects, (p) => supplierLabel(p, suppliers)),
+    scoreByUser: averageBy(projects, (p) => p.username),
+    clauseFrequency: clauseFrequency(projects),
+    resolution: resolution(projects, now),
+  };
+}
@@ -0,0 +1,45 @@
+import type { AuditAction, AuditChange, AuditEntry } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                      AUDIT LOG LABELS (SERVER + BROWSER)                   */
+/* -------------------------------------------------------------------------- */
+
+export const AUDIT_ACTIONS: readonly AuditAction[] = [
+  "document.view",
+  "risk-summary.view",
+  "report.export",
+  "counter-proposal.export",
+  "deviation.update",
+  "review.decision",
+  "project.create",
+  "project.analyze",
+  "iteration.create",
+  "project.delete",
+  "audit.export",
+];
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  "document.view": "Opened document",
+  "risk-summary.view": "Viewed risk summary",
+  "report.export": "Exported report",
+  "counter-proposal.export": "Exported counter-proposal",
+  "deviation.update": "Changed deviation",
+  "review.decision": "Review decision",
+  "project.create": "Created project",
+  "project.analyze": "Re-analysed project",
+  "iteration.create": "Started iteration",
+  "project.delete": "Deleted project",
+  "audit.export": "Exported audit log",
+};
+
+function formatValue(value: AuditChange["before"]): string {
+  if (value === null || value === "") return "—";
+  return String(value);
+}
+
+// "score: 2.5 → 6" for each change, joined with "; ".
+export function formatChanges(entry: AuditEntry): string {
+  return (entry.changes ?? [])
+    .map((c) => `${c.field}: ${formatValue(c.before)} → ${formatValue(c.after)}`)
+    .join("; ");
+}
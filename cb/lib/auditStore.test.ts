@@ -0,0 +1,70 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { parseAuditQuery, queryAudit, recordAudit, recordDocumentViews } from "./auditStore";
+import { documentIdFromUrl } from "./documentStore";
+import { seedProjects } from "./seedProjects";
+import type { UserAccount } from "./types";
+
+const admin: UserAccount = {
+  username: "admin",
+  displayName: "Administrator",
+  role: "admin",
+  createdAt: "2025-01-01T00:00:00.000Z",
+};
+
+async function recordAt(at: string, detail: string) {
+  vi.setSystemTime(new Date(at));
+  await recordAudit(admin, "risk-summary.view", { projectId: "1", detail });
+}
+
+async function details(query: string): Promise<string[]> {
+  const { entries } = await queryAudit(parseAuditQuery(new URLSearchParams(query)));
+  return entries.map((e) => e.detail!).reverse();
+}
+
+describe("audit date filters", () => {
+  beforeAll(async () => {
+    vi.useFakeTimers();
+    await recordAt("2025-03-01T00:00:00.000Z", "start of day");
+    await recordAt("2025-03-01T10:00:00.000Z", "morning");
+    await recordAt("2025-03-01T23:59:59.000Z", "end of day");
+    await recordAt("2025-03-02T00:00:00.000Z", "next day");
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  it("treats a bare 'to' date as the whole day", async () => {
+    expect(await details("from=2025-03-01&to=2025-03-01")).toEqual([
+      "start of day",
+      "morning",
+      "end of day",
+    ]);
+  });
+
+  it("compares bounds with an offset or no seconds by the instant they name", async () => {
+    expect(await details("from=2025-03-01T12:00:00%2B02:00&to=2025-03-01T10:00Z")).toEqual([
+      "morning",
+    ]);
+  });
+
+  it("rejects bounds that are not dates", () => {
+    expect(() => parseAuditQuery(new URLSearchParams("from=yesterday"))).toThrow(/"from"/);
+  });
+});
+
+describe("recordDocumentViews", () => {
+  it("records a titled view of each document against the project", async () => {
+    const [seed] = seedProjects;
+    const ids = [seed.supplierDocUrl, seed.baselineDocUrl].map((url) => documentIdFromUrl(url)!);
+    await recordDocumentViews(admin, ids, seed.id);
+
+    const { entries } = await queryAudit(
+      parseAuditQuery(new URLSearchParams(`action=document.view&projectId=${seed.id}`))
+    );
+    expect(entries.map((e) => [e.documentId, e.detail]).reverse()).toEqual([
+      [ids[0], seed.supplierDocTitle],
+      [ids[1], seed.baselineDocTitle],
+    ]);
+  });
+});
@@ -0,0 +1,246 @@
+import { randomUUID } from "node:crypto";
+import { getDocument } from "./documentStore";
+import { ValidationError } from "./errors";
+import { jsonLinesFile } from "./jsonStore";
+import { AUDIT_ACTIONS, auditActionLabels, formatChanges } from "./audit";
+import { csvLine } from "./report/csv";
+import { deviationId, pairDeviations, reviewOf } from "./review";
+import type { AuditAction, AuditChange, AuditEntry, ProjectRow, UserAccount } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                             APPEND-ONLY AUDIT LOG                          */
+/* -------------------------------------------------------------------------- */
+
+// Routes record who viewed, exported or changed what. Entries are only ever
+// appended to data/audit-log.jsonl; the app has no way to edit or remove them.
+
+const auditFile = jsonLinesFile<AuditEntry>("audit-log.jsonl");
+
+type AuditTarget = Pick<
+  AuditEntry,
+  "projectId" | "documentId" | "deviationId" | "clause" | "detail" | "changes"
+>;
+
+// A failed write fails the request. Views and exports are recorded before
+// anything is returned, but changes are recorded after they are saved, so a
+// failed write there leaves the change in place without its entry.
+export async function recordAudit(
+  user: UserAccount,
+  action: AuditAction,
+  target: AuditTarget = {}
+): Promise<void> {
+  await auditFile.append({
+    id: randomUUID(),
+    at: new Date().toISOString(),
+    username: user.username,
+    displayName: user.displayName,
+    role: user.role,
+    action,
+    ...target,
+  });
+}
+
+// Routes that return a document's text, not just the file, record a view of
+// each document they read.
+export async function recordDocumentViews(
+  user: UserAccount,
+  documentIds: string[],
+  projectId?: string
+): Promise<void> {
+  for (const id of documentIds) {
+    const doc = await getDocument(id);
+    await recordAudit(user, "document.view", { projectId, documentId: doc.id, detail: doc.title });
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               BEFORE / AFTER                               */
+/* -------------------------------------------------------------------------- */
+
+function diff<F extends string>(
+  before: Partial<Record<F, unknown>>,
+  after: Partial<Record<F, unknown>>,
+  fields: readonly F[]
+): AuditChange[] {
+  const changes: AuditChange[] = [];
+  for (const field of fields) {
+    const from = (before[field] ?? null) as AuditChange["before"];
+    const to = (after[field] ?? null) as AuditChange["after"];
+    if (from !== to) changes.push({ field, before: from, after: to });
+  }
+  return changes;
+}
+
+const DEVIATION_FIELDS = ["riskLevel", "score", "recommendation"] as const;
+
+// One entry per deviation whose risk level, score or recommendation changed,
+// plus added and removed rows.
+export function deviationChanges(before: ProjectRow, after: ProjectRow): AuditTarget[] {
+  const entries: AuditTarget[] = [];
+  for (const { from, to, id } of pairDeviations(before.deviations, after.deviations)) {
+    const changes = diff(from ?? {}, to ?? {}, DEVIATION_FIELDS);
+    if (changes.length > 0) {
+      entries.push({
+        projectId: after.id,
+        deviationId: id,
+        clause: (to ?? from)!.clause,
+        ...(!from ? { detail: "Added" } : !to ? { detail: "Removed" } : {}),
+        changes,
+      });
+    }
+  }
+  return entries;
+}
+
+// A review decision: the deviation's status and assignee before and after.
+export function reviewChanges(before: ProjectRow, after: ProjectRow, devId: string): AuditTarget {
+  const find = (p: ProjectRow) => p.deviations.find((d, i) => deviationId(d, i) === devId);
+  const from = find(before);
+  const to = find(after);
+  return {
+    projectId: after.id,
+    deviationId: devId,
+    clause: (to ?? from)?.clause,
+    changes: diff(from ? reviewOf(from) : {}, to ? reviewOf(to) : {}, ["status", "assignee"]),
+  };
+}
+
+// The project-level risk before and after a re-analysis or new iteration.
+export function projectRiskChanges(before: ProjectRow, after: ProjectRow): AuditChange[] {
+  return diff(before, after, ["riskLevel", "totalWeightedScore"]);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               QUERY + EXPORT                               */
+/* -------------------------------------------------------------------------- */
+
+export interface AuditQuery {
+  action?: AuditAction;
+  username?: string;
+  projectId?: string;
+  from?: string; // inclusive ISO timestamp or YYYY-MM-DD
+  to?: string; // inclusive; a bare date covers the whole day
+  offset: number;
+  limit: number;
+}
+
+const MAX_LIMIT = 500;
+
+// Entries store `at` from toISOString, so the bounds are put in the same form
+// before comparing: "2025-03-01", "2025-03-01T10:00" and "...+02:00" all
+// compare by the instant they name.
+function isoBounds(q: AuditQuery): { from?: string; to?: string } {
+  const iso = (value: string) => new Date(value).toISOString();
+  const endOfDay = (value: string) =>
+    /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value;
+  return {
+    from: q.from ? iso(q.from) : undefined,
+    to: q.to ? iso(endOfDay(q.to)) : undefined,
+  };
+}
+
+async function matching(q: AuditQuery): Promise<AuditEntry[]> {
+  const { from, to } = isoBounds(q);
+  return (await auditFile.read()).filter(
+    (entry) =>
+      (!q.action || entry.action === q.action) &&
+      (!q.username || entry.username.toLowerCase() === q.username.toLowerCase()) &&
+      (!q.projectId || entry.projectId === q.projectId) &&
+      (!from || entry.at >= from) &&
+      (!to || entry.at <= to)
+  );
+}
+
+// Matching entries, newest first, plus the total before paging.
+export async function queryAudit(
+  q: AuditQuery
+): Promise<{ entries: AuditEntry[]; total: number }> {
+  const entries = (await matching(q)).reverse();
+  return { entries: entries.slice(q.offset, q.offset + q.limit), total: entries.length };
+}
+
+// Every matching entry, oldest first, for an export.
+export async function exportAudit(q: AuditQuery): Promise<AuditEntry[]> {
+  return matching(q);
+}
+
+function optionalParam(params: URLSearchParams, key: string): string | undefined {
+  return params.get(key)?.trim() || undefined;
+}
+
+function optionalDate(params: URLSearchParams, key: string): string | undefined {
+  const value = optionalParam(params, key);
+  if (value && Number.isNaN(new Date(value).getTime())) {
+    throw new ValidationError(`"${key}" must be a date`);
+  }
+  return value;
+}
+
+function count(params: URLSearchParams, key: string, fallback: number, max: number): number {
+  const raw = params.get(key);
+  if (raw === null || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0 || value > max) {
+    throw new ValidationError(`"${key}" must be a whole number between 0 and ${max}`);
+  }
+  return value;
+}
+
+// ?action=&username=&projectId=&from=&to=&offset=&limit=
+export function parseAuditQuery(params: URLSearchParams): AuditQuery {
+  const action = optionalParam(params, "action");
+  if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+    throw new ValidationError(`"action" must be one of ${AUDIT_ACTIONS.join(", ")}`);
+  }
+  return {
+    action: action as AuditAction | undefined,
+    username: optionalParam(params, "username"),
+    projectId: optionalParam(params, "projectId"),
+    from: optionalDate(params, "from"),
+    to: optionalDate(params, "to"),
+    offset: count(params, "offset", 0, Number.MAX_SAFE_INTEGER),
+    limit: count(params, "limit", 100, MAX_LIMIT),
+  };
+}
+
+export const AUDIT_EXPORT_FORMATS = ["csv", "jsonl"] as const;
+export type AuditExportFormat = (typeof AUDIT_EXPORT_FORMATS)[number];
+
+const AUDIT_COLUMNS = [
+  "Timestamp",
+  "Username",
+  "Name",
+  "Role",
+  "Action",
+  "Project",
+  "Document",
+  "Deviation",
+  "Clause",
+  "Detail",
+  "Changes",
+  "Entry ID",
+] as const;
+
+export function renderAuditCsv(entries: AuditEntry[]): string {
+  const rows = entries.map((e) => [
+    e.at,
+    e.username,
+    e.displayName,
+    e.role,
+    auditActionLabels[e.action],
+    e.projectId ?? "",
+    e.documentId ?? "",
+    e.deviationId ?? "",
+    e.clause ?? "",
+    e.detail ?? "",
+    formatChanges(e),
+    e.id,
+  ]);
+  const lines = [csvLine(AUDIT_COLUMNS), ...rows.map(csvLine)];
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+// The raw entries, one JSON object per line, for tools that post-process them.
+export function renderAuditJsonLines(entries: AuditEntry[]): string {
+  return entries.map((e) => JSON.stringify(e)).join("\n") + (entries.length > 0 ? "\n" : "");
+}
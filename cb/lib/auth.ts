@@ -0,0 +1,105 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { ForbiddenError, UnauthorizedError } from "./errors";
+import { dataPath } from "./jsonStore";
+import { roleLabels } from "./roles";
+import type { Role, UserAccount } from "./types";
+import { findUser } from "./userStore";
+
+/* -------------------------------------------------------------------------- */
+/*                         SESSIONS + ROLE ENFORCEMENT                        */
+/* -------------------------------------------------------------------------- */
+
+// A session is an HMAC-signed cookie holding the username and an expiry. The
+// account is looked up on every request, so role changes and removed users
+// take effect immediately.
+
+export const SESSION_COOKIE = "contractbuddy_session";
+const SESSION_TTL_SECONDS = 8 * 60 * 60;
+
+// CONTRACTBUDDY_SESSION_SECRET, or a random secret kept in the data directory
+// so sessions survive a restart.
+let secret: Promise<Buffer> | null = null;
+function sessionSecret(): Promise<Buffer> {
+  secret ??= (async () => {
+    const configured = process.env.CONTRACTBUDDY_SESSION_SECRET;
+    if (configured) return Buffer.from(configured, "utf8");
+
+    const file = dataPath("session-secret");
+    try {
+      return Buffer.from(await fs.readFile(file, "utf8"), "hex");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      const generated = randomBytes(32);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, generated.toString("hex"), { mode: 0o600 });
+      return generated;
+    }
+  })();
+  return secret;
+}
+
+async function sign(payload: string): Promise<string> {
+  return createHmac("sha256", await sessionSecret()).update(payload).digest("base64url");
+}
+
+function cookieAttributes(maxAge: number): string {
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+  return `Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${secure}`;
+}
+
+// Set-Cookie value that signs `username` in.
+export async function sessionCookie(username: string): Promise<string> {
+  const expires = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+  const payload = Buffer.from(JSON.stringify({ u: username, exp: expires })).toString("base64url");
+  const token = `${payload}.${await sign(payload)}`;
+  return `${SESSION_COOKIE}=${token}; ${cookieAttributes(SESSION_TTL_SECONDS)}`;
+}
+
+export function clearedSessionCookie(): string {
+  return `${SESSION_COOKIE}=; ${cookieAttributes(0)}`;
+}
+
+function readCookie(req: Request, name: string): string | null {
+  for (const part of (req.headers.get("cookie") ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return value.join("=");
+  }
+  return null;
+}
+
+// Username from a valid, unexpired session cookie.
+async function sessionUsername(req: Request): Promise<string | null> {
+  const token = readCookie(req, SESSION_COOKIE);
+  const [payload, signature] = token?.split(".") ?? [];
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(await sign(payload));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const { u, exp } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (typeof u !== "string" || typeof exp !== "number") return null;
+    return exp > Date.now() / 1000 ? u : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function currentUser(req: Request): Promise<UserAccount | null> {
+  const username = await sessionUsername(req);
+  return username ? findUser(username) : null;
+}
+
+// The signed-in user, who must hold one of `roles` when any are given.
+export async function requireUser(req: Request, roles?: readonly Role[]): Promise<UserAccount> {
+  const user = await currentUser(req);
+  if (!user) throw new UnauthorizedError();
+  if (roles && !roles.includes(user.role)) {
+    const allowed = roles.map((r) => roleLabels[r]).join(" or ");
+    throw new ForbiddenError(`This action requires the ${allowed} role`);
+  }
+  return user;
+}
@@ -0,0 +1,194 @@
+import { randomUUID } from "node:crypto";
+import { CONTRACT_TYPES, currentVersion, pinFor } from "./baselines";
+import { documentUrl, getDocument } from "./documentStore";
+import { NotFoundError, ValidationError } from "./errors";
+import { jsonFile } from "./jsonStore";
+import type { BaselineTemplate, BaselineVersion, ContractType, IterationInput } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                          BASELINE TEMPLATE LIBRARY                         */
+/* -------------------------------------------------------------------------- */
+
+// The sample baseline in samples/docs, published as the first NDA version.
+const seedTemplates: BaselineTemplate[] = [
+  {
+    id: "td-nda",
+    name: "TD Baseline NDA",
+    contractType: "nda",
+    description: "Mutual non-disclosure agreement used for supplier onboarding.",
+    createdAt: "2025-11-01T00:00:00Z",
+    versions: [
+      {
+        id: "td-nda-1",
+        version: "1.0",
+        effectiveDate: "2025-11-01",
+        changeLog: "Initial standard.",
+        documentId: "td-baseline-nda",
+        documentTitle: "TD Baseline NDA.docx",
+        createdAt: "2025-11-01T00:00:00Z",
+      },
+    ],
+  },
+];
+
+const baselinesFile = jsonFile<BaselineTemplate[]>("baselines.json", () => seedTemplates);
+
+export type VersionInput = Pick<BaselineVersion, "version" | "effectiveDate" | "changeLog"> & {
+  documentId: string;
+};
+
+export type TemplateInput = Pick<BaselineTemplate, "name" | "contractType" | "description"> & {
+  firstVersion: VersionInput;
+};
+
+export async function listBaselineTemplates(): Promise<BaselineTemplate[]> {
+  return baselinesFile.read();
+}
+
+export async function getBaselineTemplate(id: string): Promise<BaselineTemplate> {
+  const template = (await baselinesFile.read()).find((t) => t.id === id);
+  if (!template) throw new NotFoundError(`Baseline template ${id} not found`);
+  return template;
+}
+
+async function buildVersion(input: VersionInput, createdAt: string): Promise<BaselineVersion> {
+  const doc = await getDocument(input.documentId);
+  return {
+    id: randomUUID(),
+    version: input.version,
+    effectiveDate: input.effectiveDate,
+    changeLog: input.changeLog,
+    documentId: doc.id,
+    documentTitle: doc.title,
+    createdAt,
+  };
+}
+
+export async function createBaselineTemplate(input: TemplateInput): Promise<BaselineTemplate> {
+  const now = new Date().toISOString();
+  const template: BaselineTemplate = {
+    id: randomUUID(),
+    name: input.name,
+    contractType: input.contractType,
+    description: input.description,
+    createdAt: now,
+    versions: [await buildVersion(input.firstVersion, now)],
+  };
+
+  return baselinesFile.update((templates) => {
+    if (templates.some((t) => t.name.toLowerCase() === input.name.toLowerCase())) {
+      throw new ValidationError(`A baseline template named "${input.name}" already exists`);
+    }
+    return { next: [...templates, template], result: template };
+  });
+}
+
+// Publishes a new version. Existing versions are never edited, so runs pinned
+// to them stay reproducible.
+export async function addBaselineVersion(
+  templateId: string,
+  input: VersionInput
+): Promise<BaselineTemplate> {
+  const version = await buildVersion(input, new Date().toISOString());
+
+  return baselinesFile.update((templates) => {
+    const idx = templates.findIndex((t) => t.id === templateId);
+    if (idx === -1) throw new NotFoundError(`Baseline template ${templateId} not found`);
+    const template = templates[idx];
+    if (template.versions.some((v) => v.version === input.version)) {
+      throw new ValidationError(`${template.name} already has a version ${input.version}`);
+    }
+
+    const updated = { ...template, versions: [...template.versions, version] };
+    const next = [...templates];
+    next[idx] = updated;
+    return { next, result: updated };
+  });
+}
+
+// Baseline fields for a run compared against a library version; the version in
+// force today unless one is named.
+export async function pinnedBaseline(
+  templateId: string,
+  versionId?: string
+): Promise<Pick<IterationInput, "baselineDocTitle" | "baselineDocUrl" | "baseline">> {
+  const template = await getBaselineTemplate(templateId);
+  const version = versionId
+    ? template.versions.find((v) => v.id === versionId)
+    : currentVersion(template);
+  if (!version) {
+    throw new NotFoundError(`Version ${versionId ?? "(current)"} of ${template.name} not found`);
+  }
+  return {
+    baselineDocTitle: version.documentTitle,
+    baselineDocUrl: documentUrl(version.documentId),
+    baseline: pinFor(template, version),
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               INPUT VALIDATION                             */
+/* -------------------------------------------------------------------------- */
+
+function requireString(body: Record<string, unknown>, key: string): string {
+  const value = body[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new ValidationError(`"${key}" must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+function optionalString(body: Record<string, unknown>, key: string): string | undefined {
+  const value = body[key];
+  if (value == null || value === "") return undefined;
+  if (typeof value !== "string") throw new ValidationError(`"${key}" must be a string`);
+  return value;
+}
+
+function requireDate(body: Record<string, unknown>, key: string): string {
+  const value = requireString(body, key);
+  // Round-tripping rejects impossible dates such as 2026-02-31.
+  const date = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    throw new ValidationError(`"${key}" must be a date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+// { version, effectiveDate, changeLog, documentId }
+export function parseVersionInput(body: Record<string, unknown>): VersionInput {
+  return {
+    version: requireString(body, "version"),
+    effectiveDate: requireDate(body, "effectiveDate"),
+    changeLog: requireString(body, "changeLog"),
+    documentId: requireString(body, "documentId"),
+  };
+}
+
+// { name, contractType, description?, ...first version fields }
+export function parseTemplateInput(body: Record<string, unknown>): TemplateInput {
+  const contractType = body.contractType;
+  if (!CONTRACT_TYPES.includes(contractType as ContractType)) {
+    throw new ValidationError(`"contractType" must be one of ${CONTRACT_TYPES.join(", ")}`);
+  }
+  return {
+    name: requireString(body, "name"),
+    contractType: contractType as ContractType,
+    description: optionalString(body, "description")?.trim() ?? "",
+    firstVersion: parseVersionInput(body),
+  };
+}
+
+// Reads { baselineTemplateId, baselineVersionId? } from a request that may
+// instead name a baseline document directly; null when no template is named.
+export function parseBaselineSelection(
+  body: Record<string, unknown>
+): { templateId: string; versionId?: string } | null {
+  const templateId = optionalString(body, "baselineTemplateId");
+  const versionId = optionalString(body, "baselineVersionId");
+  if (!templateId) {
+    if (versionId) throw new ValidationError(`"baselineVersionId" needs "baselineTemplateId"`);
+    return null;
+  }
+  return { templateId, versionId };
+}
@@ -0,0 +1,73 @@
+import type { BaselinePin, BaselineTemplate, BaselineVersion, ContractType } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                     BASELINE VERSIONS (SHARED, NO I/O)                     */
+/* -------------------------------------------------------------------------- */
+
+export const CONTRACT_TYPES: readonly ContractType[] = [
+  "nda",
+  "oc",
+  "model",
+  "msa",
+  "dpa",
+  "other",
+];
+
+export const contractTypeLabels: Record<ContractType, string> = {
+  nda: "NDA",
+  oc: "Outsourcing Contract",
+  model: "Model Agreement",
+  msa: "Master Services Agreement",
+  dpa: "Data Processing Agreement",
+  other: "Other",
+};
+
+// Local calendar date as YYYY-MM-DD, the format effective dates are stored in.
+export function today(now = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+// Versions ordered by effective date; versions sharing a date keep the order
+// they were published in.
+export function versionsByEffectiveDate(template: BaselineTemplate): BaselineVersion[] {
+  return template.versions
+    .map((v, i) => ({ v, i }))
+    .sort((a, b) => a.v.effectiveDate.localeCompare(b.v.effectiveDate) || a.i - b.i)
+    .map(({ v }) => v);
+}
+
+// The version in force on `on`: the latest one already effective. Falls back to
+// the earliest scheduled version when none is effective yet.
+export function currentVersion(template: BaselineTemplate, on = today()): BaselineVersion | null {
+  const ordered = versionsByEffectiveDate(template);
+  const effective = ordered.filter((v) => v.effectiveDate <= on);
+  return effective[effective.length - 1] ?? ordered[0] ?? null;
+}
+
+export function pinFor(template: BaselineTemplate, version: BaselineVersion): BaselinePin {
+  return {
+    templateId: template.id,
+    templateName: template.name,
+    contractType: template.contractType,
+    versionId: version.id,
+    version: version.version,
+    effectiveDate: version.effectiveDate,
+  };
+}
+
+// "TD Baseline NDA v2.1"
+export function pinLabel(pin: BaselinePin): string {
+  return `${pin.templateName} v${pin.version}`;
+}
+
+export type VersionState = "current" | "scheduled" | "superseded";
+
+export function versionState(
+  template: BaselineTemplate,
+  version: BaselineVersion,
+  on = today()
+): VersionState {
+  if (currentVersion(template, on)?.id === version.id) return "current";
+  return version.effectiveDate > on ? "scheduled" : "superseded";
+}
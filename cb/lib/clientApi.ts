@@ -0,0 +1,41 @@
+// Browser-side helpers for calling the API routes.
+
+// Parses a JSON response, turning a `{ error }` body into a thrown Error.
+export async function readJsonResponse<T>(res: Response, action: string): Promise<T> {
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(body?.error ?? `${action} failed: ${res.status}`);
+  }
+  return body as T;
+}
+
+export type UploadedDocument = { id: string; title: string; url: string };
+
+// Uploads one file through /api/documents and returns its registry entry.
+export async function uploadDocument(file: File): Promise<UploadedDocument> {
+  const form = new FormData();
+  form.append("file", file);
+
+  const res = await fetch("/api/documents", { method: "POST", body: form });
+  return readJsonResponse<UploadedDocument>(res, `Upload of ${file.name}`);
+}
+
+// Fetches a file and saves it through a temporary link, so API errors can be
+// shown in place instead of replacing the page. Returns the response headers.
+export async function downloadFile(url: string, action: string): Promise<Headers> {
+  const res = await fetch(url, { cache: "no-store" });
+  if (!res.ok) await readJsonResponse(res, action);
+
+  const disposition = res.headers.get("Content-Disposition") ?? "";
+  const encoded = /filename\*=UTF-8''([^;]+)/.exec(disposition)?.[1];
+  const plain = /filename="([^"]+)"/.exec(disposition)?.[1];
+  const fileName = encoded ? decodeURIComponent(encoded) : plain ?? "download";
+
+  const href = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(href), 0);
+  return res.headers;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { alignClauses, type ClausePair } from "./compare";
+import type { Clause } from "./types";
+
+let nextId = 0;
+
+function clause(heading: string, body: string): Clause {
+  const id = `c${++nextId}`;
+  return {
+    id,
+    numbering: null,
+    heading,
+    level: 1,
+    body,
+    paragraphs: [{ anchor: `p${nextId}`, paragraphIndex: nextId, text: body }],
+  };
+}
+
+const definitions = clause(
+  "Definitions",
+  "Confidential Information means all information disclosed by either party."
+);
+const security = clause(
+  "Security",
+  "The Receiving Party will notify the Disclosing Party within 24 hours of any breach."
+);
+const term = clause("Term", "This Agreement remains in force for five years from signature.");
+const law = clause("Governing Law", "This Agreement is governed by the laws of Ontario.");
+
+const summary = (pairs: ClausePair[]) =>
+  pairs.map((p) => [p.baseline?.heading ?? null, p.supplier?.heading ?? null, p.changes]);
+
+describe("alignClauses", () => {
+  it("pairs identical documents clause by clause with no changes", () => {
+    const pairs = alignClauses([definitions, security, term], [definitions, security, term]);
+    expect(summary(pairs)).toEqual([
+      ["Definitions", "Definitions", []],
+      ["Security", "Security", []],
+      ["Term", "Term", []],
+    ]);
+    expect(pairs.every((p) => p.similarity === 1)).toBe(true);
+  });
+
+  it("marks reworded, dropped and added clauses", () => {
+    const reworded = clause("Term", "This Agreement remains in force for one year from signature.");
+    const audit = clause("Audit Rights", "Supplier may audit the Receiving Party's premises.");
+    const pairs = alignClauses([definitions, security, term], [definitions, reworded, audit]);
+    expect(summary(pairs)).toEqual([
+      ["Definitions", "Definitions", []],
+      ["Security", null, ["missing"]],
+      ["Term", "Term", ["modified"]],
+      [null, "Audit Rights", ["added"]],
+    ]);
+    const modified = pairs[2];
+    expect(modified.similarity).toBeGreaterThan(0.3);
+    expect(modified.similarity).toBeLessThan(1);
+  });
+
+  it("places an added clause after the baseline clause it follows", () => {
+    const audit = clause("Audit Rights", "Supplier may audit the Receiving Party's premises.");
+    const pairs = alignClauses([definitions, term], [audit, definitions, term]);
+    expect(summary(pairs)[0]).toEqual([null, "Audit Rights", ["added"]]);
+    const afterDefinitions = alignClauses([definitions, term], [definitions, audit, term]);
+    expect(summary(afterDefinitions)[1]).toEqual([null, "Audit Rights", ["added"]]);
+  });
+
+  it("marks only the clauses that break the document order as moved", () => {
+    const pairs = alignClauses(
+      [definitions, security, term, law],
+      [definitions, term, law, security]
+    );
+    expect(summary(pairs)).toEqual([
+      ["Definitions", "Definitions", []],
+      ["Security", "Security", ["moved"]],
+      ["Term", "Term", []],
+      ["Governing Law", "Governing Law", []],
+    ]);
+  });
+
+  it("gives the same result every time", () => {
+    const run = () => alignClauses([definitions, security, term], [term, security, definitions]);
+    expect(run()).toEqual(run());
+  });
+});
@@ -0,0 +1,173 @@
+import type { ClauseAnalysis } from "./providers/provider";
+import { contentWords, normalizeText, textSimilarity } from "./text";
+import type {
+  AnalysisProvenance,
+  Clause,
+  ClauseChange,
+  DeviationRow,
+  DocumentAnchor,
+} from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                  CLAUSE ALIGNMENT + DEVIATION GENERATION                   */
+/* -------------------------------------------------------------------------- */
+
+// Pure and deterministic: the same two clause lists always produce the same
+// alignment, so results can be regression-tested and re-run offline. The
+// wording, score and recommendation of each row come from an analysis
+// provider (lib/providers).
+
+export interface ClausePair {
+  baseline: Clause | null; // null when the supplier added the clause
+  supplier: Clause | null; // null when the supplier dropped the clause
+  similarity: number; // body text similarity, 0 when one side is missing
+  changes: ClauseChange[]; // empty when the clause is unchanged
+}
+
+// Pairs scoring below this are treated as unrelated clauses.
+const MATCH_THRESHOLD = 0.3;
+
+const HEADING_WEIGHT = 0.4;
+
+function headingSimilarity(a: Clause, b: Clause): number {
+  const wa = new Set(contentWords(a.heading));
+  const wb = new Set(contentWords(b.heading));
+  if (wa.size === 0 || wb.size === 0) return 0;
+  let shared = 0;
+  wa.forEach((w) => {
+    if (wb.has(w)) shared++;
+  });
+  return shared / (wa.size + wb.size - shared); // Jaccard
+}
+
+function pairScore(baseline: Clause, supplier: Clause): number {
+  const heading = headingSimilarity(baseline, supplier);
+  const body = textSimilarity(baseline.body, supplier.body);
+  if (!baseline.body && !supplier.body) return heading;
+  return HEADING_WEIGHT * heading + (1 - HEADING_WEIGHT) * body;
+}
+
+// Indices (into `seq`) of a longest strictly increasing subsequence.
+function longestIncreasing(seq: number[]): Set<number> {
+  const tails: number[] = [];
+  const prev = new Array<number>(seq.length).fill(-1);
+  seq.forEach((value, i) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (seq[tails[mid]] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) prev[i] = tails[lo - 1];
+    tails[lo] = i;
+  });
+
+  const keep = new Set<number>();
+  for (let i = tails[tails.length - 1] ?? -1; i !== -1; i = prev[i]) keep.add(i);
+  return keep;
+}
+
+// Aligns supplier clauses to baseline clauses by heading and text similarity.
+// Pairs are returned in baseline order, with added supplier clauses placed
+// after the baseline clause they follow in the supplier document.
+export function alignClauses(baseline: Clause[], supplier: Clause[]): ClausePair[] {
+  const candidates: { b: number; s: number; score: number }[] = [];
+  baseline.forEach((bc, b) => {
+    supplier.forEach((sc, s) => {
+      const score = pairScore(bc, sc);
+      if (score >= MATCH_THRESHOLD) candidates.push({ b, s, score });
+    });
+  });
+  // Greedy best-first matching; index tie-breaks keep the result stable.
+  candidates.sort((x, y) => y.score - x.score || x.b - y.b || x.s - y.s);
+
+  const supplierFor = new Map<number, number>();
+  const matchedSupplier = new Set<number>();
+  for (const c of candidates) {
+    if (supplierFor.has(c.b) || matchedSupplier.has(c.s)) continue;
+    supplierFor.set(c.b, c.s);
+    matchedSupplier.add(c.s);
+  }
+
+  // A matched clause is "moved" when it falls outside the longest run of
+  // matches that keep the same relative order in both documents.
+  const matchedBaseline = Array.from(supplierFor.keys()).sort((x, y) => x - y);
+  const inOrder = longestIncreasing(matchedBaseline.map((b) => supplierFor.get(b)!));
+  const moved = new Set(matchedBaseline.filter((_, i) => !inOrder.has(i)));
+
+  const pairs: ClausePair[] = [];
+  const addedAfter = new Map<number, number[]>(); // baseline index -> added supplier indices
+  let lastBaseline = -1;
+  supplier.forEach((_, s) => {
+    const b = matchedBaseline.find((bi) => supplierFor.get(bi) === s);
+    if (b !== undefined) {
+      if (!moved.has(b)) lastBaseline = b;
+      return;
+    }
+    addedAfter.set(lastBaseline, [...(addedAfter.get(lastBaseline) ?? []), s]);
+  });
+
+  const pushAdded = (b: number) => {
+    for (const s of addedAfter.get(b) ?? []) {
+      pairs.push({ baseline: null, supplier: supplier[s], similarity: 0, changes: ["added"] });
+    }
+  };
+
+  pushAdded(-1);
+  baseline.forEach((bc, b) => {
+    const s = supplierFor.get(b);
+    if (s === undefined) {
+      pairs.push({ baseline: bc, supplier: null, similarity: 0, changes: ["missing"] });
+    } else {
+      const sc = supplier[s];
+      const same = normalizeText(bc.body) === normalizeText(sc.body);
+      const similarity = same ? 1 : textSimilarity(bc.body, sc.body);
+      const changes: ClauseChange[] = [];
+      if (!same) changes.push("modified");
+      if (moved.has(b)) changes.push("moved");
+      pairs.push({ baseline: bc, supplier: sc, similarity, changes });
+    }
+    pushAdded(b);
+  });
+
+  return pairs;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                DEVIATION ROWS                              */
+/* -------------------------------------------------------------------------- */
+
+export function clauseName(pair: ClausePair): string {
+  return (pair.baseline ?? pair.supplier)!.heading;
+}
+
+function anchorFor(clause: Clause | null): DocumentAnchor | undefined {
+  const first = clause?.paragraphs[0];
+  if (!clause || !first) return undefined;
+  return { clauseId: clause.id, anchor: first.anchor, paragraphIndex: first.paragraphIndex };
+}
+
+// The row for a changed pair, as explained by an analysis provider.
+export function deviationRow(
+  pair: ClausePair,
+  analysis: ClauseAnalysis,
+  provider: AnalysisProvenance
+): DeviationRow {
+  return {
+    clause: clauseName(pair),
+    baseline: pair.baseline?.body ?? "",
+    supplier: pair.supplier?.body ?? "",
+    deviation: analysis.deviation,
+    riskLevel: analysis.riskLevel,
+    recommendation: analysis.recommendation,
+    score: analysis.score,
+    change: pair.changes[0],
+    similarity: Math.round(pair.similarity * 100) / 100,
+    ...(analysis.category ? { category: analysis.category } : {}),
+    ...(analysis.playbook ? { playbook: analysis.playbook } : {}),
+    provider,
+    baselineAnchor: anchorFor(pair.baseline),
+    supplierAnchor: anchorFor(pair.supplier),
+  };
+}
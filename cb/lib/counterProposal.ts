@@ -0,0 +1,150 @@
+import { alignDocuments, requireDocumentId } from "./analysis";
+import type { ClausePair } from "./compare";
+import { formatOfContentType } from "./documentFormats";
+import { getDocument, readDocumentBytes } from "./documentStore";
+import { openDocx } from "./docx/openDocx";
+import { applyRedline, type RedlineEdit } from "./docx/redline";
+import { ValidationError } from "./errors";
+import { getProject } from "./projectStore";
+import { reviewOf } from "./review";
+import type { Clause, DeviationRow } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                   COUNTER-PROPOSAL DOCX (SUPPLIER + REVERSIONS)            */
+/* -------------------------------------------------------------------------- */
+
+export interface CounterProposal {
+  fileName: string;
+  bytes: ArrayBuffer;
+  revised: number; // deviations written as tracked changes
+  commented: string[]; // clauses that only got a comment (see counterProposalEdit)
+  skipped: string[]; // clauses that could not be located in the supplier document
+}
+
+// Deviations a reviewer rejected are the ones reverted to the baseline text.
+function markedForReversion(dev: DeviationRow): boolean {
+  return reviewOf(dev).status === "rejected";
+}
+
+// One text per source <w:p>; a paragraph split into several blocks by blank
+// line breaks is joined back the same way.
+function paragraphTexts(clause: Clause): string[] {
+  const byParagraph = new Map<number, string[]>();
+  for (const p of clause.paragraphs) {
+    byParagraph.set(p.paragraphIndex, [...(byParagraph.get(p.paragraphIndex) ?? []), p.text]);
+  }
+  return Array.from(byParagraph.values(), (texts) => texts.join("\n\n"));
+}
+
+function paragraphIndexes(clause: Clause): number[] {
+  return Array.from(new Set(clause.paragraphs.map((p) => p.paragraphIndex)));
+}
+
+function findPair(pairs: ClausePair[], dev: DeviationRow): number {
+  if (dev.supplierAnchor) {
+    return pairs.findIndex((p) => p.supplier?.id === dev.supplierAnchor!.clauseId);
+  }
+  if (dev.baselineAnchor) {
+    return pairs.findIndex((p) => p.baseline?.id === dev.baselineAnchor!.clauseId);
+  }
+  return -1;
+}
+
+// Rewriting a <w:p> replaces all of its text, so a clause is only rewritten
+// when none of its paragraphs also hold text from another clause. Otherwise
+// the reviewer gets a comment with the baseline wording to apply by hand.
+function counterProposalEdit(
+  pairs: ClausePair[],
+  index: number,
+  dev: DeviationRow,
+  shared: Set<number>
+): RedlineEdit {
+  const { baseline, supplier, changes } = pairs[index];
+  const comment = dev.recommendation || "Revert to the TD baseline wording.";
+
+  if (!supplier) {
+    // Missing clause: insert it after the closest preceding supplier clause.
+    const previous = pairs
+      .slice(0, index)
+      .reverse()
+      .find((p) => p.supplier);
+    const after = previous ? Math.max(...paragraphIndexes(previous.supplier!)) : null;
+    return { kind: "insert", after, texts: paragraphTexts(baseline!), comment };
+  }
+
+  const paragraphs = paragraphIndexes(supplier);
+  const exclusive = paragraphs.every((i) => !shared.has(i));
+  if (!baseline) {
+    return exclusive
+      ? { kind: "delete", paragraphs, comment }
+      : { kind: "comment", paragraphs, comment: `${comment}\n\nRemove this clause.` };
+  }
+  if (!changes.includes("modified")) return { kind: "comment", paragraphs, comment };
+  if (!exclusive) {
+    return {
+      kind: "comment",
+      paragraphs,
+      comment: `${comment}\n\nBaseline wording:\n${baseline.body}`,
+    };
+  }
+  return { kind: "replace", paragraphs, texts: paragraphTexts(baseline), comment };
+}
+
+export async function buildCounterProposal(
+  projectId: string,
+  author: string
+): Promise<CounterProposal> {
+  const project = await getProject(projectId);
+  const targets = project.deviations.filter(markedForReversion);
+  if (targets.length === 0) {
+    throw new ValidationError(
+      "No deviations are marked as rejected; reject a deviation to revert it to the baseline"
+    );
+  }
+
+  const supplierId = requireDocumentId(project.supplierDocUrl, "Supplier");
+  const supplierDoc = await getDocument(supplierId);
+  // Tracked changes can only be written into a Word document.
+  if (formatOfContentType(supplierDoc.contentType) !== "docx") {
+    throw new ValidationError(
+      "Counter-proposals can only be generated for a supplier contract uploaded as a DOCX"
+    );
+  }
+  const pairs = await alignDocuments(
+    requireDocumentId(project.baselineDocUrl, "Baseline"),
+    supplierId
+  );
+
+  // Paragraphs that carry text from more than one supplier clause.
+  const owners = new Map<number, number>();
+  for (const pair of pairs) {
+    if (!pair.supplier) continue;
+    for (const i of paragraphIndexes(pair.supplier)) owners.set(i, (owners.get(i) ?? 0) + 1);
+  }
+  const shared = new Set(Array.from(owners).filter(([, n]) => n > 1).map(([i]) => i));
+
+  const edits: RedlineEdit[] = [];
+  const commented: string[] = [];
+  const skipped: string[] = [];
+  for (const dev of targets) {
+    const index = findPair(pairs, dev);
+    if (index === -1) {
+      skipped.push(dev.clause);
+      continue;
+    }
+    const edit = counterProposalEdit(pairs, index, dev, shared);
+    if (edit.kind === "comment") commented.push(dev.clause);
+    edits.push(edit);
+  }
+
+  const zip = await openDocx(await readDocumentBytes(supplierDoc));
+  await applyRedline(zip, edits, { author, date: new Date().toISOString() });
+
+  return {
+    fileName: `${supplierDoc.title.replace(/\.docx$/i, "")} - counter-proposal.docx`,
+    bytes: await zip.generateAsync({ type: "arraybuffer", compression: "DEFLATE" }),
+    revised: edits.length - commented.length,
+    commented,
+    skipped,
+  };
+}
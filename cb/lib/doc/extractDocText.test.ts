@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { checkUploadedDocument } from "../documentText";
+import { extractDocParagraphs } from "./extractDocText";
+
+/* -------------------------------------------------------------------------- */
+/*                      MINIMAL WORD 97-2003 FILES TO PARSE                   */
+/* -------------------------------------------------------------------------- */
+
+const SECTOR = 512;
+const STREAM_SIZE = 4096; // at the mini stream cutoff, so streams use whole sectors
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const TEXT_AT = 0x400; // where the text sits in the WordDocument stream
+
+interface DocOptions {
+  text: string;
+  prc?: number; // cbGrpprl of a Prc block placed before the piece table
+  lcbClx?: number;
+  lcbPlc?: number;
+  fc?: number; // byte offset of the piece's text
+}
+
+// A WordDocument stream with a FIB just long enough to reach fcClx/lcbClx.
+function wordDocument(text: string, clxLength: number, fc: number): Buffer {
+  const word = Buffer.alloc(STREAM_SIZE);
+  word.writeUInt16LE(0xa5ec, 0);
+  word.writeUInt16LE(0x0200, 0x0a); // the table is "1Table"
+  word.writeUInt16LE(0, 0x20); // csw
+  word.writeUInt16LE(4, 0x22); // cslw
+  word.writeInt32LE(text.length, 0x24 + 3 * 4); // ccpText
+  word.writeUInt16LE(34, 0x34); // cbRgFcLcb
+  word.writeUInt32LE(0, 0x36 + 33 * 8); // fcClx
+  word.writeUInt32LE(clxLength, 0x36 + 33 * 8 + 4); // lcbClx
+  word.write(text, fc, "latin1");
+  return word;
+}
+
+// A CLX: an optional Prc, then a Pcdt holding a single compressed piece.
+function tableStream(options: DocOptions): { table: Buffer; clxLength: number } {
+  const table = Buffer.alloc(STREAM_SIZE);
+  let at = 0;
+  if (options.prc !== undefined) {
+    table[at] = 0x01;
+    table.writeInt16LE(options.prc, at + 1);
+    at += 3 + Math.min(Math.max(0, options.prc), 64); // larger sizes are left to run past
+  }
+  table[at] = 0x02;
+  table.writeUInt32LE(options.lcbPlc ?? 16, at + 1);
+  table.writeUInt32LE(0, at + 5);
+  table.writeUInt32LE(options.text.length, at + 9);
+  table.writeUInt32LE(((options.fc ?? TEXT_AT) * 2) | 0x40000000, at + 15);
+  return { table, clxLength: options.lcbClx ?? at + 21 };
+}
+
+function directoryEntry(name: string, type: number, start: number, size: number): Buffer {
+  const entry = Buffer.alloc(128);
+  entry.write(name, 0, "utf16le");
+  entry.writeUInt16LE((name.length + 1) * 2, 0x40);
+  entry[0x42] = type;
+  entry.writeUInt32LE(start, 0x74);
+  entry.writeUInt32LE(size, 0x78);
+  return entry;
+}
+
+// Sector 0 holds the FAT, 1 the directory, then each stream in 8 sectors.
+function buildDoc(options: DocOptions): Buffer {
+  const { table, clxLength } = tableStream(options);
+  const word = wordDocument(options.text, clxLength, TEXT_AT);
+  const perStream = STREAM_SIZE / SECTOR;
+
+  const header = Buffer.alloc(SECTOR);
+  Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]).copy(header);
+  header.writeUInt16LE(9, 0x1e);
+  header.writeUInt16LE(6, 0x20);
+  header.writeUInt32LE(1, 0x30);
+  header.writeUInt32LE(STREAM_SIZE, 0x38);
+  header.writeUInt32LE(END_OF_CHAIN, 0x3c);
+  header.writeUInt32LE(END_OF_CHAIN, 0x44);
+  for (let i = 0; i < 109; i++) header.writeUInt32LE(i === 0 ? 0 : FREE_SECTOR, 0x4c + i * 4);
+
+  const fat = Buffer.alloc(SECTOR, 0xff);
+  fat.writeUInt32LE(0xfffffffd, 0);
+  fat.writeUInt32LE(END_OF_CHAIN, 4);
+  for (const first of [2, 2 + perStream]) {
+    for (let n = first; n < first + perStream; n++) {
+      fat.writeUInt32LE(n === first + perStream - 1 ? END_OF_CHAIN : n + 1, n * 4);
+    }
+  }
+
+  const directory = Buffer.alloc(SECTOR);
+  directoryEntry("Root Entry", 5, END_OF_CHAIN, 0).copy(directory, 0);
+  directoryEntry("WordDocument", 2, 2, STREAM_SIZE).copy(directory, 128);
+  directoryEntry("1Table", 2, 2 + perStream, STREAM_SIZE).copy(directory, 256);
+
+  return Buffer.concat([header, fat, directory, word, table]);
+}
+
+const INVALID = "File is not a valid Word 97-2003 document";
+
+describe("extractDocParagraphs", () => {
+  it("reads the paragraphs of the main text", () => {
+    const doc = buildDoc({ text: "1. Term\rFive years from signature.\r" });
+    expect(extractDocParagraphs(doc)).toEqual([
+      { text: "1. Term" },
+      { text: "Five years from signature." },
+    ]);
+  });
+
+  it("skips formatting blocks before the piece table", () => {
+    const doc = buildDoc({ text: "Confidentiality\r", prc: 6 });
+    expect(extractDocParagraphs(doc)).toEqual([{ text: "Confidentiality" }]);
+  });
+
+  it("rejects a formatting block with a negative size instead of looping", async () => {
+    for (const prc of [-3, -1, -100]) {
+      expect(() => extractDocParagraphs(buildDoc({ text: "Term\r", prc }))).toThrow(INVALID);
+    }
+    // The upload check reads the file the same way.
+    await expect(checkUploadedDocument(buildDoc({ text: "Term\r", prc: -3 }))).rejects.toThrow(
+      INVALID
+    );
+  });
+
+  it("rejects sizes and offsets that run past their stream", () => {
+    const cases: Omit<DocOptions, "text">[] = [
+      { prc: 30000 }, // the Prc runs past the CLX
+      { lcbClx: STREAM_SIZE + 1 }, // the CLX runs past the table stream
+      { lcbPlc: 1000 }, // the piece table runs past the CLX
+      { lcbPlc: 15 }, // not a whole number of pieces
+      { fc: STREAM_SIZE - 2 }, // the piece's text runs past the WordDocument stream
+    ];
+    for (const options of cases) {
+      expect(() => extractDocParagraphs(buildDoc({ text: "Term\r", ...options }))).toThrow(
+        INVALID
+      );
+    }
+  });
+
+  it("rejects files that are not compound files", () => {
+    expect(() => extractDocParagraphs(Buffer.alloc(100))).toThrow(INVALID);
+    expect(() => extractDocParagraphs(Buffer.alloc(SECTOR * 3))).toThrow(INVALID);
+  });
+});
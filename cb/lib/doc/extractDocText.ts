@@ -0,0 +1,244 @@
+import type { TextParagraph } from "../docx/extractClauses";
+import { ValidationError } from "../errors";
+import { WIN_ANSI } from "../report/pdfWriter";
+
+/* -------------------------------------------------------------------------- */
+/*                    LEGACY WORD (.DOC) -> PARAGRAPHS OF TEXT                */
+/* -------------------------------------------------------------------------- */
+
+// Word 97-2003 files are OLE compound files. The document text sits in the
+// "WordDocument" stream, split into pieces listed by the piece table (the
+// CLX) in the "0Table" or "1Table" stream. Only the text is read: styles and
+// list numbering are left to the clause extraction's text heuristics.
+
+const INVALID = "File is not a valid Word 97-2003 document";
+
+/* -------------------------------------------------------------------------- */
+/*                            OLE COMPOUND FILE                               */
+/* -------------------------------------------------------------------------- */
+
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const HEADER_DIFAT_ENTRIES = 109;
+
+interface DirectoryEntry {
+  name: string;
+  type: number; // 1 storage, 2 stream, 5 root
+  start: number;
+  size: number;
+}
+
+function readStreams(bytes: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 512) throw new ValidationError(INVALID);
+  const sectorSize = 1 << view.getUint16(0x1e, true);
+  const miniSectorSize = 1 << view.getUint16(0x20, true);
+  const firstDirSector = view.getUint32(0x30, true);
+  const miniCutoff = view.getUint32(0x38, true);
+  const firstMiniFatSector = view.getUint32(0x3c, true);
+  const firstDifatSector = view.getUint32(0x44, true);
+  if (sectorSize !== 512 && sectorSize !== 4096) throw new ValidationError(INVALID);
+
+  const sectorCount = Math.floor((bytes.length - sectorSize) / sectorSize) + 1;
+  const sector = (n: number) => bytes.subarray(sectorSize * (n + 1), sectorSize * (n + 2));
+
+  // The FAT sectors are listed in the header and then in a chain of DIFAT sectors.
+  const fatSectors: number[] = [];
+  for (let i = 0; i < HEADER_DIFAT_ENTRIES; i++) {
+    fatSectors.push(view.getUint32(0x4c + i * 4, true));
+  }
+  const perSector = sectorSize / 4;
+  for (let n = firstDifatSector, hops = 0; n < sectorCount && hops < sectorCount; hops++) {
+    const s = new DataView(bytes.buffer, bytes.byteOffset + sectorSize * (n + 1), sectorSize);
+    for (let i = 0; i < perSector - 1; i++) fatSectors.push(s.getUint32(i * 4, true));
+    n = s.getUint32((perSector - 1) * 4, true);
+  }
+  const fat: number[] = [];
+  for (const n of fatSectors) {
+    if (n === FREE_SECTOR || n >= sectorCount) continue;
+    const s = new DataView(bytes.buffer, bytes.byteOffset + sectorSize * (n + 1), sectorSize);
+    for (let i = 0; i < perSector; i++) fat.push(s.getUint32(i * 4, true));
+  }
+
+  const chain = (start: number, table: number[], limit: number): number[] => {
+    const sectors: number[] = [];
+    for (let n = start; n !== END_OF_CHAIN && n < limit; n = table[n] ?? END_OF_CHAIN) {
+      if (sectors.length > limit) throw new ValidationError(INVALID); // a loop in the chain
+      sectors.push(n);
+    }
+    return sectors;
+  };
+  const readChain = (start: number, size?: number) => {
+    const data = Buffer.concat(chain(start, fat, sectorCount).map(sector));
+    return size === undefined ? data : data.subarray(0, size);
+  };
+
+  const directory = readChain(firstDirSector);
+  const entries: DirectoryEntry[] = [];
+  for (let at = 0; at + 128 <= directory.length; at += 128) {
+    const nameLength = directory.readUInt16LE(at + 0x40);
+    entries.push({
+      name: directory.toString("utf16le", at, at + Math.max(0, nameLength - 2)),
+      type: directory[at + 0x42],
+      start: directory.readUInt32LE(at + 0x74),
+      size: directory.readUInt32LE(at + 0x78),
+    });
+  }
+  const root = entries.find((e) => e.type === 5);
+  if (!root) throw new ValidationError(INVALID);
+
+  // Streams under the cutoff live in the mini stream, in 64-byte sectors.
+  const miniStream = readChain(root.start, root.size);
+  const miniFat: number[] = [];
+  if (firstMiniFatSector !== END_OF_CHAIN) {
+    const table = readChain(firstMiniFatSector);
+    for (let at = 0; at + 4 <= table.length; at += 4) miniFat.push(table.readUInt32LE(at));
+  }
+  const miniSectorCount = Math.ceil(miniStream.length / miniSectorSize);
+
+  const streams = new Map<string, Uint8Array>();
+  for (const entry of entries) {
+    if (entry.type !== 2) continue;
+    if (entry.size < miniCutoff) {
+      const data = Buffer.concat(
+        chain(entry.start, miniFat, miniSectorCount).map((n) =>
+          miniStream.subarray(n * miniSectorSize, (n + 1) * miniSectorSize)
+        )
+      );
+      streams.set(entry.name, data.subarray(0, entry.size));
+    } else {
+      streams.set(entry.name, readChain(entry.start, entry.size));
+    }
+  }
+  return streams;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 WORD TEXT                                  */
+/* -------------------------------------------------------------------------- */
+
+const WORD_IDENT = 0xa5ec;
+const F_WHICH_TBL_STM = 0x0200;
+const F_ENCRYPTED = 0x0100;
+const FC_COMPRESSED = 0x40000000;
+
+// Index of fcClx within FibRgFcLcb97, and of ccpText within FibRgLw97.
+const CLX_INDEX = 33;
+const CCP_TEXT_INDEX = 3;
+
+const WIN_ANSI_CODES = new Map(Object.entries(WIN_ANSI).map(([ch, code]) => [code, ch]));
+
+// "Compressed" pieces store one byte per character in Windows-1252.
+function decodeCompressed(bytes: Uint8Array): string {
+  let out = "";
+  for (const b of bytes) out += WIN_ANSI_CODES.get(b) ?? String.fromCharCode(b);
+  return out;
+}
+
+// Every offset and length read from the file is checked before use, so a
+// damaged or crafted document is rejected instead of read out of range or
+// looped over forever.
+function requireRange(start: number, length: number, limit: number): void {
+  if (start < 0 || length < 0 || start + length > limit) throw new ValidationError(INVALID);
+}
+
+function mainText(bytes: Uint8Array): string {
+  const streams = readStreams(bytes);
+  const word = streams.get("WordDocument");
+  if (!word || word.length < 0x20) throw new ValidationError(INVALID);
+  const fib = Buffer.from(word.buffer, word.byteOffset, word.byteLength);
+  if (fib.readUInt16LE(0) !== WORD_IDENT) throw new ValidationError(INVALID);
+  const flags = fib.readUInt16LE(0x0a);
+  if (flags & F_ENCRYPTED) {
+    throw new ValidationError("Password-protected Word documents are not supported");
+  }
+  const table = streams.get(flags & F_WHICH_TBL_STM ? "1Table" : "0Table");
+  if (!table) throw new ValidationError(INVALID);
+
+  // The FIB's variable-length parts: csw 16-bit values, cslw 32-bit values,
+  // then cbRgFcLcb pairs of 32-bit offsets and lengths.
+  const csw = fib.readUInt16LE(0x20);
+  const lwAt = 0x22 + csw * 2 + 2;
+  const cslw = fib.readUInt16LE(lwAt - 2);
+  const fcLcbAt = lwAt + cslw * 4 + 2;
+  if (fcLcbAt + (CLX_INDEX + 1) * 8 > fib.length) throw new ValidationError(INVALID);
+  const ccpText = fib.readInt32LE(lwAt + CCP_TEXT_INDEX * 4);
+  const fcClx = fib.readUInt32LE(fcLcbAt + CLX_INDEX * 8);
+  const lcbClx = fib.readUInt32LE(fcLcbAt + CLX_INDEX * 8 + 4);
+  if (ccpText < 0) throw new ValidationError(INVALID);
+  requireRange(fcClx, lcbClx, table.length);
+
+  const clx = Buffer.from(table.buffer, table.byteOffset, table.byteLength).subarray(
+    fcClx,
+    fcClx + lcbClx
+  );
+  // Skip any Prc (formatting) blocks to reach the Pcdt with the piece table.
+  // A Prc's size is signed, so a negative one is rejected, not stepped back over.
+  let at = 0;
+  while (at < clx.length && clx[at] === 0x01) {
+    requireRange(at + 1, 2, clx.length);
+    const cbGrpprl = clx.readInt16LE(at + 1);
+    requireRange(at + 3, cbGrpprl, clx.length);
+    at += 3 + cbGrpprl;
+  }
+  requireRange(at, 5, clx.length);
+  if (clx[at] !== 0x02) throw new ValidationError(INVALID);
+  const lcb = clx.readUInt32LE(at + 1);
+  requireRange(at + 5, lcb, clx.length);
+  const plc = clx.subarray(at + 5, at + 5 + lcb);
+  // n + 1 character positions, then n 8-byte piece descriptors.
+  const pieces = (lcb - 4) / 12;
+  if (!Number.isInteger(pieces) || pieces < 1) throw new ValidationError(INVALID);
+
+  let text = "";
+  for (let i = 0; i < pieces && text.length < ccpText; i++) {
+    const cpStart = plc.readUInt32LE(i * 4);
+    const cpEnd = plc.readUInt32LE((i + 1) * 4);
+    if (cpEnd < cpStart) throw new ValidationError(INVALID);
+    const fcValue = plc.readUInt32LE((pieces + 1) * 4 + i * 8 + 2);
+    const length = Math.min(cpEnd - cpStart, ccpText - text.length);
+    if (fcValue & FC_COMPRESSED) {
+      const fc = (fcValue & ~FC_COMPRESSED) / 2;
+      requireRange(fc, length, fib.length);
+      text += decodeCompressed(fib.subarray(fc, fc + length));
+    } else {
+      requireRange(fcValue, length * 2, fib.length);
+      text += fib.toString("utf16le", fcValue, fcValue + length * 2);
+    }
+  }
+  return text;
+}
+
+// Field codes (\x13 code \x14 result \x15) keep only their result. Cell and
+// page breaks end a paragraph like a paragraph mark does.
+function paragraphsOfText(text: string): TextParagraph[] {
+  let out = "";
+  const fields: boolean[] = []; // per open field: still inside its code
+  for (const ch of text) {
+    if (ch === "\x13") fields.push(true);
+    else if (ch === "\x14") fields[fields.length - 1] = false;
+    else if (ch === "\x15") fields.pop();
+    else if (fields.includes(true)) continue;
+    else if (ch === "\x1e") out += "-"; // non-breaking hyphen
+    else if (ch === "\x0b") out += " "; // manual line break
+    else if (ch === "\x07" || ch === "\x0c") out += "\r";
+    else if (ch === "\r" || ch >= " " || ch === "\t") out += ch === "\xa0" ? " " : ch;
+  }
+  return out
+    .split("\r")
+    .map((p) => ({ text: p.replace(/\s+/g, " ").trim() }))
+    .filter((p) => p.text);
+}
+
+// The paragraphs of a Word 97-2003 document's main text.
+export function extractDocParagraphs(bytes: Uint8Array): TextParagraph[] {
+  let paragraphs: TextParagraph[];
+  try {
+    paragraphs = paragraphsOfText(mainText(bytes));
+  } catch (err) {
+    if (err instanceof ValidationError) throw err;
+    throw new ValidationError(INVALID); // out-of-range offsets in a damaged file
+  }
+  if (paragraphs.length === 0) throw new ValidationError("The Word document has no text");
+  return paragraphs;
+}
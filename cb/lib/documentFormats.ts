@@ -0,0 +1,50 @@
+/* -------------------------------------------------------------------------- */
+/*                      SUPPORTED DOCUMENT FORMATS + DETECTION                */
+/* -------------------------------------------------------------------------- */
+
+// Shared by the upload checks, the extraction on the server and the viewers,
+// which all route a document by the MIME type detected when it was uploaded.
+
+export type DocumentFormat = "docx" | "pdf" | "doc";
+
+export const DOCUMENT_FORMATS: readonly DocumentFormat[] = ["docx", "pdf", "doc"];
+
+export const documentContentTypes: Record<DocumentFormat, string> = {
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pdf: "application/pdf",
+  doc: "application/msword",
+};
+
+export const documentFormatLabels: Record<DocumentFormat, string> = {
+  docx: "Word (.docx)",
+  pdf: "PDF",
+  doc: "Word 97-2003 (.doc)",
+};
+
+// Leading bytes of each format. A DOC is an OLE compound file; other Office
+// 97 files share the signature, so its streams are checked when it is read.
+const SIGNATURES: Record<DocumentFormat, number[]> = {
+  docx: [0x50, 0x4b, 0x03, 0x04], // "PK\x03\x04"
+  pdf: [0x25, 0x50, 0x44, 0x46, 0x2d], // "%PDF-"
+  doc: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+};
+
+// The format the bytes look like, or null when none of the supported ones.
+// Some PDF writers put junk before the header, so the first KB is searched.
+export function detectDocumentFormat(bytes: Uint8Array): DocumentFormat | null {
+  const startsWith = (signature: number[], at = 0) =>
+    bytes.length >= at + signature.length && signature.every((b, i) => bytes[at + i] === b);
+  if (startsWith(SIGNATURES.docx)) return "docx";
+  if (startsWith(SIGNATURES.doc)) return "doc";
+  const limit = Math.min(bytes.length, 1024);
+  for (let at = 0; at < limit; at++) {
+    if (startsWith(SIGNATURES.pdf, at)) return "pdf";
+  }
+  return null;
+}
+
+// Format of a stored document from its recorded Content-Type.
+export function formatOfContentType(contentType: string | null): DocumentFormat | null {
+  const type = (contentType ?? "").split(";")[0].trim().toLowerCase();
+  return DOCUMENT_FORMATS.find((f) => documentContentTypes[f] === type) ?? null;
+}
@@ -0,0 +1,104 @@
+import { randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { documentContentTypes } from "./documentFormats";
+import { NotFoundError } from "./errors";
+import { dataPath, jsonFile } from "./jsonStore";
+
+/* -------------------------------------------------------------------------- */
+/*                              DOCUMENT REGISTRY                             */
+/* -------------------------------------------------------------------------- */
+
+export const DOCX_CONTENT_TYPE = documentContentTypes.docx;
+
+export interface DocumentRecord {
+  id: string;
+  title: string; // display name, e.g. "Supplier NDA.docx"
+  fileName: string; // name of the file on disk
+  contentType: string; // detected on upload; see lib/documentFormats
+  builtin: boolean; // true for the sample files shipped in samples/docs
+  createdAt: string; // ISO timestamp
+  uploadedBy?: string; // username; absent on the built-in samples
+}
+
+// The sample documents the seed projects point at. They live outside public/
+// so every download goes through /api/documents and its access checks.
+const builtinDocuments: DocumentRecord[] = [
+  {
+    id: "supplier-nda",
+    title: "Supplier NDA.docx",
+    fileName: "supplier.docx",
+    contentType: DOCX_CONTENT_TYPE,
+    builtin: true,
+    createdAt: "2025-11-16T23:00:00Z",
+  },
+  {
+    id: "td-baseline-nda",
+    title: "TD Baseline NDA.docx",
+    fileName: "baseline.docx",
+    contentType: DOCX_CONTENT_TYPE,
+    builtin: true,
+    createdAt: "2025-11-16T23:00:00Z",
+  },
+];
+
+const documentsFile = jsonFile<DocumentRecord[]>("documents.json", () => builtinDocuments);
+
+export function documentUrl(id: string): string {
+  return `/api/documents/${encodeURIComponent(id)}`;
+}
+
+// Inverse of `documentUrl`; null for URLs that are not served by the registry.
+export function documentIdFromUrl(url: string): string | null {
+  const match = /^\/api\/documents\/([^/?#]+)$/.exec(url);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+// Absolute path of the bytes behind a registry entry.
+export function documentFilePath(doc: DocumentRecord): string {
+  return doc.builtin
+    ? path.join(process.cwd(), "samples", "docs", doc.fileName)
+    : dataPath("documents", doc.fileName);
+}
+
+export async function getDocument(id: string): Promise<DocumentRecord> {
+  const doc = (await documentsFile.read()).find((d) => d.id === id);
+  if (!doc) throw new NotFoundError(`Document ${id} not found`);
+  return doc;
+}
+
+export async function readDocumentBytes(doc: DocumentRecord): Promise<Buffer> {
+  try {
+    return await fs.readFile(documentFilePath(doc));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new NotFoundError(`File for document ${doc.id} is missing`);
+    }
+    throw err;
+  }
+}
+
+// Writes the bytes to the data directory and registers them under a new id.
+export async function createDocument(input: {
+  title: string;
+  contentType: string;
+  bytes: Uint8Array;
+  uploadedBy: string;
+}): Promise<DocumentRecord> {
+  const id = randomUUID();
+  const doc: DocumentRecord = {
+    id,
+    title: input.title,
+    fileName: `${id}${path.extname(input.title).toLowerCase()}`,
+    contentType: input.contentType,
+    builtin: false,
+    createdAt: new Date().toISOString(),
+    uploadedBy: input.uploadedBy,
+  };
+
+  const filePath = documentFilePath(doc);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, input.bytes);
+
+  return documentsFile.update((docs) => ({ next: [...docs, doc], result: doc }));
+}
@@ -0,0 +1,45 @@
+import { extractDocParagraphs } from "./doc/extractDocText";
+import { extractClauses, extractClausesFromText } from "./docx/extractClauses";
+import { openDocx } from "./docx/openDocx";
+import {
+  detectDocumentFormat,
+  documentContentTypes,
+  formatOfContentType,
+  type DocumentFormat,
+} from "./documentFormats";
+import { ValidationError } from "./errors";
+import { extractPdfParagraphs } from "./pdf/extractPdfText";
+import type { Clause } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                      CLAUSES FROM ANY SUPPORTED FORMAT                     */
+/* -------------------------------------------------------------------------- */
+
+// Clauses of a stored document, read as the format it was stored with. The
+// comparison only sees clauses, so a PDF supplier contract can be checked
+// against a DOCX baseline and the other way round.
+export async function extractDocumentClauses(
+  bytes: Uint8Array,
+  contentType: string
+): Promise<Clause[]> {
+  switch (formatOfContentType(contentType) ?? detectDocumentFormat(bytes)) {
+    case "docx":
+      return extractClauses(bytes);
+    case "pdf":
+      return extractClausesFromText(extractPdfParagraphs(bytes));
+    case "doc":
+      return extractClausesFromText(extractDocParagraphs(bytes));
+    default:
+      throw new ValidationError(`Documents of type ${contentType} cannot be read`);
+  }
+}
+
+// Detects an upload's format from its bytes, whatever its name or declared
+// type, and checks that it can be read.
+export async function checkUploadedDocument(bytes: Uint8Array): Promise<DocumentFormat> {
+  const format = detectDocumentFormat(bytes);
+  if (!format) throw new ValidationError("File is not a DOCX, PDF or Word 97-2003 document");
+  if (format === "docx") await openDocx(bytes);
+  else await extractDocumentClauses(bytes, documentContentTypes[format]);
+  return format;
+}
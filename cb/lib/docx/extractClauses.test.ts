@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { extractClausesFromText, extractClausesFromXml } from "./extractClauses";
+
+function p(text: string, pPr = "", rPr = ""): string {
+  return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ""}<w:r>${rPr}<w:t>${text}</w:t></w:r></w:p>`;
+}
+
+const style = (name: string) => `<w:pStyle w:val="${name}"/>`;
+const listItem = (level: number) =>
+  `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="3"/></w:numPr>`;
+
+function documentXml(...paragraphs: string[]): string {
+  return `<w:document><w:body>${paragraphs.join("")}</w:body></w:document>`;
+}
+
+const outline = (xml: string) =>
+  extractClausesFromXml(xml).map((c) => [c.numbering, c.heading, c.level, c.body]);
+
+describe("extractClausesFromXml", () => {
+  it("keeps text before the first heading as a preamble", () => {
+    const clauses = outline(
+      documentXml(
+        p("This Agreement is made between TD and Supplier."),
+        p("1. Term", style("Heading1"))
+      )
+    );
+    expect(clauses).toEqual([
+      [null, "Preamble", 1, "This Agreement is made between TD and Supplier."],
+      ["1", "Term", 1, ""],
+    ]);
+  });
+
+  it("starts clauses at heading styles, numbered headings and bold paragraphs", () => {
+    const clauses = outline(
+      documentXml(
+        p("Confidentiality", style("Heading2")),
+        p("Each party keeps the other's information secret."),
+        p("4.2 Return of Materials"),
+        p("Materials are returned on request."),
+        p("Security", "", "<w:rPr><w:b/></w:rPr>"),
+        p("Breaches are reported within 24 hours.")
+      )
+    );
+    expect(clauses).toEqual([
+      [null, "Confidentiality", 2, "Each party keeps the other's information secret."],
+      ["4.2", "Return of Materials", 2, "Materials are returned on request."],
+      [null, "Security", 2, "Breaches are reported within 24 hours."],
+    ]);
+  });
+
+  it("splits a numbered run-in heading from the body in the same paragraph", () => {
+    const clauses = outline(documentXml(p("7. Governing Law. The laws of Ontario apply.")));
+    expect(clauses).toEqual([["7", "Governing Law", 1, "The laws of Ontario apply."]]);
+  });
+
+  it("numbers Word list headings from their list position", () => {
+    const clauses = outline(
+      documentXml(
+        p("Definitions", listItem(0)),
+        p("Term", listItem(0)),
+        p("Renewal", listItem(1)),
+        p("Either party may renew by notice.")
+      )
+    );
+    expect(clauses.map(([numbering, heading]) => [numbering, heading])).toEqual([
+      ["1", "Definitions"],
+      ["2", "Term"],
+      ["2.1", "Renewal"],
+    ]);
+  });
+
+  it("anchors every paragraph, headings included, to its source paragraph", () => {
+    const [clause] = extractClausesFromXml(
+      documentXml(p("1. Term", style("Heading1")), p("Five years."), p("Renewable once."))
+    );
+    expect(clause.paragraphs.map((para) => [para.anchor, para.paragraphIndex])).toEqual([
+      ["p0", 0],
+      ["p1", 1],
+      ["p2", 2],
+    ]);
+    expect(clause.body).toBe("Five years.\n\nRenewable once.");
+  });
+});
+
+describe("extractClausesFromText", () => {
+  it("finds headings by numbering and boldness, keeping pages", () => {
+    const clauses = extractClausesFromText([
+      { text: "1. Term", page: 1 },
+      { text: "Five years from signature.", page: 1 },
+      { text: "Security", bold: true, page: 2 },
+      { text: "  ", page: 2 },
+      { text: "Breaches are reported within 24 hours.", page: 2 },
+    ]);
+    expect(clauses.map((c) => [c.numbering, c.heading, c.body])).toEqual([
+      ["1", "Term", "Five years from signature."],
+      [null, "Security", "Breaches are reported within 24 hours."],
+    ]);
+    expect(clauses[1].paragraphs.map((para) => [para.paragraphIndex, para.page])).toEqual([
+      [2, 2],
+      [4, 2],
+    ]);
+  });
+});
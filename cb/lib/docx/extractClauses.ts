@@ -0,0 +1,244 @@
+import type { Clause, ClauseParagraph } from "../types";
+import { openDocx } from "./openDocx";
+import { attrVal, PARAGRAPH_RE, paragraphText } from "./xml";
+
+/* -------------------------------------------------------------------------- */
+/*                       DOCX -> ORDERED CLAUSE EXTRACTION                    */
+/* -------------------------------------------------------------------------- */
+
+// A block is one piece of running text: a <w:p>, or a part of one when the
+// author separated "paragraphs" with blank line breaks instead.
+interface Block {
+  paragraphIndex: number;
+  text: string;
+  style: string | null;
+  numbering: { numId: string; level: number } | null;
+  allBold: boolean;
+  page?: number;
+}
+
+// A paragraph of text read from a PDF or legacy DOC, which have no Word
+// styles or list numbering to go on.
+export interface TextParagraph {
+  text: string;
+  bold?: boolean; // every character is set in a bold font
+  page?: number;
+}
+
+interface HeadingMatch {
+  numbering: string | null;
+  heading: string;
+  level: number;
+  rest: string; // body text that shares the heading's paragraph
+}
+
+const PREAMBLE_HEADING = "Preamble";
+
+// Longest text still treated as a heading when it has no heading style.
+const MAX_HEADING_LENGTH = 80;
+
+function isAllBold(xml: string): boolean {
+  const runs = xml.match(/<w:r\b[^>]*>[\s\S]*?<\/w:r>/g) ?? [];
+  const textRuns = runs.filter((r) => /<w:t\b/.test(r));
+  const bold = /<w:b\/>|<w:b w:val="(?:1|true|on)"\/>/;
+  return textRuns.length > 0 && textRuns.every((r) => bold.test(r));
+}
+
+function readBlocks(documentXml: string): Block[] {
+  const bodyStart = documentXml.indexOf("<w:body");
+  const body = bodyStart === -1 ? documentXml : documentXml.slice(bodyStart);
+  const paragraphs = body.match(PARAGRAPH_RE) ?? [];
+
+  const blocks: Block[] = [];
+  paragraphs.forEach((xml, paragraphIndex) => {
+    const pPr = /<w:pPr>[\s\S]*?<\/w:pPr>/.exec(xml)?.[0] ?? "";
+    const numPr = /<w:numPr>[\s\S]*?<\/w:numPr>/.exec(pPr)?.[0];
+    const numId = numPr ? attrVal(numPr, "w:numId") : null;
+    const style = attrVal(pPr, "w:pStyle");
+    const allBold = isAllBold(xml);
+
+    const parts = paragraphText(xml)
+      .split(/\n\s*\n/)
+      .map((t) => t.replace(/\s+/g, " ").trim())
+      .filter(Boolean);
+
+    parts.forEach((text, i) => {
+      blocks.push({
+        paragraphIndex,
+        text,
+        style,
+        // Only the first block carries the paragraph's own list numbering.
+        numbering:
+          i === 0 && numId && numId !== "0"
+            ? { numId, level: Number(attrVal(numPr!, "w:ilvl") ?? "0") }
+            : null,
+        allBold: allBold && parts.length === 1,
+      });
+    });
+  });
+  return blocks;
+}
+
+function stripMarkdownEmphasis(text: string): string {
+  return text.replace(/^\*\*(.+)\*\*$/, "$1").replace(/^\*(.+)\*$/, "$1").trim();
+}
+
+// Decides whether a block starts a new clause, and if so what its heading is.
+// `listNumber` is the computed number for Word auto-numbered paragraphs.
+function matchHeading(block: Block, listNumber: string | null): HeadingMatch | null {
+  const { text } = block;
+
+  const styleLevel = /^heading\s*(\d)$/i.exec(block.style ?? "")?.[1];
+  if (styleLevel || /^title$/i.test(block.style ?? "")) {
+    const manual = /^(\d{1,3}(?:\.\d{1,3})*)\.?\s+(.+)$/.exec(text);
+    return {
+      numbering: listNumber ?? manual?.[1] ?? null,
+      heading: stripMarkdownEmphasis(manual?.[2] ?? text),
+      level: styleLevel ? Number(styleLevel) : 1,
+      rest: "",
+    };
+  }
+
+  // Markdown-style headings ("## Term") in documents converted from text.
+  const markdown = /^(#{1,6})\s+(.+)$/.exec(text);
+  if (markdown) {
+    const inner = /^(\d{1,3}(?:\.\d{1,3})*)\.?\s+(.+)$/.exec(markdown[2]);
+    return {
+      numbering: inner?.[1] ?? null,
+      heading: stripMarkdownEmphasis(inner?.[2] ?? markdown[2]),
+      level: markdown[1].length,
+      rest: "",
+    };
+  }
+
+  // "4. Confidentiality. The Receiving Party shall ..." - a numbered run-in
+  // heading followed by the clause body in the same paragraph.
+  const runIn = /^(\d{1,3}(?:\.\d{1,3})*)\.?\s+([A-Z][^.:]{1,60})[.:]\s+(.+)$/.exec(text);
+  if (runIn && /^[A-Z][\w&,'’ -]*$/.test(runIn[2])) {
+    return {
+      numbering: runIn[1],
+      heading: runIn[2].trim(),
+      level: runIn[1].split(".").length,
+      rest: runIn[3],
+    };
+  }
+
+  const short = text.length <= MAX_HEADING_LENGTH && !/[.;,]$/.test(text);
+
+  // "4. Confidentiality" / "4.2 Return of Materials"
+  const numbered = /^(\d{1,3}(?:\.\d{1,3})*)\.?\s+(.+)$/.exec(text);
+  if (numbered && short) {
+    return {
+      numbering: numbered[1],
+      heading: stripMarkdownEmphasis(numbered[2]),
+      level: numbered[1].split(".").length,
+      rest: "",
+    };
+  }
+
+  // Auto-numbered list items only count as headings when they are short.
+  if (listNumber && short) {
+    return {
+      numbering: listNumber,
+      heading: stripMarkdownEmphasis(text),
+      level: listNumber.split(".").length,
+      rest: "",
+    };
+  }
+
+  // Whole-paragraph bold text, either real run formatting or "**...**".
+  if (short && (block.allBold || /^\*\*[^*]+\*\*$/.test(text))) {
+    return { numbering: null, heading: stripMarkdownEmphasis(text), level: 2, rest: "" };
+  }
+
+  return null;
+}
+
+// Groups blocks into ordered clauses. Text before the first heading is kept
+// as a "Preamble" clause so no content is dropped.
+function clausesFromBlocks(blocks: Block[]): Clause[] {
+  const clauses: Clause[] = [];
+  const listCounters = new Map<string, number[]>();
+  let current: Clause | null = null;
+  let anchorIndex = 0;
+
+  const startClause = (numbering: string | null, heading: string, level: number) => {
+    current = {
+      id: `c${clauses.length}`,
+      numbering,
+      heading,
+      level,
+      body: "",
+      paragraphs: [],
+    };
+    clauses.push(current);
+    return current;
+  };
+
+  // Heading blocks get an anchor too (so a clause can be scrolled to) but only
+  // contribute the text after a run-in heading to the body.
+  const addParagraph = (clause: Clause, block: Block, bodyText: string) => {
+    const paragraph: ClauseParagraph = {
+      anchor: `p${anchorIndex++}`,
+      paragraphIndex: block.paragraphIndex,
+      text: block.text,
+      ...(block.page !== undefined ? { page: block.page } : {}),
+    };
+    clause.paragraphs.push(paragraph);
+    if (bodyText) clause.body = clause.body ? `${clause.body}\n\n${bodyText}` : bodyText;
+  };
+
+  for (const block of blocks) {
+    let listNumber: string | null = null;
+    if (block.numbering) {
+      const counters = listCounters.get(block.numbering.numId) ?? [];
+      const level = block.numbering.level;
+      counters[level] = (counters[level] ?? 0) + 1;
+      counters.length = level + 1;
+      listCounters.set(block.numbering.numId, counters);
+      listNumber = Array.from(counters, (n) => n ?? 1).join(".");
+    }
+
+    const heading = matchHeading(block, listNumber);
+    if (heading) {
+      const clause = startClause(heading.numbering, heading.heading, heading.level);
+      addParagraph(clause, block, heading.rest);
+      continue;
+    }
+
+    const clause: Clause = current ?? startClause(null, PREAMBLE_HEADING, 1);
+    addParagraph(clause, block, block.text);
+  }
+
+  return clauses;
+}
+
+// Parses word/document.xml into ordered clauses.
+export function extractClausesFromXml(documentXml: string): Clause[] {
+  return clausesFromBlocks(readBlocks(documentXml));
+}
+
+// Clauses of a document read as plain paragraphs; headings are found by their
+// numbering, run-in form, length and boldness alone.
+export function extractClausesFromText(paragraphs: TextParagraph[]): Clause[] {
+  const blocks: Block[] = [];
+  paragraphs.forEach((p, paragraphIndex) => {
+    const text = p.text.replace(/\s+/g, " ").trim();
+    if (!text) return;
+    blocks.push({
+      paragraphIndex,
+      text,
+      style: null,
+      numbering: null,
+      allBold: p.bold ?? false,
+      ...(p.page !== undefined ? { page: p.page } : {}),
+    });
+  });
+  return clausesFromBlocks(blocks);
+}
+
+export async function extractClauses(bytes: Uint8Array): Promise<Clause[]> {
+  const zip = await openDocx(bytes);
+  const documentXml = await zip.file("word/document.xml")!.async("string");
+  return extractClausesFromXml(documentXml);
+}
@@ -0,0 +1,27 @@
+import JSZip from "jszip";
+import { ValidationError } from "../errors";
+
+// Parts every WordprocessingML package has; a ZIP without them is not a DOCX.
+const REQUIRED_PARTS = ["[Content_Types].xml", "word/document.xml"];
+
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04]; // "PK\x03\x04"
+
+// Opens a DOCX package, throwing a ValidationError when the bytes are not one.
+export async function openDocx(bytes: Uint8Array): Promise<JSZip> {
+  if (bytes.length < ZIP_MAGIC.length || ZIP_MAGIC.some((b, i) => bytes[i] !== b)) {
+    throw new ValidationError("File is not a valid DOCX (not a ZIP package)");
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch {
+    throw new ValidationError("File is not a valid DOCX (corrupt ZIP package)");
+  }
+
+  const missing = REQUIRED_PARTS.filter((part) => !zip.file(part));
+  if (missing.length > 0) {
+    throw new ValidationError(`File is not a valid DOCX (missing ${missing.join(", ")})`);
+  }
+  return zip;
+}
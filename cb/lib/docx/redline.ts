@@ -0,0 +1,290 @@
+import type JSZip from "jszip";
+import { diffWords } from "../wordDiff";
+import { escapeXml, PARAGRAPH_RE, paragraphText } from "./xml";
+
+/* -------------------------------------------------------------------------- */
+/*                  TRACKED CHANGES + COMMENTS ON A DOCX PACKAGE              */
+/* -------------------------------------------------------------------------- */
+
+// Edits address body paragraphs by their <w:p> index, the same index the
+// clause extractor records on each ClauseParagraph.
+export type RedlineEdit =
+  | { kind: "replace"; paragraphs: number[]; texts: string[]; comment: string }
+  | { kind: "insert"; after: number | null; texts: string[]; comment: string }
+  | { kind: "delete"; paragraphs: number[]; comment: string }
+  | { kind: "comment"; paragraphs: number[]; comment: string };
+
+export interface RedlineOptions {
+  author: string;
+  date: string; // ISO timestamp
+}
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const COMMENTS_PART = "word/comments.xml";
+const COMMENTS_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml";
+const COMMENTS_REL =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments";
+const DOCUMENT_RELS = "word/_rels/document.xml.rels";
+const RELS_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+interface ParagraphParts {
+  open: string; // "<w:p ...>"
+  pPr: string;
+  content: string;
+}
+
+function splitParagraph(xml: string): ParagraphParts {
+  if (xml.endsWith("/>")) return { open: xml.slice(0, -2) + ">", pPr: "", content: "" };
+  const open = /^<w:p\b[^>]*>/.exec(xml)![0];
+  const inner = xml.slice(open.length, -"</w:p>".length);
+  const pPr = /^\s*<w:pPr>[\s\S]*?<\/w:pPr>/.exec(inner)?.[0] ?? "";
+  return { open, pPr, content: inner.slice(pPr.length) };
+}
+
+// Formatting of the paragraph's first run, reused for rewritten text.
+function firstRunProps(content: string): string {
+  return /<w:r\b[^>]*>\s*(<w:rPr>[\s\S]*?<\/w:rPr>)/.exec(content)?.[1] ?? "";
+}
+
+class Revisions {
+  private nextId: number;
+  readonly comments: { id: number; text: string }[] = [];
+
+  constructor(
+    firstId: number,
+    private readonly options: RedlineOptions
+  ) {
+    this.nextId = firstId;
+  }
+
+  attrs(): string {
+    const date = this.options.date.replace(/\.\d+Z$/, "Z");
+    return `w:id="${this.nextId++}" w:author="${escapeXml(this.options.author)}" w:date="${date}"`;
+  }
+
+  comment(text: string): number {
+    const id = this.nextId++;
+    this.comments.push({ id, text });
+    return id;
+  }
+}
+
+function runs(text: string, rPr: string, tag: "w:t" | "w:delText"): string {
+  const pieces = text.split(/(\n|\t)/).map((piece) => {
+    if (piece === "\n") return "<w:br/>";
+    if (piece === "\t") return "<w:tab/>";
+    return piece ? `<${tag} xml:space="preserve">${escapeXml(piece)}</${tag}>` : "";
+  });
+  return `<w:r>${rPr}${pieces.join("")}</w:r>`;
+}
+
+// Marks the paragraph mark itself as inserted or deleted, so accepting the
+// change also adds or removes the paragraph break.
+function markParagraph(pPr: string, mark: string): string {
+  if (!pPr) return `<w:pPr><w:rPr>${mark}</w:rPr></w:pPr>`;
+  if (/<w:rPr>/.test(pPr)) return pPr.replace(/<w:rPr>/, `<w:rPr>${mark}`);
+  return pPr.replace(/<\/w:pPr>$/, `<w:rPr>${mark}</w:rPr></w:pPr>`);
+}
+
+function insertedParagraph(text: string, template: ParagraphParts, rev: Revisions): string {
+  const pPr = markParagraph(template.pPr.trim(), `<w:ins ${rev.attrs()}/>`);
+  const run = runs(text, firstRunProps(template.content), "w:t");
+  const body = `<w:ins ${rev.attrs()}>${run}</w:ins>`;
+  return `<w:p>${pPr}${body}</w:p>`;
+}
+
+function deletedParagraph(xml: string, rev: Revisions): string {
+  const parts = splitParagraph(xml);
+  const pPr = markParagraph(parts.pPr.trim(), `<w:del ${rev.attrs()}/>`);
+  const text = paragraphText(xml);
+  const body = text
+    ? `<w:del ${rev.attrs()}>${runs(text, firstRunProps(parts.content), "w:delText")}</w:del>`
+    : "";
+  return `${parts.open}${pPr}${body}</w:p>`;
+}
+
+// Rewrites a paragraph as a word-level redline towards `target`. Unchanged
+// paragraphs are returned as-is so their formatting survives.
+function revisedParagraph(xml: string, target: string, rev: Revisions): string {
+  const diff = diffWords(paragraphText(xml), target);
+  if (diff.every((part) => part.op === "equal")) return xml;
+
+  const parts = splitParagraph(xml);
+  const rPr = firstRunProps(parts.content);
+  const body = diff
+    .map((part) => {
+      if (part.op === "equal") return runs(part.text, rPr, "w:t");
+      const tag = part.op === "insert" ? "w:ins" : "w:del";
+      const text = runs(part.text, rPr, part.op === "insert" ? "w:t" : "w:delText");
+      return `<${tag} ${rev.attrs()}>${text}</${tag}>`;
+    })
+    .join("");
+  return `${parts.open}${parts.pPr}${body}</w:p>`;
+}
+
+function withCommentStart(xml: string, id: number): string {
+  const parts = splitParagraph(xml);
+  return `${parts.open}${parts.pPr}<w:commentRangeStart w:id="${id}"/>${parts.content}</w:p>`;
+}
+
+function withCommentEnd(xml: string, id: number): string {
+  const end =
+    `<w:commentRangeEnd w:id="${id}"/>` + `<w:r><w:commentReference w:id="${id}"/></w:r>`;
+  const parts = splitParagraph(xml);
+  return `${parts.open}${parts.pPr}${parts.content}${end}</w:p>`;
+}
+
+function maxId(xml: string): number {
+  let max = -1;
+  for (const match of xml.matchAll(/\bw:id="(\d+)"/g)) max = Math.max(max, Number(match[1]));
+  return max;
+}
+
+function commentXml({ id, text }: { id: number; text: string }, options: RedlineOptions): string {
+  const date = options.date.replace(/\.\d+Z$/, "Z");
+  const initials = options.author
+    .split(/\s+/)
+    .map((w) => w[0] ?? "")
+    .join("")
+    .slice(0, 3)
+    .toUpperCase();
+  const paragraphs = text
+    .split("\n")
+    .map((line) => `<w:p>${runs(line, "", "w:t")}</w:p>`)
+    .join("");
+  return (
+    `<w:comment w:id="${id}" w:author="${escapeXml(options.author)}" w:date="${date}" ` +
+    `w:initials="${escapeXml(initials)}">${paragraphs}</w:comment>`
+  );
+}
+
+// Adds the comment bodies, registering the comments part on first use.
+async function writeComments(
+  zip: JSZip,
+  comments: { id: number; text: string }[],
+  options: RedlineOptions
+): Promise<void> {
+  if (comments.length === 0) return;
+  const entries = comments.map((c) => commentXml(c, options)).join("");
+
+  const existing = await zip.file(COMMENTS_PART)?.async("string");
+  if (existing) {
+    zip.file(COMMENTS_PART, existing.replace(/<\/w:comments>\s*$/, `${entries}</w:comments>`));
+    return;
+  }
+  zip.file(
+    COMMENTS_PART,
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<w:comments xmlns:w="${W_NS}">${entries}</w:comments>`
+  );
+
+  const types = await zip.file("[Content_Types].xml")!.async("string");
+  zip.file(
+    "[Content_Types].xml",
+    types.replace(
+      /<\/Types>\s*$/,
+      `<Override PartName="/${COMMENTS_PART}" ContentType="${COMMENTS_TYPE}"/></Types>`
+    )
+  );
+
+  const rels =
+    (await zip.file(DOCUMENT_RELS)?.async("string")) ??
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<Relationships xmlns="${RELS_NS}"></Relationships>`;
+  let n = 1;
+  for (const match of rels.matchAll(/Id="rId(\d+)"/g)) n = Math.max(n, Number(match[1]) + 1);
+  zip.file(
+    DOCUMENT_RELS,
+    rels.replace(
+      /<\/Relationships>\s*$/,
+      `<Relationship Id="rId${n}" Type="${COMMENTS_REL}" Target="comments.xml"/></Relationships>`
+    )
+  );
+}
+
+// Applies the edits to word/document.xml as tracked changes, each with a
+// comment spanning the paragraphs it touched.
+export async function applyRedline(
+  zip: JSZip,
+  edits: RedlineEdit[],
+  options: RedlineOptions
+): Promise<void> {
+  const documentXml = await zip.file("word/document.xml")!.async("string");
+  const existingComments = (await zip.file(COMMENTS_PART)?.async("string")) ?? "";
+  const rev = new Revisions(Math.max(maxId(documentXml), maxId(existingComments)) + 1, options);
+
+  const bodyStart = Math.max(0, documentXml.indexOf("<w:body"));
+  const matches = Array.from(documentXml.slice(bodyStart).matchAll(PARAGRAPH_RE));
+  const original = matches.map((m) => m[0]);
+  const current = [...original];
+  const insertedAfter = new Map<number, string[]>(); // -1 = before the first paragraph
+
+  // Spans a comment from the first to the last paragraph an edit produced.
+  const addComment = (indexes: number[], inserted: string[], text: string) => {
+    if (indexes.length === 0 && inserted.length === 0) return;
+    const id = rev.comment(text);
+    if (indexes.length > 0) current[indexes[0]] = withCommentStart(current[indexes[0]], id);
+    else inserted[0] = withCommentStart(inserted[0], id);
+    if (inserted.length > 0) {
+      inserted[inserted.length - 1] = withCommentEnd(inserted[inserted.length - 1], id);
+    } else {
+      const last = indexes[indexes.length - 1];
+      current[last] = withCommentEnd(current[last], id);
+    }
+  };
+
+  const insertAt = (at: number, xml: string[]) => {
+    insertedAfter.set(at, [...(insertedAfter.get(at) ?? []), ...xml]);
+  };
+
+  // Comment-only edits go last so they wrap whatever the other edits wrote.
+  const ordered = [
+    ...edits.filter((e) => e.kind !== "comment"),
+    ...edits.filter((e) => e.kind === "comment"),
+  ];
+  for (const edit of ordered) {
+    const indexes = "paragraphs" in edit ? edit.paragraphs.filter((i) => i < original.length) : [];
+
+    if (edit.kind === "comment") {
+      addComment(indexes, [], edit.comment);
+    } else if (edit.kind === "delete") {
+      indexes.forEach((i) => (current[i] = deletedParagraph(original[i], rev)));
+      addComment(indexes, [], edit.comment);
+    } else if (edit.kind === "insert") {
+      const at = edit.after === null ? -1 : Math.min(edit.after, original.length - 1);
+      const template = splitParagraph(original[Math.max(at, 0)] ?? "<w:p/>");
+      const xml = edit.texts.map((text) => insertedParagraph(text, template, rev));
+      addComment([], xml, edit.comment);
+      insertAt(at, xml);
+    } else {
+      indexes.forEach((i, k) => {
+        current[i] =
+          k < edit.texts.length
+            ? revisedParagraph(original[i], edit.texts[k], rev)
+            : deletedParagraph(original[i], rev);
+      });
+      const last = indexes[indexes.length - 1] ?? -1;
+      const template = splitParagraph(original[Math.max(last, 0)] ?? "<w:p/>");
+      const xml = edit.texts
+        .slice(indexes.length)
+        .map((text) => insertedParagraph(text, template, rev));
+      addComment(indexes, xml, edit.comment);
+      if (xml.length > 0) insertAt(last, xml);
+    }
+  }
+
+  let out = documentXml.slice(0, bodyStart);
+  let cursor = bodyStart;
+  matches.forEach((match, i) => {
+    const start = bodyStart + match.index!;
+    out += documentXml.slice(cursor, start);
+    if (i === 0) out += (insertedAfter.get(-1) ?? []).join("");
+    out += current[i] + (insertedAfter.get(i) ?? []).join("");
+    cursor = start + match[0].length;
+  });
+  out += documentXml.slice(cursor);
+
+  zip.file("word/document.xml", out);
+  await writeComments(zip, rev.comments, options);
+}
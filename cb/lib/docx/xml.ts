@@ -0,0 +1,54 @@
+// Minimal helpers for the handful of OOXML constructs we read and write. The
+// documents are machine-generated, so a tokenising regex is sufficient and
+// avoids pulling in a full XML parser.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Matches each body paragraph, including self-closing empty ones.
+export const PARAGRAPH_RE = /<w:p\b[^>]*\/>|<w:p\b[^>]*>[\s\S]*?<\/w:p>/g;
+
+// Reads the w:val attribute of the first `<tag w:val="..."/>` in `xml`.
+export function attrVal(xml: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}\\b[^>]*\\bw:val="([^"]*)"`).exec(xml);
+  return match ? decodeXml(match[1]) : null;
+}
+
+// Visible text of a <w:p>: tabs and line breaks become "\t" and "\n".
+export function paragraphText(xml: string): string {
+  let text = "";
+  const tokens = /<w:t\b[^>]*>([\s\S]*?)<\/w:t>|<w:t\b[^>]*\/>|<w:tab\/>|<w:(?:br|cr)\b[^>]*\/>/g;
+  for (const match of xml.matchAll(tokens)) {
+    const token = match[0];
+    if (token.startsWith("<w:tab")) text += "\t";
+    else if (token.startsWith("<w:br") || token.startsWith("<w:cr")) text += "\n";
+    else if (match[1] !== undefined) text += decodeXml(match[1]);
+  }
+  return text;
+}
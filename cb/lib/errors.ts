@@ -0,0 +1,50 @@
+// Errors thrown by the storage and auth layers. Route handlers turn them into JSON
+// responses through `errorResponse` in ./http.
+
+export class NotFoundError extends Error {
+  readonly status = 404;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+// No valid session: the client should sign in.
+export class UnauthorizedError extends Error {
+  readonly status = 401;
+
+  constructor(message = "Sign in required") {
+    super(message);
+    this.name = "UnauthorizedError";
+  }
+}
+
+// Signed in, but the user's role does not allow the action.
+export class ForbiddenError extends Error {
+  readonly status = 403;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ForbiddenError";
+  }
+}
+
+// The request conflicts with the stored state, e.g. it would discard reviews.
+export class ConflictError extends Error {
+  readonly status = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+export class ValidationError extends Error {
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
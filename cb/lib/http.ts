@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from "./errors";
+
+// Maps known errors to a `{ error }` JSON body with a matching status code.
+export function errorResponse(err: unknown): NextResponse {
+  if (
+    err instanceof NotFoundError ||
+    err instanceof ValidationError ||
+    err instanceof UnauthorizedError ||
+    err instanceof ForbiddenError ||
+    err instanceof ConflictError
+  ) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+
+  console.error("Unhandled API error", err);
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+}
+
+// Reads a JSON request body, rejecting anything that is not a JSON object.
+export async function readJsonObject(req: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    throw new ValidationError("Request body must be valid JSON");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ValidationError("Request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+// RFC 6266 header with an ASCII fallback for clients that ignore filename*.
+export function contentDisposition(
+  fileName: string,
+  type: "inline" | "attachment" = "inline"
+): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
@@ -0,0 +1,72 @@
+import { normalizeText } from "./text";
+import type { DeviationRow, IterationRun, ProjectRow } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                      ITERATION HISTORY + RUN COMPARISON                    */
+/* -------------------------------------------------------------------------- */
+
+// Runs of a project, oldest first. Projects stored before iteration history
+// existed are presented as a single run built from their top-level fields.
+export function projectIterations(project: ProjectRow): IterationRun[] {
+  if (project.iterations && project.iterations.length > 0) return project.iterations;
+  return [
+    {
+      id: `${project.id}-1`,
+      number: 1,
+      createdAt: project.createdAt,
+      supplierDocTitle: project.supplierDocTitle,
+      baselineDocTitle: project.baselineDocTitle,
+      supplierDocUrl: project.supplierDocUrl,
+      baselineDocUrl: project.baselineDocUrl,
+      deviations: project.deviations,
+      riskLevel: project.riskLevel,
+      totalWeightedScore: project.totalWeightedScore,
+      rulesVersion: project.rulesVersion,
+      baseline: project.baseline,
+    },
+  ];
+}
+
+export interface DeviationChange {
+  clause: string;
+  from: DeviationRow;
+  to: DeviationRow;
+}
+
+export interface IterationComparison {
+  from: IterationRun;
+  to: IterationRun;
+  resolved: DeviationRow[]; // deviations in `from` that no longer appear in `to`
+  introduced: DeviationRow[]; // deviations that first appear in `to`
+  unchanged: DeviationChange[]; // clauses that deviate in both runs
+  scoreDelta: number; // to.totalWeightedScore - from.totalWeightedScore
+}
+
+// Deviations are matched across runs by clause name, which stays stable as
+// long as the baseline does.
+function deviationKey(dev: DeviationRow): string {
+  return normalizeText(dev.clause);
+}
+
+export function compareIterations(from: IterationRun, to: IterationRun): IterationComparison {
+  const toByKey = new Map(to.deviations.map((d) => [deviationKey(d), d]));
+  const fromKeys = new Set(from.deviations.map(deviationKey));
+
+  const resolved: DeviationRow[] = [];
+  const unchanged: DeviationChange[] = [];
+  for (const dev of from.deviations) {
+    const match = toByKey.get(deviationKey(dev));
+    if (match) unchanged.push({ clause: match.clause, from: dev, to: match });
+    else resolved.push(dev);
+  }
+  const introduced = to.deviations.filter((d) => !fromKeys.has(deviationKey(d)));
+
+  return {
+    from,
+    to,
+    resolved,
+    introduced,
+    unchanged,
+    scoreDelta: Math.round((to.totalWeightedScore - from.totalWeightedScore) * 100) / 100,
+  };
+}
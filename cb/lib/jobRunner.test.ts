@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from "vitest";
+import { startJobRunner } from "./jobRunner";
+import { claimNextJob, getJob, recordJobProject, submitJob } from "./jobStore";
+import { createProject, listProjects } from "./projectStore";
+import type { AnalysisJob, ProjectInput } from "./types";
+
+const input: ProjectInput = {
+  username: "admin",
+  projectName: "Saved before a restart",
+  supplierDocTitle: "Supplier NDA.docx",
+  baselineDocTitle: "TD Baseline NDA.docx",
+  supplierDocUrl: "/api/documents/supplier-nda",
+  baselineDocUrl: "/api/documents/td-baseline-nda",
+  deviations: [],
+};
+
+async function finished(id: string): Promise<AnalysisJob> {
+  for (let i = 0; i < 200; i++) {
+    const job = await getJob(id);
+    if (job.finishedAt) return job;
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+  throw new Error(`Job ${id} did not finish`);
+}
+
+describe("job runner", () => {
+  it("finishes an interrupted project job that already saved its project", async () => {
+    const request = { kind: "project", project: input } as const;
+    const submitted = await submitJob(request, input.projectName, "admin");
+    // The server stopped after saving the project but before finishing the job.
+    await claimNextJob();
+    const saved = await createProject(input);
+    await recordJobProject(submitted.id, saved.id);
+
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    startJobRunner();
+    const job = await finished(submitted.id);
+    expect(warn).toHaveBeenCalledWith("Requeued 1 interrupted analysis job(s)");
+    warn.mockRestore();
+    expect(job).toMatchObject({
+      status: "succeeded",
+      projectId: saved.id,
+    });
+    const named = (await listProjects()).filter((p) => p.projectName === input.projectName);
+    expect(named.map((p) => p.id)).toEqual([saved.id]);
+  });
+});
@@ -0,0 +1,231 @@
+import { requireDocument, requireDocumentUrls, requireProject } from "./access";
+import {
+  analyzeNewProject,
+  analyzeProject,
+  parseIterationDocuments,
+  requireDocumentId,
+  runIteration,
+  type AnalysisProgress,
+} from "./analysis";
+import { deviationChanges, projectRiskChanges, recordAudit } from "./auditStore";
+import { parseBaselineSelection, pinnedBaseline } from "./baselineStore";
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from "./errors";
+import { projectIterations } from "./iterations";
+import {
+  claimNextJob,
+  finishJob,
+  recordJobProject,
+  reportJobProgress,
+  requeueInterruptedJobs,
+  submitJob,
+} from "./jobStore";
+import { getProject, parseProjectInput } from "./projectStore";
+import { canReview, REVIEWER_ROLES, roleLabels } from "./roles";
+import { parseSupplierRef, resolveSupplier } from "./supplierStore";
+import type { AnalysisJob, AnalysisJobRequest, ProjectRow, UserAccount } from "./types";
+import { findUser } from "./userStore";
+
+/* -------------------------------------------------------------------------- */
+/*                       ANALYSIS JOB SUBMISSION + RUNNER                     */
+/* -------------------------------------------------------------------------- */
+
+const JOB_KINDS: readonly AnalysisJobRequest["kind"][] = ["project", "analyze", "iteration"];
+
+// Checks a submission as the matching synchronous route would, so a queued
+// job can only fail on something found while analysing.
+async function jobRequest(
+  user: UserAccount,
+  body: Record<string, unknown>
+): Promise<{ request: AnalysisJobRequest; projectName: string }> {
+  switch (body.kind) {
+    case "project": {
+      // The signed-in user owns the new project, as with POST /api/projects.
+      const fields = { ...body, username: user.username };
+      const selection = parseBaselineSelection(fields);
+      const library = selection
+        ? await pinnedBaseline(selection.templateId, selection.versionId)
+        : null;
+      const input = parseProjectInput(library ? { ...fields, ...library } : fields);
+      await requireDocumentUrls(user, [input.supplierDocUrl, input.baselineDocUrl]);
+      // Only stored documents can be read for analysis.
+      requireDocumentId(input.supplierDocUrl, "Supplier");
+      requireDocumentId(input.baselineDocUrl, "Baseline");
+      const ref = parseSupplierRef(fields);
+      const supplier = ref ? await resolveSupplier(ref, user.username) : null;
+      const project = {
+        ...input,
+        ...(library ? { baseline: library.baseline } : {}),
+        ...(supplier ? { supplierId: supplier.id } : {}),
+      };
+      return { request: { kind: "project", project }, projectName: input.projectName };
+    }
+    case "analyze":
+    case "iteration": {
+      if (typeof body.projectId !== "string") {
+        throw new ValidationError(`"projectId" is required`);
+      }
+      const project = await requireProject(user, body.projectId);
+      if (body.kind === "analyze") {
+        requireReviewer(user);
+        return {
+          request: { kind: "analyze", projectId: project.id },
+          projectName: project.projectName,
+        };
+      }
+      const documents = parseIterationDocuments(body);
+      await requireDocument(user, documents.supplierDocumentId);
+      if (documents.baselineDocumentId !== undefined) {
+        await requireDocument(user, documents.baselineDocumentId);
+      }
+      return {
+        request: { kind: "iteration", projectId: project.id, documents },
+        projectName: project.projectName,
+      };
+    }
+    default:
+      throw new ValidationError(`"kind" must be one of ${JOB_KINDS.join(", ")}`);
+  }
+}
+
+// Queues an analysis and wakes the runner. The body is { kind: "project", ...
+// the fields of POST /api/projects }, { kind: "analyze", projectId } or
+// { kind: "iteration", projectId, ...the fields of POST .../iterations }.
+export async function enqueueAnalysis(
+  user: UserAccount,
+  body: Record<string, unknown>
+): Promise<AnalysisJob> {
+  const { request, projectName } = await jobRequest(user, body);
+  const job = await submitJob(request, projectName, user.username);
+  startJobRunner();
+  return job;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   RUNNER                                   */
+/* -------------------------------------------------------------------------- */
+
+// Jobs run one at a time inside the server process. Next.js may load this
+// module once per route bundle, so the runner's state is kept on globalThis
+// to make sure a process only ever has one.
+type RunnerState = { running: boolean; wake: boolean; recovered: boolean };
+
+const shared = globalThis as { contractBuddyJobRunner?: RunnerState };
+const runner = (shared.contractBuddyJobRunner ??= {
+  running: false,
+  wake: false,
+  recovered: false,
+});
+
+class JobCancelled extends Error {}
+
+// Starts the runner unless it is already working through the queue. Safe to
+// call from any request; routes call it so that jobs interrupted by a restart
+// resume once the app is used again.
+export function startJobRunner(): void {
+  runner.wake = true;
+  if (runner.running) return;
+  runner.running = true;
+  drainQueue()
+    .catch((err) => console.error("Analysis job runner stopped", err))
+    .finally(() => {
+      runner.running = false;
+      // A job submitted while the last claim came back empty.
+      if (runner.wake) startJobRunner();
+    });
+}
+
+async function drainQueue(): Promise<void> {
+  if (!runner.recovered) {
+    runner.recovered = true;
+    const requeued = await requeueInterruptedJobs();
+    if (requeued > 0) console.warn(`Requeued ${requeued} interrupted analysis job(s)`);
+  }
+  runner.wake = false;
+  for (let job = await claimNextJob(); job; job = await claimNextJob()) {
+    await runJob(job);
+  }
+}
+
+// Known errors explain themselves; anything else stays in the server log, as
+// errorResponse does for requests.
+function failureMessage(err: unknown): string {
+  if (
+    err instanceof NotFoundError ||
+    err instanceof ValidationError ||
+    err instanceof ForbiddenError ||
+    err instanceof ConflictError
+  ) {
+    return err.message;
+  }
+  return "The analysis failed unexpectedly";
+}
+
+async function runJob(job: AnalysisJob): Promise<void> {
+  const progress: AnalysisProgress = async (stage, done, total) => {
+    const current = await reportJobProgress(job.id, stage, done, total);
+    if (current.cancelRequested) throw new JobCancelled();
+  };
+  try {
+    const project = await runRequest(job, progress);
+    await finishJob(job.id, { status: "succeeded", projectId: project.id });
+  } catch (err) {
+    if (err instanceof JobCancelled) {
+      await finishJob(job.id, { status: "cancelled" });
+      return;
+    }
+    console.warn(`Analysis job ${job.id} failed`, err);
+    await finishJob(job.id, { status: "failed", error: failureMessage(err) });
+  }
+}
+
+// Re-analysis replaces a project's deviations, which only reviewers may do
+// (see POST /api/projects/[id]/analyze).
+function requireReviewer(user: UserAccount): void {
+  if (!canReview(user)) {
+    const allowed = REVIEWER_ROLES.map((r) => roleLabels[r]).join(" or ");
+    throw new ForbiddenError(`This action requires the ${allowed} role`);
+  }
+}
+
+// Jobs are checked against, and audited as, the submitter, like the
+// synchronous routes.
+async function runRequest(job: AnalysisJob, progress: AnalysisProgress): Promise<ProjectRow> {
+  const { request } = job;
+  const user = await findUser(job.submittedBy);
+  if (!user) throw new NotFoundError(`User ${job.submittedBy} not found`);
+
+  if (request.kind === "project") {
+    // Saved by an earlier attempt that stopped before the job finished.
+    if (job.projectId) return getProject(job.projectId);
+    const project = await analyzeNewProject(request.project, progress);
+    await recordJobProject(job.id, project.id);
+    await recordAudit(user, "project.create", {
+      projectId: project.id,
+      detail: project.projectName,
+    });
+    return project;
+  }
+
+  const before = await requireProject(user, request.projectId);
+
+  if (request.kind === "analyze") {
+    requireReviewer(user);
+    const project = await analyzeProject(request.projectId, progress);
+    await recordAudit(user, "project.analyze", {
+      projectId: project.id,
+      changes: projectRiskChanges(before, project),
+    });
+    for (const change of deviationChanges(before, project)) {
+      await recordAudit(user, "deviation.update", change);
+    }
+    return project;
+  }
+
+  const project = await runIteration(request.projectId, request.documents, progress);
+  await recordAudit(user, "iteration.create", {
+    projectId: project.id,
+    detail: `Iteration ${projectIterations(project).length}`,
+    changes: projectRiskChanges(before, project),
+  });
+  return project;
+}
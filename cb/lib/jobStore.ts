@@ -0,0 +1,209 @@
+import { randomUUID } from "node:crypto";
+import { NotFoundError, ValidationError } from "./errors";
+import { canRetryJob, JOB_STAGES, JOB_STATUSES, newJobStages } from "./jobs";
+import { jsonFile } from "./jsonStore";
+import type { AnalysisJob, AnalysisJobRequest, JobStageName, JobStatus } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                            ANALYSIS JOB STORAGE                            */
+/* -------------------------------------------------------------------------- */
+
+// Job state lives in data/jobs.json so progress survives page reloads and a
+// job interrupted by a restart can be picked up again (see lib/jobRunner).
+
+const jobsFile = jsonFile<AnalysisJob[]>("jobs.json", () => []);
+
+// Finished jobs beyond this many are dropped, oldest first.
+const MAX_FINISHED_JOBS = 200;
+
+export async function listJobs(): Promise<AnalysisJob[]> {
+  const jobs = await jobsFile.read();
+  return jobs.sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+}
+
+export async function getJob(id: string): Promise<AnalysisJob> {
+  const job = (await jobsFile.read()).find((j) => j.id === id);
+  if (!job) throw new NotFoundError(`Job ${id} not found`);
+  return job;
+}
+
+// Filters for GET /api/jobs: repeat `status` or `id` to allow several.
+export interface JobQuery {
+  statuses: JobStatus[]; // empty = any
+  ids: string[]; // empty = any
+}
+
+export function parseJobQuery(params: URLSearchParams): JobQuery {
+  const statuses = params.getAll("status");
+  for (const status of statuses) {
+    if (!JOB_STATUSES.includes(status as JobStatus)) {
+      throw new ValidationError(`"status" must be one of ${JOB_STATUSES.join(", ")}`);
+    }
+  }
+  return { statuses: statuses as JobStatus[], ids: params.getAll("id") };
+}
+
+export function matchesJobQuery(job: AnalysisJob, q: JobQuery): boolean {
+  if (q.statuses.length > 0 && !q.statuses.includes(job.status)) return false;
+  return q.ids.length === 0 || q.ids.includes(job.id);
+}
+
+function updateJob(id: string, fn: (job: AnalysisJob) => AnalysisJob): Promise<AnalysisJob> {
+  return jobsFile.update((jobs) => {
+    const idx = jobs.findIndex((j) => j.id === id);
+    if (idx === -1) throw new NotFoundError(`Job ${id} not found`);
+    const updated = { ...fn(jobs[idx]), updatedAt: new Date().toISOString() };
+    const next = [...jobs];
+    next[idx] = updated;
+    return { next, result: updated };
+  });
+}
+
+function pruneFinished(jobs: AnalysisJob[]): AnalysisJob[] {
+  const finished = jobs
+    .filter((j) => j.finishedAt)
+    .sort((a, b) => Date.parse(b.finishedAt!) - Date.parse(a.finishedAt!));
+  const dropped = new Set(finished.slice(MAX_FINISHED_JOBS).map((j) => j.id));
+  return dropped.size > 0 ? jobs.filter((j) => !dropped.has(j.id)) : jobs;
+}
+
+export async function submitJob(
+  request: AnalysisJobRequest,
+  projectName: string,
+  submittedBy: string
+): Promise<AnalysisJob> {
+  const now = new Date().toISOString();
+  const job: AnalysisJob = {
+    id: randomUUID(),
+    request,
+    projectName,
+    ...(request.kind === "project" ? {} : { projectId: request.projectId }),
+    submittedBy,
+    status: "queued",
+    stages: newJobStages(),
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  return jobsFile.update((jobs) => ({ next: [...pruneFinished(jobs), job], result: job }));
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              RUNNER TRANSITIONS                            */
+/* -------------------------------------------------------------------------- */
+
+// Marks the oldest queued job as running and returns it, or null when the
+// queue is empty.
+export async function claimNextJob(): Promise<AnalysisJob | null> {
+  return jobsFile.update((jobs) => {
+    const queued = jobs
+      .filter((j) => j.status === "queued")
+      .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt))[0];
+    if (!queued) return { next: jobs, result: null };
+    const now = new Date().toISOString();
+    const claimed: AnalysisJob = {
+      ...queued,
+      status: "running",
+      stages: newJobStages(),
+      attempts: queued.attempts + 1,
+      startedAt: now,
+      updatedAt: now,
+    };
+    return { next: jobs.map((j) => (j.id === queued.id ? claimed : j)), result: claimed };
+  });
+}
+
+// Stages before `stage` are done and `stage` is running with the given
+// counts. Returns the job so the runner can see a cancel request.
+export async function reportJobProgress(
+  id: string,
+  stage: JobStageName,
+  done: number,
+  total: number
+): Promise<AnalysisJob> {
+  const position = JOB_STAGES.indexOf(stage);
+  return updateJob(id, (job) => ({
+    ...job,
+    stages: job.stages.map((s) => {
+      const at = JOB_STAGES.indexOf(s.name);
+      if (at < position) return { ...s, status: "done", done: Math.max(s.done, s.total) };
+      if (at === position) return { ...s, status: "running", done, total };
+      return s;
+    }),
+  }));
+}
+
+// A "project" job notes its project as soon as it is saved, so running the
+// job again after a restart or a retry does not create a second one.
+export async function recordJobProject(id: string, projectId: string): Promise<AnalysisJob> {
+  return updateJob(id, (job) => ({ ...job, projectId }));
+}
+
+export type JobOutcome =
+  | { status: "succeeded"; projectId: string }
+  | { status: "failed"; error: string }
+  | { status: "cancelled" };
+
+export async function finishJob(id: string, outcome: JobOutcome): Promise<AnalysisJob> {
+  return updateJob(id, (job) => ({
+    ...job,
+    status: outcome.status,
+    stages: job.stages.map((s) => {
+      if (outcome.status === "succeeded") return { ...s, status: "done", done: s.total };
+      if (s.status !== "running") return s;
+      return { ...s, status: outcome.status === "failed" ? "failed" : "pending" };
+    }),
+    ...(outcome.status === "succeeded" ? { projectId: outcome.projectId } : {}),
+    error: outcome.status === "failed" ? outcome.error : undefined,
+    cancelRequested: undefined,
+    finishedAt: new Date().toISOString(),
+  }));
+}
+
+// Jobs left running by a server that stopped go back to the queue.
+export async function requeueInterruptedJobs(): Promise<number> {
+  return jobsFile.update((jobs) => {
+    const interrupted = jobs.filter((j) => j.status === "running");
+    if (interrupted.length === 0) return { next: jobs, result: 0 };
+    const now = new Date().toISOString();
+    return {
+      next: jobs.map((j) =>
+        j.status === "running" ? { ...j, status: "queued" as JobStatus, updatedAt: now } : j
+      ),
+      result: interrupted.length,
+    };
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               CANCEL + RETRY                               */
+/* -------------------------------------------------------------------------- */
+
+// A queued job is cancelled straight away; a running one stops at its next
+// step, unless it is already saving its results.
+export async function cancelJob(id: string): Promise<AnalysisJob> {
+  return updateJob(id, (job) => {
+    if (job.status === "queued") {
+      return { ...job, status: "cancelled", finishedAt: new Date().toISOString() };
+    }
+    if (job.status === "running") return { ...job, cancelRequested: true };
+    throw new ValidationError(`Job ${id} has already finished`);
+  });
+}
+
+export async function retryJob(id: string): Promise<AnalysisJob> {
+  return updateJob(id, (job) => {
+    if (!canRetryJob(job)) {
+      throw new ValidationError("Only failed or cancelled jobs can be retried");
+    }
+    return {
+      ...job,
+      status: "queued",
+      stages: newJobStages(),
+      error: undefined,
+      cancelRequested: undefined,
+      startedAt: undefined,
+      finishedAt: undefined,
+    };
+  });
+}
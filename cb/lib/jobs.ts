@@ -0,0 +1,84 @@
+import { sameUsername } from "./roles";
+import type {
+  AnalysisJob,
+  AnalysisJobRequest,
+  JobStage,
+  JobStageName,
+  JobStatus,
+  UserAccount,
+} from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                      ANALYSIS JOB STATES (SHARED, NO I/O)                  */
+/* -------------------------------------------------------------------------- */
+
+export const JOB_STATUSES: readonly JobStatus[] = [
+  "queued",
+  "running",
+  "succeeded",
+  "failed",
+  "cancelled",
+];
+
+export const JOB_STAGES: readonly JobStageName[] = ["extract", "align", "analyze", "save"];
+
+export const jobStageLabels: Record<JobStageName, string> = {
+  extract: "Reading documents",
+  align: "Aligning clauses",
+  analyze: "Analysing deviations",
+  save: "Saving results",
+};
+
+export const jobStatusLabels: Record<JobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  succeeded: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+export const jobKindLabels: Record<AnalysisJobRequest["kind"], string> = {
+  project: "New project",
+  analyze: "Re-analysis",
+  iteration: "New iteration",
+};
+
+export function newJobStages(): JobStage[] {
+  return JOB_STAGES.map((name) => ({ name, status: "pending", done: 0, total: 0 }));
+}
+
+export function isJobActive(job: Pick<AnalysisJob, "status">): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+// Failed and cancelled jobs can be run again from the start.
+export function canRetryJob(job: Pick<AnalysisJob, "status">): boolean {
+  return job.status === "failed" || job.status === "cancelled";
+}
+
+// Like projects, submitters only see the jobs they submitted.
+export function canViewJob(
+  user: Pick<UserAccount, "username" | "role">,
+  job: Pick<AnalysisJob, "submittedBy">
+): boolean {
+  return user.role !== "submitter" || sameUsername(job.submittedBy, user.username);
+}
+
+// Share of the whole job that is finished, 0 to 1. Each stage counts equally.
+export function jobProgress(job: Pick<AnalysisJob, "status" | "stages">): number {
+  if (job.status === "succeeded") return 1;
+  const parts = job.stages.map((s) => {
+    if (s.status === "done") return 1;
+    return s.total > 0 ? Math.min(1, s.done / s.total) : 0;
+  });
+  return parts.length > 0 ? parts.reduce((sum, p) => sum + p, 0) / parts.length : 0;
+}
+
+// The stage that is running, else the one that failed.
+export function currentJobStage(job: Pick<AnalysisJob, "stages">): JobStage | null {
+  return (
+    job.stages.find((s) => s.status === "running") ??
+    job.stages.find((s) => s.status === "failed") ??
+    null
+  );
+}
@@ -0,0 +1,98 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/* -------------------------------------------------------------------------- */
+/*                          LOCAL JSON FILE PERSISTENCE                       */
+/* -------------------------------------------------------------------------- */
+
+// Everything the app persists lives under one data directory so a deployment
+// only has to mount (or back up) a single folder.
+export const DATA_DIR = process.env.CONTRACTBUDDY_DATA_DIR ?? path.join(process.cwd(), "data");
+
+export function dataPath(...segments: string[]): string {
+  return path.join(DATA_DIR, ...segments);
+}
+
+// Writes are serialised per file so concurrent requests cannot interleave a
+// read-modify-write cycle and lose an update. Next.js may load this module
+// once per route bundle, so the locks are shared through globalThis.
+const shared = globalThis as { contractBuddyFileLocks?: Map<string, Promise<unknown>> };
+const locks = (shared.contractBuddyFileLocks ??= new Map<string, Promise<unknown>>());
+
+function withLock<T>(file: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(file) ?? Promise.resolve();
+  const next = previous.then(fn, fn);
+  locks.set(file, next.catch(() => undefined));
+  return next;
+}
+
+async function readJson<T>(file: string, seed: () => T): Promise<T> {
+  try {
+    const raw = await fs.readFile(file, "utf8");
+    return JSON.parse(raw) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    return seed();
+  }
+}
+
+async function writeJson(file: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2), "utf8");
+  await fs.rename(tmp, file);
+}
+
+export interface JsonFile<T> {
+  read(): Promise<T>;
+  update<R>(fn: (current: T) => { next: T; result: R }): Promise<R>;
+}
+
+// A single JSON document on disk. `seed` provides the initial value when the
+// file does not exist yet.
+export function jsonFile<T>(name: string, seed: () => T): JsonFile<T> {
+  const file = dataPath(name);
+
+  return {
+    read: () => readJson(file, seed),
+    update: (fn) =>
+      withLock(file, async () => {
+        const current = await readJson(file, seed);
+        const { next, result } = fn(current);
+        await writeJson(file, next);
+        return result;
+      }),
+  };
+}
+
+export interface JsonLinesFile<T> {
+  read(): Promise<T[]>;
+  append(entry: T): Promise<void>;
+}
+
+// An append-only log with one JSON value per line. Existing lines are never
+// rewritten, so past entries cannot be edited through the app.
+export function jsonLinesFile<T>(name: string): JsonLinesFile<T> {
+  const file = dataPath(name);
+
+  return {
+    read: async () => {
+      let raw: string;
+      try {
+        raw = await fs.readFile(file, "utf8");
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+        return [];
+      }
+      return raw
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line) as T);
+    },
+    append: (entry) =>
+      withLock(file, async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.appendFile(file, `${JSON.stringify(entry)}\n`, "utf8");
+      }),
+  };
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import { extractClausesFromText } from "./docx/extractClauses";
+import { compareKeyTerms, extractKeyTerms, type KeyTermField } from "./keyTerms";
+
+// The key terms of a one-clause contract made of the given paragraphs.
+const termsOf = (...paragraphs: string[]) =>
+  extractKeyTerms(
+    extractClausesFromText([{ text: "1. Terms" }, ...paragraphs.map((text) => ({ text }))])
+  );
+
+const GOVERNING_LAW =
+  "This Agreement is governed by the laws of the Province of Ontario and the federal laws " +
+  "of Canada applicable therein.";
+const TERM = "This Agreement remains in force for five (5) years from the Effective Date.";
+const BREACH =
+  "The Receiving Party will notify the Disclosing Party of any unauthorized access to " +
+  "Confidential Information within twenty-four (24) hours and will remediate the breach.";
+
+describe("extractKeyTerms", () => {
+  it("reads the governing law's jurisdiction", () => {
+    const { governingLaw } = termsOf("Notices are given in writing.", GOVERNING_LAW);
+    expect(governingLaw?.value).toBe("Ontario");
+    expect(governingLaw?.sources.map((s) => [s.clause, s.excerpt])).toEqual([
+      ["Terms", GOVERNING_LAW],
+    ]);
+  });
+
+  it("reads the term, leaving survival sentences to the survival term", () => {
+    const terms = termsOf(
+      "Obligations of confidentiality remain in force and survive for three (3) years after " +
+        "termination.",
+      TERM
+    );
+    expect(terms.term?.value).toEqual({ amount: 5, unit: "year" });
+    expect(terms.survival?.value).toEqual({ amount: 3, unit: "year" });
+    expect(termsOf("These obligations survive indefinitely.").survival?.value).toBe("indefinite");
+  });
+
+  it("reads who may terminate, on what basis and with what notice", () => {
+    const { termination } = termsOf(
+      "Either party may terminate this Agreement for convenience on thirty (30) days' notice.",
+      "Supplier may terminate this Agreement for material breach.",
+      "Supplier may terminate the arrangement."
+    );
+    expect(termination?.value).toEqual([
+      { party: "Either party", basis: "convenience", notice: { amount: 30, unit: "day" } },
+      { party: "Supplier", basis: "cause", notice: null },
+    ]);
+  });
+
+  it("collects every notice period with the clause that sets it", () => {
+    const { noticePeriods } = termsOf(
+      "Either party may end the project on 60 days' written notice.",
+      "Payment is due within 30 days of invoice.",
+      "Supplier will notify TD of any change in control within 10 business days."
+    );
+    expect(noticePeriods?.value).toEqual([
+      { period: { amount: 60, unit: "day" }, clause: "Terms" },
+      { period: { amount: 10, unit: "business day" }, clause: "Terms" },
+    ]);
+  });
+
+  it("reads liability caps by amount or by fees, and uncapped liability", () => {
+    const capOf = (sentence: string) => termsOf(sentence).liabilityCap?.value;
+    expect(capOf("Supplier's total liability will not exceed $1,000,000.")).toEqual({
+      capped: true,
+      limit: "$1,000,000",
+    });
+    expect(capOf("Supplier's liability is limited to the fees paid in the preceding 12 months."))
+      .toEqual({ capped: true, limit: "fees paid in the preceding 12 months" });
+    expect(capOf("Liability for a breach of confidentiality is not limited.")).toEqual({
+      capped: false,
+      limit: null,
+    });
+  });
+
+  it("lists data handling duties in a fixed order with the breach deadline", () => {
+    const { dataHandling } = termsOf(
+      "On request the Receiving Party will return or destroy all Confidential Information.",
+      BREACH
+    );
+    expect(dataHandling?.value).toEqual({
+      duties: ["breach-notification", "remediation", "return-or-destroy"],
+      breachNotice: { amount: 24, unit: "hour" },
+    });
+    expect(dataHandling?.sources).toHaveLength(2);
+  });
+
+  it("finds nothing in a contract without the terms", () => {
+    const terms = termsOf("The parties wish to explore a business relationship.");
+    expect(Object.values(terms).every((found) => found === null)).toBe(true);
+  });
+});
+
+describe("compareKeyTerms", () => {
+  const rowsOf = (supplier: string[], baseline: string[]) => {
+    const rows = compareKeyTerms(termsOf(...supplier), termsOf(...baseline));
+    return (field: KeyTermField) => rows.find((r) => r.field === field)!;
+  };
+
+  it("has one row per term, each showing both values", () => {
+    const row = rowsOf([TERM, BREACH], [TERM]);
+    expect(row("term")).toMatchObject({
+      supplier: "5 years",
+      baseline: "5 years",
+      differs: false,
+    });
+    expect(row("dataHandling")).toMatchObject({
+      supplier: "Breach notification within 24 hours; Remediation",
+      baseline: null,
+    });
+    expect(compareKeyTerms(termsOf(TERM), termsOf(TERM)).map((r) => r.field)).toEqual([
+      "governingLaw",
+      "term",
+      "survival",
+      "termination",
+      "noticePeriods",
+      "liabilityCap",
+      "dataHandling",
+    ]);
+  });
+
+  it("flags terms that differ or are found on one side only", () => {
+    const row = rowsOf(
+      [GOVERNING_LAW.replace("Province of Ontario", "State of Delaware"), TERM],
+      [GOVERNING_LAW, BREACH]
+    );
+    expect(row("governingLaw")).toMatchObject({
+      supplier: "Delaware",
+      baseline: "Ontario",
+      differs: true,
+    });
+    expect(row("term")).toMatchObject({ baseline: null, differs: true });
+    expect(row("dataHandling")).toMatchObject({ supplier: null, differs: true });
+    expect(row("liabilityCap")).toMatchObject({ supplier: null, baseline: null, differs: false });
+  });
+
+  it("treats the same value written differently as no difference", () => {
+    const row = rowsOf(
+      [
+        "This Agreement remains in force for sixty (60) months.",
+        "Supplier may terminate for material breach.",
+        "Either party may terminate for convenience.",
+      ],
+      [
+        TERM,
+        "Either party may terminate for convenience.",
+        "Supplier may terminate for material breach.",
+      ]
+    );
+    expect(row("term")).toMatchObject({ supplier: "60 months", baseline: "5 years" });
+    expect(row("term").differs).toBe(false);
+    expect(row("termination").differs).toBe(false);
+  });
+});
@@ -0,0 +1,456 @@
+import { normalizeText, truncate } from "./text";
+import type { Clause } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                    KEY-TERM EXTRACTION (SHARED, NO I/O)                    */
+/* -------------------------------------------------------------------------- */
+
+// Reads the terms reviewers look for first out of a contract's clauses, as
+// typed values, so a supplier contract can be set against its baseline term
+// by term. Pattern based, like the clause alignment: the same clauses always
+// give the same terms.
+
+export type DurationUnit = "hour" | "business day" | "day" | "week" | "month" | "year";
+
+export interface Duration {
+  amount: number;
+  unit: DurationUnit;
+}
+
+export interface TerminationRight {
+  party: string; // "Either party", "Supplier", ...
+  basis: "convenience" | "cause";
+  notice: Duration | null;
+}
+
+export interface NoticePeriod {
+  period: Duration;
+  clause: string; // heading of the clause that sets it
+}
+
+export interface LiabilityCap {
+  capped: boolean;
+  limit: string | null; // e.g. "$1,000,000" or "fees paid in the preceding 12 months"
+}
+
+export type DataDuty =
+  | "breach-notification"
+  | "remediation"
+  | "cooperation"
+  | "safeguards"
+  | "return-or-destroy"
+  | "privacy-law";
+
+export interface DataHandling {
+  duties: DataDuty[];
+  breachNotice: Duration | null; // deadline for reporting a breach
+}
+
+// Where a term was read from.
+export interface TermSource {
+  clauseId: string;
+  clause: string; // heading
+  anchor: string;
+  paragraphIndex: number;
+  excerpt: string;
+}
+
+export interface Found<T> {
+  value: T;
+  sources: TermSource[];
+}
+
+export interface KeyTerms {
+  governingLaw: Found<string> | null; // jurisdiction, e.g. "Ontario"
+  term: Found<Duration> | null;
+  survival: Found<Duration | "indefinite"> | null;
+  termination: Found<TerminationRight[]> | null;
+  noticePeriods: Found<NoticePeriod[]> | null;
+  liabilityCap: Found<LiabilityCap> | null;
+  dataHandling: Found<DataHandling> | null;
+}
+
+export type KeyTermField = keyof KeyTerms;
+
+export const KEY_TERM_FIELDS: readonly KeyTermField[] = [
+  "governingLaw",
+  "term",
+  "survival",
+  "termination",
+  "noticePeriods",
+  "liabilityCap",
+  "dataHandling",
+];
+
+export const keyTermLabels: Record<KeyTermField, string> = {
+  governingLaw: "Governing Law",
+  term: "Term",
+  survival: "Survival",
+  termination: "Termination Rights",
+  noticePeriods: "Notice Periods",
+  liabilityCap: "Liability Cap",
+  dataHandling: "Data Handling",
+};
+
+export const dataDutyLabels: Record<DataDuty, string> = {
+  "breach-notification": "Breach notification",
+  remediation: "Remediation",
+  cooperation: "Investigation cooperation",
+  safeguards: "Security safeguards",
+  "return-or-destroy": "Return or destroy on request",
+  "privacy-law": "Privacy law compliance",
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  SENTENCES                                 */
+/* -------------------------------------------------------------------------- */
+
+interface Sentence {
+  text: string;
+  lower: string;
+  source: TermSource;
+}
+
+const EXCERPT_LENGTH = 240;
+
+function sentencesOf(clauses: Clause[]): Sentence[] {
+  const sentences: Sentence[] = [];
+  for (const clause of clauses) {
+    for (const paragraph of clause.paragraphs) {
+      for (const raw of paragraph.text.split(/(?<=[.;])\s+(?=[A-Z("“])/)) {
+        const text = raw.trim();
+        if (!text) continue;
+        sentences.push({
+          text,
+          lower: normalizeText(text),
+          source: {
+            clauseId: clause.id,
+            clause: clause.heading,
+            anchor: paragraph.anchor,
+            paragraphIndex: paragraph.paragraphIndex,
+            excerpt: truncate(text, EXCERPT_LENGTH),
+          },
+        });
+      }
+    }
+  }
+  return sentences;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  DURATIONS                                 */
+/* -------------------------------------------------------------------------- */
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  fifteen: 15,
+  eighteen: 18,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  "forty-five": 45,
+  sixty: 60,
+  ninety: 90,
+};
+
+// "30 days", "five (5) years", "twenty-four (24) hours", "12-month".
+const DURATION_PATTERN =
+  /\b(?:(\d+)|([a-z-]+))(?: ?\((\d+)\))?[ -](business day|hour|day|week|month|year)s?\b/g;
+
+function durationsIn(lower: string): Duration[] {
+  const found: Duration[] = [];
+  for (const m of Array.from(lower.matchAll(DURATION_PATTERN))) {
+    const amount = m[3] ? Number(m[3]) : m[1] ? Number(m[1]) : NUMBER_WORDS[m[2]];
+    if (amount === undefined || !Number.isFinite(amount)) continue;
+    found.push({ amount, unit: m[4] as DurationUnit });
+  }
+  return found;
+}
+
+const HOURS_PER_UNIT: Record<DurationUnit, number> = {
+  hour: 1,
+  "business day": 24 * (7 / 5),
+  day: 24,
+  week: 24 * 7,
+  month: 24 * 365 / 12,
+  year: 24 * 365,
+};
+
+export function durationHours(d: Duration): number {
+  return d.amount * HOURS_PER_UNIT[d.unit];
+}
+
+export function formatDuration(d: Duration): string {
+  return `${d.amount} ${d.unit}${d.amount === 1 ? "" : "s"}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 EXTRACTORS                                 */
+/* -------------------------------------------------------------------------- */
+
+const GOVERNING_LAW =
+  /\bgoverned by(?: and construed in accordance with)?,? the laws? of (?:the )?([^,;.()]+)/i;
+
+// "Province of Ontario and the federal laws of Canada" -> "Ontario".
+function jurisdictionOf(raw: string): string {
+  return raw
+    .split(/\s+and\s+/)[0]
+    .replace(/^(?:province|state|commonwealth|republic|kingdom) of\s+/i, "")
+    .trim();
+}
+
+function governingLaw(sentences: Sentence[]): Found<string> | null {
+  for (const s of sentences) {
+    const m = GOVERNING_LAW.exec(s.text);
+    if (m) return { value: jurisdictionOf(m[1]), sources: [s.source] };
+  }
+  return null;
+}
+
+function survival(sentences: Sentence[]): Found<Duration | "indefinite"> | null {
+  for (const s of sentences) {
+    if (!/\bsurviv/.test(s.lower)) continue;
+    if (/\b(indefinitely|perpetual|in perpetuity|without limit)/.test(s.lower)) {
+      return { value: "indefinite", sources: [s.source] };
+    }
+    const [first] = durationsIn(s.lower);
+    if (first) return { value: first, sources: [s.source] };
+  }
+  return null;
+}
+
+const TERM_CUES = [
+  /\binitial term\b/,
+  /\bterm of (?:this|the) agreement\b/,
+  /\b(?:remains?|continues?) in (?:full )?(?:force|effect)\b/,
+];
+
+function term(sentences: Sentence[]): Found<Duration> | null {
+  for (const s of sentences) {
+    if (!TERM_CUES.some((cue) => cue.test(s.lower)) || /\bsurviv/.test(s.lower)) continue;
+    const [first] = durationsIn(s.lower);
+    if (first) return { value: first, sources: [s.source] };
+  }
+  return null;
+}
+
+// "Either party" or a capitalised name of up to four words.
+const TERMINATING_PARTY =
+  /\b((?:[Ee]ither|[Ee]ach) party|[A-Z][\w.&'-]*(?: [A-Z][\w.&'-]*){0,3}) (?:may|can) terminate\b/;
+
+function partyLabel(raw: string): string {
+  return /^(?:either|each) party$/i.test(raw) ? "Either party" : raw;
+}
+
+function termination(sentences: Sentence[]): Found<TerminationRight[]> | null {
+  const rights: TerminationRight[] = [];
+  const sources: TermSource[] = [];
+  for (const s of sentences) {
+    const party = TERMINATING_PARTY.exec(s.text);
+    if (!party) continue;
+    const convenience = /\b(for convenience|without cause|for any reason|at any time)\b/.test(
+      s.lower
+    );
+    const cause = /\b(for cause|material breach|breach)\b/.test(s.lower);
+    if (!convenience && !cause) continue;
+    const notice = /\bnotice\b/.test(s.lower) ? durationsIn(s.lower)[0] ?? null : null;
+    rights.push({
+      party: partyLabel(party[1]),
+      basis: convenience ? "convenience" : "cause",
+      notice,
+    });
+    sources.push(s.source);
+  }
+  return rights.length > 0 ? { value: rights, sources } : null;
+}
+
+function noticePeriods(sentences: Sentence[]): Found<NoticePeriod[]> | null {
+  const periods: NoticePeriod[] = [];
+  const sources: TermSource[] = [];
+  for (const s of sentences) {
+    if (!/\b(notice|notify|notification)\b/.test(s.lower)) continue;
+    const found = durationsIn(s.lower);
+    if (found.length === 0) continue;
+    periods.push(...found.map((period) => ({ period, clause: s.source.clause })));
+    sources.push(s.source);
+  }
+  return periods.length > 0 ? { value: periods, sources } : null;
+}
+
+const AMOUNT = /(?:(?:US|CA|C)?\$|USD|CAD|EUR|€|£)\s?[\d,.]*\d(?:\s?(?:million|thousand))?/i;
+const FEES_LIMIT = /\b(?:fees|amounts|charges) (?:paid|payable)[^.;]*/i;
+
+function liabilityCap(sentences: Sentence[]): Found<LiabilityCap> | null {
+  for (const s of sentences) {
+    if (!/\bliabilit/.test(s.lower)) continue;
+    if (/\b(shall not be limited|is not limited|unlimited|uncapped|no limit)\b/.test(s.lower)) {
+      return { value: { capped: false, limit: null }, sources: [s.source] };
+    }
+    if (/\b(limited to|(?:shall|will) not exceed|capped at|maximum aggregate)\b/.test(s.lower)) {
+      const limit = AMOUNT.exec(s.text)?.[0] ?? FEES_LIMIT.exec(s.text)?.[0] ?? null;
+      return { value: { capped: true, limit: limit?.trim() ?? null }, sources: [s.source] };
+    }
+  }
+  return null;
+}
+
+const DATA_CONTEXT =
+  /\b(confidential information|personal (?:information|data)|data|security|privacy)\b/;
+
+const INCIDENT = /\b(unauthori[sz]ed|loss|breach|incident)\b/;
+
+// In listing order; breach notification also needs INCIDENT in the sentence.
+const DUTY_PATTERNS: [DataDuty, RegExp][] = [
+  ["breach-notification", /\b(notify|notification|report)\b/],
+  ["remediation", /\bremedia/],
+  ["cooperation", /\bcooperat[^.;]*\binvestigat/],
+  ["safeguards", /\b(safeguards?|security measures|reasonable measures|protect and maintain)\b/],
+  ["return-or-destroy", /\b(return|destroy|destruction|delete)\b/],
+  ["privacy-law", /\b(privacy|data protection) (?:law|legislation|act|requirements)/],
+];
+
+function dataHandling(sentences: Sentence[]): Found<DataHandling> | null {
+  const duties = new Set<DataDuty>();
+  const sources: TermSource[] = [];
+  let breachNotice: Duration | null = null;
+  for (const s of sentences) {
+    if (!DATA_CONTEXT.test(s.lower)) continue;
+    const matched = DUTY_PATTERNS.filter(
+      ([duty, pattern]) =>
+        pattern.test(s.lower) && (duty !== "breach-notification" || INCIDENT.test(s.lower))
+    );
+    if (matched.length === 0) continue;
+    for (const [duty] of matched) {
+      duties.add(duty);
+      if (duty === "breach-notification") breachNotice ??= durationsIn(s.lower)[0] ?? null;
+    }
+    sources.push(s.source);
+  }
+  if (duties.size === 0) return null;
+  const ordered = DUTY_PATTERNS.map(([duty]) => duty).filter((d) => duties.has(d));
+  return { value: { duties: ordered, breachNotice }, sources };
+}
+
+export function extractKeyTerms(clauses: Clause[]): KeyTerms {
+  const sentences = sentencesOf(clauses);
+  return {
+    governingLaw: governingLaw(sentences),
+    term: term(sentences),
+    survival: survival(sentences),
+    termination: termination(sentences),
+    noticePeriods: noticePeriods(sentences),
+    liabilityCap: liabilityCap(sentences),
+    dataHandling: dataHandling(sentences),
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                          SUPPLIER VS BASELINE TERMS                        */
+/* -------------------------------------------------------------------------- */
+
+export interface KeyTermRow {
+  field: KeyTermField;
+  supplier: string | null; // display text; null when the term was not found
+  baseline: string | null;
+  differs: boolean;
+  supplierSources: TermSource[];
+  baselineSources: TermSource[];
+}
+
+type TermValue<F extends KeyTermField> = NonNullable<KeyTerms[F]>["value"];
+
+// How a term is shown, and what has to match for the supplier and baseline
+// values to count as the same: jurisdictions by name, durations by length,
+// lists regardless of order.
+type TermFormat<F extends KeyTermField> = {
+  describe: (value: TermValue<F>) => string;
+  same: (value: TermValue<F>) => string;
+};
+
+const hoursOf = (d: Duration | null) => (d ? String(durationHours(d)) : "");
+
+function describeRight(r: TerminationRight): string {
+  const basis = r.basis === "convenience" ? "for convenience" : "for cause";
+  return `${r.party} ${basis}${r.notice ? ` on ${formatDuration(r.notice)}' notice` : ""}`;
+}
+
+const TERM_FORMATS: { [F in KeyTermField]: TermFormat<F> } = {
+  governingLaw: {
+    describe: (place) => place,
+    same: (place) => normalizeText(place),
+  },
+  term: { describe: formatDuration, same: hoursOf },
+  survival: {
+    describe: (v) => (v === "indefinite" ? "Indefinite" : formatDuration(v)),
+    same: (v) => (v === "indefinite" ? v : hoursOf(v)),
+  },
+  termination: {
+    describe: (rights) => rights.map(describeRight).join("; "),
+    same: (rights) =>
+      rights
+        .map((r) => `${r.party.toLowerCase()}|${r.basis}|${hoursOf(r.notice)}`)
+        .sort()
+        .join(","),
+  },
+  noticePeriods: {
+    describe: (periods) =>
+      periods.map((n) => `${formatDuration(n.period)} (${n.clause})`).join("; "),
+    same: (periods) =>
+      periods
+        .map((n) => durationHours(n.period))
+        .sort((a, b) => a - b)
+        .join(","),
+  },
+  liabilityCap: {
+    describe: (cap) => {
+      if (!cap.capped) return "Not limited";
+      return cap.limit ? `Capped at ${cap.limit}` : "Capped";
+    },
+    same: (cap) => `${cap.capped}|${normalizeText(cap.limit ?? "")}`,
+  },
+  dataHandling: {
+    describe: (data) =>
+      data.duties
+        .map((d) =>
+          d === "breach-notification" && data.breachNotice
+            ? `${dataDutyLabels[d]} within ${formatDuration(data.breachNotice)}`
+            : dataDutyLabels[d]
+        )
+        .join("; "),
+    same: (data) => `${[...data.duties].sort().join(",")}|${hoursOf(data.breachNotice)}`,
+  },
+};
+
+function termRow<F extends KeyTermField>(
+  field: F,
+  supplier: KeyTerms[F],
+  baseline: KeyTerms[F]
+): KeyTermRow {
+  const format: TermFormat<F> = TERM_FORMATS[field];
+  const s = supplier as Found<TermValue<F>> | null;
+  const b = baseline as Found<TermValue<F>> | null;
+  return {
+    field,
+    supplier: s ? format.describe(s.value) : null,
+    baseline: b ? format.describe(b.value) : null,
+    differs: s && b ? format.same(s.value) !== format.same(b.value) : Boolean(s) !== Boolean(b),
+    supplierSources: s?.sources ?? [],
+    baselineSources: b?.sources ?? [],
+  };
+}
+
+// One row per term. A term found on only one side counts as a difference.
+export function compareKeyTerms(supplier: KeyTerms, baseline: KeyTerms): KeyTermRow[] {
+  return KEY_TERM_FIELDS.map((field) => termRow(field, supplier[field], baseline[field]));
+}
@@ -0,0 +1,119 @@
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { extractClausesFromText } from "../docx/extractClauses";
+import { ValidationError } from "../errors";
+import { PdfDocument } from "../report/pdfWriter";
+import { extractPdfParagraphs } from "./extractPdfText";
+
+type Line = { text: string; y: number; bold?: boolean; size?: number };
+
+// Letter-sized pages of left-aligned lines at the given distance from the top.
+function pdfOf(...pages: Line[][]): Uint8Array {
+  const pdf = new PdfDocument(612, 792);
+  for (const lines of pages) {
+    const page = pdf.addPage();
+    for (const { text, y, bold, size } of lines) pdf.text(page, 72, y, text, size ?? 11, { bold });
+  }
+  return new Uint8Array(pdf.toArrayBuffer());
+}
+
+// One page whose content stream is Flate-compressed.
+function flatePdf(content: Buffer): Uint8Array {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] " +
+      "/Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+  ];
+  const stream = deflateSync(content);
+  const src =
+    "%PDF-1.4\n" +
+    objects.map((o, i) => `${i + 1} 0 obj\n${o}\nendobj\n`).join("") +
+    `5 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n` +
+    stream.toString("latin1") +
+    "\nendstream\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n";
+  return Buffer.from(src, "latin1");
+}
+
+const LONG_LINE =
+  "This Agreement is governed by the laws of the Province of Ontario and the federal laws";
+const TERM_LINE = "This Agreement remains in force for five years from the date it is signed by";
+
+describe("extractPdfParagraphs", () => {
+  it("ends a paragraph after a heading set on its own line", () => {
+    const paragraphs = extractPdfParagraphs(
+      pdfOf([
+        { text: "1. Governing Law", y: 72 },
+        { text: LONG_LINE, y: 86 },
+        { text: "of Canada that apply in it.", y: 100 },
+        { text: "2. Term", y: 128 },
+        { text: TERM_LINE, y: 142 },
+        { text: "both parties.", y: 156 },
+      ])
+    );
+    expect(paragraphs.map((p) => p.text)).toEqual([
+      "1. Governing Law",
+      `${LONG_LINE} of Canada that apply in it.`,
+      "2. Term",
+      `${TERM_LINE} both parties.`,
+    ]);
+    const clauses = extractClausesFromText(paragraphs);
+    expect(clauses.map((c) => [c.numbering, c.heading])).toEqual([
+      ["1", "Governing Law"],
+      ["2", "Term"],
+    ]);
+  });
+
+  it("joins wrapped lines and starts a new paragraph after a wider gap", () => {
+    const paragraphs = extractPdfParagraphs(
+      pdfOf([
+        { text: LONG_LINE, y: 72 },
+        { text: LONG_LINE, y: 86 },
+        { text: LONG_LINE, y: 100 },
+        { text: "Notices must be given in writing.", y: 130 },
+      ])
+    );
+    expect(paragraphs.map((p) => p.text)).toEqual([
+      [LONG_LINE, LONG_LINE, LONG_LINE].join(" "),
+      "Notices must be given in writing.",
+    ]);
+  });
+
+  it("records the page and boldness of each paragraph and drops page numbers", () => {
+    const paragraphs = extractPdfParagraphs(
+      pdfOf(
+        [
+          { text: "Confidentiality", y: 72, bold: true },
+          { text: "Each party keeps the other's information secret.", y: 90 },
+          { text: "Page 1 of 2", y: 740 },
+        ],
+        [{ text: "Security breaches are reported within 24 hours.", y: 72 }]
+      )
+    );
+    expect(paragraphs).toEqual([
+      { text: "Confidentiality", bold: true, page: 1 },
+      { text: "Each party keeps the other's information secret.", bold: false, page: 1 },
+      { text: "Security breaches are reported within 24 hours.", bold: false, page: 2 },
+    ]);
+  });
+
+  it("reads Flate-compressed content streams", () => {
+    const content = Buffer.from("BT /F1 11 Tf 72 700 Td (Confidentiality survives.) Tj ET");
+    expect(extractPdfParagraphs(flatePdf(content)).map((p) => p.text)).toEqual([
+      "Confidentiality survives.",
+    ]);
+  });
+
+  it("rejects a stream that inflates past the size limit", () => {
+    const bomb = flatePdf(Buffer.alloc(65 * 1024 * 1024, 0x20));
+    expect(bomb.length).toBeLessThan(1024 * 1024);
+    expect(() => extractPdfParagraphs(bomb)).toThrow(ValidationError);
+    expect(() => extractPdfParagraphs(bomb)).toThrow(/expands to more than/);
+  });
+
+  it("rejects files that are not PDFs or have no text", () => {
+    expect(() => extractPdfParagraphs(Buffer.from("not a pdf"))).toThrow(/missing %PDF header/);
+    expect(() => extractPdfParagraphs(pdfOf([]))).toThrow(/no text to read/);
+  });
+});
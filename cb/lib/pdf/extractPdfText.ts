@@ -0,0 +1,590 @@
+import type { TextParagraph } from "../docx/extractClauses";
+import { ValidationError } from "../errors";
+import { WIN_ANSI } from "../report/pdfWriter";
+import {
+  dictOf,
+  dictValue,
+  isDict,
+  isName,
+  isOperator,
+  isString,
+  parsePdf,
+  readToken,
+  resolve,
+  streamData,
+  type PdfDict,
+  type PdfFile,
+  type PdfValue,
+} from "./pdfObjects";
+
+/* -------------------------------------------------------------------------- */
+/*                         PDF -> PARAGRAPHS OF TEXT                          */
+/* -------------------------------------------------------------------------- */
+
+// Reads the text that a PDF draws, page by page, and rebuilds lines and
+// paragraphs from where it is drawn. Only text-based PDFs have anything to
+// read; scanned pages are images and would need OCR.
+
+/* -------------------------------------------------------------------------- */
+/*                                    FONTS                                   */
+/* -------------------------------------------------------------------------- */
+
+interface PdfFont {
+  twoByte: boolean; // composite (Type0) fonts address glyphs with 2-byte codes
+  toUnicode: Map<number, string> | null;
+  differences: Map<number, string>; // code -> text, from /Encoding /Differences
+  width: (code: number) => number; // advance in 1/1000 em
+  bold: boolean;
+}
+
+const WIN_ANSI_CODES = new Map(Object.entries(WIN_ANSI).map(([ch, code]) => [code, ch]));
+
+function winAnsiChar(code: number): string {
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+    return String.fromCharCode(code);
+  }
+  return WIN_ANSI_CODES.get(code) ?? "";
+}
+
+// Glyph names seen in /Differences arrays of common fonts.
+const GLYPH_NAMES: Record<string, string> = {
+  space: " ",
+  quoteright: "’",
+  quoteleft: "‘",
+  quotedblleft: "“",
+  quotedblright: "”",
+  quotesingle: "'",
+  endash: "–",
+  emdash: "—",
+  hyphen: "-",
+  bullet: "•",
+  ellipsis: "…",
+  section: "§",
+  fi: "fi",
+  fl: "fl",
+  period: ".",
+  comma: ",",
+  colon: ":",
+  semicolon: ";",
+  parenleft: "(",
+  parenright: ")",
+  ampersand: "&",
+  slash: "/",
+  percent: "%",
+  dollar: "$",
+  zero: "0",
+  one: "1",
+  two: "2",
+  three: "3",
+  four: "4",
+  five: "5",
+  six: "6",
+  seven: "7",
+  eight: "8",
+  nine: "9",
+};
+
+function glyphText(name: string): string {
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+  const uni = /^uni([0-9A-Fa-f]{4})/.exec(name);
+  return uni ? String.fromCharCode(parseInt(uni[1], 16)) : "";
+}
+
+function utf16(hex: string): string {
+  let out = "";
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    out += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  }
+  return out;
+}
+
+// The bfchar and bfrange mappings of a ToUnicode CMap.
+function parseToUnicode(cmap: string): Map<number, string> {
+  const map = new Map<number, string>();
+  for (const block of Array.from(cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g))) {
+    for (const m of Array.from(block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g))) {
+      map.set(parseInt(m[1], 16), utf16(m[2]));
+    }
+  }
+  const range = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g;
+  for (const block of Array.from(cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g))) {
+    for (const m of Array.from(block[1].matchAll(range))) {
+      const lo = parseInt(m[1], 16);
+      const hi = Math.min(parseInt(m[2], 16), lo + 0xffff);
+      if (m[3].startsWith("[")) {
+        const targets = Array.from(m[3].matchAll(/<([0-9a-fA-F]*)>/g), (t) => utf16(t[1]));
+        targets.forEach((text, i) => lo + i <= hi && map.set(lo + i, text));
+        continue;
+      }
+      // The last UTF-16 unit of the target counts up through the range.
+      const base = m[3].slice(1, -1);
+      const prefix = utf16(base.slice(0, -4));
+      const last = parseInt(base.slice(-4), 16);
+      for (let code = lo; code <= hi; code++) {
+        map.set(code, prefix + String.fromCharCode(last + code - lo));
+      }
+    }
+  }
+  return map;
+}
+
+function numbersIn(doc: PdfFile, value: PdfValue): number[] {
+  const list = resolve(doc, value);
+  if (!Array.isArray(list)) return [];
+  return list.map((v) => resolve(doc, v)).map((v) => (typeof v === "number" ? v : 0));
+}
+
+// Widths of a composite font: /W lists "first [w1 w2 ...]" and "first last w".
+function cidWidths(doc: PdfFile, descendant: PdfDict): (code: number) => number {
+  const fallback = dictValue(doc, descendant, "DW");
+  const defaultWidth = typeof fallback === "number" ? fallback : 1000;
+  const widths = new Map<number, number>();
+  const w = dictValue(doc, descendant, "W");
+  if (Array.isArray(w)) {
+    for (let i = 0; i < w.length; ) {
+      const first = resolve(doc, w[i]);
+      const next = resolve(doc, w[i + 1]);
+      if (typeof first !== "number") break;
+      if (Array.isArray(next)) {
+        numbersIn(doc, next).forEach((width, j) => widths.set(first + j, width));
+        i += 2;
+      } else {
+        const width = resolve(doc, w[i + 2]);
+        if (typeof next !== "number" || typeof width !== "number") break;
+        const last = Math.min(next, first + 0xffff);
+        for (let code = first; code <= last; code++) widths.set(code, width);
+        i += 3;
+      }
+    }
+  }
+  return (code) => widths.get(code) ?? defaultWidth;
+}
+
+function readFont(doc: PdfFile, font: PdfDict): PdfFont {
+  const subtype = dictValue(doc, font, "Subtype");
+  const twoByte = isName(subtype, "Type0");
+  const descendants = dictValue(doc, font, "DescendantFonts");
+  const descendant = Array.isArray(descendants) ? resolve(doc, descendants[0]) : null;
+  const descriptor =
+    dictOf(doc, font, "FontDescriptor") ??
+    (isDict(descendant) ? dictOf(doc, descendant, "FontDescriptor") : null);
+
+  const toUnicodeStream = dictValue(doc, font, "ToUnicode");
+  const cmap = isDict(toUnicodeStream) ? streamData(doc, toUnicodeStream) : null;
+
+  const differences = new Map<number, string>();
+  const encoding = dictValue(doc, font, "Encoding");
+  const diffs = isDict(encoding) ? dictValue(doc, encoding, "Differences") : null;
+  if (Array.isArray(diffs)) {
+    let code = 0;
+    for (const entry of diffs.map((d) => resolve(doc, d))) {
+      if (typeof entry === "number") code = entry;
+      else if (isName(entry)) differences.set(code++, glyphText(entry.value));
+    }
+  }
+
+  let width: (code: number) => number;
+  if (twoByte && isDict(descendant)) {
+    width = cidWidths(doc, descendant);
+  } else {
+    const first = dictValue(doc, font, "FirstChar");
+    const widths = numbersIn(doc, dictValue(doc, font, "Widths"));
+    const missing = descriptor ? dictValue(doc, descriptor, "MissingWidth") : null;
+    const start = typeof first === "number" ? first : 0;
+    const fallback = typeof missing === "number" && missing > 0 ? missing : 500;
+    width = (code) => widths[code - start] || fallback;
+  }
+
+  const baseFont = dictValue(doc, font, "BaseFont");
+  const weight = descriptor ? dictValue(doc, descriptor, "FontWeight") : null;
+  const bold =
+    (isName(baseFont) && /bold|black|heavy|semibold|demi/i.test(baseFont.value)) ||
+    (typeof weight === "number" && weight >= 600);
+
+  return { twoByte, toUnicode: cmap ? parseToUnicode(cmap) : null, differences, width, bold };
+}
+
+function decodeText(font: PdfFont, bytes: string): { code: number; text: string }[] {
+  const glyphs: { code: number; text: string }[] = [];
+  const step = font.twoByte ? 2 : 1;
+  for (let i = 0; i + step <= bytes.length; i += step) {
+    const code = step === 2
+      ? (bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1)
+      : bytes.charCodeAt(i);
+    const text =
+      font.toUnicode?.get(code) ??
+      font.differences.get(code) ??
+      (font.twoByte ? "" : winAnsiChar(code));
+    glyphs.push({ code, text });
+  }
+  return glyphs;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               CONTENT STREAMS                              */
+/* -------------------------------------------------------------------------- */
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+const translate = (tx: number, ty: number): Matrix => [1, 0, 0, 1, tx, ty];
+
+// A run of text drawn by one show operator, in page coordinates.
+interface Piece {
+  x: number;
+  y: number;
+  end: number; // x where the run stops
+  size: number; // rendered font size
+  text: string;
+  bold: boolean;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  font: PdfFont | null;
+  size: number;
+  charSpacing: number;
+  wordSpacing: number;
+  scale: number;
+  leading: number;
+  rise: number;
+}
+
+// Nested form XObjects deeper than this are ignored.
+const MAX_FORM_DEPTH = 4;
+
+function interpret(
+  doc: PdfFile,
+  content: string,
+  resources: PdfDict | null,
+  initial: Matrix,
+  pieces: Piece[],
+  fonts: Map<PdfDict, PdfFont>,
+  depth = 0
+): void {
+  const fontNamed = (name: string): PdfFont | null => {
+    const dict = resources ? dictOf(doc, resources, "Font") : null;
+    const font = dict ? dictValue(doc, dict, name) : null;
+    if (!isDict(font)) return null;
+    if (!fonts.has(font)) fonts.set(font, readFont(doc, font));
+    return fonts.get(font)!;
+  };
+
+  let gs: GraphicsState = {
+    ctm: initial,
+    font: null,
+    size: 0,
+    charSpacing: 0,
+    wordSpacing: 0,
+    scale: 1,
+    leading: 0,
+    rise: 0,
+  };
+  const stack: GraphicsState[] = [];
+  let tm: Matrix = IDENTITY;
+  let tlm: Matrix = IDENTITY;
+
+  const show = (bytes: string) => {
+    const font = gs.font;
+    if (!font) return;
+    const start = multiply(multiply(translate(0, gs.rise), tm), gs.ctm);
+    let text = "";
+    for (const glyph of decodeText(font, bytes)) {
+      text += glyph.text;
+      const spacing = gs.charSpacing + (!font.twoByte && glyph.code === 32 ? gs.wordSpacing : 0);
+      const advance = ((font.width(glyph.code) / 1000) * gs.size + spacing) * gs.scale;
+      tm = multiply(translate(advance, 0), tm);
+    }
+    const end = multiply(tm, gs.ctm);
+    const size = Math.abs(gs.size * Math.hypot(start[2], start[3])) || gs.size;
+    pieces.push({ x: start[4], y: start[5], end: end[4], size, text, bold: font.bold });
+  };
+
+  const nextLine = (tx: number, ty: number) => {
+    tlm = multiply(translate(tx, ty), tlm);
+    tm = tlm;
+  };
+
+  const c = { src: content, pos: 0 };
+  let operands: PdfValue[] = [];
+  for (let token = readToken(c); token !== undefined; token = readToken(c)) {
+    if (!isOperator(token)) {
+      operands.push(token);
+      continue;
+    }
+    const num = (i: number) => {
+      const v = operands[i];
+      return typeof v === "number" ? v : 0;
+    };
+    switch (token.value) {
+      case "q":
+        stack.push({ ...gs });
+        break;
+      case "Q":
+        gs = stack.pop() ?? gs;
+        break;
+      case "cm":
+        gs.ctm = multiply([num(0), num(1), num(2), num(3), num(4), num(5)], gs.ctm);
+        break;
+      case "BT":
+        tm = tlm = IDENTITY;
+        break;
+      case "Tf": {
+        const name = operands[0];
+        gs.font = isName(name) ? fontNamed(name.value) : null;
+        gs.size = num(1);
+        break;
+      }
+      case "Tc":
+        gs.charSpacing = num(0);
+        break;
+      case "Tw":
+        gs.wordSpacing = num(0);
+        break;
+      case "Tz":
+        gs.scale = num(0) / 100;
+        break;
+      case "TL":
+        gs.leading = num(0);
+        break;
+      case "Ts":
+        gs.rise = num(0);
+        break;
+      case "Td":
+        nextLine(num(0), num(1));
+        break;
+      case "TD":
+        gs.leading = -num(1);
+        nextLine(num(0), num(1));
+        break;
+      case "Tm":
+        tm = tlm = [num(0), num(1), num(2), num(3), num(4), num(5)];
+        break;
+      case "T*":
+        nextLine(0, -gs.leading);
+        break;
+      case "Tj":
+      case "'":
+      case '"': {
+        if (token.value === '"') {
+          gs.wordSpacing = num(0);
+          gs.charSpacing = num(1);
+        }
+        if (token.value !== "Tj") nextLine(0, -gs.leading);
+        const s = operands[operands.length - 1];
+        if (isString(s)) show(s.bytes);
+        break;
+      }
+      case "TJ": {
+        const items = operands[0];
+        if (!Array.isArray(items)) break;
+        for (const item of items) {
+          if (isString(item)) show(item.bytes);
+          else if (typeof item === "number") {
+            tm = multiply(translate((-item / 1000) * gs.size * gs.scale, 0), tm);
+          }
+        }
+        break;
+      }
+      case "Do": {
+        const name = operands[0];
+        const xobjects = resources ? dictOf(doc, resources, "XObject") : null;
+        const form = xobjects && isName(name) ? dictValue(doc, xobjects, name.value) : null;
+        if (!isDict(form) || !isName(dictValue(doc, form, "Subtype"), "Form")) break;
+        if (depth >= MAX_FORM_DEPTH) break;
+        const data = streamData(doc, form);
+        const m = numbersIn(doc, dictValue(doc, form, "Matrix"));
+        const matrix: Matrix = m.length === 6 ? (m as Matrix) : IDENTITY;
+        if (data !== null) {
+          const formResources = dictOf(doc, form, "Resources") ?? resources;
+          interpret(doc, data, formResources, multiply(matrix, gs.ctm), pieces, fonts, depth + 1);
+        }
+        break;
+      }
+      case "BI": {
+        // Inline image data is binary; skip past its "EI".
+        const data = c.src.indexOf("ID", c.pos);
+        const end = data === -1 ? -1 : c.src.slice(data).search(/\sEI(?:\s|$)/);
+        c.pos = end === -1 ? c.src.length : data + end + 3;
+        break;
+      }
+    }
+    operands = [];
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             LINES + PARAGRAPHS                             */
+/* -------------------------------------------------------------------------- */
+
+interface Line {
+  y: number;
+  start: number;
+  end: number;
+  size: number;
+  text: string;
+  bold: boolean;
+}
+
+// Page furniture that would otherwise end up in clause text.
+const PAGE_NUMBER = /^(?:page\s+)?\d+(?:\s*(?:of|\/)\s*\d+)?$/i;
+
+// List markers and clause numbers that always start a new paragraph.
+const PARAGRAPH_START = /^(?:\d{1,3}(?:\.\d{1,3})*\.?|\([a-z0-9]{1,4}\)|[a-z]\)|[•▪–-])\s/i;
+
+function linesOf(pieces: Piece[]): Line[] {
+  const lines: Line[] = [];
+  let line: Line | null = null;
+  for (const piece of pieces) {
+    const visible = piece.text.trim() !== "";
+    const sameLine =
+      line !== null &&
+      Math.abs(piece.y - line.y) <= Math.max(line.size, piece.size) * 0.5 &&
+      piece.x >= line.end - line.size;
+    if (line && sameLine) {
+      const gap = piece.x - line.end;
+      if (gap > piece.size * 0.15 && !/\s$/.test(line.text) && !/^\s/.test(piece.text)) {
+        line.text += " ";
+      }
+      line.text += piece.text;
+      line.end = Math.max(line.end, piece.end);
+      if (visible) line.bold = line.bold && piece.bold;
+      continue;
+    }
+    if (!visible) continue;
+    line = {
+      y: piece.y,
+      start: piece.x,
+      end: piece.end,
+      size: piece.size,
+      text: piece.text,
+      bold: piece.bold,
+    };
+    lines.push(line);
+  }
+  return lines
+    .map((l) => ({ ...l, text: l.text.replace(/\s+/g, " ").trim() }))
+    .filter((l) => l.text && !PAGE_NUMBER.test(l.text));
+}
+
+// The spacing between lines within a paragraph. A low quantile rather than
+// the median: in a page of one-line clauses most gaps are paragraph gaps.
+function lineSpacing(gaps: number[]): number {
+  if (gaps.length === 0) return 0;
+  const sorted = [...gaps].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 4)];
+}
+
+// Joins lines into paragraphs: a wider gap than the usual line spacing, a
+// clause number, a change between bold and regular text, a short line that
+// ends a sentence, or any line that stops well short of the right edge (such
+// as a heading on its own line) all start a new one. A number at the start of
+// a line is only a clause number if the line before did not run on
+// mid-sentence.
+function paragraphsOf(pageLines: Line[][]): TextParagraph[] {
+  const paragraphs: TextParagraph[] = [];
+  let current: (TextParagraph & { bold: boolean }) | null = null;
+
+  pageLines.forEach((lines, pageIndex) => {
+    const gaps = lines.slice(1).map((l, i) => lines[i].y - l.y).filter((g) => g > 0);
+    const spacing = lineSpacing(gaps);
+    const rightEdge = Math.max(0, ...lines.map((l) => l.end));
+    const leftEdge = Math.min(...lines.map((l) => l.start));
+
+    lines.forEach((line, i) => {
+      const prev = i > 0 ? lines[i - 1] : null;
+      const gap = prev ? prev.y - line.y : 0;
+      const width = rightEdge - leftEdge;
+      const prevIsFull = prev !== null && prev.end >= leftEdge + width * 0.85;
+      const prevEndsShort =
+        prev !== null &&
+        ((/[.:;]$/.test(prev.text) && !prevIsFull) || prev.end < leftEdge + width * 0.6);
+      const prevRunsOn = prevIsFull && /[a-z,]$/.test(prev.text);
+      const breaks =
+        !current ||
+        (prev === null && /[.:;]$/.test(current.text)) ||
+        (prev !== null && (gap <= 0 || (spacing > 0 && gap > spacing * 1.35))) ||
+        (PARAGRAPH_START.test(line.text) && !prevRunsOn) ||
+        (prev !== null && prev.bold !== line.bold) ||
+        prevEndsShort;
+
+      if (breaks || !current) {
+        current = { text: line.text, bold: line.bold, page: pageIndex + 1 };
+        paragraphs.push(current);
+      } else {
+        current.text = /-$/.test(current.text)
+          ? `${current.text}${line.text}`
+          : `${current.text} ${line.text}`;
+        current.bold = current.bold && line.bold;
+      }
+    });
+  });
+  return paragraphs;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    PAGES                                   */
+/* -------------------------------------------------------------------------- */
+
+interface PdfPage {
+  dict: PdfDict;
+  resources: PdfDict | null; // possibly inherited from an ancestor /Pages node
+}
+
+function pagesOf(doc: PdfFile): PdfPage[] {
+  const pages: PdfPage[] = [];
+  const seen = new Set<PdfDict>();
+  const walk = (node: PdfValue, inherited: PdfDict | null) => {
+    const dict = resolve(doc, node);
+    if (!isDict(dict) || seen.has(dict)) return;
+    seen.add(dict);
+    const resources = dictOf(doc, dict, "Resources") ?? inherited;
+    const kids = dictValue(doc, dict, "Kids");
+    if (Array.isArray(kids)) kids.forEach((kid) => walk(kid, resources));
+    else if (isName(dictValue(doc, dict, "Type"), "Page") || dict.entries.has("Contents")) {
+      pages.push({ dict, resources });
+    }
+  };
+  walk(doc.root.entries.get("Pages") ?? null, null);
+  return pages;
+}
+
+function pageContent(doc: PdfFile, page: PdfDict): string {
+  const contents = dictValue(doc, page, "Contents");
+  const streams = Array.isArray(contents) ? contents.map((c) => resolve(doc, c)) : [contents];
+  return streams
+    .map((s) => (isDict(s) ? streamData(doc, s) : null) ?? "")
+    .join("\n");
+}
+
+// The paragraphs of a text-based PDF in reading order, each with its page.
+export function extractPdfParagraphs(bytes: Uint8Array): TextParagraph[] {
+  const doc = parsePdf(bytes);
+  const fonts = new Map<PdfDict, PdfFont>();
+  const pageLines = pagesOf(doc).map(({ dict, resources }) => {
+    const pieces: Piece[] = [];
+    interpret(doc, pageContent(doc, dict), resources, IDENTITY, pieces, fonts);
+    return linesOf(pieces);
+  });
+
+  const paragraphs = paragraphsOf(pageLines);
+  if (paragraphs.length === 0) {
+    throw new ValidationError(
+      "The PDF has no text to read. Scanned PDFs are not supported; please upload a text-based PDF"
+    );
+  }
+  return paragraphs;
+}
@@ -0,0 +1,451 @@
+import { inflateSync, constants as zlibConstants } from "node:zlib";
+import { ValidationError } from "../errors";
+
+/* -------------------------------------------------------------------------- */
+/*                       PDF OBJECT SYNTAX (READ-ONLY)                        */
+/* -------------------------------------------------------------------------- */
+
+// Just enough of the PDF object model to pull text out of a document: the
+// basic value types, indirect objects (including ones packed in object
+// streams) and Flate/ASCIIHex-encoded streams. The file is read as Latin-1 so
+// every byte is one character and positions match byte offsets.
+
+export interface PdfName {
+  kind: "name";
+  value: string;
+}
+
+export interface PdfString {
+  kind: "string";
+  bytes: string; // one Latin-1 character per byte
+}
+
+export interface PdfRef {
+  kind: "ref";
+  num: number;
+}
+
+export interface PdfDict {
+  kind: "dict";
+  entries: Map<string, PdfValue>;
+  stream?: string; // raw (still encoded) bytes when the dictionary heads a stream
+}
+
+// A content-stream operator such as "Tj"; only produced while tokenising.
+export interface PdfOperator {
+  kind: "op";
+  value: string;
+}
+
+export type PdfValue =
+  | null
+  | boolean
+  | number
+  | PdfName
+  | PdfString
+  | PdfRef
+  | PdfDict
+  | PdfValue[];
+
+export interface PdfFile {
+  objects: Map<number, PdfValue>;
+  root: PdfDict;
+  inflatedBytes: number; // decompressed so far, against MAX_INFLATED_BYTES
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  TOKENISER                                 */
+/* -------------------------------------------------------------------------- */
+
+const WHITESPACE = "\x00\t\n\f\r ";
+const DELIMITERS = "()<>[]{}/%";
+
+export interface Cursor {
+  src: string;
+  pos: number;
+}
+
+function skipSpace(c: Cursor): void {
+  while (c.pos < c.src.length) {
+    const ch = c.src[c.pos];
+    if (ch === "%") {
+      while (c.pos < c.src.length && c.src[c.pos] !== "\n" && c.src[c.pos] !== "\r") c.pos++;
+    } else if (WHITESPACE.includes(ch)) {
+      c.pos++;
+    } else {
+      return;
+    }
+  }
+}
+
+function readRegular(c: Cursor): string {
+  const start = c.pos;
+  while (
+    c.pos < c.src.length &&
+    !WHITESPACE.includes(c.src[c.pos]) &&
+    !DELIMITERS.includes(c.src[c.pos])
+  ) {
+    c.pos++;
+  }
+  return c.src.slice(start, c.pos);
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+
+function readLiteralString(c: Cursor): PdfString {
+  c.pos++; // "("
+  let depth = 1;
+  let out = "";
+  while (c.pos < c.src.length) {
+    const ch = c.src[c.pos++];
+    if (ch === "\\") {
+      const next = c.src[c.pos++] ?? "";
+      if (ESCAPES[next]) out += ESCAPES[next];
+      else if (/[0-7]/.test(next)) {
+        let octal = next;
+        while (octal.length < 3 && /[0-7]/.test(c.src[c.pos] ?? "")) octal += c.src[c.pos++];
+        out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+      } else if (next === "\r") {
+        if (c.src[c.pos] === "\n") c.pos++; // escaped line break continues the string
+      } else if (next !== "\n") {
+        out += next;
+      }
+    } else if (ch === "(") {
+      depth++;
+      out += ch;
+    } else if (ch === ")") {
+      if (--depth === 0) break;
+      out += ch;
+    } else {
+      out += ch;
+    }
+  }
+  return { kind: "string", bytes: out };
+}
+
+function readHexString(c: Cursor): PdfString {
+  const end = c.src.indexOf(">", c.pos);
+  const hex = c.src.slice(c.pos + 1, end === -1 ? c.src.length : end).replace(/[^0-9a-f]/gi, "");
+  c.pos = end === -1 ? c.src.length : end + 1;
+  let out = "";
+  for (let i = 0; i < hex.length; i += 2) {
+    out += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, "0"), 16));
+  }
+  return { kind: "string", bytes: out };
+}
+
+function readName(c: Cursor): PdfName {
+  c.pos++; // "/"
+  const raw = readRegular(c);
+  return {
+    kind: "name",
+    value: raw.replace(/#([0-9a-f]{2})/gi, (_, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16))
+    ),
+  };
+}
+
+const NUMBER = /^[+-]?(?:\d+\.?\d*|\.\d+)$/;
+
+// The next value or operator, or undefined at the end of the input. A closing
+// "]" or ">>" comes back as an operator so the callers can stop on it.
+export function readToken(c: Cursor): PdfValue | PdfOperator | undefined {
+  skipSpace(c);
+  if (c.pos >= c.src.length) return undefined;
+  const ch = c.src[c.pos];
+
+  if (ch === "/") return readName(c);
+  if (ch === "(") return readLiteralString(c);
+  if (ch === "<") {
+    if (c.src[c.pos + 1] !== "<") return readHexString(c);
+    c.pos += 2;
+    return readDict(c);
+  }
+  if (ch === ">" && c.src[c.pos + 1] === ">") {
+    c.pos += 2;
+    return { kind: "op", value: ">>" };
+  }
+  if (ch === "[") {
+    c.pos++;
+    const items: PdfValue[] = [];
+    for (let token = readToken(c); token !== undefined; token = readToken(c)) {
+      if (isOperator(token)) {
+        if (token.value === "]") break;
+        if (token.value === "R") {
+          // "12 0 R" inside an array: the two numbers before it form the reference.
+          const num = items.splice(-2, 2)[0];
+          items.push({ kind: "ref", num: typeof num === "number" ? num : 0 });
+        }
+        continue;
+      }
+      items.push(token);
+    }
+    return items;
+  }
+  if (ch === "]" || ch === "{" || ch === "}" || ch === ")" || ch === ">") {
+    c.pos++;
+    return { kind: "op", value: ch };
+  }
+
+  const word = readRegular(c);
+  if (NUMBER.test(word)) return Number(word);
+  if (word === "true") return true;
+  if (word === "false") return false;
+  if (word === "null") return null;
+  return { kind: "op", value: word };
+}
+
+export function isOperator(value: PdfValue | PdfOperator | undefined): value is PdfOperator {
+  return (
+    typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "op"
+  );
+}
+
+function readDict(c: Cursor): PdfDict {
+  const entries = new Map<string, PdfValue>();
+  const values: PdfValue[] = [];
+  for (let token = readToken(c); token !== undefined; token = readToken(c)) {
+    if (isOperator(token)) {
+      if (token.value === ">>") break;
+      if (token.value === "R") {
+        const num = values.splice(-2, 2)[0];
+        values.push({ kind: "ref", num: typeof num === "number" ? num : 0 });
+      }
+      continue;
+    }
+    values.push(token);
+  }
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    const key = values[i];
+    if (isName(key)) entries.set(key.value, values[i + 1]);
+  }
+  return { kind: "dict", entries };
+}
+
+// A single value at the cursor; a trailing "num gen R" becomes a reference.
+function readValue(c: Cursor): PdfValue {
+  const token = readToken(c);
+  if (token === undefined || isOperator(token)) return null;
+  if (typeof token !== "number") return token;
+  const save = c.pos;
+  const gen = readToken(c);
+  const r = readToken(c);
+  if (typeof gen === "number" && isOperator(r) && r.value === "R") {
+    return { kind: "ref", num: token };
+  }
+  c.pos = save;
+  return token;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               VALUE HELPERS                                */
+/* -------------------------------------------------------------------------- */
+
+export function isName(value: PdfValue | undefined, name?: string): value is PdfName {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.kind === "name" &&
+    (name === undefined || value.value === name)
+  );
+}
+
+export function isDict(value: PdfValue | undefined): value is PdfDict {
+  return (
+    typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "dict"
+  );
+}
+
+export function isString(value: PdfValue | undefined): value is PdfString {
+  return (
+    typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "string"
+  );
+}
+
+// Follows references (a chain of them, at most a few deep) to the value.
+export function resolve(doc: PdfFile, value: PdfValue | undefined): PdfValue {
+  let current = value ?? null;
+  for (let hops = 0; hops < 8; hops++) {
+    if (typeof current !== "object" || current === null || Array.isArray(current)) return current;
+    if (current.kind !== "ref") return current;
+    current = doc.objects.get(current.num) ?? null;
+  }
+  return null;
+}
+
+export function dictValue(doc: PdfFile, dict: PdfDict, key: string): PdfValue {
+  return resolve(doc, dict.entries.get(key));
+}
+
+export function dictOf(doc: PdfFile, dict: PdfDict, key: string): PdfDict | null {
+  const value = dictValue(doc, dict, key);
+  return isDict(value) ? value : null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   STREAMS                                  */
+/* -------------------------------------------------------------------------- */
+
+// Decompressed bytes allowed per document. A contract's text and page content
+// come nowhere near it; a small upload that inflates past it is a zip bomb.
+const MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+
+function inflate(doc: PdfFile, data: string): string {
+  const input = Buffer.from(data, "latin1");
+  const tooLarge = () =>
+    new ValidationError(
+      `The PDF expands to more than ${MAX_INFLATED_BYTES / (1024 * 1024)} MB of content`
+    );
+  const remaining = MAX_INFLATED_BYTES - doc.inflatedBytes;
+  if (remaining <= 0) throw tooLarge();
+  let output: Buffer;
+  try {
+    // Truncated or slightly damaged streams still give up what they can.
+    output = inflateSync(input, {
+      finishFlush: zlibConstants.Z_SYNC_FLUSH,
+      maxOutputLength: remaining,
+    });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") throw tooLarge();
+    throw err;
+  }
+  doc.inflatedBytes += output.length;
+  return output.toString("latin1");
+}
+
+function asciiHex(data: string): string {
+  return readHexString({ src: `<${data.replace(/>.*$/s, "")}>`, pos: 0 }).bytes;
+}
+
+// The decoded bytes of a stream, or null when it uses a filter this reader
+// does not implement (images mostly, which carry no text).
+export function streamData(doc: PdfFile, dict: PdfDict): string | null {
+  if (dict.stream === undefined) return null;
+  const filter = dictValue(doc, dict, "Filter");
+  const filters = (Array.isArray(filter) ? filter : [filter]).map((f) => resolve(doc, f));
+  let data = dict.stream;
+  for (const f of filters) {
+    if (f === null) continue;
+    if (!isName(f)) return null;
+    try {
+      if (f.value === "FlateDecode" || f.value === "Fl") data = inflate(doc, data);
+      else if (f.value === "ASCIIHexDecode" || f.value === "AHx") data = asciiHex(data);
+      else return null;
+    } catch (err) {
+      if (err instanceof ValidationError) throw err;
+      return null;
+    }
+  }
+  return data;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  DOCUMENT                                  */
+/* -------------------------------------------------------------------------- */
+
+const OBJECT_HEADER = /(\d+)\s+(\d+)\s+obj\b/g;
+
+// Reads the stream body that follows a dictionary at the cursor, if any.
+function readStreamBody(c: Cursor, dict: PdfDict): void {
+  skipSpace(c);
+  if (!c.src.startsWith("stream", c.pos)) return;
+  let start = c.pos + "stream".length;
+  if (c.src[start] === "\r") start++;
+  if (c.src[start] === "\n") start++;
+
+  const length = dict.entries.get("Length");
+  let end = typeof length === "number" ? start + length : -1;
+  // An indirect or wrong /Length falls back to searching for the keyword.
+  if (end < start || !/^\s*endstream/.test(c.src.slice(end, end + 20))) {
+    end = c.src.indexOf("endstream", start);
+    if (end === -1) end = c.src.length;
+    while (end > start && (c.src[end - 1] === "\n" || c.src[end - 1] === "\r")) end--;
+  }
+  dict.stream = c.src.slice(start, end);
+  c.pos = end;
+}
+
+// Objects packed into an object stream (PDF 1.5+): a header of "num offset"
+// pairs, then the objects themselves from /First on.
+function unpackObjectStream(doc: PdfFile, dict: PdfDict, into: Map<number, PdfValue>): void {
+  const data = streamData(doc, dict);
+  const count = dictValue(doc, dict, "N");
+  const first = dictValue(doc, dict, "First");
+  if (data === null || typeof count !== "number" || typeof first !== "number") return;
+
+  const header: Cursor = { src: data.slice(0, first), pos: 0 };
+  for (let i = 0; i < count; i++) {
+    const num = readToken(header);
+    const offset = readToken(header);
+    if (typeof num !== "number" || typeof offset !== "number") break;
+    if (into.has(num)) continue; // a later revision written as a plain object wins
+    into.set(num, readValue({ src: data, pos: first + offset }));
+  }
+}
+
+// Parses every indirect object in the file. Objects are found by scanning for
+// "n g obj" rather than through the cross-reference table, so files with a
+// damaged table still open; a later definition of the same number wins.
+export function parsePdf(bytes: Uint8Array): PdfFile {
+  const src = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString("latin1");
+  if (!src.slice(0, 1024).includes("%PDF-")) {
+    throw new ValidationError("File is not a valid PDF (missing %PDF header)");
+  }
+  if (/\/Encrypt\s/.test(src)) {
+    throw new ValidationError(
+      "Encrypted PDFs are not supported; please upload an unprotected copy"
+    );
+  }
+
+  const doc: PdfFile = {
+    objects: new Map(),
+    root: { kind: "dict", entries: new Map() },
+    inflatedBytes: 0,
+  };
+  let root: PdfValue = null;
+
+  OBJECT_HEADER.lastIndex = 0;
+  for (let match = OBJECT_HEADER.exec(src); match; match = OBJECT_HEADER.exec(src)) {
+    const c: Cursor = { src, pos: match.index + match[0].length };
+    const value = readValue(c);
+    if (isDict(value)) {
+      readStreamBody(c, value);
+      // Cross-reference streams carry the trailer entries.
+      if (isName(value.entries.get("Type"), "XRef") && value.entries.has("Root")) {
+        root = value.entries.get("Root") ?? null;
+      }
+    }
+    doc.objects.set(Number(match[1]), value);
+    OBJECT_HEADER.lastIndex = Math.max(c.pos, OBJECT_HEADER.lastIndex);
+  }
+
+  const packed = new Map<number, PdfValue>();
+  doc.objects.forEach((value) => {
+    if (isDict(value) && isName(value.entries.get("Type"), "ObjStm")) {
+      unpackObjectStream(doc, value, packed);
+    }
+  });
+  packed.forEach((value, num) => {
+    if (!doc.objects.has(num)) doc.objects.set(num, value);
+  });
+
+  const trailerAt = src.lastIndexOf("trailer");
+  if (trailerAt !== -1) {
+    const trailer = readValue({ src, pos: trailerAt + "trailer".length });
+    if (isDict(trailer) && trailer.entries.has("Root")) root = trailer.entries.get("Root") ?? null;
+  }
+  if (root === null) {
+    // No trailer found: fall back to the catalog object itself.
+    doc.objects.forEach((value) => {
+      if (root === null && isDict(value) && isName(value.entries.get("Type"), "Catalog")) {
+        root = value;
+      }
+    });
+  }
+
+  const catalog = resolve(doc, root);
+  if (!isDict(catalog)) throw new ValidationError("File is not a valid PDF (no document catalog)");
+  doc.root = catalog;
+  return doc;
+}
@@ -0,0 +1,100 @@
+import playbookFile from "../config/playbook.json";
+import { normalizeText, textSimilarity } from "./text";
+import type { PlaybookMatch, PlaybookPositionKind } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                                CLAUSE PLAYBOOK                             */
+/* -------------------------------------------------------------------------- */
+
+// The playbook lives in config/playbook.json. For each risk category it lists
+// the preferred language, pre-approved fallbacks and unacceptable positions.
+// A supplier clause that matches a position takes that position's risk score
+// and recommendation instead of the generic ones.
+
+export interface PlaybookPosition {
+  id: string;
+  label: string;
+  text: string; // model language shown to reviewers
+  phrases: string[]; // any one appearing in the supplier clause is a match
+  riskScore: number; // clause score, on the same scale as the risk rules
+  recommendation: string;
+}
+
+export interface PlaybookClause {
+  category: string; // RiskCategory.name in config/risk-rules.json
+  preferred: PlaybookPosition;
+  fallbacks: PlaybookPosition[]; // most acceptable first
+  unacceptable: PlaybookPosition[];
+}
+
+export interface Playbook {
+  version: string;
+  effectiveDate: string;
+  matchThreshold: number; // text similarity that counts as a match without a phrase
+  clauses: PlaybookClause[];
+}
+
+export const playbook: Playbook = playbookFile;
+
+export const positionKindLabels: Record<PlaybookPositionKind, string> = {
+  preferred: "Preferred",
+  fallback: "Fallback",
+  unacceptable: "Unacceptable",
+};
+
+function containsPhrase(normalized: string, phrase: string): boolean {
+  const escaped = normalizeText(phrase).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|\\W)${escaped}(?=\\W|$)`).test(normalized);
+}
+
+// How closely the supplier text matches a position: 1 for a phrase hit,
+// otherwise the text similarity when it clears the threshold, else null.
+function matchStrength(
+  normalized: string,
+  supplierText: string,
+  position: PlaybookPosition,
+  threshold: number
+): number | null {
+  if (position.phrases.some((p) => containsPhrase(normalized, p))) return 1;
+  const similarity = textSimilarity(supplierText, position.text);
+  return similarity >= threshold ? similarity : null;
+}
+
+// Unacceptable positions are checked first so a clause that also contains
+// acceptable wording is never waved through; then fallbacks, then preferred.
+// Within a group the strongest match wins, earlier entries on ties.
+export function matchPlaybook(
+  category: string,
+  supplierText: string,
+  book = playbook
+): { position: PlaybookPosition; match: PlaybookMatch } | null {
+  const clause = book.clauses.find((c) => c.category === category);
+  if (!clause || !supplierText.trim()) return null;
+
+  const normalized = normalizeText(supplierText);
+  const groups: [PlaybookPositionKind, PlaybookPosition[]][] = [
+    ["unacceptable", clause.unacceptable],
+    ["fallback", clause.fallbacks],
+    ["preferred", [clause.preferred]],
+  ];
+  for (const [kind, positions] of groups) {
+    let best: { position: PlaybookPosition; strength: number } | null = null;
+    for (const position of positions) {
+      const strength = matchStrength(normalized, supplierText, position, book.matchThreshold);
+      if (strength !== null && (!best || strength > best.strength)) best = { position, strength };
+    }
+    if (best) {
+      const { position } = best;
+      return {
+        position,
+        match: {
+          positionId: position.id,
+          kind,
+          label: position.label,
+          playbookVersion: book.version,
+        },
+      };
+    }
+  }
+  return null;
+}
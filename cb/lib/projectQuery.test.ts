@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { ValidationError } from "./errors";
+import {
+  applyProjectQuery,
+  DEFAULT_PROJECT_QUERY,
+  parseProjectQuery,
+  projectQueryParams,
+} from "./projectQuery";
+import type { ProjectRow } from "./types";
+
+function project(id: string, fields: Partial<ProjectRow> = {}): ProjectRow {
+  return {
+    id,
+    username: "TAE7758",
+    projectName: `Project ${id}`,
+    createdAt: "2025-01-01T12:00:00.000Z",
+    updatedAt: "2025-03-01T12:00:00.000Z",
+    riskLevel: "Low",
+    totalWeightedScore: 1,
+    supplierDocTitle: "Supplier NDA.docx",
+    baselineDocTitle: "TD Baseline NDA.docx",
+    supplierDocUrl: "/api/documents/supplier-nda",
+    baselineDocUrl: "/api/documents/td-baseline-nda",
+    deviations: [],
+    ...fields,
+  };
+}
+
+const ids = (projects: ProjectRow[], query: string) =>
+  applyProjectQuery(projects, parseProjectQuery(new URLSearchParams(query))).items.map(
+    (p) => p.id
+  );
+
+describe("parseProjectQuery", () => {
+  it("uses the defaults for an empty query and round-trips a full one", () => {
+    expect(parseProjectQuery(new URLSearchParams())).toEqual(DEFAULT_PROJECT_QUERY);
+
+    const url =
+      "q=nda&risk=High&user=WYATT12&doc=baseline&dateField=createdAt&from=2025-03-01" +
+      "&to=2025-03-31&minScore=1.5&maxScore=4&sort=riskLevel%3Adesc%2CprojectName%3Aasc" +
+      "&offset=20&limit=20";
+    const query = parseProjectQuery(new URLSearchParams(url));
+    expect(query.sort).toEqual([
+      { key: "riskLevel", dir: "desc" },
+      { key: "projectName", dir: "asc" },
+    ]);
+    expect(projectQueryParams(query).toString()).toBe(url);
+  });
+
+  it("rejects parameters it cannot use", () => {
+    const invalid = [
+      "risk=Severe",
+      "dateField=deletedAt",
+      "from=2025-02-30",
+      "to=01/03/2025",
+      "from=2025-03-02&to=2025-03-01",
+      "minScore=-1",
+      "minScore=5&maxScore=2",
+      "sort=score:desc",
+      "sort=updatedAt:down",
+      "sort=updatedAt:asc,updatedAt:desc",
+      "offset=-10",
+      "offset=2.5",
+      "limit=0",
+      "limit=101",
+    ];
+    for (const query of invalid) {
+      expect(() => parseProjectQuery(new URLSearchParams(query)), query).toThrow(ValidationError);
+    }
+  });
+});
+
+describe("applyProjectQuery", () => {
+  it("sorts by each key in turn and falls back to the id", () => {
+    const projects = [
+      project("1", { riskLevel: "Medium", totalWeightedScore: 3 }),
+      project("2", { riskLevel: "High", totalWeightedScore: 4 }),
+      project("3", { riskLevel: "Medium", totalWeightedScore: 5 }),
+      project("4", { riskLevel: "High", totalWeightedScore: 4 }),
+      project("5", { riskLevel: "Low", totalWeightedScore: 0 }),
+    ];
+    expect(ids(projects, "sort=riskLevel:desc,totalWeightedScore:desc")).toEqual([
+      "2",
+      "4",
+      "3",
+      "1",
+      "5",
+    ]);
+    expect(ids(projects, "sort=riskLevel:asc,totalWeightedScore:asc")).toEqual([
+      "5",
+      "1",
+      "3",
+      "2",
+      "4",
+    ]);
+  });
+
+  it("orders names numerically and ignoring case", () => {
+    const projects = [
+      project("1", { projectName: "NDA 10" }),
+      project("2", { projectName: "nda 9" }),
+      project("3", { projectName: "MSA" }),
+    ];
+    expect(ids(projects, "sort=projectName")).toEqual(["3", "2", "1"]);
+  });
+
+  it("includes the whole of the 'from' and 'to' days of the chosen date field", () => {
+    const projects = [
+      project("before", { updatedAt: "2025-02-28T23:59:59.999Z" }),
+      project("first", { updatedAt: "2025-03-01T00:00:00.000Z" }),
+      project("last", { updatedAt: "2025-03-31T23:59:59.999Z" }),
+      project("after", { updatedAt: "2025-04-01T00:00:00.000Z" }),
+      project("created", {
+        createdAt: "2025-03-15T00:00:00.000Z",
+        updatedAt: "2025-05-01T00:00:00.000Z",
+      }),
+    ];
+    const march = "from=2025-03-01&to=2025-03-31&sort=updatedAt:asc";
+    expect(ids(projects, march)).toEqual(["first", "last"]);
+    expect(ids(projects, `${march}&dateField=createdAt`)).toEqual(["created"]);
+  });
+
+  it("returns the requested page and the total of every match", () => {
+    const projects = ["a", "b", "c", "d", "e", "f", "g"].map((id) => project(id));
+    const query = (params: string) =>
+      applyProjectQuery(projects, parseProjectQuery(new URLSearchParams(params)));
+
+    const second = query("sort=projectName&offset=5&limit=5");
+    expect(second).toMatchObject({ total: 7, offset: 5, limit: 5 });
+    expect(second.items.map((p) => p.id)).toEqual(["f", "g"]);
+    expect(query("offset=10&limit=5")).toMatchObject({ items: [], total: 7 });
+
+    // Ties on every key still give pages that neither overlap nor skip rows.
+    const paged = [0, 2, 4, 6].flatMap((offset) =>
+      query(`sort=riskLevel&offset=${offset}&limit=2`).items.map((p) => p.id)
+    );
+    expect(paged).toEqual(["a", "b", "c", "d", "e", "f", "g"]);
+  });
+
+  it("matches projects whose contract text matched the search", () => {
+    const projects = [project("1"), project("2", { projectName: "Indemnity review" })];
+    const query = parseProjectQuery(new URLSearchParams("q=indemn"));
+    expect(applyProjectQuery(projects, query).items.map((p) => p.id)).toEqual(["2"]);
+    expect(applyProjectQuery(projects, query, new Set(["1"])).items.map((p) => p.id)).toEqual([
+      "1",
+      "2",
+    ]);
+  });
+});
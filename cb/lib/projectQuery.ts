@@ -0,0 +1,270 @@
+import { ValidationError } from "./errors";
+import type { ProjectRow, RiskLevel } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                  PROJECT LIST QUERY (FILTER, SORT, PAGINATE)               */
+/* -------------------------------------------------------------------------- */
+
+// GET /api/projects and the dashboard URL share one query string, so a view
+// can be bookmarked and the page simply forwards its own search params:
+//
+//   ?q=          username or project name contains
+//   ?risk=       Low | Medium | High
+//   ?user=       exact username
+//   ?doc=        supplier or baseline document title contains
+//   ?dateField=  createdAt | updatedAt (default updatedAt) for from/to
+//   ?from=&to=   YYYY-MM-DD, inclusive, UTC days
+//   ?minScore=&maxScore=  total weighted score, inclusive
+//   ?sort=       key:dir pairs, most significant first, e.g. totalWeightedScore:desc,updatedAt:desc
+//   ?offset=&limit=
+
+export const PROJECT_SORT_KEYS = [
+  "updatedAt",
+  "createdAt",
+  "totalWeightedScore",
+  "riskLevel",
+  "projectName",
+  "username",
+] as const;
+export type ProjectSortKey = (typeof PROJECT_SORT_KEYS)[number];
+
+export type SortDirection = "asc" | "desc";
+
+export interface ProjectSort {
+  key: ProjectSortKey;
+  dir: SortDirection;
+}
+
+export const DATE_FIELDS = ["updatedAt", "createdAt"] as const;
+export type DateField = (typeof DATE_FIELDS)[number];
+
+export const PAGE_SIZES = [5, 10, 20, 50, 100] as const;
+const MAX_LIMIT = PAGE_SIZES[PAGE_SIZES.length - 1];
+
+const RISK_LEVELS: readonly RiskLevel[] = ["Low", "Medium", "High"];
+
+export interface ProjectQuery {
+  search: string;
+  risk: RiskLevel | null;
+  user: string | null;
+  document: string;
+  dateField: DateField;
+  from: string | null;
+  to: string | null;
+  minScore: number | null;
+  maxScore: number | null;
+  sort: ProjectSort[];
+  offset: number;
+  limit: number;
+}
+
+export const DEFAULT_PROJECT_QUERY: ProjectQuery = {
+  search: "",
+  risk: null,
+  user: null,
+  document: "",
+  dateField: "updatedAt",
+  from: null,
+  to: null,
+  minScore: null,
+  maxScore: null,
+  sort: [{ key: "updatedAt", dir: "desc" }],
+  offset: 0,
+  limit: 10,
+};
+
+// One page of the matching projects. `users` lists every owner the caller
+// may filter by, independent of the current filters.
+export interface ProjectPage {
+  items: ProjectRow[];
+  total: number;
+  offset: number;
+  limit: number;
+  users: string[];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           URL <-> QUERY CONVERSION                         */
+/* -------------------------------------------------------------------------- */
+
+function text(params: URLSearchParams, key: string): string {
+  return params.get(key)?.trim() ?? "";
+}
+
+function oneOf<T extends string>(params: URLSearchParams, key: string, allowed: readonly T[]) {
+  const value = text(params, key);
+  if (!value) return null;
+  if (!allowed.includes(value as T)) {
+    throw new ValidationError(`"${key}" must be one of ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+function day(params: URLSearchParams, key: string): string | null {
+  const value = text(params, key);
+  if (!value) return null;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || parsed.toISOString().slice(0, 10) !== value) {
+    throw new ValidationError(`"${key}" must be a date (YYYY-MM-DD)`);
+  }
+  return value;
+}
+
+function score(params: URLSearchParams, key: string): number | null {
+  const value = text(params, key);
+  if (!value) return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new ValidationError(`"${key}" must be a non-negative number`);
+  }
+  return parsed;
+}
+
+function integer(params: URLSearchParams, key: string, fallback: number, min: number, max: number) {
+  const value = text(params, key);
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ValidationError(`"${key}" must be a whole number between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+function sortOrder(params: URLSearchParams): ProjectSort[] {
+  const value = text(params, "sort");
+  if (!value) return DEFAULT_PROJECT_QUERY.sort;
+
+  const sort: ProjectSort[] = [];
+  for (const part of value.split(",")) {
+    const [key, dir = "asc"] = part.trim().split(":");
+    if (!PROJECT_SORT_KEYS.includes(key as ProjectSortKey)) {
+      throw new ValidationError(`Sort key must be one of ${PROJECT_SORT_KEYS.join(", ")}`);
+    }
+    if (dir !== "asc" && dir !== "desc") {
+      throw new ValidationError(`Sort direction for ${key} must be "asc" or "desc"`);
+    }
+    if (sort.some((s) => s.key === key)) {
+      throw new ValidationError(`Sort key ${key} is listed twice`);
+    }
+    sort.push({ key: key as ProjectSortKey, dir });
+  }
+  return sort;
+}
+
+export function parseProjectQuery(params: URLSearchParams): ProjectQuery {
+  const query: ProjectQuery = {
+    search: text(params, "q"),
+    risk: oneOf(params, "risk", RISK_LEVELS),
+    user: text(params, "user") || null,
+    document: text(params, "doc"),
+    dateField: oneOf(params, "dateField", DATE_FIELDS) ?? DEFAULT_PROJECT_QUERY.dateField,
+    from: day(params, "from"),
+    to: day(params, "to"),
+    minScore: score(params, "minScore"),
+    maxScore: score(params, "maxScore"),
+    sort: sortOrder(params),
+    offset: integer(params, "offset", 0, 0, Number.MAX_SAFE_INTEGER),
+    limit: integer(params, "limit", DEFAULT_PROJECT_QUERY.limit, 1, MAX_LIMIT),
+  };
+  if (query.from && query.to && query.from > query.to) {
+    throw new ValidationError(`"from" must not be after "to"`);
+  }
+  if (query.minScore !== null && query.maxScore !== null && query.minScore > query.maxScore) {
+    throw new ValidationError(`"minScore" must not be greater than "maxScore"`);
+  }
+  return query;
+}
+
+// The same query as URL parameters, leaving out anything at its default.
+export function projectQueryParams(query: ProjectQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | null) => {
+    if (value !== null && value !== "") params.set(key, String(value));
+  };
+  set("q", query.search.trim());
+  set("risk", query.risk);
+  set("user", query.user);
+  set("doc", query.document.trim());
+  if (query.from || query.to) {
+    if (query.dateField !== DEFAULT_PROJECT_QUERY.dateField) set("dateField", query.dateField);
+    set("from", query.from);
+    set("to", query.to);
+  }
+  set("minScore", query.minScore);
+  set("maxScore", query.maxScore);
+  const sort = query.sort.map((s) => `${s.key}:${s.dir}`).join(",");
+  if (sort !== DEFAULT_PROJECT_QUERY.sort.map((s) => `${s.key}:${s.dir}`).join(",")) {
+    set("sort", sort);
+  }
+  if (query.offset > 0) set("offset", query.offset);
+  if (query.limit !== DEFAULT_PROJECT_QUERY.limit) set("limit", query.limit);
+  return params;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               APPLYING A QUERY                             */
+/* -------------------------------------------------------------------------- */
+
+const RISK_RANK: Record<RiskLevel, number> = { Low: 0, Medium: 1, High: 2 };
+
+const contains = (value: string, needle: string) =>
+  value.toLowerCase().includes(needle.toLowerCase());
+
+function matches(p: ProjectRow, q: ProjectQuery, textMatches: ReadonlySet<string>): boolean {
+  const at = new Date(p[q.dateField]).getTime();
+  return (
+    (!q.search ||
+      contains(p.username, q.search) ||
+      contains(p.projectName, q.search) ||
+      textMatches.has(p.id)) &&
+    (!q.risk || p.riskLevel === q.risk) &&
+    (!q.user || p.username === q.user) &&
+    (!q.document ||
+      contains(p.supplierDocTitle, q.document) ||
+      contains(p.baselineDocTitle, q.document)) &&
+    (!q.from || at >= Date.parse(`${q.from}T00:00:00.000Z`)) &&
+    (!q.to || at <= Date.parse(`${q.to}T23:59:59.999Z`)) &&
+    (q.minScore === null || p.totalWeightedScore >= q.minScore) &&
+    (q.maxScore === null || p.totalWeightedScore <= q.maxScore)
+  );
+}
+
+function compareBy(a: ProjectRow, b: ProjectRow, key: ProjectSortKey): number {
+  switch (key) {
+    case "createdAt":
+    case "updatedAt":
+      return (new Date(a[key]).getTime() || 0) - (new Date(b[key]).getTime() || 0);
+    case "totalWeightedScore":
+      return a.totalWeightedScore - b.totalWeightedScore;
+    case "riskLevel":
+      return RISK_RANK[a.riskLevel] - RISK_RANK[b.riskLevel];
+    case "projectName":
+    case "username":
+      return a[key].localeCompare(b[key], undefined, { numeric: true, sensitivity: "base" });
+  }
+}
+
+// Filters, sorts and slices; ties on every sort key fall back to the id so
+// pages never overlap or skip rows. `textMatches` holds the ids of projects
+// whose contract text matches the search (see lib/searchIndex).
+export function applyProjectQuery(
+  projects: ProjectRow[],
+  query: ProjectQuery,
+  textMatches: ReadonlySet<string> = new Set()
+): Omit<ProjectPage, "users"> {
+  const sorted = projects
+    .filter((p) => matches(p, query, textMatches))
+    .sort((a, b) => {
+      for (const { key, dir } of query.sort) {
+        const diff = compareBy(a, b, key);
+        if (diff !== 0) return dir === "asc" ? diff : -diff;
+      }
+      return a.id.localeCompare(b.id);
+    });
+  return {
+    items: sorted.slice(query.offset, query.offset + query.limit),
+    total: sorted.length,
+    offset: query.offset,
+    limit: query.limit,
+  };
+}
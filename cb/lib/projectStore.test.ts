@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { analyzeProject } from "./analysis";
+import {
+  addDeviationComment,
+  createProject,
+  getProject,
+  updateDeviationReview,
+  updateProject,
+} from "./projectStore";
+import { reviewOf } from "./review";
+
+async function analyzedProject() {
+  const { id } = await createProject({
+    username: "TAE7758",
+    projectName: "Re-analysis",
+    supplierDocTitle: "Supplier NDA.docx",
+    baselineDocTitle: "TD Baseline NDA.docx",
+    supplierDocUrl: "/api/documents/supplier-nda",
+    baselineDocUrl: "/api/documents/td-baseline-nda",
+    deviations: [],
+  });
+  return analyzeProject(id);
+}
+
+describe("re-analysis", () => {
+  it("keeps the id and review of every row that is regenerated", async () => {
+    const first = await analyzedProject();
+    expect(first.deviations.length).toBeGreaterThan(0);
+    const [reviewed] = first.deviations;
+    await updateDeviationReview(first.id, reviewed.id!, { status: "rejected", assignee: "legal" });
+    await addDeviationComment(first.id, reviewed.id!, { author: "legal", body: "Push back." });
+
+    const second = await analyzeProject(first.id);
+    expect(second.deviations.map((d) => d.id)).toEqual(first.deviations.map((d) => d.id));
+    const again = second.deviations.find((d) => d.id === reviewed.id)!;
+    expect(reviewOf(again)).toMatchObject({ status: "rejected", assignee: "legal" });
+    expect(reviewOf(again).comments.map((c) => c.body)).toEqual(["Push back."]);
+  });
+
+  it("refuses new rows that drop a reviewed one", async () => {
+    const project = await analyzedProject();
+    const [reviewed, ...rest] = project.deviations;
+    await updateDeviationReview(project.id, reviewed.id!, { status: "accepted" });
+
+    const others = rest.filter((d) => d.clause !== reviewed.clause);
+    await expect(updateProject(project.id, { deviations: others })).rejects.toThrow(
+      reviewed.clause
+    );
+    expect((await getProject(project.id)).deviations).toHaveLength(project.deviations.length);
+  });
+});
@@ -0,0 +1,440 @@
+import { randomUUID } from "node:crypto";
+import { ConflictError, NotFoundError, ValidationError } from "./errors";
+import { projectIterations } from "./iterations";
+import { jsonFile } from "./jsonStore";
+import { deviationId, hasReview, pairDeviations, reviewOf, REVIEW_STATUSES } from "./review";
+import { scoreProject } from "./scoring";
+import { seedProjects } from "./seedProjects";
+import type {
+  AnalysisProvenance,
+  ClauseChange,
+  DeviationReview,
+  DeviationRow,
+  DocumentAnchor,
+  IterationInput,
+  IterationRun,
+  ProjectInput,
+  ProjectRow,
+  ReviewComment,
+  ReviewStatus,
+  RiskLevel,
+} from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                               PROJECT STORAGE                              */
+/* -------------------------------------------------------------------------- */
+
+// Seeds are scored when the store is created, so their risk always comes from
+// the rules file.
+const projectsFile = jsonFile<ProjectRow[]>("projects.json", () =>
+  seedProjects.map((p) => ({ ...p, ...scoreProject(p.deviations) }))
+);
+
+export async function listProjects(): Promise<ProjectRow[]> {
+  return projectsFile.read();
+}
+
+export async function getProject(id: string): Promise<ProjectRow> {
+  const project = (await projectsFile.read()).find((p) => p.id === id);
+  if (!project) throw new NotFoundError(`Project ${id} not found`);
+  return project;
+}
+
+// Gives every row an id so reviews can address it.
+function withDeviationIds(deviations: DeviationRow[]): DeviationRow[] {
+  return deviations.map((d) => (d.id ? d : { ...d, id: randomUUID() }));
+}
+
+// New rows for a run that already has some. A row that pairs with an old one
+// keeps the old id and review, so decisions, assignees and comments survive a
+// re-analysis. Dropping a reviewed row is refused rather than done silently.
+function carryReviews(before: DeviationRow[], after: DeviationRow[]): DeviationRow[] {
+  const pairs = pairDeviations(before, after);
+  const dropped = pairs.filter((p) => !p.to && hasReview(p.from!)).map((p) => p.from!.clause);
+  if (dropped.length > 0) {
+    throw new ConflictError(
+      `The new deviations have no row for reviewed clauses: ${dropped.join(", ")}`
+    );
+  }
+  return after.map((to) => {
+    const from = pairs.find((p) => p.to === to)?.from;
+    if (!from) return to;
+    return {
+      ...to,
+      ...(from.id ? { id: from.id } : {}),
+      ...(from.review ? { review: from.review } : {}),
+    };
+  });
+}
+
+function buildIteration(number: number, input: IterationInput, createdAt: string): IterationRun {
+  return {
+    id: randomUUID(),
+    number,
+    createdAt,
+    supplierDocTitle: input.supplierDocTitle,
+    baselineDocTitle: input.baselineDocTitle,
+    supplierDocUrl: input.supplierDocUrl,
+    baselineDocUrl: input.baselineDocUrl,
+    ...(input.baseline ? { baseline: input.baseline } : {}),
+    ...scoreProject(withDeviationIds(input.deviations)),
+  };
+}
+
+// Copies the latest run onto the project's top-level fields.
+function withLatest(
+  project: ProjectRow,
+  iterations: IterationRun[],
+  updatedAt: string
+): ProjectRow {
+  const latest = iterations[iterations.length - 1];
+  return {
+    ...project,
+    supplierDocTitle: latest.supplierDocTitle,
+    baselineDocTitle: latest.baselineDocTitle,
+    supplierDocUrl: latest.supplierDocUrl,
+    baselineDocUrl: latest.baselineDocUrl,
+    deviations: latest.deviations,
+    riskLevel: latest.riskLevel,
+    totalWeightedScore: latest.totalWeightedScore,
+    rulesVersion: latest.rulesVersion,
+    baseline: latest.baseline,
+    iterations,
+    updatedAt,
+  };
+}
+
+export async function createProject(input: ProjectInput): Promise<ProjectRow> {
+  const now = new Date().toISOString();
+  const first = buildIteration(1, input, now);
+  const base: ProjectRow = {
+    ...input,
+    id: randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    riskLevel: first.riskLevel,
+    totalWeightedScore: first.totalWeightedScore,
+  };
+  const project = withLatest(base, [first], now);
+
+  return projectsFile.update((projects) => ({
+    next: [...projects, project],
+    result: project,
+  }));
+}
+
+function replaceProject(
+  id: string,
+  fn: (project: ProjectRow, now: string) => ProjectRow
+): Promise<ProjectRow> {
+  return projectsFile.update((projects) => {
+    const idx = projects.findIndex((p) => p.id === id);
+    if (idx === -1) throw new NotFoundError(`Project ${id} not found`);
+
+    const updated = { ...fn(projects[idx], new Date().toISOString()), id };
+    const next = [...projects];
+    next[idx] = updated;
+    return { next, result: updated };
+  });
+}
+
+// Document and deviation changes apply to the latest iteration. Replacing the
+// deviations carries their reviews over and re-runs scoring, so the risk
+// fields never drift from the rows they summarise. Pointing the run at another
+// baseline document drops its library pin.
+export async function updateProject(id: string, patch: Partial<ProjectInput>): Promise<ProjectRow> {
+  return replaceProject(id, (project, now) => {
+    const { username, projectName, supplierId, ...runPatch } = patch;
+    const iterations = [...projectIterations(project)];
+    const latest = iterations[iterations.length - 1];
+    const unpinned =
+      runPatch.baselineDocUrl !== undefined && runPatch.baselineDocUrl !== latest.baselineDocUrl;
+    iterations[iterations.length - 1] = {
+      ...latest,
+      ...runPatch,
+      ...(unpinned ? { baseline: undefined } : {}),
+      ...(runPatch.deviations
+        ? scoreProject(withDeviationIds(carryReviews(latest.deviations, runPatch.deviations)))
+        : {}),
+    };
+    return withLatest(
+      {
+        ...project,
+        username: username ?? project.username,
+        projectName: projectName ?? project.projectName,
+        supplierId: supplierId ?? project.supplierId,
+      },
+      iterations,
+      now
+    );
+  });
+}
+
+// Appends a new run (e.g. the supplier's next redline) and makes it current.
+export async function addIteration(id: string, input: IterationInput): Promise<ProjectRow> {
+  return replaceProject(id, (project, now) => {
+    const iterations = projectIterations(project);
+    const run = buildIteration(iterations.length + 1, input, now);
+    return withLatest(project, [...iterations, run], now);
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              DEVIATION REVIEWS                             */
+/* -------------------------------------------------------------------------- */
+
+export type ReviewPatch = { status?: ReviewStatus; assignee?: string | null };
+
+export type CommentInput = { author: string; body: string; parentId?: string };
+
+// Reviews belong to rows of the latest iteration and never change scoring.
+function updateReview(
+  projectId: string,
+  devId: string,
+  fn: (review: DeviationReview, now: string) => DeviationReview
+): Promise<ProjectRow> {
+  return replaceProject(projectId, (project, now) => {
+    const iterations = [...projectIterations(project)];
+    const latest = iterations[iterations.length - 1];
+    const idx = latest.deviations.findIndex((d, i) => deviationId(d, i) === devId);
+    if (idx === -1) throw new NotFoundError(`Deviation ${devId} not found`);
+
+    const deviations = [...latest.deviations];
+    const dev = deviations[idx];
+    deviations[idx] = { ...dev, id: devId, review: fn(reviewOf(dev), now) };
+    iterations[iterations.length - 1] = { ...latest, deviations };
+    return withLatest(project, iterations, now);
+  });
+}
+
+export async function updateDeviationReview(
+  projectId: string,
+  devId: string,
+  patch: ReviewPatch
+): Promise<ProjectRow> {
+  return updateReview(projectId, devId, (review, now) => ({ ...review, ...patch, updatedAt: now }));
+}
+
+export async function addDeviationComment(
+  projectId: string,
+  devId: string,
+  input: CommentInput
+): Promise<ProjectRow> {
+  return updateReview(projectId, devId, (review, now) => {
+    if (input.parentId && !review.comments.some((c) => c.id === input.parentId)) {
+      throw new ValidationError(`Comment ${input.parentId} not found on this deviation`);
+    }
+    const comment: ReviewComment = {
+      id: randomUUID(),
+      author: input.author,
+      body: input.body,
+      createdAt: now,
+      ...(input.parentId ? { parentId: input.parentId } : {}),
+    };
+    return { ...review, comments: [...review.comments, comment], updatedAt: now };
+  });
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  return projectsFile.update((projects) => {
+    if (!projects.some((p) => p.id === id)) throw new NotFoundError(`Project ${id} not found`);
+    return { next: projects.filter((p) => p.id !== id), result: undefined };
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               INPUT VALIDATION                             */
+/* -------------------------------------------------------------------------- */
+
+const RISK_LEVELS: readonly RiskLevel[] = ["Low", "Medium", "High"];
+const CLAUSE_CHANGES: readonly ClauseChange[] = ["modified", "missing", "added", "moved"];
+
+function requireString(body: Record<string, unknown>, key: string): string {
+  const value = body[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new ValidationError(`"${key}" must be a non-empty string`);
+  }
+  return value;
+}
+
+function requireNumber(body: Record<string, unknown>, key: string): number {
+  const value = body[key];
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ValidationError(`"${key}" must be a number`);
+  }
+  return value;
+}
+
+function requireRiskLevel(body: Record<string, unknown>, key: string): RiskLevel {
+  const value = body[key];
+  if (!RISK_LEVELS.includes(value as RiskLevel)) {
+    throw new ValidationError(`"${key}" must be one of ${RISK_LEVELS.join(", ")}`);
+  }
+  return value as RiskLevel;
+}
+
+function parseAnchor(raw: unknown, label: string): DocumentAnchor {
+  const body = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  if (
+    typeof body.clauseId !== "string" ||
+    typeof body.anchor !== "string" ||
+    typeof body.paragraphIndex !== "number"
+  ) {
+    throw new ValidationError(`${label} must have clauseId, anchor and paragraphIndex`);
+  }
+  return { clauseId: body.clauseId, anchor: body.anchor, paragraphIndex: body.paragraphIndex };
+}
+
+// Accepted so rows keep their provenance (and model rows their score) when
+// they round-trip through PATCH.
+function parseProvenance(raw: unknown, label: string): AnalysisProvenance {
+  const body = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const { providerId, kind, version, model } = body;
+  if (
+    typeof providerId !== "string" ||
+    (kind !== "rules" && kind !== "model") ||
+    typeof version !== "string"
+  ) {
+    throw new ValidationError(`${label} must have providerId, kind and version`);
+  }
+  return { providerId, kind, version, ...(typeof model === "string" ? { model } : {}) };
+}
+
+function requireReviewStatus(body: Record<string, unknown>, key: string): ReviewStatus {
+  const value = body[key];
+  if (!REVIEW_STATUSES.includes(value as ReviewStatus)) {
+    throw new ValidationError(`"${key}" must be one of ${REVIEW_STATUSES.join(", ")}`);
+  }
+  return value as ReviewStatus;
+}
+
+function parseAssignee(body: Record<string, unknown>): string | null {
+  const value = body.assignee;
+  if (value === null || value === "") return null;
+  if (typeof value !== "string") throw new ValidationError(`"assignee" must be a string or null`);
+  return value.trim() || null;
+}
+
+function parseComment(raw: unknown, label: string): ReviewComment {
+  const body = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const { id, author, createdAt, parentId } = body;
+  if (
+    typeof id !== "string" ||
+    typeof author !== "string" ||
+    typeof body.body !== "string" ||
+    typeof createdAt !== "string"
+  ) {
+    throw new ValidationError(`${label} must have id, author, body and createdAt`);
+  }
+  const comment: ReviewComment = { id, author, body: body.body, createdAt };
+  if (typeof parentId === "string") comment.parentId = parentId;
+  return comment;
+}
+
+// Accepts a stored review so rows round-trip through PATCH unchanged.
+function parseReview(raw: unknown, label: string): DeviationReview {
+  if (!raw || typeof raw !== "object") throw new ValidationError(`${label} must be an object`);
+  const body = raw as Record<string, unknown>;
+  const comments = body.comments ?? [];
+  if (!Array.isArray(comments)) throw new ValidationError(`${label}.comments must be an array`);
+  return {
+    status: requireReviewStatus(body, "status"),
+    assignee: parseAssignee(body),
+    comments: comments.map((c, i) => parseComment(c, `${label}.comments[${i}]`)),
+    updatedAt: typeof body.updatedAt === "string" ? body.updatedAt : "",
+  };
+}
+
+function parseDeviation(raw: unknown, index: number): DeviationRow {
+  if (!raw || typeof raw !== "object") {
+    throw new ValidationError(`deviations[${index}] must be an object`);
+  }
+  const body = raw as Record<string, unknown>;
+  const row: DeviationRow = {
+    ...(typeof body.id === "string" && body.id ? { id: body.id } : {}),
+    clause: requireString(body, "clause"),
+    baseline: typeof body.baseline === "string" ? body.baseline : "",
+    supplier: typeof body.supplier === "string" ? body.supplier : "",
+    deviation: typeof body.deviation === "string" ? body.deviation : "",
+    // Recomputed by the scoring rules; accepted so rows round-trip unchanged.
+    riskLevel: "riskLevel" in body ? requireRiskLevel(body, "riskLevel") : "Low",
+    recommendation: typeof body.recommendation === "string" ? body.recommendation : "",
+    score: requireNumber(body, "score"),
+  };
+  if ("change" in body) {
+    if (!CLAUSE_CHANGES.includes(body.change as ClauseChange)) {
+      throw new ValidationError(
+        `deviations[${index}].change must be one of ${CLAUSE_CHANGES.join(", ")}`
+      );
+    }
+    row.change = body.change as ClauseChange;
+  }
+  if ("similarity" in body) row.similarity = requireNumber(body, "similarity");
+  for (const key of ["baselineAnchor", "supplierAnchor"] as const) {
+    if (body[key] != null) row[key] = parseAnchor(body[key], `deviations[${index}].${key}`);
+  }
+  if (body.provider != null) {
+    row.provider = parseProvenance(body.provider, `deviations[${index}].provider`);
+  }
+  if (body.review != null) row.review = parseReview(body.review, `deviations[${index}].review`);
+  return row;
+}
+
+function parseDeviations(body: Record<string, unknown>): DeviationRow[] {
+  const value = body.deviations ?? [];
+  if (!Array.isArray(value)) throw new ValidationError(`"deviations" must be an array`);
+  return value.map(parseDeviation);
+}
+
+// Validates a create request; every field of `ProjectInput` is required
+// except `deviations`, which defaults to an empty list.
+export function parseProjectInput(body: Record<string, unknown>): ProjectInput {
+  return {
+    username: requireString(body, "username"),
+    projectName: requireString(body, "projectName"),
+    supplierDocTitle: requireString(body, "supplierDocTitle"),
+    baselineDocTitle: requireString(body, "baselineDocTitle"),
+    supplierDocUrl: requireString(body, "supplierDocUrl"),
+    baselineDocUrl: requireString(body, "baselineDocUrl"),
+    deviations: parseDeviations(body),
+  };
+}
+
+// Validates an update request; only the fields present are checked and kept.
+export function parseProjectPatch(body: Record<string, unknown>): Partial<ProjectInput> {
+  const patch: Partial<ProjectInput> = {};
+
+  for (const key of [
+    "username",
+    "projectName",
+    "supplierDocTitle",
+    "baselineDocTitle",
+    "supplierDocUrl",
+    "baselineDocUrl",
+  ] as const) {
+    if (key in body) patch[key] = requireString(body, key);
+  }
+  if ("deviations" in body) patch.deviations = parseDeviations(body);
+
+  return patch;
+}
+
+// Validates a review update: { status?, assignee? }, at least one of them.
+export function parseReviewPatch(body: Record<string, unknown>): ReviewPatch {
+  const patch: ReviewPatch = {};
+  if ("status" in body) patch.status = requireReviewStatus(body, "status");
+  if ("assignee" in body) patch.assignee = parseAssignee(body);
+  if (Object.keys(patch).length === 0) {
+    throw new ValidationError(`Provide "status" and/or "assignee"`);
+  }
+  return patch;
+}
+
+// The author is the signed-in user, never taken from the body.
+export function parseCommentInput(body: Record<string, unknown>): Omit<CommentInput, "author"> {
+  const input: Omit<CommentInput, "author"> = { body: requireString(body, "body").trim() };
+  if ("parentId" in body && body.parentId != null) {
+    input.parentId = requireString(body, "parentId");
+  }
+  return input;
+}
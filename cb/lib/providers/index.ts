@@ -0,0 +1,84 @@
+import { deviationRow, type ClausePair } from "../compare";
+import type { DeviationRow } from "../types";
+import { localRulesProvider } from "./localRules";
+import { httpModelClient, modelProvider, stubModelClient } from "./model";
+import { provenanceOf, type AnalysisProvider, type ClauseAnalysis } from "./provider";
+
+/* -------------------------------------------------------------------------- */
+/*                     PROVIDER SELECTION + DEVIATION GENERATION              */
+/* -------------------------------------------------------------------------- */
+
+// CONTRACTBUDDY_ANALYSIS_PROVIDER picks the provider:
+//  - "local" (default): the rule-based provider
+//  - "model": an external model at CONTRACTBUDDY_MODEL_URL, named by
+//    CONTRACTBUDDY_MODEL_NAME, with CONTRACTBUDDY_MODEL_API_KEY if set
+//  - "model-stub": the model adapter with a canned local client
+
+export type { AnalysisProvider, ClauseAnalysis } from "./provider";
+export { localRulesProvider } from "./localRules";
+
+let configured: AnalysisProvider | null = null;
+
+function providerFromEnv(): AnalysisProvider {
+  const choice = process.env.CONTRACTBUDDY_ANALYSIS_PROVIDER ?? "local";
+  switch (choice) {
+    case "local":
+      return localRulesProvider;
+    case "model-stub":
+      return modelProvider(stubModelClient());
+    case "model": {
+      const url = process.env.CONTRACTBUDDY_MODEL_URL;
+      if (!url) throw new Error("CONTRACTBUDDY_MODEL_URL must be set for the model provider");
+      return modelProvider(
+        httpModelClient({
+          url,
+          model: process.env.CONTRACTBUDDY_MODEL_NAME ?? "default",
+          apiKey: process.env.CONTRACTBUDDY_MODEL_API_KEY,
+        })
+      );
+    }
+    default:
+      throw new Error(`Unknown CONTRACTBUDDY_ANALYSIS_PROVIDER "${choice}"`);
+  }
+}
+
+export function analysisProvider(): AnalysisProvider {
+  configured ??= providerFromEnv();
+  return configured;
+}
+
+// Replaces the configured provider, e.g. with a stubbed model in tests;
+// null goes back to the environment's choice.
+export function setAnalysisProvider(provider: AnalysisProvider | null): void {
+  configured = provider;
+}
+
+// One row per clause that differs; unchanged clauses produce no row. If a
+// model provider fails, that clause and the rest of the run fall back to the
+// local rules, and each row records which provider actually wrote it.
+// `onClause` hears how many changed clauses are done, before the first and
+// after each one.
+export async function generateDeviations(
+  pairs: ClausePair[],
+  provider = analysisProvider(),
+  onClause?: (done: number, total: number) => Promise<void>
+): Promise<DeviationRow[]> {
+  let current = provider;
+  const rows: DeviationRow[] = [];
+  const changed = pairs.filter((p) => p.changes.length > 0);
+  await onClause?.(0, changed.length);
+  for (const pair of changed) {
+    let analysis: ClauseAnalysis;
+    try {
+      analysis = await current.analyze(pair);
+    } catch (err) {
+      if (current === localRulesProvider) throw err;
+      console.warn(`Analysis provider ${current.id} failed; using local rules`, err);
+      current = localRulesProvider;
+      analysis = await current.analyze(pair);
+    }
+    rows.push(deviationRow(pair, analysis, provenanceOf(current)));
+    await onClause?.(rows.length, changed.length);
+  }
+  return rows;
+}
@@ -0,0 +1,86 @@
+import { clauseName, type ClausePair } from "../compare";
+import { scoreDeviation } from "../scoring";
+import { contentWords, truncate } from "../text";
+import { diffWords } from "../wordDiff";
+import type { AnalysisProvider } from "./provider";
+
+/* -------------------------------------------------------------------------- */
+/*                       LOCAL RULE-BASED ANALYSIS PROVIDER                   */
+/* -------------------------------------------------------------------------- */
+
+// Summaries come from a word diff of the two clauses; score, risk level and
+// recommendation from the risk rules and the playbook. Deterministic and
+// offline, so it is the default and the fallback for model providers.
+
+const SNIPPET_LENGTH = 60;
+
+function quote(text: string): string {
+  return `"${truncate(text.trim(), SNIPPET_LENGTH)}"`;
+}
+
+// Longest removed and inserted phrases, which usually carry the substance.
+function keyEdits(before: string, after: string): { removed?: string; added?: string } {
+  const parts = diffWords(before, after);
+  const longest = (op: "insert" | "delete") =>
+    parts
+      .filter((p) => p.op === op && contentWords(p.text).length > 0)
+      .sort((x, y) => y.text.length - x.text.length)[0]?.text;
+  return { removed: longest("delete"), added: longest("insert") };
+}
+
+function summarize(pair: ClausePair): string {
+  const { baseline, supplier, changes } = pair;
+  if (!supplier) return "Clause present in the baseline is missing from the supplier contract.";
+  if (!baseline) return "Clause added by the supplier; it has no counterpart in the baseline.";
+
+  const sentences: string[] = [];
+  if (changes.includes("modified")) {
+    const pct = Math.round(pair.similarity * 100);
+    sentences.push(`Wording differs from the baseline (${pct}% similar).`);
+    const { removed, added } = keyEdits(baseline.body, supplier.body);
+    if (removed) sentences.push(`Removed ${quote(removed)}.`);
+    if (added) sentences.push(`Added ${quote(added)}.`);
+  }
+  if (changes.includes("moved")) {
+    const where = supplier.numbering ? ` (now ${supplier.numbering})` : "";
+    sentences.push(`Clause moved to a different position${where}.`);
+  }
+  return sentences.join(" ");
+}
+
+function recommend(pair: ClausePair): string {
+  if (pair.changes.includes("missing")) return "Restore the baseline clause.";
+  if (pair.changes.includes("added")) {
+    return "Review the supplier addition; accept only if approved.";
+  }
+  if (pair.changes.includes("modified")) return "Align the supplier wording with the baseline.";
+  return "Confirm the change in clause order is intentional.";
+}
+
+export const localRulesProvider: AnalysisProvider = {
+  id: "local-rules",
+  label: "Local rules",
+  kind: "rules",
+  version: "1.0.0",
+  async analyze(pair) {
+    const scored = scoreDeviation({
+      clause: clauseName(pair),
+      baseline: pair.baseline?.body ?? "",
+      supplier: pair.supplier?.body ?? "",
+      deviation: summarize(pair),
+      riskLevel: "Low",
+      recommendation: recommend(pair),
+      score: 0,
+      change: pair.changes[0],
+      similarity: pair.similarity,
+    });
+    return {
+      deviation: scored.deviation,
+      riskLevel: scored.riskLevel,
+      score: scored.score,
+      recommendation: scored.recommendation,
+      category: scored.category,
+      playbook: scored.playbook,
+    };
+  },
+};
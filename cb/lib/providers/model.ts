@@ -0,0 +1,142 @@
+import { clauseName, type ClausePair } from "../compare";
+import { truncate } from "../text";
+import type { RiskLevel } from "../types";
+import type { AnalysisProvider, ClauseAnalysis } from "./provider";
+
+/* -------------------------------------------------------------------------- */
+/*                          EXTERNAL MODEL PROVIDER ADAPTER                   */
+/* -------------------------------------------------------------------------- */
+
+// Any text-completion model can be plugged in through a ModelClient. The
+// adapter owns the prompt and checks the reply, so clients only move text.
+
+export interface ModelClient {
+  model: string; // recorded on every row the model produces
+  complete(prompt: string): Promise<string>;
+}
+
+const RISK_LEVELS: readonly RiskLevel[] = ["Low", "Medium", "High"];
+// Long clauses are cut so one pair stays well inside a model's context.
+const CLAUSE_TEXT_LIMIT = 4000;
+
+function clauseText(text: string | undefined): string {
+  return text ? truncate(text, CLAUSE_TEXT_LIMIT) : "(not present)";
+}
+
+export function analysisPrompt(pair: ClausePair): string {
+  return [
+    "You review supplier contracts against a bank's baseline contract.",
+    `Clause: ${clauseName(pair)}`,
+    `Change detected: ${pair.changes.join(", ")}`,
+    "",
+    "Baseline clause:",
+    clauseText(pair.baseline?.body),
+    "",
+    "Supplier clause:",
+    clauseText(pair.supplier?.body),
+    "",
+    "Reply with one JSON object and nothing else:",
+    '{"deviation": "<one or two sentences on how the supplier clause departs from the baseline>",',
+    ' "riskLevel": "Low" | "Medium" | "High",',
+    ' "score": <clause risk score from 0 to 10>,',
+    ' "recommendation": "<what the reviewer should ask the supplier to change>"}',
+  ].join("\n");
+}
+
+// The first JSON object in the reply, checked field by field.
+export function parseAnalysisReply(reply: string): ClauseAnalysis {
+  const start = reply.indexOf("{");
+  const end = reply.lastIndexOf("}");
+  if (start === -1 || end < start) throw new Error("Model reply contains no JSON object");
+
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    throw new Error("Model reply is not valid JSON");
+  }
+  const { deviation, riskLevel, score, recommendation } = body;
+  if (typeof deviation !== "string" || !deviation.trim()) {
+    throw new Error(`Model reply has no "deviation"`);
+  }
+  if (!RISK_LEVELS.includes(riskLevel as RiskLevel)) {
+    throw new Error(`Model reply "riskLevel" must be one of ${RISK_LEVELS.join(", ")}`);
+  }
+  if (typeof score !== "number" || !Number.isFinite(score) || score < 0) {
+    throw new Error(`Model reply "score" must be a non-negative number`);
+  }
+  if (typeof recommendation !== "string" || !recommendation.trim()) {
+    throw new Error(`Model reply has no "recommendation"`);
+  }
+  return {
+    deviation: deviation.trim(),
+    riskLevel: riskLevel as RiskLevel,
+    score: Math.round(score * 10) / 10,
+    recommendation: recommendation.trim(),
+  };
+}
+
+export function modelProvider(client: ModelClient): AnalysisProvider {
+  return {
+    id: "external-model",
+    label: `Model (${client.model})`,
+    kind: "model",
+    version: "1.0.0",
+    model: client.model,
+    async analyze(pair) {
+      return parseAnalysisReply(await client.complete(analysisPrompt(pair)));
+    },
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 MODEL CLIENTS                              */
+/* -------------------------------------------------------------------------- */
+
+const REQUEST_TIMEOUT_MS = 60_000;
+
+// POSTs { model, prompt } as JSON and expects { text } back; put a small
+// gateway in front of any other API shape.
+export function httpModelClient(options: {
+  url: string;
+  model: string;
+  apiKey?: string;
+}): ModelClient {
+  return {
+    model: options.model,
+    async complete(prompt) {
+      const res = await fetch(options.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: options.model, prompt }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`Model endpoint answered ${res.status}`);
+      const body = (await res.json()) as { text?: unknown };
+      if (typeof body.text !== "string") throw new Error(`Model endpoint reply has no "text"`);
+      return body.text;
+    },
+  };
+}
+
+// Answers without a network call: the same prompt always gets the same
+// reply. Stands in for a real model in development and tests.
+export function stubModelClient(): ModelClient {
+  return {
+    model: "stub",
+    async complete(prompt) {
+      const clause = /^Clause: (.*)$/m.exec(prompt)?.[1] ?? "this clause";
+      const change = /^Change detected: (.*)$/m.exec(prompt)?.[1] ?? "modified";
+      const missing = change.includes("missing");
+      return JSON.stringify({
+        deviation: `Stub model: ${clause} is ${change} compared with the baseline.`,
+        riskLevel: missing ? "High" : "Medium",
+        score: missing ? 6 : 3,
+        recommendation: `Stub model: review ${clause} against the baseline.`,
+      });
+    },
+  };
+}
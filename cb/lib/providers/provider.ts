@@ -0,0 +1,44 @@
+import type { ClausePair } from "../compare";
+import type { AnalysisProvenance, PlaybookMatch, RiskLevel } from "../types";
+
+/* -------------------------------------------------------------------------- */
+/*                          ANALYSIS PROVIDER INTERFACE                       */
+/* -------------------------------------------------------------------------- */
+
+// Alignment decides which clauses differ; a provider then explains each
+// difference. Providers only see one aligned pair at a time.
+
+export interface ClauseAnalysis {
+  deviation: string; // summary shown in the Deviation column
+  riskLevel: RiskLevel;
+  score: number; // clause-level risk score, on the risk rules' scale
+  recommendation: string;
+  category?: string; // risk category, when the provider knows it
+  playbook?: PlaybookMatch;
+}
+
+export interface AnalysisProvider {
+  id: string;
+  label: string; // shown next to the rows it produced
+  kind: AnalysisProvenance["kind"];
+  version: string;
+  model?: string;
+  // Only called for pairs whose `changes` is non-empty.
+  analyze(pair: ClausePair): Promise<ClauseAnalysis>;
+}
+
+export function provenanceOf(provider: AnalysisProvider): AnalysisProvenance {
+  return {
+    providerId: provider.id,
+    kind: provider.kind,
+    version: provider.version,
+    ...(provider.model ? { model: provider.model } : {}),
+  };
+}
+
+// "Local rules v1.0.0", "Model gpt-x (external-model v1.0.0)".
+export function provenanceLabel(provenance: AnalysisProvenance): string {
+  const version = `${provenance.providerId} v${provenance.version}`;
+  if (provenance.kind === "model") return `Model ${provenance.model ?? "?"} (${version})`;
+  return provenance.providerId === "local-rules" ? `Local rules v${provenance.version}` : version;
+}
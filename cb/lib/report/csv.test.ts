@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { csvLine } from "./csv";
+
+describe("csvLine", () => {
+  it("quotes every field and doubles embedded quotes", () => {
+    expect(csvLine(["a", 'say "no"', "x,y", ""])).toBe('"a","say ""no""","x,y",""');
+  });
+
+  it("keeps cells that would start a spreadsheet formula as text", () => {
+    expect(csvLine(["=1+2", "+1", "-1", "@SUM(A1)", "\tx", "\rx"])).toBe(
+      `"'=1+2","'+1","'-1","'@SUM(A1)","'\tx","'\rx"`
+    );
+    expect(csvLine(['=HYPERLINK("http://x")'])).toBe(`"'=HYPERLINK(""http://x"")"`);
+  });
+
+  it("leaves the same characters alone later in a cell", () => {
+    expect(csvLine(["a=b", "1-2", "x@y.com"])).toBe('"a=b","1-2","x@y.com"');
+  });
+});
@@ -0,0 +1,20 @@
+import { REPORT_COLUMNS, type RiskReport } from "./reportData";
+
+// Spreadsheets run a cell that starts with one of these as a formula, so such
+// text (a clause quoting "=HYPERLINK(...)", a username like "@admin") gets a
+// leading apostrophe and stays text.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// RFC 4180: quote every field, double embedded quotes, CRLF line endings.
+export function csvLine(fields: readonly string[]): string {
+  return fields
+    .map((f) => (FORMULA_START.test(f) ? `'${f}` : f))
+    .map((f) => `"${f.replace(/"/g, '""')}"`)
+    .join(",");
+}
+
+// The deviation rows only; the BOM makes Excel read the file as UTF-8.
+export function renderReportCsv(report: RiskReport): string {
+  const lines = [csvLine(REPORT_COLUMNS), ...report.rows.map(csvLine)];
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
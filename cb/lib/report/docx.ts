@@ -0,0 +1,150 @@
+import JSZip from "jszip";
+import { escapeXml } from "../docx/xml";
+import type { RiskLevel } from "../types";
+import { REPORT_COLUMNS, summaryFields, type RiskReport } from "./reportData";
+
+/* -------------------------------------------------------------------------- */
+/*                          DOCX RISK SUMMARY REPORT                          */
+/* -------------------------------------------------------------------------- */
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const XML_HEADER = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`;
+
+// A4 landscape with half-inch margins, in twentieths of a point.
+const PAGE = { width: 16838, height: 11906, margin: 720 };
+const CONTENT_WIDTH = PAGE.width - 2 * PAGE.margin;
+
+const RISK_FILLS: Record<RiskLevel, string> = { High: "FECACA", Medium: "FDE68A", Low: "A7F3D0" };
+
+type RunStyle = { bold?: boolean; size?: number; color?: string };
+
+function run(text: string, style: RunStyle = {}): string {
+  const props = [
+    style.bold ? "<w:b/>" : "",
+    style.color ? `<w:color w:val="${style.color}"/>` : "",
+    style.size ? `<w:sz w:val="${style.size * 2}"/>` : "",
+  ].join("");
+  const lines = text
+    .split("\n")
+    .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`);
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}${lines.join("<w:br/>")}</w:r>`;
+}
+
+function paragraph(content: string, spacingAfter = 120): string {
+  return `<w:p><w:pPr><w:spacing w:after="${spacingAfter}"/></w:pPr>${content}</w:p>`;
+}
+
+function cell(content: string, width: number, fill?: string): string {
+  const shading = fill ? `<w:shd w:val="clear" w:color="auto" w:fill="${fill}"/>` : "";
+  return (
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${shading}</w:tcPr>` +
+    `${paragraph(content, 0)}</w:tc>`
+  );
+}
+
+type TableRow = { cells: string[]; fills?: (string | undefined)[] };
+
+function table(rows: TableRow[], widths: number[]): string {
+  const border = `w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"`;
+  const borders = ["top", "left", "bottom", "right", "insideH", "insideV"]
+    .map((side) => `<w:${side} ${border}/>`)
+    .join("");
+  const grid = widths.map((w) => `<w:gridCol w:w="${w}"/>`).join("");
+  const body = rows
+    .map((row, r) => {
+      // The first row is a header and repeats on every page.
+      const header = r === 0 ? `<w:trPr><w:tblHeader/></w:trPr>` : "";
+      const cells = row.cells.map((c, i) => cell(c, widths[i], row.fills?.[i])).join("");
+      return `<w:tr>${header}${cells}</w:tr>`;
+    })
+    .join("");
+  return (
+    `<w:tbl><w:tblPr><w:tblW w:w="${widths.reduce((a, b) => a + b, 0)}" w:type="dxa"/>` +
+    `<w:tblBorders>${borders}</w:tblBorders><w:tblLayout w:type="fixed"/></w:tblPr>` +
+    `<w:tblGrid>${grid}</w:tblGrid>${body}</w:tbl>`
+  );
+}
+
+function heading(text: string): string {
+  return paragraph(run(text, { bold: true, size: 12, color: "065F46" }), 80);
+}
+
+export async function renderReportDocx(report: RiskReport): Promise<ArrayBuffer> {
+  const small = (text: string, bold = false) => run(text, { size: 8, bold });
+
+  const summary = table(
+    summaryFields(report).map(([label, value]) => ({
+      cells: [run(label, { bold: true, size: 9 }), run(value, { size: 9 })],
+    })),
+    [3200, CONTENT_WIDTH - 3200]
+  );
+
+  const distribution = table(
+    [
+      { cells: ["Clause", "Risk Level", "Score", "Share"].map((h) => small(h, true)) },
+      ...report.distribution.map((d) => ({
+        cells: [
+          small(d.clause),
+          small(d.riskLevel),
+          small(d.score.toFixed(1)),
+          small(`${Math.round(d.share * 100)}%`),
+        ],
+        fills: [undefined, RISK_FILLS[d.riskLevel]],
+      })),
+    ],
+    [7000, 2000, 1500, 1500]
+  );
+
+  // Clause, risk, score, then the wide text columns, then review state.
+  const widths = [1500, 1000, 700, 2600, 2600, 2200, 2200, 1400, 1198];
+  const deviations = table(
+    [
+      { cells: REPORT_COLUMNS.map((h) => small(h, true)), fills: widths.map(() => "F3F4F6") },
+      ...report.rows.map((row) => ({
+        cells: row.map((value, i) => small(value, i === 0)),
+        fills: [undefined, RISK_FILLS[row[1] as RiskLevel]],
+      })),
+    ],
+    widths
+  );
+
+  const body = [
+    paragraph(run(report.title, { bold: true, size: 18, color: "007C41" }), 60),
+    paragraph(run(`${report.riskLabel} · ${report.status}`, { bold: true, size: 11 }), 200),
+    summary,
+    paragraph("", 200),
+    heading("Risk Distribution"),
+    report.distribution.length > 0 ? distribution : paragraph(run("No deviations.", { size: 9 })),
+    paragraph("", 200),
+    heading("Deviation Details"),
+    report.rows.length > 0 ? deviations : paragraph(run("No deviations.", { size: 9 })),
+    paragraph("", 0), // Word expects the body to end with a paragraph
+  ].join("");
+
+  const sectPr =
+    `<w:sectPr><w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}" w:orient="landscape"/>` +
+    `<w:pgMar w:top="${PAGE.margin}" w:right="${PAGE.margin}" w:bottom="${PAGE.margin}" ` +
+    `w:left="${PAGE.margin}" w:header="360" w:footer="360" w:gutter="0"/></w:sectPr>`;
+
+  const zip = new JSZip();
+  zip.file(
+    "[Content_Types].xml",
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+      `<Default Extension="xml" ContentType="application/xml"/>` +
+      `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>` +
+      `</Types>`
+  );
+  zip.file(
+    "_rels/.rels",
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>` +
+      `</Relationships>`
+  );
+  zip.file(
+    "word/document.xml",
+    `${XML_HEADER}<w:document xmlns:w="${W_NS}"><w:body>${body}${sectPr}</w:body></w:document>`
+  );
+
+  return zip.generateAsync({ type: "arraybuffer", compression: "DEFLATE" });
+}
@@ -0,0 +1,131 @@
+import type { RiskLevel } from "../types";
+import { PdfDocument, wrapText, type Rgb } from "./pdfWriter";
+import { REPORT_COLUMNS, summaryFields, type RiskReport } from "./reportData";
+
+/* -------------------------------------------------------------------------- */
+/*                           PDF RISK SUMMARY REPORT                          */
+/* -------------------------------------------------------------------------- */
+
+// A4 landscape, in points.
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const BOTTOM = PAGE_HEIGHT - MARGIN - 14; // leaves room for the footer
+
+const TD_GREEN: Rgb = [0, 0.486, 0.255];
+const GREY_TEXT: Rgb = [0.4, 0.4, 0.4];
+const HEADER_FILL: Rgb = [0.95, 0.96, 0.96];
+const BORDER: Rgb = [0.82, 0.84, 0.86];
+const BAR_TRACK: Rgb = [0.95, 0.95, 0.95];
+const RISK_COLOURS: Record<RiskLevel, Rgb> = {
+  High: [0.94, 0.27, 0.27],
+  Medium: [0.96, 0.62, 0.04],
+  Low: [0.06, 0.73, 0.51],
+};
+
+// Deviation table columns, in REPORT_COLUMNS order; they fill the width
+// between the margins.
+const COLUMN_WIDTHS = [80, 45, 32, 132, 132, 115, 115, 70, 49];
+const TABLE_SIZE = 7;
+const LINE = 8.5;
+const PADDING = 3;
+const RISK_SWATCH = 8; // coloured square before the risk level
+// Longer cells are cut so a single row always fits on one page.
+const MAX_CELL_LINES = 40;
+
+export function renderReportPdf(report: RiskReport): ArrayBuffer {
+  const pdf = new PdfDocument(PAGE_WIDTH, PAGE_HEIGHT);
+  let page = pdf.addPage();
+  let y = MARGIN;
+
+  const ensureSpace = (height: number): boolean => {
+    if (y + height <= BOTTOM) return false;
+    page = pdf.addPage();
+    y = MARGIN;
+    return true;
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(30);
+    y += 8;
+    pdf.text(page, MARGIN, y, text, 11, { bold: true, colour: TD_GREEN });
+    y += 18;
+  };
+
+  // Title + summary
+  pdf.text(page, MARGIN, y, report.title, 16, { bold: true, colour: TD_GREEN });
+  y += 24;
+  pdf.text(page, MARGIN, y, `${report.riskLabel} · ${report.status}`, 10, { bold: true });
+  y += 18;
+  for (const [label, value] of summaryFields(report)) {
+    pdf.text(page, MARGIN, y, label, 8, { bold: true, colour: GREY_TEXT });
+    pdf.text(page, MARGIN + 120, y, value, 8);
+    y += 11;
+  }
+
+  // Risk distribution bars
+  heading("Risk Distribution");
+  if (report.distribution.length === 0) {
+    pdf.text(page, MARGIN, y, "No deviations.", 8, { colour: GREY_TEXT });
+    y += 12;
+  }
+  const barX = MARGIN + 220;
+  const barWidth = 360;
+  for (const d of report.distribution) {
+    ensureSpace(12);
+    pdf.text(page, MARGIN, y, wrapText(d.clause, 210, 8)[0], 8);
+    pdf.rect(page, barX, y + 1, barWidth, 6, BAR_TRACK);
+    const filled = Math.max(1, barWidth * Math.min(d.share, 1));
+    pdf.rect(page, barX, y + 1, filled, 6, RISK_COLOURS[d.riskLevel]);
+    pdf.text(page, barX + barWidth + 8, y, `${d.score.toFixed(1)} (${d.riskLevel})`, 8);
+    y += 12;
+  }
+
+  // Deviation table, header repeated on each page
+  heading("Deviation Details");
+  const drawRow = (cells: readonly string[], header: boolean) => {
+    const lines = cells.map((text, i) => {
+      const indent = !header && i === 1 ? RISK_SWATCH : 0;
+      const width = COLUMN_WIDTHS[i] - 2 * PADDING - indent;
+      const wrapped = wrapText(text, width, TABLE_SIZE, header || i === 0);
+      return wrapped.length > MAX_CELL_LINES
+        ? [...wrapped.slice(0, MAX_CELL_LINES - 1), "…"]
+        : wrapped;
+    });
+    const height = Math.max(...lines.map((l) => l.length)) * LINE + 2 * PADDING;
+    if (ensureSpace(height) && !header) drawRow(REPORT_COLUMNS, true);
+
+    let x = MARGIN;
+    lines.forEach((cellLines, i) => {
+      const width = COLUMN_WIDTHS[i];
+      if (header) pdf.rect(page, x, y, width, height, HEADER_FILL);
+      if (!header && i === 1) {
+        pdf.rect(page, x + PADDING, y + PADDING, 5, 5, RISK_COLOURS[cells[1] as RiskLevel]);
+      }
+      pdf.strokeRect(page, x, y, width, height, BORDER);
+      cellLines.forEach((line, n) => {
+        const indent = !header && i === 1 ? RISK_SWATCH : 0;
+        pdf.text(page, x + PADDING + indent, y + PADDING + n * LINE, line, TABLE_SIZE, {
+          bold: header || i === 0,
+        });
+      });
+      x += width;
+    });
+    y += height;
+  };
+
+  if (report.rows.length === 0) {
+    pdf.text(page, MARGIN, y, "No deviations.", 8, { colour: GREY_TEXT });
+  } else {
+    drawRow(REPORT_COLUMNS, true);
+    report.rows.forEach((row) => drawRow(row, false));
+  }
+
+  // Footers once the page count is known.
+  for (let p = 0; p < pdf.pageCount; p++) {
+    const footer = `${report.projectName} · Page ${p + 1} of ${pdf.pageCount}`;
+    pdf.text(p, MARGIN, PAGE_HEIGHT - MARGIN, footer, 7, { colour: GREY_TEXT });
+  }
+
+  return pdf.toArrayBuffer();
+}
@@ -0,0 +1,184 @@
+/* -------------------------------------------------------------------------- */
+/*                        MINIMAL PDF WRITER (TEXT + RECTS)                   */
+/* -------------------------------------------------------------------------- */
+
+// Just enough PDF 1.4 for tabular reports: the built-in Helvetica fonts with
+// WinAnsi encoding, filled rectangles and word-wrapped text. Nothing is
+// embedded, so the output is plain ASCII and small.
+
+export type Rgb = [number, number, number]; // 0-1 per channel
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, from the standard AFM.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Helvetica-Bold runs wider; scaling keeps wrapping conservative without a
+// second table.
+const BOLD_FACTOR = 1.1;
+
+// Characters outside Latin-1 that WinAnsi still has a code for. Also used to
+// decode text in uploaded PDFs (lib/pdf).
+export const WIN_ANSI: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+};
+
+function encodeChar(ch: string): number {
+  if (WIN_ANSI[ch]) return WIN_ANSI[ch];
+  if (ch === "‑" || ch === "‐") return 0x2d; // non-breaking hyphens
+  const code = ch.codePointAt(0)!;
+  if (code >= 0x20 && code <= 0x7e) return code;
+  if (code >= 0xa0 && code <= 0xff) return code;
+  return 0x3f; // "?"
+}
+
+export function textWidth(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (const ch of text) {
+    const code = encodeChar(ch);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units / 1000) * size * (bold ? BOLD_FACTOR : 1);
+}
+
+// Greedy word wrap; words longer than a line are broken by character.
+export function wrapText(text: string, width: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = "";
+      let rest = word;
+      while (textWidth(rest, size, bold) > width) {
+        let n = rest.length - 1;
+        while (n > 1 && textWidth(rest.slice(0, n), size, bold) > width) n--;
+        lines.push(rest.slice(0, n));
+        rest = rest.slice(n);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function pdfString(text: string): string {
+  let out = "(";
+  for (const ch of text) {
+    const code = encodeChar(ch);
+    if (code === 0x28 || code === 0x29 || code === 0x5c) out += `\\${ch}`;
+    else if (code > 0x7e) out += `\\${code.toString(8).padStart(3, "0")}`;
+    else out += String.fromCharCode(code);
+  }
+  return `${out})`;
+}
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+const colour = ([r, g, b]: Rgb) => `${num(r)} ${num(g)} ${num(b)}`;
+
+// Coordinates are in points from the top-left corner; the writer flips them
+// to PDF's bottom-left origin.
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(
+    readonly width: number,
+    readonly height: number
+  ) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): number {
+    this.pages.push([]);
+    return this.pages.length - 1;
+  }
+
+  private ops(page: number): string[] {
+    return this.pages[page];
+  }
+
+  text(
+    page: number,
+    x: number,
+    y: number,
+    text: string,
+    size: number,
+    opts: { bold?: boolean; colour?: Rgb } = {}
+  ): void {
+    const font = opts.bold ? "F2" : "F1";
+    this.ops(page).push(
+      `BT ${colour(opts.colour ?? [0.1, 0.1, 0.1])} rg /${font} ${num(size)} Tf ` +
+        `${num(x)} ${num(this.height - y - size)} Td ${pdfString(text)} Tj ET`
+    );
+  }
+
+  rect(page: number, x: number, y: number, w: number, h: number, fill: Rgb): void {
+    this.ops(page).push(
+      `${colour(fill)} rg ${num(x)} ${num(this.height - y - h)} ${num(w)} ${num(h)} re f`
+    );
+  }
+
+  strokeRect(page: number, x: number, y: number, w: number, h: number, stroke: Rgb): void {
+    this.ops(page).push(
+      `0.5 w ${colour(stroke)} RG ${num(x)} ${num(this.height - y - h)} ${num(w)} ${num(h)} re S`
+    );
+  }
+
+  toArrayBuffer(): ArrayBuffer {
+    // 1 catalog, 2 page tree, 3-4 fonts, then a page + content pair per page.
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+    objects[1] = `<< /Type /Catalog /Pages 2 0 R >>`;
+    const kids = pageIds.map((id) => `${id} 0 R`).join(" ");
+    objects[2] = `<< /Type /Pages /Kids [${kids}] /Count ${pageIds.length} >>`;
+    const font = (name: string) =>
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`;
+    objects[3] = font("Helvetica");
+    objects[4] = font("Helvetica-Bold");
+    this.pages.forEach((ops, i) => {
+      const content = ops.join("\n");
+      objects[pageIds[i]] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+      objects[pageIds[i] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    let out = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = out.length;
+      out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xref = out.length;
+    out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      out += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+    }
+    out += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    // Every byte is ASCII: text above 0x7e is written as octal escapes.
+    return new TextEncoder().encode(out).buffer as ArrayBuffer;
+  }
+}
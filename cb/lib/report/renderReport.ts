@@ -0,0 +1,40 @@
+import type { ProjectRow } from "../types";
+import { renderReportCsv } from "./csv";
+import { renderReportDocx } from "./docx";
+import { renderReportPdf } from "./pdf";
+import { buildRiskReport, reportFileName, type ReportFormat } from "./reportData";
+import { renderReportXlsx } from "./xlsx";
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export interface RenderedReport {
+  fileName: string;
+  contentType: string;
+  body: ArrayBuffer | string;
+}
+
+// PDF and DOCX carry the whole summary; CSV and XLSX are meant for the rows
+// (XLSX adds the summary on its own sheet).
+export async function renderReport(
+  project: ProjectRow,
+  format: ReportFormat
+): Promise<RenderedReport> {
+  const report = buildRiskReport(project);
+  const render = {
+    pdf: () => renderReportPdf(report),
+    docx: () => renderReportDocx(report),
+    csv: () => renderReportCsv(report),
+    xlsx: () => renderReportXlsx(report),
+  }[format];
+
+  return {
+    fileName: reportFileName(report, format),
+    contentType: CONTENT_TYPES[format],
+    body: await render(),
+  };
+}
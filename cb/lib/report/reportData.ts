@@ -0,0 +1,119 @@
+import { pinLabel } from "../baselines";
+import { projectStatus, reviewOf, reviewStatusLabels } from "../review";
+import { bandFor, bandLabels } from "../scoring";
+import type { ProjectRow, RiskLevel } from "../types";
+
+/* -------------------------------------------------------------------------- */
+/*                  RISK SUMMARY REPORT (FORMAT-INDEPENDENT DATA)             */
+/* -------------------------------------------------------------------------- */
+
+// Everything the Risk Summary & Deviation Details modal shows, flattened so
+// each export format only has to lay it out.
+
+export const REPORT_FORMATS = ["pdf", "docx", "csv", "xlsx"] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface ReportDistributionRow {
+  clause: string;
+  riskLevel: RiskLevel;
+  score: number;
+  share: number; // 0-1 share of the summed clause scores
+}
+
+export const REPORT_COLUMNS = [
+  "Clause",
+  "Risk Level",
+  "Score",
+  "TD Baseline Standard",
+  "Supplier Contract",
+  "Deviation Summary",
+  "Recommendation",
+  "Review Status",
+  "Assignee",
+] as const;
+
+export interface RiskReport {
+  title: string;
+  projectName: string;
+  username: string;
+  supplierDocTitle: string;
+  baselineDocTitle: string;
+  baselineVersion: string | null; // library version the run was pinned to
+  iteration: number;
+  generatedAt: string; // ISO timestamp
+  riskLabel: string; // e.g. "Medium Risk"
+  status: string; // derived review status, e.g. "Legal Review Required"
+  totalWeightedScore: number;
+  band: string; // e.g. "Medium: 1–3"
+  rulesVersion: string | null;
+  distribution: ReportDistributionRow[];
+  rows: string[][]; // one entry per deviation, in REPORT_COLUMNS order
+}
+
+export function buildRiskReport(project: ProjectRow, generatedAt = new Date()): RiskReport {
+  const total = project.deviations.reduce((sum, d) => sum + d.score, 0) || 1;
+  const status = projectStatus(project.deviations);
+
+  return {
+    title: `Risk Summary – ${project.projectName}`,
+    projectName: project.projectName,
+    username: project.username,
+    supplierDocTitle: project.supplierDocTitle,
+    baselineDocTitle: project.baselineDocTitle,
+    baselineVersion: project.baseline
+      ? `${pinLabel(project.baseline)} (effective ${project.baseline.effectiveDate})`
+      : null,
+    iteration: project.iterations?.length ?? 1,
+    generatedAt: generatedAt.toISOString(),
+    riskLabel: `${project.riskLevel} Risk`,
+    status: `${status.label} (${status.detail})`,
+    totalWeightedScore: project.totalWeightedScore,
+    band: bandLabels()[bandFor(project.totalWeightedScore)],
+    rulesVersion: project.rulesVersion ?? null,
+    distribution: project.deviations.map((d) => ({
+      clause: d.clause,
+      riskLevel: d.riskLevel,
+      score: d.score,
+      share: d.score / total,
+    })),
+    rows: project.deviations.map((d) => {
+      const review = reviewOf(d);
+      return [
+        d.clause,
+        d.riskLevel,
+        d.score.toFixed(1),
+        d.baseline,
+        d.supplier,
+        d.deviation,
+        d.recommendation,
+        reviewStatusLabels[review.status],
+        review.assignee ?? "",
+      ];
+    }),
+  };
+}
+
+// Label/value pairs of the summary card, shared by the document formats.
+export function summaryFields(report: RiskReport): [string, string][] {
+  return [
+    ["Project", report.projectName],
+    ["Submitted by", report.username],
+    ["Supplier document", report.supplierDocTitle],
+    ["Baseline document", report.baselineDocTitle],
+    ...(report.baselineVersion
+      ? [["Baseline version", report.baselineVersion] as [string, string]]
+      : []),
+    ["Iteration", String(report.iteration)],
+    ["Risk", report.riskLabel],
+    ["Total weighted score", report.totalWeightedScore.toFixed(2)],
+    ["Band", report.band],
+    ["Status", report.status],
+    ...(report.rulesVersion ? [["Scoring rules", `v${report.rulesVersion}`] as [string, string]] : []),
+    ["Generated", report.generatedAt.replace("T", " ").replace(/\.\d+Z$/, " UTC")],
+  ];
+}
+
+export function reportFileName(report: RiskReport, format: ReportFormat): string {
+  const base = report.projectName.replace(/[\\/:*?"<>|]+/g, "-").trim() || "project";
+  return `${base} - risk summary.${format}`;
+}
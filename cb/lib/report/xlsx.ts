@@ -0,0 +1,119 @@
+import JSZip from "jszip";
+import { escapeXml } from "../docx/xml";
+import { REPORT_COLUMNS, summaryFields, type RiskReport } from "./reportData";
+
+/* -------------------------------------------------------------------------- */
+/*                        XLSX (SUMMARY + DEVIATIONS SHEETS)                  */
+/* -------------------------------------------------------------------------- */
+
+// A minimal SpreadsheetML package built by hand: inline strings instead of a
+// shared string table, and one bold style for header cells.
+
+const SHEET_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PKG_REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+const XML_HEADER = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`;
+
+type Cell = string | number;
+
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellXml(value: Cell, ref: string, bold: boolean): string {
+  const style = bold ? ` s="1"` : "";
+  if (typeof value === "number") return `<c r="${ref}"${style}><v>${value}</v></c>`;
+  const text = escapeXml(value);
+  return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+function sheetXml(rows: Cell[][], widths: number[], boldFirst: "row" | "column"): string {
+  const cols = widths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}"/>`).join("");
+  const body = rows
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) => {
+          const bold = boldFirst === "row" ? r === 0 : c === 0;
+          return cellXml(value, `${columnName(c)}${r + 1}`, bold);
+        })
+        .join("");
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join("");
+  return `${XML_HEADER}<worksheet xmlns="${SHEET_NS}"><cols>${cols}</cols><sheetData>${body}</sheetData></worksheet>`;
+}
+
+export async function renderReportXlsx(report: RiskReport): Promise<ArrayBuffer> {
+  const summary: Cell[][] = [
+    ...summaryFields(report).map(([label, value]): Cell[] => [label, value]),
+    [],
+    ["Risk distribution", "Risk Level", "Score", "Share"],
+    ...report.distribution.map((d): Cell[] => [
+      d.clause,
+      d.riskLevel,
+      d.score,
+      `${Math.round(d.share * 100)}%`,
+    ]),
+  ];
+  const deviations: Cell[][] = [
+    [...REPORT_COLUMNS],
+    ...report.rows.map((row) => row.map((value, i): Cell => (i === 2 ? Number(value) : value))),
+  ];
+
+  const zip = new JSZip();
+  zip.file(
+    "[Content_Types].xml",
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+      `<Default Extension="xml" ContentType="application/xml"/>` +
+      `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+      `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+      `<Override PartName="/xl/worksheets/sheet2.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+      `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+      `</Types>`
+  );
+  zip.file(
+    "_rels/.rels",
+    `${XML_HEADER}<Relationships xmlns="${PKG_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      `</Relationships>`
+  );
+  zip.file(
+    "xl/workbook.xml",
+    `${XML_HEADER}<workbook xmlns="${SHEET_NS}" xmlns:r="${REL_NS}"><sheets>` +
+      `<sheet name="Summary" sheetId="1" r:id="rId1"/>` +
+      `<sheet name="Deviations" sheetId="2" r:id="rId2"/>` +
+      `</sheets></workbook>`
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    `${XML_HEADER}<Relationships xmlns="${PKG_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      `<Relationship Id="rId2" Type="${REL_NS}/worksheet" Target="worksheets/sheet2.xml"/>` +
+      `<Relationship Id="rId3" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+      `</Relationships>`
+  );
+  zip.file(
+    "xl/styles.xml",
+    `${XML_HEADER}<styleSheet xmlns="${SHEET_NS}">` +
+      `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>` +
+      `<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+      `<fills count="2"><fill><patternFill patternType="none"/></fill>` +
+      `<fill><patternFill patternType="gray125"/></fill></fills>` +
+      `<borders count="1"><border/></borders>` +
+      `<cellStyleXfs count="1"><xf/></cellStyleXfs>` +
+      `<cellXfs count="2"><xf fontId="0"/><xf fontId="1" applyFont="1"/></cellXfs>` +
+      `</styleSheet>`
+  );
+  zip.file("xl/worksheets/sheet1.xml", sheetXml(summary, [28, 40, 10, 10], "column"));
+  zip.file(
+    "xl/worksheets/sheet2.xml",
+    sheetXml(deviations, [24, 12, 8, 50, 50, 40, 40, 20, 16], "row")
+  );
+
+  return zip.generateAsync({ type: "arraybuffer", compression: "DEFLATE" });
+}
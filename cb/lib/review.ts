@@ -0,0 +1,117 @@
+import type { DeviationReview, DeviationRow, ReviewComment, ReviewStatus } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                     REVIEW STATE + DERIVED PROJECT STATUS                  */
+/* -------------------------------------------------------------------------- */
+
+export const REVIEW_STATUSES: readonly ReviewStatus[] = [
+  "open",
+  "accepted",
+  "rejected",
+  "countered",
+];
+
+export const reviewStatusLabels: Record<ReviewStatus, string> = {
+  open: "Open",
+  accepted: "Accepted as exception",
+  rejected: "Rejected",
+  countered: "Countered",
+};
+
+// Rows stored before reviews existed have no id; their position in the run
+// stands in until the first review write stores it on the row.
+export function deviationId(dev: DeviationRow, index: number): string {
+  return dev.id ?? `d${index + 1}`;
+}
+
+export function reviewOf(dev: DeviationRow): DeviationReview {
+  return dev.review ?? { status: "open", assignee: null, comments: [], updatedAt: "" };
+}
+
+// Whether anyone has worked on the row: a decision, an assignee or a comment.
+export function hasReview(dev: DeviationRow): boolean {
+  const review = reviewOf(dev);
+  return review.status !== "open" || review.assignee !== null || review.comments.length > 0;
+}
+
+// Pairs each new row with the old row it replaces: same id first, otherwise
+// the first unpaired row for the same clause (rows get fresh ids when they
+// are regenerated or first saved). Old rows left over come last, without `to`.
+export function pairDeviations(
+  before: DeviationRow[],
+  after: DeviationRow[]
+): { from?: DeviationRow; to?: DeviationRow; id: string }[] {
+  const unpaired = new Set(before);
+  const pairs: { from?: DeviationRow; to?: DeviationRow; id: string }[] = [];
+  after.forEach((to, i) => {
+    const from =
+      before.find((d) => unpaired.has(d) && d.id !== undefined && d.id === to.id) ??
+      before.find((d) => unpaired.has(d) && d.clause === to.clause);
+    if (from) unpaired.delete(from);
+    pairs.push({ from, to, id: deviationId(to, i) });
+  });
+  for (const from of unpaired) {
+    pairs.push({ from, id: deviationId(from, before.indexOf(from)) });
+  }
+  return pairs;
+}
+
+// Any recorded decision resolves a deviation; only "open" still needs a reviewer.
+export function isResolved(dev: DeviationRow): boolean {
+  return reviewOf(dev).status !== "open";
+}
+
+export type ProjectStatus = {
+  label: string;
+  detail: string;
+  tone: "red" | "amber" | "emerald";
+};
+
+export function projectStatus(deviations: DeviationRow[]): ProjectStatus {
+  if (deviations.length === 0) {
+    return { label: "No Deviations", detail: "Matches the baseline", tone: "emerald" };
+  }
+
+  const open = deviations.filter((d) => !isResolved(d));
+  const openHigh = open.filter((d) => d.riskLevel === "High");
+  const highTotal = deviations.filter((d) => d.riskLevel === "High").length;
+  if (openHigh.length > 0) {
+    return {
+      label: "Legal Review Required",
+      detail: `${openHigh.length} of ${highTotal} High risk items open`,
+      tone: "red",
+    };
+  }
+  if (open.length > 0) {
+    return {
+      label: "Review In Progress",
+      detail: `${open.length} of ${deviations.length} items open`,
+      tone: "amber",
+    };
+  }
+
+  const negotiating = deviations.filter((d) => reviewOf(d).status !== "accepted").length;
+  if (negotiating > 0) {
+    return {
+      label: "Awaiting Supplier",
+      detail: `${negotiating} items rejected or countered`,
+      tone: "amber",
+    };
+  }
+  return { label: "Review Complete", detail: "All deviations accepted", tone: "emerald" };
+}
+
+export type CommentNode = ReviewComment & { replies: CommentNode[] };
+
+// Nests comments under the ones they reply to. Replies to a missing parent
+// are shown at the top level rather than dropped.
+export function commentThreads(comments: ReviewComment[]): CommentNode[] {
+  const nodes = new Map(comments.map((c) => [c.id, { ...c, replies: [] as CommentNode[] }]));
+  const roots: CommentNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) parent.replies.push(node);
+    else roots.push(node);
+  });
+  return roots;
+}
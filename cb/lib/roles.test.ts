@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { canReview, canViewProject } from "./roles";
+
+describe("canViewProject", () => {
+  it("lets submitters see their own projects whatever the username's case", () => {
+    const submitter = { username: "tae7758", role: "submitter" as const };
+    expect(canViewProject(submitter, { username: "TAE7758" })).toBe(true);
+    expect(canViewProject({ ...submitter, username: "TAE7758" }, { username: "tae7758" })).toBe(
+      true
+    );
+    expect(canViewProject(submitter, { username: "WYATT12" })).toBe(false);
+  });
+
+  it("lets reviewers see every project", () => {
+    expect(canViewProject({ username: "legal", role: "legal" }, { username: "WYATT12" })).toBe(
+      true
+    );
+    expect(canViewProject({ username: "admin", role: "admin" }, { username: "WYATT12" })).toBe(
+      true
+    );
+  });
+});
+
+describe("canReview", () => {
+  it("is limited to the legal and admin roles", () => {
+    expect(canReview({ role: "submitter" })).toBe(false);
+    expect(canReview({ role: "legal" })).toBe(true);
+    expect(canReview({ role: "admin" })).toBe(true);
+  });
+});
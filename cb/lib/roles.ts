@@ -0,0 +1,37 @@
+import type { ProjectRow, Role, UserAccount } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                       ROLE PERMISSIONS (SHARED, NO I/O)                    */
+/* -------------------------------------------------------------------------- */
+
+// The API enforces these; the dashboard uses the same checks to hide actions
+// a user cannot take.
+
+export const ROLES: readonly Role[] = ["submitter", "legal", "admin"];
+
+export const roleLabels: Record<Role, string> = {
+  submitter: "Submitter",
+  legal: "Legal Reviewer",
+  admin: "Admin",
+};
+
+// Review decisions, counter-proposals and the baseline library.
+export const REVIEWER_ROLES: readonly Role[] = ["legal", "admin"];
+
+export function canReview(user: Pick<UserAccount, "role">): boolean {
+  return REVIEWER_ROLES.includes(user.role);
+}
+
+// Usernames are matched without regard to case, as at sign-in, so ownership
+// checks must not be stricter than the login that created the session.
+export function sameUsername(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// Submitters only see projects they submitted.
+export function canViewProject(
+  user: Pick<UserAccount, "username" | "role">,
+  project: Pick<ProjectRow, "username">
+): boolean {
+  return user.role !== "submitter" || sameUsername(project.username, user.username);
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { playbook } from "./playbook";
+import {
+  bandFor,
+  categorize,
+  clauseRiskLevel,
+  riskRules,
+  scoreDeviation,
+  scoreProject,
+  type RiskRules,
+} from "./scoring";
+import type { DeviationRow } from "./types";
+
+const rules: RiskRules = {
+  version: "test-1",
+  effectiveDate: "2025-01-01",
+  categories: [
+    { name: "Security", weight: 2, keywords: ["security", "breach"] },
+    { name: "Liability", weight: 2, keywords: ["liability"] },
+    { name: "Other", weight: 1, keywords: [] },
+  ],
+  severity: {
+    missing: 3,
+    added: 1.5,
+    moved: 0.5,
+    modified: [
+      { minSimilarity: 0.8, multiplier: 1 },
+      { minSimilarity: 0.5, multiplier: 2 },
+      { minSimilarity: 0, multiplier: 3 },
+    ],
+  },
+  clauseRiskCutoffs: { medium: 3, high: 6 },
+  totalDivisor: 5,
+  bands: { medium: 1, high: 3 },
+};
+
+// No playbook positions, so only the rules decide a score.
+const noPlaybook = { ...playbook, clauses: [] };
+
+function row(patch: Partial<DeviationRow>): DeviationRow {
+  return {
+    clause: "Security",
+    baseline: "",
+    supplier: "",
+    deviation: "",
+    riskLevel: "Low",
+    recommendation: "",
+    score: 0,
+    ...patch,
+  };
+}
+
+describe("categorize", () => {
+  it("prefers a keyword in the clause heading over the clause text", () => {
+    const dev = row({ clause: "Limitation of Liability", supplier: "a security breach" });
+    expect(categorize(dev, rules).name).toBe("Liability");
+  });
+
+  it("falls back to the clause text, then to the last category", () => {
+    expect(categorize(row({ clause: "Section 9", supplier: "any breach" }), rules).name).toBe(
+      "Security"
+    );
+    expect(categorize(row({ clause: "Section 9", supplier: "anything" }), rules).name).toBe(
+      "Other"
+    );
+  });
+});
+
+describe("risk levels", () => {
+  it("maps clause scores and totals onto the configured cutoffs", () => {
+    expect([2.9, 3, 5.9, 6].map((s) => clauseRiskLevel(s, rules))).toEqual([
+      "Low",
+      "Medium",
+      "Medium",
+      "High",
+    ]);
+    expect([0.99, 1, 2.99, 3].map((t) => bandFor(t, rules))).toEqual([
+      "Low",
+      "Medium",
+      "Medium",
+      "High",
+    ]);
+  });
+});
+
+describe("scoreDeviation", () => {
+  it("scores generated rows as category weight x change severity", () => {
+    const score = (patch: Partial<DeviationRow>) =>
+      scoreDeviation(row(patch), rules, noPlaybook).score;
+    expect(score({ change: "missing" })).toBe(6);
+    expect(score({ change: "added" })).toBe(3);
+    expect(score({ change: "moved" })).toBe(1);
+    expect(score({ change: "modified", similarity: 0.9 })).toBe(2);
+    expect(score({ change: "modified", similarity: 0.6 })).toBe(4);
+    expect(score({ change: "modified", similarity: 0.1 })).toBe(6);
+  });
+
+  it("keeps the given score of hand-entered and model rows", () => {
+    const model = { providerId: "m", kind: "model" as const, version: "1" };
+    expect(scoreDeviation(row({ score: 4.5 }), rules, noPlaybook).score).toBe(4.5);
+    const scored = scoreDeviation(
+      row({ change: "missing", score: 1, provider: model }),
+      rules,
+      noPlaybook
+    );
+    expect(scored.score).toBe(1);
+    expect(scored.riskLevel).toBe("Low");
+  });
+
+  it("records the category and rules version", () => {
+    const scored = scoreDeviation(row({ change: "missing" }), rules, noPlaybook);
+    expect(scored).toMatchObject({
+      category: "Security",
+      riskLevel: "High",
+      rulesVersion: "test-1",
+    });
+  });
+
+  it("lets a matching playbook position set the score and recommendation", () => {
+    const security = playbook.clauses.find((c) => c.category === "Security")!;
+    const scored = scoreDeviation(
+      row({ change: "modified", similarity: 0.2, supplier: security.preferred.text }),
+      riskRules
+    );
+    expect(scored.score).toBe(security.preferred.riskScore);
+    expect(scored.recommendation).toBe(security.preferred.recommendation);
+    expect(scored.playbook?.positionId).toBe(security.preferred.id);
+  });
+});
+
+describe("scoreProject", () => {
+  it("sums clause scores over the divisor and bands the total", () => {
+    const result = scoreProject(
+      [row({ change: "missing" }), row({ clause: "Other", change: "added" })],
+      rules,
+      noPlaybook
+    );
+    // (6 + 1.5) / 5
+    expect(result.totalWeightedScore).toBe(1.5);
+    expect(result.riskLevel).toBe("Medium");
+    expect(result.rulesVersion).toBe("test-1");
+    expect(result.deviations.map((d) => d.riskLevel)).toEqual(["High", "Low"]);
+  });
+
+  it("scores an empty run as Low with a total of 0", () => {
+    expect(scoreProject([], rules, noPlaybook)).toMatchObject({
+      riskLevel: "Low",
+      totalWeightedScore: 0,
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import rulesFile from "../config/risk-rules.json";
+import { matchPlaybook, playbook as defaultPlaybook } from "./playbook";
+import type { DeviationRow, ProjectRow, RiskLevel } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                            RISK SCORING RULES                              */
+/* -------------------------------------------------------------------------- */
+
+// Rules live in config/risk-rules.json. Every scored row and project records
+// `rules.version`, so a result can be traced back to the rules that produced it.
+
+export interface RiskCategory {
+  name: string;
+  weight: number;
+  keywords: string[];
+}
+
+export interface RiskRules {
+  version: string;
+  effectiveDate: string;
+  categories: RiskCategory[]; // checked in order; the last entry is the fallback
+  severity: {
+    missing: number;
+    added: number;
+    moved: number;
+    modified: { minSimilarity: number; multiplier: number }[]; // highest minSimilarity first
+  };
+  clauseRiskCutoffs: { medium: number; high: number }; // clause score -> RiskLevel
+  totalDivisor: number; // clause score points per unit of total weighted score
+  bands: { medium: number; high: number }; // total weighted score -> RiskLevel
+}
+
+export const riskRules: RiskRules = rulesFile;
+
+function matchesKeyword(text: string, keyword: string): boolean {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`\\b${escaped}\\b`, "i").test(text);
+}
+
+// The clause heading decides the category; the body is only consulted when no
+// category keyword appears in the heading.
+export function categorize(
+  dev: Pick<DeviationRow, "clause" | "baseline" | "supplier">,
+  rules = riskRules
+): RiskCategory {
+  const fallback = rules.categories[rules.categories.length - 1];
+  const byText = (text: string) =>
+    rules.categories.find((c) => c.keywords.some((k) => matchesKeyword(text, k)));
+  return byText(dev.clause) ?? byText(`${dev.baseline} ${dev.supplier}`) ?? fallback;
+}
+
+function severity(dev: DeviationRow, rules: RiskRules): number {
+  switch (dev.change) {
+    case "missing":
+      return rules.severity.missing;
+    case "added":
+      return rules.severity.added;
+    case "moved":
+      return rules.severity.moved;
+    case "modified": {
+      const similarity = dev.similarity ?? 0;
+      const step = rules.severity.modified.find((s) => similarity >= s.minSimilarity);
+      return step?.multiplier ?? 1;
+    }
+    default:
+      return 1;
+  }
+}
+
+export function clauseRiskLevel(score: number, rules = riskRules): RiskLevel {
+  if (score >= rules.clauseRiskCutoffs.high) return "High";
+  if (score >= rules.clauseRiskCutoffs.medium) return "Medium";
+  return "Low";
+}
+
+export function bandFor(totalWeightedScore: number, rules = riskRules): RiskLevel {
+  if (totalWeightedScore >= rules.bands.high) return "High";
+  if (totalWeightedScore >= rules.bands.medium) return "Medium";
+  return "Low";
+}
+
+// Legend labels for the summary card, e.g. "Medium: 1–3".
+export function bandLabels(rules = riskRules): Record<RiskLevel, string> {
+  return {
+    Low: `Low: 0–${rules.bands.medium}`,
+    Medium: `Medium: ${rules.bands.medium}–${rules.bands.high}`,
+    High: `High: ${rules.bands.high}+`,
+  };
+}
+
+// Generated rows (those with a `change`) are scored as category weight x
+// severity multiplier, unless the supplier clause matches a playbook position,
+// which then sets the score and recommendation. Hand-entered rows and rows
+// from a model provider keep the score they were given; their risk level is
+// still derived from it.
+export function scoreDeviation(
+  dev: DeviationRow,
+  rules = riskRules,
+  book = defaultPlaybook
+): DeviationRow {
+  const category = categorize(dev, rules);
+  const matched = dev.change ? matchPlaybook(category.name, dev.supplier, book) : null;
+  let score = dev.score;
+  if (matched) score = matched.position.riskScore;
+  else if (dev.change && dev.provider?.kind !== "model") {
+    score = Math.round(category.weight * severity(dev, rules) * 10) / 10;
+  }
+  return {
+    ...dev,
+    category: category.name,
+    score,
+    riskLevel: clauseRiskLevel(score, rules),
+    rulesVersion: rules.version,
+    recommendation: matched?.position.recommendation ?? dev.recommendation,
+    playbook: matched?.match,
+  };
+}
+
+export function scoreProject(
+  deviations: DeviationRow[],
+  rules = riskRules,
+  book = defaultPlaybook
+): Pick<ProjectRow, "deviations" | "riskLevel" | "totalWeightedScore" | "rulesVersion"> {
+  const scored = deviations.map((d) => scoreDeviation(d, rules, book));
+  const total = scored.reduce((sum, d) => sum + d.score, 0) / rules.totalDivisor;
+  const totalWeightedScore = Math.round(total * 100) / 100;
+  return {
+    deviations: scored,
+    riskLevel: bandFor(totalWeightedScore, rules),
+    totalWeightedScore,
+    rulesVersion: rules.version,
+  };
+}
@@ -0,0 +1,156 @@
+import { contentWords } from "./text";
+import type { DocumentAnchor } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                     FULL-TEXT SEARCH: TERMS, SNIPPETS, LINKS               */
+/* -------------------------------------------------------------------------- */
+
+// Shared by the server-side index (lib/searchIndex) and the dashboard, so a
+// query is split into terms and highlighted the same way on both sides.
+
+export type SearchHitKind = "clause" | "deviation" | "recommendation";
+
+export const searchHitKindLabels: Record<SearchHitKind, string> = {
+  clause: "Contract text",
+  deviation: "Deviation",
+  recommendation: "Recommendation",
+};
+
+// A run of snippet text, highlighted when it is one of the matched words.
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+// Where a hit opens: a deviation row, or, for contract text no deviation
+// points at, the clause in one of the project's documents. `iterationId` names
+// the run for a row or document only an earlier run has; without it the hit is
+// in the latest run. A link's anchor only carries the clause id and paragraph
+// index.
+export type SearchFocus =
+  | { deviationId: string; iterationId?: string }
+  | { side: "supplier" | "baseline"; anchor: DocumentAnchor; iterationId?: string };
+
+export interface SearchHit {
+  kind: SearchHitKind;
+  projectId: string;
+  projectName: string;
+  supplierName: string;
+  clause: string; // clause heading, or DeviationRow.clause
+  documentTitle?: string; // clause hits only
+  side?: "supplier" | "baseline"; // clause hits only
+  focus: SearchFocus;
+  snippet: SnippetPart[];
+  score: number;
+  otherProjects: number; // further projects sharing the same baseline text
+}
+
+export interface SearchResults {
+  query: string;
+  terms: string[];
+  total: number;
+  hits: SearchHit[];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    TERMS                                   */
+/* -------------------------------------------------------------------------- */
+
+// Folds plurals so "carve-outs" finds "carve-out" and "parties" finds "party".
+export function stemWord(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+// The indexed form of a text: stemmed content words, stopwords dropped.
+export function searchTerms(text: string): string[] {
+  return contentWords(text).map(stemWord);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  SNIPPETS                                  */
+/* -------------------------------------------------------------------------- */
+
+const SNIPPET_CHARS = 200;
+
+const WORD = /[A-Za-z0-9]+(?:['’][A-Za-z]+)?/g;
+
+// A window of `text` around the first matched word, split so that every word
+// whose stem is in `matched` can be highlighted.
+export function buildSnippet(text: string, matched: ReadonlySet<string>): SnippetPart[] {
+  const clean = text.replace(/\s+/g, " ").trim();
+  const words = Array.from(clean.matchAll(WORD));
+  const isMatch = (w: string) => matched.has(stemWord(w.toLowerCase().replace(/’/g, "'")));
+  const first = words.find((w) => isMatch(w[0]));
+
+  let start = 0;
+  if (first?.index !== undefined && clean.length > SNIPPET_CHARS) {
+    start = Math.max(0, first.index - SNIPPET_CHARS / 4);
+    if (start > 0) start = clean.indexOf(" ", start) + 1 || start;
+  }
+  let end = Math.min(clean.length, start + SNIPPET_CHARS);
+  if (end < clean.length) {
+    const space = clean.lastIndexOf(" ", end);
+    if (space > start) end = space;
+  }
+
+  const parts: SnippetPart[] = [];
+  const push = (value: string, match: boolean) => {
+    const last = parts[parts.length - 1];
+    if (last && last.match === match) last.text += value;
+    else if (value) parts.push({ text: value, match });
+  };
+  if (start > 0) push("… ", false);
+  let at = start;
+  for (const w of words) {
+    const index = w.index ?? 0;
+    if (index < start) continue;
+    if (index + w[0].length > end) break;
+    if (!isMatch(w[0])) continue;
+    push(clean.slice(at, index), false);
+    push(w[0], true);
+    at = index + w[0].length;
+  }
+  push(clean.slice(at, end), false);
+  if (end < clean.length) push(" …", false);
+  return parts;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    LINKS                                   */
+/* -------------------------------------------------------------------------- */
+
+// Dashboard URL that selects the hit's project and opens it at the clause.
+export function searchHitHref(hit: SearchHit): string {
+  const params = new URLSearchParams({ project: hit.projectId });
+  if ("deviationId" in hit.focus) {
+    params.set("deviation", hit.focus.deviationId);
+  } else {
+    params.set("side", hit.focus.side);
+    params.set("clause", hit.focus.anchor.clauseId);
+    params.set("paragraph", String(hit.focus.anchor.paragraphIndex));
+  }
+  if (hit.focus.iterationId) params.set("iteration", hit.focus.iterationId);
+  return `/?${params}`;
+}
+
+// Inverse of `searchHitHref`; null when the URL does not point at a project.
+export function parseSearchLink(
+  params: URLSearchParams
+): { projectId: string; focus: SearchFocus | null } | null {
+  const projectId = params.get("project");
+  if (!projectId) return null;
+  const iterationId = params.get("iteration");
+  const run = iterationId ? { iterationId } : {};
+  const deviationId = params.get("deviation");
+  if (deviationId) return { projectId, focus: { deviationId, ...run } };
+
+  const side = params.get("side");
+  const clauseId = params.get("clause");
+  const paragraphIndex = Number(params.get("paragraph"));
+  const sideOk = side === "supplier" || side === "baseline";
+  if (!sideOk || !clauseId || !Number.isInteger(paragraphIndex)) return { projectId, focus: null };
+  const anchor = { clauseId, anchor: "", paragraphIndex };
+  return { projectId, focus: { side, anchor, ...run } };
+}
@@ -0,0 +1,111 @@
+import fs from "node:fs/promises";
+import { describe, expect, it, vi } from "vitest";
+import { loadClauses } from "./analysis";
+import { createDocument, documentUrl, getDocument, readDocumentBytes } from "./documentStore";
+import { documentContentTypes } from "./documentFormats";
+import { dataPath } from "./jsonStore";
+import { addIteration, createProject } from "./projectStore";
+import { searchContracts } from "./searchIndex";
+import type { DeviationRow, UserAccount } from "./types";
+
+const admin: UserAccount = {
+  username: "admin",
+  displayName: "Administrator",
+  role: "admin",
+  createdAt: "2025-01-01T00:00:00.000Z",
+};
+
+const baselineUrl = "/api/documents/td-baseline-nda";
+
+async function uploaded(title: string, bytes: Uint8Array) {
+  const contentType = documentContentTypes.docx;
+  return createDocument({ title, contentType, bytes, uploadedBy: admin.username });
+}
+
+function row(clause: string, deviation: string): DeviationRow {
+  return {
+    clause,
+    baseline: "",
+    supplier: "",
+    deviation,
+    riskLevel: "Medium",
+    recommendation: "",
+    score: 3,
+  };
+}
+
+describe("searchContracts", () => {
+  it("finds deviation rows of every run, each under the latest run that has it", async () => {
+    const run = {
+      supplierDocTitle: "Supplier NDA.docx",
+      baselineDocTitle: "TD Baseline NDA.docx",
+      supplierDocUrl: "/api/documents/supplier-nda",
+      baselineDocUrl: baselineUrl,
+    };
+    const shared = row("Audit", "Quarterly zephyr audits are refused.");
+    const project = await createProject({
+      ...run,
+      username: admin.username,
+      projectName: "Rows in two runs",
+      deviations: [row("Escrow", "Source code zephyr escrow is dropped."), shared],
+    });
+    const { iterations, deviations } = await addIteration(project.id, {
+      ...run,
+      deviations: [shared],
+    });
+
+    const { hits } = await searchContracts(admin, "zephyr");
+    expect(hits.map((h) => [h.kind, h.clause, h.focus])).toEqual([
+      ["deviation", "Audit", { deviationId: deviations[0].id }],
+      ["deviation", "Escrow", { deviationId: expect.any(String), iterationId: iterations![0].id }],
+    ]);
+  });
+
+  it("finds clauses of documents only an earlier run used, and opens that run", async () => {
+    // A copy of the sample supplier contract, so no other project shares its text.
+    const sample = await readDocumentBytes(await getDocument("supplier-nda"));
+    const oldSupplier = await uploaded("Old Supplier NDA.docx", sample);
+    const project = await createProject({
+      username: admin.username,
+      projectName: "Two runs",
+      supplierDocTitle: oldSupplier.title,
+      baselineDocTitle: "TD Baseline NDA.docx",
+      supplierDocUrl: documentUrl(oldSupplier.id),
+      baselineDocUrl: baselineUrl,
+      deviations: [],
+    });
+    const { iterations } = await addIteration(project.id, {
+      supplierDocTitle: "TD Baseline NDA.docx",
+      baselineDocTitle: "TD Baseline NDA.docx",
+      supplierDocUrl: baselineUrl,
+      baselineDocUrl: baselineUrl,
+      deviations: [],
+    });
+
+    const clause = (await loadClauses(oldSupplier.id)).find((c) => c.body.trim())!;
+    const results = await searchContracts(admin, `${clause.heading} ${clause.body}`, 100);
+    const hit = results.hits.find((h) => h.documentTitle === oldSupplier.title);
+    expect(hit?.focus).toMatchObject({ side: "supplier", iterationId: iterations![0].id });
+  });
+
+  it("does not store a failed extraction, so it is tried again", async () => {
+    const broken = await uploaded("Broken.docx", new TextEncoder().encode("not a document"));
+    await createProject({
+      username: admin.username,
+      projectName: "Unreadable",
+      supplierDocTitle: broken.title,
+      baselineDocTitle: "TD Baseline NDA.docx",
+      supplierDocUrl: documentUrl(broken.id),
+      baselineDocUrl: baselineUrl,
+      deviations: [],
+    });
+
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await searchContracts(admin, "confidential");
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining(broken.id), expect.anything());
+    warn.mockRestore();
+    const stored = JSON.parse(await fs.readFile(dataPath("search-index.json"), "utf8"));
+    expect(stored).not.toHaveProperty(broken.id);
+    expect(stored).toHaveProperty("td-baseline-nda");
+  });
+});
@@ -0,0 +1,310 @@
+import { visibleProjects } from "./access";
+import { loadClauses } from "./analysis";
+import { documentIdFromUrl } from "./documentStore";
+import { ValidationError } from "./errors";
+import { projectIterations } from "./iterations";
+import { jsonFile } from "./jsonStore";
+import { listProjects } from "./projectStore";
+import { deviationId } from "./review";
+import {
+  buildSnippet,
+  searchTerms,
+  type SearchFocus,
+  type SearchHit,
+  type SearchResults,
+} from "./search";
+import { listSuppliers } from "./supplierStore";
+import { supplierLabel } from "./suppliers";
+import type { Clause, DocumentAnchor, IterationRun, ProjectRow, UserAccount } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                      LOCAL FULL-TEXT INDEX OVER CONTRACTS                  */
+/* -------------------------------------------------------------------------- */
+
+// Covers the clause text of the supplier and baseline documents of every run
+// of each project, and the deviation and recommendation of every row of each
+// run.
+
+interface IndexedClause {
+  clauseId: string;
+  heading: string;
+  anchor: DocumentAnchor; // of the clause's first paragraph
+  body: string;
+}
+
+// Stored documents never change, so each one's clauses are extracted once and
+// kept by document id.
+const clauseTextFile = jsonFile<Record<string, IndexedClause[]>>("search-index.json", () => ({}));
+
+function indexedClause(clause: Clause): IndexedClause | null {
+  const first = clause.paragraphs[0];
+  if (!first) return null;
+  return {
+    clauseId: clause.id,
+    heading: clause.heading,
+    anchor: { clauseId: clause.id, anchor: first.anchor, paragraphIndex: first.paragraphIndex },
+    body: clause.body,
+  };
+}
+
+// An unreadable document is left out of the index and tried again the next
+// time the index is rebuilt, so a passing failure does not hide it for good.
+async function documentClauses(documentIds: string[]): Promise<Record<string, IndexedClause[]>> {
+  const stored = await clauseTextFile.read();
+  const missing = documentIds.filter((id) => !stored[id]);
+  if (missing.length === 0) return stored;
+
+  const added: Record<string, IndexedClause[]> = {};
+  for (const id of missing) {
+    try {
+      added[id] = (await loadClauses(id)).flatMap((c) => indexedClause(c) ?? []);
+    } catch (err) {
+      console.warn(`Indexing document ${id} failed`, err);
+    }
+  }
+  if (Object.keys(added).length === 0) return stored;
+  return clauseTextFile.update((current) => {
+    const next = { ...current, ...added };
+    return { next, result: next };
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               INVERTED INDEX                               */
+/* -------------------------------------------------------------------------- */
+
+type HitSource = Omit<SearchHit, "snippet" | "score" | "otherProjects">;
+
+interface SearchEntry {
+  key: string; // entries with the same key show the same text, e.g. a shared baseline
+  hit: HitSource;
+  text: string; // what the snippet is cut from
+}
+
+interface SearchIndex {
+  signature: string; // of the projects and suppliers it was built from
+  entries: SearchEntry[];
+  postings: Map<string, Map<number, number>>; // term -> entry index -> occurrences
+}
+
+// Rebuilt in memory whenever a project or supplier changes. Next.js may load
+// this module once per route bundle, so the last build is kept on globalThis.
+const shared = globalThis as { contractBuddySearchIndex?: SearchIndex };
+
+function projectEntries(
+  project: ProjectRow,
+  supplierName: string,
+  clauses: Record<string, IndexedClause[]>
+): SearchEntry[] {
+  const base = { projectId: project.id, projectName: project.projectName, supplierName };
+  const entries: SearchEntry[] = [];
+
+  // Rows of every run, newest first. A row an earlier run shares word for
+  // word with a later one is indexed once, under the later run.
+  const runs = [...projectIterations(project)].reverse();
+  const indexedRows = new Set<string>();
+  runs.forEach((run, r) => {
+    run.deviations.forEach((row, i) => {
+      const id = deviationId(row, i);
+      const focus = { deviationId: id, ...(r === 0 ? {} : { iterationId: run.id }) };
+      const hit = { ...base, clause: row.clause, focus };
+      const texts = [
+        { kind: "deviation", text: row.deviation },
+        { kind: "recommendation", text: row.recommendation },
+      ] as const;
+      for (const { kind, text } of texts) {
+        const seen = `${kind}:${row.clause}:${text}`;
+        if (!text.trim() || indexedRows.has(seen)) continue;
+        indexedRows.add(seen);
+        entries.push({
+          key: `${project.id}:${run.id}:${id}:${kind}`,
+          hit: { ...hit, kind },
+          text,
+        });
+      }
+    });
+  });
+
+  // Likewise a document used by several runs (typically the baseline) is
+  // indexed once, under the latest run that used it.
+  const indexed = new Set<string>();
+  runs.forEach((run, r) => {
+    const sides = [
+      { side: "supplier", url: run.supplierDocUrl, title: run.supplierDocTitle },
+      { side: "baseline", url: run.baselineDocUrl, title: run.baselineDocTitle },
+    ] as const;
+    for (const { side, url, title } of sides) {
+      const documentId = documentIdFromUrl(url);
+      if (!documentId || indexed.has(documentId)) continue;
+      indexed.add(documentId);
+      for (const clause of clauses[documentId] ?? []) {
+        entries.push({
+          key: `${documentId}:${clause.clauseId}`,
+          hit: {
+            ...base,
+            kind: "clause",
+            clause: clause.heading,
+            documentTitle: title,
+            side,
+            focus: clauseFocus(project, r === 0 ? null : run, side, clause),
+          },
+          text: `${clause.heading}. ${clause.body}`,
+        });
+      }
+    }
+  });
+  return entries;
+}
+
+// In the latest run, a clause a deviation row points at opens that row, so
+// both documents are shown side by side. Anything else opens the clause alone,
+// in the document of the run it came from (`olderRun` when not the latest).
+function clauseFocus(
+  project: ProjectRow,
+  olderRun: IterationRun | null,
+  side: "supplier" | "baseline",
+  clause: IndexedClause
+): SearchFocus {
+  if (!olderRun) {
+    const row = project.deviations.findIndex((d) => {
+      const anchor = side === "supplier" ? d.supplierAnchor : d.baselineAnchor;
+      return anchor?.clauseId === clause.clauseId;
+    });
+    if (row >= 0) return { deviationId: deviationId(project.deviations[row], row) };
+  }
+  return { side, anchor: clause.anchor, ...(olderRun ? { iterationId: olderRun.id } : {}) };
+}
+
+async function currentIndex(): Promise<SearchIndex> {
+  const [projects, suppliers] = await Promise.all([listProjects(), listSuppliers()]);
+  const signature = JSON.stringify([
+    projects.map((p) => [p.id, p.updatedAt]),
+    suppliers.map((s) => [s.id, s.name]),
+  ]);
+  const cached = shared.contractBuddySearchIndex;
+  if (cached?.signature === signature) return cached;
+
+  const documentIds = projects
+    .flatMap((p) => projectIterations(p))
+    .flatMap((run) => [run.supplierDocUrl, run.baselineDocUrl])
+    .map(documentIdFromUrl)
+    .filter((id): id is string => id !== null);
+  const clauses = await documentClauses(Array.from(new Set(documentIds)));
+
+  // Most recently updated first, so a shared baseline clause is shown under
+  // the project someone is most likely working on.
+  const ordered = [...projects].sort(
+    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+  const entries = ordered.flatMap((p) =>
+    projectEntries(p, supplierLabel(p, suppliers), clauses)
+  );
+
+  const postings = new Map<string, Map<number, number>>();
+  entries.forEach((entry, i) => {
+    const words = entry.hit.kind === "clause" ? entry.text : `${entry.hit.clause} ${entry.text}`;
+    for (const term of searchTerms(words)) {
+      const counts = postings.get(term) ?? new Map<number, number>();
+      counts.set(i, (counts.get(i) ?? 0) + 1);
+      postings.set(term, counts);
+    }
+  });
+
+  const index = { signature, entries, postings };
+  shared.contractBuddySearchIndex = index;
+  return index;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  QUERYING                                  */
+/* -------------------------------------------------------------------------- */
+
+// Every query word has to occur in an entry. The last word also matches as a
+// prefix, so results keep up while someone is still typing it.
+function matchEntries(
+  index: SearchIndex,
+  words: string[]
+): { scores: Map<number, number>; matched: Set<string> } {
+  const matched = new Set<string>();
+  let scores: Map<number, number> | null = null;
+
+  words.forEach((word, w) => {
+    const terms =
+      w === words.length - 1
+        ? Array.from(index.postings.keys()).filter((t) => t.startsWith(word))
+        : index.postings.has(word)
+          ? [word]
+          : [];
+    const wordScores = new Map<number, number>();
+    for (const term of terms) {
+      matched.add(term);
+      const counts = index.postings.get(term)!;
+      const idf = Math.log(1 + index.entries.length / counts.size);
+      counts.forEach((n, entry) => wordScores.set(entry, (wordScores.get(entry) ?? 0) + n * idf));
+    }
+    const previous: Map<number, number> | null = scores;
+    scores = new Map();
+    wordScores.forEach((score, entry) => {
+      if (previous && !previous.has(entry)) return;
+      scores!.set(entry, score + (previous?.get(entry) ?? 0));
+    });
+  });
+  return { scores: scores ?? new Map(), matched };
+}
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+
+// Hits the user may see, best first. Entries showing the same text for several
+// projects collapse into one hit that counts the others.
+export async function searchContracts(
+  user: UserAccount,
+  query: string,
+  limit = DEFAULT_SEARCH_LIMIT
+): Promise<SearchResults> {
+  const words = Array.from(new Set(searchTerms(query)));
+  if (words.length === 0) throw new ValidationError(`"q" must contain a word to search for`);
+
+  const [index, projects] = await Promise.all([currentIndex(), visibleProjects(user)]);
+  const visible = new Set(projects.map((p) => p.id));
+  const { scores, matched } = matchEntries(index, words);
+
+  const ranked = Array.from(scores.entries())
+    .filter(([i]) => visible.has(index.entries[i].hit.projectId))
+    .sort(([a, sa], [b, sb]) => sb - sa || a - b);
+
+  const hits: SearchHit[] = [];
+  const byKey = new Map<string, SearchHit>();
+  for (const [i, score] of ranked) {
+    const entry = index.entries[i];
+    const seen = byKey.get(entry.key);
+    if (seen) {
+      seen.otherProjects++;
+      continue;
+    }
+    const hit: SearchHit = {
+      ...entry.hit,
+      snippet: buildSnippet(entry.text, matched),
+      score: Math.round(score * 100) / 100,
+      otherProjects: 0,
+    };
+    byKey.set(entry.key, hit);
+    hits.push(hit);
+  }
+  return { query, terms: words, total: hits.length, hits: hits.slice(0, limit) };
+}
+
+// Projects whose supplier contract or deviation rows mention every word of
+// the query. Baseline text is left out: it is shared, so it would match every
+// project that uses the same baseline.
+export async function projectsMatchingText(query: string): Promise<Set<string>> {
+  const words = Array.from(new Set(searchTerms(query)));
+  if (words.length === 0) return new Set();
+  const index = await currentIndex();
+  const { scores } = matchEntries(index, words);
+  const ids = new Set<string>();
+  scores.forEach((_, i) => {
+    const { hit } = index.entries[i];
+    if (hit.side !== "baseline") ids.add(hit.projectId);
+  });
+  return ids;
+}
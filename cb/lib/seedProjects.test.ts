@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { documentIdFromUrl, getDocument, readDocumentBytes } from "./documentStore";
+import { listProjects } from "./projectStore";
+import { scoreProject } from "./scoring";
+import { seedProjects } from "./seedProjects";
+
+describe("seedProjects", () => {
+  it("only links to registered documents whose files exist", async () => {
+    for (const project of seedProjects) {
+      for (const url of [project.supplierDocUrl, project.baselineDocUrl]) {
+        const id = documentIdFromUrl(url);
+        expect(id, `${project.id}: ${url}`).not.toBeNull();
+        const doc = await getDocument(id!);
+        expect((await readDocumentBytes(doc)).length).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it("stores the risk the current rules give each sample's rows", async () => {
+    const stored = await listProjects();
+    for (const seed of seedProjects) {
+      const project = stored.find((p) => p.id === seed.id)!;
+      const { riskLevel, totalWeightedScore } = scoreProject(seed.deviations);
+      expect(project, seed.id).toMatchObject({ riskLevel, totalWeightedScore });
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import type { ProjectRow } from "./types";
+
+// Risk fields are left out: the store scores each seed's rows with the current
+// rules when it is created, like any other run.
+export type SeedProject = Omit<ProjectRow, "riskLevel" | "totalWeightedScore">;
+
+// Sample projects written to the store the first time it is read, so a fresh
+// checkout still shows a populated dashboard. Every seed points at one of the
+// two built-in documents (see lib/documentStore):
+//  - /api/documents/supplier-nda -> samples/docs/supplier.docx
+//  - /api/documents/td-baseline-nda -> samples/docs/baseline.docx (library
+//    template "td-nda", version 1.0)
+// The other seeds have no documents of their own, so they reuse the sample NDA
+// and say so in their names.
+
+export const seedProjects: SeedProject[] = [
+  {
+    id: "1",
+    username: "TAE7758",
+    projectName: "TD NDA – High & Low Changes",
+    createdAt: "2025-11-16T23:00:00Z",
+    updatedAt: "2025-11-16T23:40:00Z",
+    supplierDocTitle: "Supplier NDA.docx",
+    baselineDocTitle: "TD Baseline NDA.docx",
+    supplierDocUrl: "/api/documents/supplier-nda",
+    baselineDocUrl: "/api/documents/td-baseline-nda",
+    baseline: {
+      templateId: "td-nda",
+      templateName: "TD Baseline NDA",
+      contractType: "nda",
+      versionId: "td-nda-1",
+      version: "1.0",
+      effectiveDate: "2025-11-01",
+    },
+    deviations: [
+      {
+        clause: "Security",
+        baseline:
+          "If there is any unauthorized handling or loss of, or inability to account for any Confidential Information ...",
+        supplier:
+          "For as long as any Confidential Information is in the Receiving Party's possession or control, the Receiving Party will protect and maintain the confidentiality and security ...",
+        deviation:
+          "Security obligations are less prescriptive than TD baseline and do not include explicit incident remediation steps.",
+        riskLevel: "High",
+        recommendation: "Align security obligations with TD baseline incident handling language.",
+        score: 6,
+      },
+      {
+        clause: "Confidentiality",
+        baseline:
+          "Confidential Information does not include information that is or becomes public, independently developed, or obtained from a third party without breach ...",
+        supplier:
+          '"Confidential Information" means any non‑public proprietary information ...',
+        deviation:
+          "Confidentiality carve-outs narrowed; survival period reduced compared to TD baseline.",
+        riskLevel: "Medium",
+        recommendation: "Restore full TD carve‑outs and minimum survival period.",
+        score: 3,
+      },
+      {
+        clause: "General provisions",
+        baseline: "Agreement governed by the laws of Ontario, Canada ...",
+        supplier: "Agreement governed by the laws of Delaware, USA ...",
+        deviation: "Governing law moved away from TD's standard jurisdiction.",
+        riskLevel: "Medium",
+        recommendation: "Keep Ontario governing law unless approved as an exception.",
+        score: 3,
+      },
+      {
+        clause: "Duration & termination",
+        baseline: "Either party may terminate for convenience upon 30 days' written notice ...",
+        supplier:
+          "Supplier may terminate for convenience; TD may terminate only for cause ...",
+        deviation: "TD termination for convenience removed.",
+        riskLevel: "Low",
+        recommendation: "Re‑introduce TD termination for convenience right.",
+        score: 1,
+      },
+    ],
+  },
+  // Extra mock rows so you can see pagination / sorting behaviour. They have no
+  // deviations until they are analysed.
+  {
+    id: "2",
+    username: "WYATT12",
+    projectName: "OC Demo – Supplier ABC (sample NDA)",
+    createdAt: "2025-11-14T18:20:00Z",
+    updatedAt: "2025-11-14T18:45:00Z",
+    supplierDocTitle: "Supplier NDA.docx",
+    baselineDocTitle: "TD Baseline NDA.docx",
+    supplierDocUrl: "/api/documents/supplier-nda",
+    baselineDocUrl: "/api/documents/td-baseline-nda",
+    deviations: [],
+    supplierId: "supplier-abc",
+  },
+  {
+    id: "3",
+    username: "TAF7337",
+    projectName: "New Model Output Test (sample NDA)",
+    createdAt: "2025-11-13T17:50:00Z",
+    updatedAt: "2025-11-13T18:00:00Z",
+    supplierDocTitle: "Supplier NDA.docx",
+    baselineDocTitle: "TD Baseline NDA.docx",
+    supplierDocUrl: "/api/documents/supplier-nda",
+    baselineDocUrl: "/api/documents/td-baseline-nda",
+    deviations: [],
+  },
+];
@@ -0,0 +1,100 @@
+import { randomUUID } from "node:crypto";
+import { NotFoundError, ValidationError } from "./errors";
+import { jsonFile } from "./jsonStore";
+import type { Supplier } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                               SUPPLIER STORAGE                             */
+/* -------------------------------------------------------------------------- */
+
+// The counterparty of the "OC Demo – Supplier ABC (sample NDA)" seed project.
+const seedSuppliers: Supplier[] = [
+  {
+    id: "supplier-abc",
+    name: "Supplier ABC",
+    createdAt: "2025-11-01T00:00:00Z",
+    createdBy: "admin",
+  },
+];
+
+const suppliersFile = jsonFile<Supplier[]>("suppliers.json", () => seedSuppliers);
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export async function listSuppliers(): Promise<Supplier[]> {
+  return suppliersFile.read();
+}
+
+export async function getSupplier(id: string): Promise<Supplier> {
+  const supplier = (await suppliersFile.read()).find((s) => s.id === id);
+  if (!supplier) throw new NotFoundError(`Supplier ${id} not found`);
+  return supplier;
+}
+
+function newSupplier(name: string, createdBy: string): Supplier {
+  return { id: randomUUID(), name, createdAt: new Date().toISOString(), createdBy };
+}
+
+export async function createSupplier(name: string, createdBy: string): Promise<Supplier> {
+  const supplier = newSupplier(name, createdBy);
+  return suppliersFile.update((suppliers) => {
+    if (suppliers.some((s) => sameName(s.name, name))) {
+      throw new ValidationError(`A supplier named "${name}" already exists`);
+    }
+    return { next: [...suppliers, supplier], result: supplier };
+  });
+}
+
+export async function renameSupplier(id: string, name: string): Promise<Supplier> {
+  return suppliersFile.update((suppliers) => {
+    const idx = suppliers.findIndex((s) => s.id === id);
+    if (idx === -1) throw new NotFoundError(`Supplier ${id} not found`);
+    if (suppliers.some((s) => s.id !== id && sameName(s.name, name))) {
+      throw new ValidationError(`A supplier named "${name}" already exists`);
+    }
+    const updated = { ...suppliers[idx], name };
+    const next = [...suppliers];
+    next[idx] = updated;
+    return { next, result: updated };
+  });
+}
+
+// The supplier a project should be linked to: an existing one by id, or by
+// name, creating it the first time that name is used.
+export async function resolveSupplier(ref: SupplierRef, username: string): Promise<Supplier> {
+  if ("supplierId" in ref) return getSupplier(ref.supplierId);
+  return suppliersFile.update((suppliers) => {
+    const existing = suppliers.find((s) => sameName(s.name, ref.supplierName));
+    if (existing) return { next: suppliers, result: existing };
+    const supplier = newSupplier(ref.supplierName, username);
+    return { next: [...suppliers, supplier], result: supplier };
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               INPUT VALIDATION                             */
+/* -------------------------------------------------------------------------- */
+
+export type SupplierRef = { supplierId: string } | { supplierName: string };
+
+function requireName(value: unknown, key: string): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new ValidationError(`"${key}" must be a non-empty string`);
+  }
+  return value.trim().replace(/\s+/g, " ");
+}
+
+// { name }
+export function parseSupplierName(body: Record<string, unknown>): string {
+  return requireName(body.name, "name");
+}
+
+// A project body may name its supplier by "supplierId" or "supplierName";
+// null when it names neither.
+export function parseSupplierRef(body: Record<string, unknown>): SupplierRef | null {
+  if (body.supplierId != null) return { supplierId: requireName(body.supplierId, "supplierId") };
+  if (body.supplierName != null) {
+    return { supplierName: requireName(body.supplierName, "supplierName") };
+  }
+  return null;
+}
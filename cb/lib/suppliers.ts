@@ -0,0 +1,179 @@
+import { projectIterations } from "./iterations";
+import { projectStatus, type ProjectStatus } from "./review";
+import { normalizeText } from "./text";
+import type { PlaybookMatch, ProjectRow, RiskLevel, Supplier } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                       SUPPLIER PROFILES + CROSS-CONTRACT HISTORY           */
+/* -------------------------------------------------------------------------- */
+
+// Supplier name for a project: the linked supplier, else the supplier
+// document's title without its extension.
+export function supplierLabel(project: ProjectRow, suppliers: Supplier[]): string {
+  const linked = suppliers.find((s) => s.id === project.supplierId);
+  if (linked) return linked.name;
+  return project.supplierDocTitle.replace(/\.[a-z0-9]+$/i, "").trim() || "Unknown supplier";
+}
+
+export interface SupplierSummary extends Supplier {
+  contracts: number; // linked projects the caller can see
+  averageScore: number | null;
+  latestRiskLevel: RiskLevel | null; // of the most recently updated contract
+}
+
+export interface SupplierContract {
+  projectId: string;
+  projectName: string;
+  username: string;
+  createdAt: string;
+  updatedAt: string;
+  iterations: number;
+  riskLevel: RiskLevel;
+  totalWeightedScore: number;
+  status: ProjectStatus;
+}
+
+// One analysis run of one of the supplier's contracts.
+export interface SupplierRiskPoint {
+  projectId: string;
+  projectName: string;
+  iteration: number;
+  createdAt: string;
+  riskLevel: RiskLevel;
+  totalWeightedScore: number;
+}
+
+export interface RepeatedPosition {
+  match: PlaybookMatch;
+  contracts: number; // contracts where some run matched this position
+}
+
+// A clause the supplier changed in more than one contract.
+export interface RepeatedDeviation {
+  clause: string; // heading as last seen
+  category: string | null;
+  contracts: number;
+  always: boolean; // deviates in every one of the supplier's contracts
+  latestSupplierText: string; // supplier wording from the most recent run
+  positions: RepeatedPosition[]; // most contracts first
+}
+
+export interface SupplierProfile {
+  supplier: Supplier;
+  contracts: SupplierContract[]; // most recently updated first
+  riskHistory: SupplierRiskPoint[]; // oldest first
+  repeatedDeviations: RepeatedDeviation[]; // most contracts first
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function supplierSummary(supplier: Supplier, projects: ProjectRow[]): SupplierSummary {
+  const linked = projects
+    .filter((p) => p.supplierId === supplier.id)
+    .sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+  const total = linked.reduce((sum, p) => sum + p.totalWeightedScore, 0);
+  return {
+    ...supplier,
+    contracts: linked.length,
+    averageScore: linked.length > 0 ? round(total / linked.length) : null,
+    latestRiskLevel: linked[0]?.riskLevel ?? null,
+  };
+}
+
+// Deviations are matched across contracts by clause heading, as they are
+// across iterations. Every run counts, so a position the supplier dropped
+// after negotiation still shows that they opened with it.
+function repeatedDeviations(projects: ProjectRow[]): RepeatedDeviation[] {
+  const byClause = new Map<
+    string,
+    {
+      clause: string;
+      category: string | null;
+      contracts: Set<string>;
+      latest: { at: number; text: string };
+      positions: Map<string, { match: PlaybookMatch; contracts: Set<string> }>;
+    }
+  >();
+
+  for (const project of projects) {
+    for (const run of projectIterations(project)) {
+      const at = Date.parse(run.createdAt);
+      for (const dev of run.deviations) {
+        const key = normalizeText(dev.clause);
+        const entry = byClause.get(key) ?? {
+          clause: dev.clause,
+          category: dev.category ?? null,
+          contracts: new Set<string>(),
+          latest: { at: -Infinity, text: "" },
+          positions: new Map<string, { match: PlaybookMatch; contracts: Set<string> }>(),
+        };
+        entry.contracts.add(project.id);
+        if (at >= entry.latest.at) {
+          entry.clause = dev.clause;
+          entry.category = dev.category ?? entry.category;
+          entry.latest = { at, text: dev.supplier };
+        }
+        if (dev.playbook) {
+          const { positionId } = dev.playbook;
+          const position = entry.positions.get(positionId) ?? {
+            match: dev.playbook,
+            contracts: new Set<string>(),
+          };
+          position.contracts.add(project.id);
+          entry.positions.set(positionId, position);
+        }
+        byClause.set(key, entry);
+      }
+    }
+  }
+
+  return Array.from(byClause.values())
+    .filter((e) => e.contracts.size > 1)
+    .map((e) => ({
+      clause: e.clause,
+      category: e.category,
+      contracts: e.contracts.size,
+      always: e.contracts.size === projects.length,
+      latestSupplierText: e.latest.text,
+      positions: Array.from(e.positions.values(), (p) => ({
+        match: p.match,
+        contracts: p.contracts.size,
+      })).sort((a, b) => b.contracts - a.contracts),
+    }))
+    .sort((a, b) => b.contracts - a.contracts || a.clause.localeCompare(b.clause));
+}
+
+// `projects` are the ones the caller can see; only those linked to the
+// supplier are used.
+export function supplierProfile(supplier: Supplier, projects: ProjectRow[]): SupplierProfile {
+  const linked = projects.filter((p) => p.supplierId === supplier.id);
+
+  const contracts = linked
+    .map((p) => ({
+      projectId: p.id,
+      projectName: p.projectName,
+      username: p.username,
+      createdAt: p.createdAt,
+      updatedAt: p.updatedAt,
+      iterations: projectIterations(p).length,
+      riskLevel: p.riskLevel,
+      totalWeightedScore: p.totalWeightedScore,
+      status: projectStatus(p.deviations),
+    }))
+    .sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+
+  const riskHistory = linked
+    .flatMap((p) =>
+      projectIterations(p).map((run) => ({
+        projectId: p.id,
+        projectName: p.projectName,
+        iteration: run.number,
+        createdAt: run.createdAt,
+        riskLevel: run.riskLevel,
+        totalWeightedScore: run.totalWeightedScore,
+      }))
+    )
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+
+  return { supplier, contracts, riskHistory, repeatedDeviations: repeatedDeviations(linked) };
+}
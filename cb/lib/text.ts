@@ -0,0 +1,52 @@
+// Small text utilities shared by the comparison engine and the viewers. Pure
+// functions only, so they run the same on the server and in the browser.
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "any", "are", "as", "at", "be", "by", "for", "from", "in", "is", "it",
+  "its", "of", "on", "or", "such", "that", "the", "this", "to", "will", "with",
+]);
+
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Lower-cased words without punctuation or stopwords.
+export function contentWords(text: string): string[] {
+  return (normalizeText(text).match(/[a-z0-9]+(?:'[a-z]+)?/g) ?? []).filter(
+    (w) => !STOPWORDS.has(w)
+  );
+}
+
+// Cosine similarity of word-frequency vectors, in [0, 1].
+export function textSimilarity(a: string, b: string): number {
+  const wa = contentWords(a);
+  const wb = contentWords(b);
+  if (wa.length === 0 && wb.length === 0) return 1;
+  if (wa.length === 0 || wb.length === 0) return 0;
+
+  const freq = (words: string[]) => {
+    const counts = new Map<string, number>();
+    for (const w of words) counts.set(w, (counts.get(w) ?? 0) + 1);
+    return counts;
+  };
+  const fa = freq(wa);
+  const fb = freq(wb);
+
+  let dot = 0;
+  fa.forEach((n, w) => {
+    dot += n * (fb.get(w) ?? 0);
+  });
+  const norm = (f: Map<string, number>) =>
+    Math.sqrt(Array.from(f.values()).reduce((sum, n) => sum + n * n, 0));
+  return dot / (norm(fa) * norm(fb));
+}
+
+export function truncate(text: string, max: number): string {
+  if (text.length <= max) return text;
+  return `${text.slice(0, max).replace(/\s+\S*$/, "")} ...`;
+}
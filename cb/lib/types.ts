@@ -0,0 +1,314 @@
+/* -------------------------------------------------------------------------- */
+/*                          INTERFACES / DATA MODELS                          */
+/* -------------------------------------------------------------------------- */
+
+// Shared between the dashboard (client) and the API routes (server).
+
+export type RiskLevel = "Low" | "Medium" | "High";
+
+// How a clause differs between the supplier contract and the baseline.
+export type ClauseChange = "modified" | "missing" | "added" | "moved";
+
+// Where a deviation's text sits in one of the source documents.
+export interface DocumentAnchor {
+  clauseId: string; // Clause.id in that document's extracted clauses
+  anchor: string; // ClauseParagraph.anchor of the clause's first paragraph
+  paragraphIndex: number; // ClauseParagraph.paragraphIndex of that paragraph
+}
+
+// Reviewer decision on a deviation. "accepted" keeps the supplier wording as an
+// approved exception, "rejected" reverts to the baseline, "countered" proposes
+// alternative language.
+export type ReviewStatus = "open" | "accepted" | "rejected" | "countered";
+
+export interface ReviewComment {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: string; // ISO timestamp
+  parentId?: string; // comment this one replies to
+}
+
+export interface DeviationReview {
+  status: ReviewStatus;
+  assignee: string | null;
+  comments: ReviewComment[]; // oldest first
+  updatedAt: string; // ISO timestamp
+}
+
+// Which playbook position a supplier clause matched.
+export type PlaybookPositionKind = "preferred" | "fallback" | "unacceptable";
+
+export interface PlaybookMatch {
+  positionId: string;
+  kind: PlaybookPositionKind;
+  label: string;
+  playbookVersion: string;
+}
+
+// Which analysis provider wrote a generated row's summary, score and
+// recommendation. Rows from a "rules" provider are re-scored whenever the risk
+// rules change; rows from a "model" provider keep the score the model gave.
+export interface AnalysisProvenance {
+  providerId: string; // AnalysisProvider.id, e.g. "local-rules"
+  kind: "rules" | "model";
+  version: string; // provider version
+  model?: string; // model name, for model providers
+}
+
+export interface DeviationRow {
+  id?: string; // stable within a run; absent on rows stored before reviews
+  clause: string;
+  baseline: string;
+  supplier: string;
+  deviation: string;
+  riskLevel: RiskLevel;
+  recommendation: string;
+  score: number; // clause-level risk score used for distribution bars
+  change?: ClauseChange; // set on rows generated by the comparison engine
+  similarity?: number; // 0-1 body similarity of the aligned clauses
+  category?: string; // risk category from the scoring rules
+  rulesVersion?: string; // version of the scoring rules that set score/riskLevel
+  playbook?: PlaybookMatch; // set when the supplier clause matched a playbook position
+  provider?: AnalysisProvenance; // absent on hand-entered rows and rows stored before providers
+  baselineAnchor?: DocumentAnchor; // absent when the clause is missing from the baseline
+  supplierAnchor?: DocumentAnchor; // absent when the clause is missing from the supplier
+  review?: DeviationReview; // absent until someone reviews the row
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                USERS + ROLES                               */
+/* -------------------------------------------------------------------------- */
+
+// "submitter" uploads supplier contracts and sees only their own projects,
+// "legal" reviews every project and maintains baselines, "admin" also manages
+// users.
+export type Role = "submitter" | "legal" | "admin";
+
+// A user as the API returns it; credentials never leave the server.
+export interface UserAccount {
+  username: string; // matches ProjectRow.username on the projects they submit
+  displayName: string;
+  role: Role;
+  createdAt: string; // ISO timestamp
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  SUPPLIERS                                 */
+/* -------------------------------------------------------------------------- */
+
+// A counterparty whose contracts are tracked as projects.
+export interface Supplier {
+  id: string;
+  name: string; // unique, case-insensitively
+  createdAt: string; // ISO timestamp
+  createdBy: string; // username
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  AUDIT LOG                                 */
+/* -------------------------------------------------------------------------- */
+
+export type AuditAction =
+  | "document.view"
+  | "risk-summary.view"
+  | "report.export"
+  | "counter-proposal.export"
+  | "deviation.update"
+  | "review.decision"
+  | "project.create"
+  | "project.analyze"
+  | "iteration.create"
+  | "project.delete"
+  | "audit.export";
+
+export interface AuditChange {
+  field: string; // e.g. "riskLevel", "score", "recommendation", "status"
+  before: string | number | null;
+  after: string | number | null;
+}
+
+// One line of the append-only audit log.
+export interface AuditEntry {
+  id: string;
+  at: string; // ISO timestamp
+  username: string;
+  displayName: string;
+  role: Role;
+  action: AuditAction;
+  projectId?: string;
+  documentId?: string;
+  deviationId?: string;
+  clause?: string;
+  detail?: string; // e.g. the document title or export format
+  changes?: AuditChange[];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              BASELINE LIBRARY                              */
+/* -------------------------------------------------------------------------- */
+
+export type ContractType = "nda" | "oc" | "model" | "msa" | "dpa" | "other";
+
+// One published revision of a baseline template. The document it points at is
+// never replaced, so a run pinned to this version can always be re-analysed.
+export interface BaselineVersion {
+  id: string;
+  version: string; // label chosen by legal, e.g. "2.1"; unique within a template
+  effectiveDate: string; // YYYY-MM-DD the version becomes the standard
+  changeLog: string; // what changed compared with the previous version
+  documentId: string; // document registry id of the DOCX
+  documentTitle: string;
+  createdAt: string; // ISO timestamp
+}
+
+export interface BaselineTemplate {
+  id: string;
+  name: string; // e.g. "TD Baseline NDA"
+  contractType: ContractType;
+  description: string;
+  createdAt: string; // ISO timestamp
+  versions: BaselineVersion[]; // oldest first
+}
+
+// The exact library version a run was compared against, copied onto the run so
+// it still reads correctly after the template moves on.
+export interface BaselinePin {
+  templateId: string;
+  templateName: string;
+  contractType: ContractType;
+  versionId: string;
+  version: string;
+  effectiveDate: string;
+}
+
+// One analysis run of a project: a supplier document version compared against
+// a baseline, with the deviations and scores that comparison produced.
+export interface IterationRun {
+  id: string;
+  number: number; // 1-based, in creation order
+  createdAt: string; // ISO timestamp
+  supplierDocTitle: string;
+  baselineDocTitle: string;
+  supplierDocUrl: string;
+  baselineDocUrl: string;
+  deviations: DeviationRow[];
+  riskLevel: RiskLevel;
+  totalWeightedScore: number;
+  rulesVersion?: string;
+  baseline?: BaselinePin; // absent when the baseline was uploaded outside the library
+}
+
+// The top-level document, deviation and risk fields always mirror the latest
+// entry of `iterations`.
+export interface ProjectRow {
+  id: string;
+  username: string;
+  projectName: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  riskLevel: RiskLevel;
+  totalWeightedScore: number;
+  supplierDocTitle: string;
+  baselineDocTitle: string;
+  supplierDocUrl: string; // backend API endpoint returning DOCX bytes
+  baselineDocUrl: string; // backend API endpoint returning DOCX bytes
+  deviations: DeviationRow[];
+  rulesVersion?: string; // scoring rules version behind riskLevel/totalWeightedScore
+  iterations?: IterationRun[]; // oldest first; absent on projects created before history
+  baseline?: BaselinePin; // library version behind baselineDocUrl, if any
+  supplierId?: string; // Supplier.id; absent on projects not yet linked to one
+}
+
+// Fields a client may send when creating or updating a project. Risk fields
+// are always computed from the deviations by the scoring rules; the baseline
+// pin is only ever set from the library.
+export type ProjectInput = Omit<
+  ProjectRow,
+  | "id"
+  | "createdAt"
+  | "updatedAt"
+  | "riskLevel"
+  | "totalWeightedScore"
+  | "rulesVersion"
+  | "iterations"
+>;
+
+// What a new iteration needs: the documents to compare and the resulting rows.
+export type IterationInput = Pick<
+  IterationRun,
+  | "supplierDocTitle"
+  | "baselineDocTitle"
+  | "supplierDocUrl"
+  | "baselineDocUrl"
+  | "deviations"
+  | "baseline"
+>;
+
+// Documents for a new iteration. The baseline is a library template version,
+// a stored document, or (with neither) whatever the latest iteration used.
+export interface IterationDocuments {
+  supplierDocumentId: string;
+  baselineDocumentId?: string;
+  baselineTemplateId?: string;
+  baselineVersionId?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                ANALYSIS JOBS                               */
+/* -------------------------------------------------------------------------- */
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+// Stages of one analysis, in the order they run.
+export type JobStageName = "extract" | "align" | "analyze" | "save";
+
+export interface JobStage {
+  name: JobStageName;
+  status: "pending" | "running" | "done" | "failed";
+  done: number; // steps finished, e.g. clauses analysed
+  total: number; // 0 until the stage knows how many steps it has
+}
+
+// What a job does, fixed when it is submitted: create a project from its
+// analysed documents, re-analyse a project, or add an iteration to one.
+export type AnalysisJobRequest =
+  | { kind: "project"; project: ProjectInput }
+  | { kind: "analyze"; projectId: string }
+  | { kind: "iteration"; projectId: string; documents: IterationDocuments };
+
+export interface AnalysisJob {
+  id: string;
+  request: AnalysisJobRequest;
+  projectName: string;
+  projectId?: string; // the project analysed; set on "project" jobs once it is saved
+  submittedBy: string; // username
+  status: JobStatus;
+  stages: JobStage[];
+  attempts: number; // runs started, counting retries
+  error?: string; // why the last attempt failed
+  cancelRequested?: boolean; // the runner stops at its next step
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  startedAt?: string; // of the current attempt
+  finishedAt?: string;
+}
+
+// A paragraph of extracted contract text. `anchor` is stable for a given file
+// and is what deviations and highlights point at.
+export interface ClauseParagraph {
+  anchor: string; // "p<n>", n = running block index across the document
+  paragraphIndex: number; // index of the source <w:p>, or of the paragraph in PDF/DOC text
+  text: string;
+  page?: number; // 1-based page, PDFs only
+}
+
+// One clause of a contract as extracted from its DOCX, PDF or DOC.
+export interface Clause {
+  id: string; // "c<n>", n = position in the document
+  numbering: string | null; // "4", "4.2", ... when the heading is numbered
+  heading: string;
+  level: number; // 1 = top-level heading
+  body: string; // paragraph texts joined with blank lines
+  paragraphs: ClauseParagraph[];
+}
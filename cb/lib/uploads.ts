@@ -0,0 +1,40 @@
+import { documentContentTypes } from "./documentFormats";
+
+// Upload limits shared by the upload form (client) and /api/documents (server).
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // 10 MB
+
+export const ACCEPTED_UPLOAD_EXTENSIONS = [".docx", ".pdf", ".doc"] as const;
+
+// Browsers report Office files inconsistently, so a generic binary type is
+// accepted as well; the server detects the real format from the bytes.
+export const ACCEPTED_UPLOAD_TYPES = [
+  documentContentTypes.docx,
+  documentContentTypes.pdf,
+  documentContentTypes.doc,
+  "application/octet-stream",
+  "",
+] as const;
+
+// `accept` attribute for contract file inputs.
+export const UPLOAD_ACCEPT = [
+  ...ACCEPTED_UPLOAD_EXTENSIONS,
+  ...Object.values(documentContentTypes),
+].join(",");
+
+// Returns a user-facing reason the file cannot be uploaded, or null if it passes
+// the cheap checks (name, type, size).
+export function checkUploadFile(file: { name: string; size: number; type: string }): string | null {
+  const lower = file.name.toLowerCase();
+  if (!ACCEPTED_UPLOAD_EXTENSIONS.some((ext) => lower.endsWith(ext))) {
+    return `${file.name} is not a .docx, .pdf or .doc file`;
+  }
+  if (!(ACCEPTED_UPLOAD_TYPES as readonly string[]).includes(file.type)) {
+    return `${file.name} has unsupported type ${file.type}`;
+  }
+  if (file.size === 0) return `${file.name} is empty`;
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return `${file.name} is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`;
+  }
+  return null;
+}
@@ -0,0 +1,188 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+import { NotFoundError, ValidationError } from "./errors";
+import { jsonFile } from "./jsonStore";
+import { ROLES, sameUsername } from "./roles";
+import type { Role, UserAccount } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                           LOCAL USER ACCOUNTS                              */
+/* -------------------------------------------------------------------------- */
+
+interface StoredUser extends UserAccount {
+  passwordHash: string; // "scrypt$<salt hex>$<key hex>"
+}
+
+const KEY_LENGTH = 32;
+const MIN_PASSWORD_LENGTH = 8;
+
+function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const key = scryptSync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+function passwordMatches(password: string, stored: string): boolean {
+  const [scheme, salt, key] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+  const expected = Buffer.from(key, "hex");
+  const actual = scryptSync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Demo accounts for a fresh checkout: the seed project owners, one legal
+// reviewer and one admin. They share CONTRACTBUDDY_SEED_PASSWORD, which has no
+// default: a fresh data directory cannot be created without it, so no install
+// starts with a password anyone could guess.
+const SEED_CREATED_AT = "2025-11-01T00:00:00Z";
+const seedAccounts: UserAccount[] = [
+  ...["TAE7758", "WYATT12", "TAF7337"].map((username) => ({
+    username,
+    displayName: username,
+    role: "submitter" as const,
+    createdAt: SEED_CREATED_AT,
+  })),
+  { username: "legal", displayName: "Legal Reviewer", role: "legal", createdAt: SEED_CREATED_AT },
+  { username: "admin", displayName: "Administrator", role: "admin", createdAt: SEED_CREATED_AT },
+];
+
+// Hashed once per process; scrypt is deliberately slow.
+let seedUsers: StoredUser[] | null = null;
+function seed(): StoredUser[] {
+  const password = process.env.CONTRACTBUDDY_SEED_PASSWORD;
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(
+      `CONTRACTBUDDY_SEED_PASSWORD must be set (at least ${MIN_PASSWORD_LENGTH} characters) ` +
+        "to create the demo accounts"
+    );
+  }
+  seedUsers ??= seedAccounts.map((u) => ({ ...u, passwordHash: hashPassword(password) }));
+  return seedUsers;
+}
+
+const usersFile = jsonFile<StoredUser[]>("users.json", seed);
+
+function publicUser(user: StoredUser): UserAccount {
+  const { username, displayName, role, createdAt } = user;
+  return { username, displayName, role, createdAt };
+}
+
+export async function listUsers(): Promise<UserAccount[]> {
+  return (await usersFile.read()).map(publicUser);
+}
+
+export async function findUser(username: string): Promise<UserAccount | null> {
+  const user = (await usersFile.read()).find((u) => sameUsername(u.username, username));
+  return user ? publicUser(user) : null;
+}
+
+// The account behind a username/password pair, or null. Unknown usernames
+// still pay for a hash so response times do not reveal which names exist.
+export async function authenticate(
+  username: string,
+  password: string
+): Promise<UserAccount | null> {
+  const user = (await usersFile.read()).find((u) => sameUsername(u.username, username));
+  if (!user) {
+    hashPassword(password);
+    return null;
+  }
+  return passwordMatches(password, user.passwordHash) ? publicUser(user) : null;
+}
+
+export type UserInput = Pick<UserAccount, "username" | "displayName" | "role"> & {
+  password: string;
+};
+
+export type UserPatch = Partial<Pick<UserInput, "displayName" | "role" | "password">>;
+
+export async function createUser(input: UserInput): Promise<UserAccount> {
+  const user: StoredUser = {
+    username: input.username,
+    displayName: input.displayName,
+    role: input.role,
+    createdAt: new Date().toISOString(),
+    passwordHash: hashPassword(input.password),
+  };
+  return usersFile.update((users) => {
+    if (users.some((u) => sameUsername(u.username, input.username))) {
+      throw new ValidationError(`User ${input.username} already exists`);
+    }
+    return { next: [...users, user], result: publicUser(user) };
+  });
+}
+
+export async function updateUser(username: string, patch: UserPatch): Promise<UserAccount> {
+  const passwordHash = patch.password ? hashPassword(patch.password) : undefined;
+  return usersFile.update((users) => {
+    const idx = users.findIndex((u) => sameUsername(u.username, username));
+    if (idx === -1) throw new NotFoundError(`User ${username} not found`);
+
+    const current = users[idx];
+    const updated: StoredUser = {
+      ...current,
+      displayName: patch.displayName ?? current.displayName,
+      role: patch.role ?? current.role,
+      passwordHash: passwordHash ?? current.passwordHash,
+    };
+    const admins = users.filter((u, i) => (i === idx ? updated : u).role === "admin");
+    if (admins.length === 0) throw new ValidationError("At least one admin must remain");
+
+    const next = [...users];
+    next[idx] = updated;
+    return { next, result: publicUser(updated) };
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               INPUT VALIDATION                             */
+/* -------------------------------------------------------------------------- */
+
+function requireString(body: Record<string, unknown>, key: string): string {
+  const value = body[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new ValidationError(`"${key}" must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+function requireRole(body: Record<string, unknown>): Role {
+  if (!ROLES.includes(body.role as Role)) {
+    throw new ValidationError(`"role" must be one of ${ROLES.join(", ")}`);
+  }
+  return body.role as Role;
+}
+
+function requirePassword(body: Record<string, unknown>): string {
+  const value = body.password;
+  if (typeof value !== "string" || value.length < MIN_PASSWORD_LENGTH) {
+    throw new ValidationError(`"password" must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  return value;
+}
+
+// { username, displayName?, role, password }
+export function parseUserInput(body: Record<string, unknown>): UserInput {
+  const username = requireString(body, "username");
+  if (!/^[A-Za-z0-9._-]+$/.test(username)) {
+    throw new ValidationError(`"username" may only contain letters, digits, ".", "_" and "-"`);
+  }
+  const displayName = typeof body.displayName === "string" ? body.displayName.trim() : "";
+  return {
+    username,
+    displayName: displayName || username,
+    role: requireRole(body),
+    password: requirePassword(body),
+  };
+}
+
+// { displayName?, role?, password? }, at least one of them.
+export function parseUserPatch(body: Record<string, unknown>): UserPatch {
+  const patch: UserPatch = {};
+  if ("displayName" in body) patch.displayName = requireString(body, "displayName");
+  if ("role" in body) patch.role = requireRole(body);
+  if ("password" in body) patch.password = requirePassword(body);
+  if (Object.keys(patch).length === 0) {
+    throw new ValidationError(`Provide "displayName", "role" and/or "password"`);
+  }
+  return patch;
+}
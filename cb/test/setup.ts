@@ -0,0 +1,12 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll } from "vitest";
+
+// Each test file gets its own empty data directory, so stores start from their
+// seeds and nothing is written to the checkout's data/.
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "contractbuddy-test-"));
+process.env.CONTRACTBUDDY_DATA_DIR = dataDir;
+process.env.CONTRACTBUDDY_SEED_PASSWORD ??= "test-seed-password";
+
+afterAll(() => fs.rmSync(dataDir, { recursive: true, force: true }));